@@ -0,0 +1,51 @@
+import { Client } from 'discord.js';
+import { OwnerNotifier } from '../services/notify/OwnerNotifier';
+import { Logger } from '../utils/logger';
+
+/**
+ * Notifies owners by Discord direct message.
+ */
+export class DiscordOwnerNotifier implements OwnerNotifier {
+  private readonly client: Client;
+  private readonly ownerIds: readonly string[];
+  private readonly logger: Logger;
+
+  /**
+   * @param client - Logged-in Discord client
+   * @param ownerIds - Owner user IDs to DM
+   * @param logger - Logger for per-owner delivery failures
+   */
+  constructor(client: Client, ownerIds: readonly string[], logger: Logger) {
+    this.client = client;
+    this.ownerIds = ownerIds;
+    this.logger = logger;
+  }
+
+  /**
+   * DM every owner. Owners with DMs closed are logged and skipped.
+   * 
+   * @param text - Notice text
+   * @throws Error if no owner could be reached
+   */
+  public async notifyOwners(text: string): Promise<void> {
+    const results = await Promise.allSettled(
+      this.ownerIds.map(async id => {
+        const user = await this.client.users.fetch(id);
+        await user.send(text);
+      })
+    );
+
+    for (const [index, result] of results.entries()) {
+      if (result.status === 'rejected') {
+        this.logger.warn('Failed to DM owner', {
+          ownerId: this.ownerIds[index],
+          error: (result.reason as Error).message,
+        });
+      }
+    }
+
+    if (results.every(result => result.status === 'rejected')) {
+      throw new Error('No owner could be notified by DM');
+    }
+  }
+}
@@ -0,0 +1,101 @@
+import { describe, expect, it } from '@jest/globals';
+import { Collection, Message } from 'discord.js';
+import { DiscordRequestAdapter } from './DiscordRequestAdapter';
+
+const BOT_ID = '900000000000000000';
+const GUILD_ID = '100000000000000000';
+
+/**
+ * Earlier channel messages, newest first like the Discord API returns them.
+ */
+const HISTORY = new Collection([
+  ['b', { author: { id: BOT_ID }, mentions: { repliedUser: null }, content: 'second', createdTimestamp: 2, createdAt: new Date(2) }],
+  ['a', { author: { id: '500000000000000000' }, mentions: { repliedUser: null }, content: 'first', createdTimestamp: 1, createdAt: new Date(1) }],
+]);
+
+/**
+ * Minimal stand-in for a discord.js Message, recording transport calls.
+ */
+function createMessage(inGuild = true): { message: Message; calls: string[] } {
+  const calls: string[] = [];
+  const roles = new Collection([
+    [GUILD_ID, { id: GUILD_ID }],
+    ['200000000000000000', { id: '200000000000000000' }],
+  ]);
+  const message = {
+    id: '300000000000000000',
+    channelId: '400000000000000000',
+    guildId: inGuild ? GUILD_ID : null,
+    inGuild: () => inGuild,
+    author: { id: '500000000000000000', username: 'user', discriminator: '0', bot: false },
+    member: inGuild ? { displayName: 'Nick', roles: { cache: roles } } : null,
+    content: 'hello',
+    attachments: new Collection(),
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    reference: { messageId: '600000000000000000' },
+    client: { user: { id: BOT_ID } },
+    fetchReference: async () => ({ author: { username: 'other' }, content: 'earlier' }),
+    reply: async () => {
+      calls.push('reply');
+      return { id: 'reply' };
+    },
+    channel: {
+      isSendable: () => true,
+      send: async () => {
+        calls.push('send');
+        return { id: 'send' };
+      },
+      messages: {
+        fetch: async () => {
+          calls.push('fetchMessages');
+          return HISTORY;
+        },
+      },
+    },
+  };
+  return { message: message as unknown as Message, calls };
+}
+
+describe('DiscordRequestAdapter', () => {
+  it('maps guild messages without the @everyone role', () => {
+    const request = DiscordRequestAdapter.fromMessage(createMessage().message);
+
+    expect(request.source).toBe('discord');
+    expect(request.author.displayName).toBe('Nick');
+    expect(request.author.roleIds).toEqual(['200000000000000000']);
+    expect(request.channel).toEqual({ id: '400000000000000000', guildId: GUILD_ID, isDirectMessage: false });
+  });
+
+  it('maps direct messages', () => {
+    const request = DiscordRequestAdapter.fromMessage(createMessage(false).message);
+
+    expect(request.author.displayName).toBe('user');
+    expect(request.author.roleIds).toEqual([]);
+    expect(request.channel).toEqual({ id: '400000000000000000', guildId: undefined, isDirectMessage: true });
+  });
+
+  it('fetches the referenced message and sends through the message', async () => {
+    const { message, calls } = createMessage();
+    const request = DiscordRequestAdapter.fromMessage(message);
+
+    expect(await request.fetchReferencedMessage?.()).toEqual({ authorUsername: 'other', content: 'earlier' });
+    expect(await request.reply('one')).toEqual({ id: 'reply' });
+    expect(await request.send('two')).toEqual({ id: 'send' });
+    expect(calls).toEqual(['reply', 'send']);
+  });
+
+  it('fetches recent messages once per limit, oldest first', async () => {
+    const { message, calls } = createMessage();
+    const request = DiscordRequestAdapter.fromMessage(message);
+
+    await request.fetchRecentMessages?.(20);
+    const recent = await request.fetchRecentMessages?.(20);
+
+    expect(recent?.map(prior => [prior.content, prior.isSelf])).toEqual([['first', false], ['second', true]]);
+    expect(calls).toEqual(['fetchMessages']);
+  });
+
+  it('does not retry ordinary errors', () => {
+    expect(DiscordRequestAdapter.isRetryableError(new Error('bad', { cause: new Error('worse') }))).toBe(false);
+  });
+});
@@ -0,0 +1,146 @@
+import { DiscordAPIError, HTTPError, Message, RateLimitError } from 'discord.js';
+import { InboundRequest, PriorMessage, ReferencedMessage } from '../types/request.types';
+
+/**
+ * Adapts discord.js messages to transport-agnostic InboundRequests.
+ * The only place where the pipeline's input touches discord.js types.
+ */
+export class DiscordRequestAdapter {
+  /**
+   * Source identifier for Discord requests.
+   */
+  public static readonly SOURCE = 'discord';
+
+  /**
+   * Decide whether a Discord send failure is transient and worth retrying.
+   * 
+   * @param error - Error thrown while replying (possibly wrapped)
+   * @returns True for rate limits and Discord server errors
+   */
+  public static isRetryableError(error: unknown): boolean {
+    let current: unknown = error;
+
+    while (current instanceof Error) {
+      if (current instanceof RateLimitError) {
+        return true;
+      }
+
+      if (current instanceof DiscordAPIError || current instanceof HTTPError) {
+        return current.status === 429 || current.status >= 500;
+      }
+
+      current = current.cause;
+    }
+
+    return false;
+  }
+
+  /**
+   * Fetch the message a Discord message replies to.
+   * 
+   * @param message - Discord message
+   * @returns Referenced message, or undefined if the message is not a reply
+   */
+  private static async fetchReference(message: Message): Promise<ReferencedMessage | undefined> {
+    if (!message.reference?.messageId) {
+      return undefined;
+    }
+    const referenced = await message.fetchReference();
+    return {
+      authorUsername: referenced.author.username,
+      content: referenced.content,
+    };
+  }
+
+  /**
+   * Fetch the messages sent in a message's channel before it.
+   * 
+   * @param message - Discord message
+   * @param limit - Maximum number of messages (Discord allows at most 100)
+   * @returns Earlier messages, oldest first
+   */
+  private static async fetchRecent(message: Message, limit: number): Promise<PriorMessage[]> {
+    const fetched = await message.channel.messages.fetch({ before: message.id, limit: Math.min(limit, 100) });
+    return [...fetched.values()]
+      .sort((a, b) => a.createdTimestamp - b.createdTimestamp)
+      .map(prior => ({
+        authorId: prior.author.id,
+        isSelf: prior.author.id === message.client.user.id,
+        repliedToUserId: prior.mentions.repliedUser?.id,
+        content: prior.content,
+        sentAt: prior.createdAt,
+      }));
+  }
+
+  /**
+   * Convert a Discord message into an inbound request.
+   * 
+   * @param message - Discord message
+   * @returns Immutable inbound request bound to the message
+   */
+  public static fromMessage(message: Message): InboundRequest {
+    const author = message.author;
+
+    // Fetched at most once per request; stages and hooks share the result
+    let referenced: Promise<ReferencedMessage | undefined> | undefined;
+    const recent = new Map<number, Promise<PriorMessage[]>>();
+
+    return Object.freeze({
+      id: message.id,
+      source: DiscordRequestAdapter.SOURCE,
+      author: Object.freeze({
+        id: author.id,
+        username: author.username,
+        discriminator: author.discriminator,
+        displayName: message.member?.displayName ?? author.username,
+        isBot: author.bot,
+        // The @everyone role (same ID as the guild) carries no meaning for trust
+        roleIds: message.member
+          ? message.member.roles.cache.filter(role => role.id !== message.guildId).map(role => role.id)
+          : [],
+      }),
+      channel: Object.freeze({
+        id: message.channelId,
+        guildId: message.guildId ?? undefined,
+        guildName: message.guild?.name,
+        isDirectMessage: !message.inGuild(),
+      }),
+      content: message.content,
+      attachments: message.attachments.map(attachment => ({
+        id: attachment.id,
+        name: attachment.name,
+        url: attachment.url,
+        contentType: attachment.contentType ?? undefined,
+        size: attachment.size,
+      })),
+      receivedAt: message.createdAt,
+
+      reply: async (content: string) => {
+        const sent = await message.reply(content);
+        return { id: sent.id };
+      },
+
+      send: async (content: string) => {
+        // Fall back to a reply where the channel cannot be sent to directly
+        const sent = message.channel.isSendable()
+          ? await message.channel.send(content)
+          : await message.reply(content);
+        return { id: sent.id };
+      },
+
+      fetchReferencedMessage: () => {
+        referenced ??= DiscordRequestAdapter.fetchReference(message);
+        return referenced;
+      },
+
+      fetchRecentMessages: (limit: number) => {
+        let fetched = recent.get(limit);
+        if (!fetched) {
+          fetched = DiscordRequestAdapter.fetchRecent(message, limit);
+          recent.set(limit, fetched);
+        }
+        return fetched;
+      },
+    });
+  }
+}
@@ -0,0 +1,111 @@
+import { AdminCommand } from './AdminCommand';
+import { ACL_LISTS, ACL_SUBJECTS, AccessControlList } from '../core/access/AccessControlList';
+import { IdentityResolver } from '../core/identity/IdentityResolver';
+import { AclList, AclSubject } from '../types/acl.types';
+import { InboundRequest } from '../types/request.types';
+
+/**
+ * Usage text shown on malformed invocations.
+ */
+const USAGE =
+  'Usage: acl allow|block <user|role|channel|guild> <id> | ' +
+  'acl remove allow|block <user|role|channel|guild> <id> | acl list';
+
+/**
+ * `!ace acl ...` - manage the access control list (owner-only).
+ *
+ * - `allow <subject> <id>` adds an allowlist entry
+ * - `block <subject> <id>` adds a blocklist entry
+ * - `remove allow|block <subject> <id>` removes an entry
+ * - `list` shows all entries
+ *
+ * IDs may be given raw or as mentions (`<@user>`, `<@&role>`, `<#channel>`).
+ */
+export class AclCommand implements AdminCommand {
+  public readonly name = 'acl';
+  public readonly usage = 'allow|block <subject> <id> | remove allow|block <subject> <id> | list';
+  public readonly description = 'Manage the user/role/channel/guild allowlist and blocklist';
+
+  private readonly acl: AccessControlList;
+  private readonly identityResolver: IdentityResolver;
+
+  constructor(acl: AccessControlList, identityResolver: IdentityResolver) {
+    this.acl = acl;
+    this.identityResolver = identityResolver;
+  }
+
+  /**
+   * Run an acl subcommand.
+   *
+   * @param args - Subcommand and its arguments
+   * @param request - Command request (supplies the editing owner)
+   * @returns Confirmation or listing
+   * @throws Error with usage text on malformed input
+   */
+  public async execute(args: string, request: InboundRequest): Promise<string> {
+    const parts = args.split(/\s+/).filter(part => part.length > 0).map(part => part.toLowerCase());
+    const [subcommand, ...rest] = parts;
+
+    if (subcommand === 'list' && rest.length === 0) {
+      return this.list();
+    }
+
+    if (subcommand === 'remove' && rest.length === 3) {
+      const [list, subject, id] = rest as [string, string, string];
+      const entry = this.parseEntry(list, subject, id);
+      return (await this.acl.remove(entry.list, entry.subject, entry.id))
+        ? `Removed ${entry.subject} ${entry.id} from the ${entry.list}list.`
+        : `${entry.subject} ${entry.id} is not on the ${entry.list}list.`;
+    }
+
+    if (subcommand !== undefined && rest.length === 2) {
+      const [subject, id] = rest as [string, string];
+      const entry = this.parseEntry(subcommand, subject, id);
+      const addedBy = this.identityResolver.resolveIdentity(request).id;
+      return (await this.acl.add(entry.list, entry.subject, entry.id, addedBy))
+        ? `Added ${entry.subject} ${entry.id} to the ${entry.list}list.`
+        : `${entry.subject} ${entry.id} is already on the ${entry.list}list.`;
+    }
+
+    throw new Error(USAGE);
+  }
+
+  /**
+   * Validate list, subject and ID arguments.
+   *
+   * @param list - List name
+   * @param subject - Subject name
+   * @param id - Raw ID or mention
+   * @returns Parsed entry key
+   * @throws Error with usage text if the list or subject is unknown
+   */
+  private parseEntry(list: string, subject: string, id: string): { list: AclList; subject: AclSubject; id: string } {
+    if (!ACL_LISTS.includes(list as AclList) || !ACL_SUBJECTS.includes(subject as AclSubject)) {
+      throw new Error(USAGE);
+    }
+
+    const mention = /^<(?:@[!&]?|#)(\d+)>$/.exec(id);
+    return { list: list as AclList, subject: subject as AclSubject, id: mention?.[1] ?? id };
+  }
+
+  /**
+   * Format all entries.
+   *
+   * @returns Listing text
+   */
+  private list(): string {
+    const entries = this.acl.list();
+    if (entries.length === 0) {
+      return 'ACL is empty.';
+    }
+
+    const lines = ['ACL entries:'];
+    for (const entry of entries) {
+      lines.push(
+        `- ${entry.list} ${entry.subject} ${entry.id} ` +
+        `(added by ${entry.addedBy}, ${entry.addedAt.toISOString()})`
+      );
+    }
+    return lines.join('\n');
+  }
+}
@@ -0,0 +1,41 @@
+import { DelegateScope } from '../types/delegate.types';
+import { InboundRequest } from '../types/request.types';
+
+/**
+ * An administrative command, invoked as `!ace <name> <args>`.
+ * 
+ * Commands only produce text; AdminCommandRouter handles authorization,
+ * parsing, error reporting and delivery.
+ */
+export interface AdminCommand {
+  /**
+   * Command name (lowercase, single word).
+   */
+  readonly name: string;
+
+  /**
+   * Argument synopsis shown in help, e.g. '<message>'.
+   */
+  readonly usage: string;
+
+  /**
+   * One-line description shown in help.
+   */
+  readonly description: string;
+
+  /**
+   * Delegate scope that also permits the command.
+   * Undefined means owner-only.
+   */
+  readonly scope?: DelegateScope;
+
+  /**
+   * Run the command.
+   * 
+   * @param args - Raw text following the command name (trimmed)
+   * @param request - Request that invoked the command
+   * @returns Response text to send back to the invoker
+   * @throws Error with a user-facing message if the command cannot run
+   */
+  execute(args: string, request: InboundRequest): Promise<string>;
+}
@@ -0,0 +1,227 @@
+import { AdminCommand } from './AdminCommand';
+import { IdentityResolver } from '../core/identity/IdentityResolver';
+import { OwnerValidator } from '../core/identity/OwnerValidator';
+import { UserIdentity } from '../types/persona.types';
+import { InboundRequest } from '../types/request.types';
+import { Logger } from '../utils/logger';
+import { chunkMessage, DISCORD_MESSAGE_LIMIT } from '../utils/messageChunker';
+
+/**
+ * Prefix that marks a message as an admin command.
+ */
+export const ADMIN_COMMAND_PREFIX = '!ace';
+
+/**
+ * Parsed admin command invocation.
+ */
+interface ParsedCommand {
+  name: string;
+  args: string;
+}
+
+/**
+ * Routes admin commands (`!ace <command> [args]`).
+ *
+ * Security:
+ * - Owners (OwnerValidator) may run every command
+ * - Delegates may run only commands whose scope they were granted,
+ *   and see only those commands in help
+ * - Unauthorized attempts are logged and dropped without a reply,
+ *   and are never forwarded to the AI pipeline
+ *
+ * NOT Responsible For:
+ * - Command behavior (each AdminCommand's job)
+ * - Normal message processing (MessageHandler / Pipeline)
+ */
+export class AdminCommandRouter {
+  private readonly identityResolver: IdentityResolver;
+  private readonly ownerValidator: OwnerValidator;
+  private readonly logger: Logger;
+  private readonly commands: Map<string, AdminCommand> = new Map();
+
+  constructor(identityResolver: IdentityResolver, ownerValidator: OwnerValidator, logger: Logger) {
+    this.identityResolver = identityResolver;
+    this.ownerValidator = ownerValidator;
+    this.logger = logger;
+  }
+
+  /**
+   * Register a command.
+   *
+   * @param command - Command to register
+   * @returns This router for chaining
+   * @throws Error if a command with the same name is already registered
+   */
+  public register(command: AdminCommand): this {
+    const name = command.name.toLowerCase();
+    if (name === 'help' || this.commands.has(name)) {
+      throw new Error(`Admin command '${name}' is already registered`);
+    }
+
+    this.commands.set(name, command);
+    return this;
+  }
+
+  /**
+   * Split message content into a command name and its arguments.
+   *
+   * @param content - Raw message content
+   * @returns Parsed command, or null if the content is not a command
+   */
+  private parse(content: string): ParsedCommand | null {
+    const trimmed = content.trim();
+    const match = /^(\S+)(?:\s+(\S+))?([\s\S]*)$/.exec(trimmed);
+
+    if (!match || match[1]?.toLowerCase() !== ADMIN_COMMAND_PREFIX) {
+      return null;
+    }
+
+    return {
+      name: (match[2] ?? 'help').toLowerCase(),
+      args: (match[3] ?? '').trim(),
+    };
+  }
+
+  /**
+   * Handle a request if it is an admin command.
+   *
+   * @param request - Inbound request
+   * @returns True if the request was a command (handled or dropped),
+   *          false if it should be processed normally
+   */
+  public async handle(request: InboundRequest): Promise<boolean> {
+    const parsed = this.parse(request.content);
+    if (!parsed) {
+      return false;
+    }
+
+    const identity = this.identityResolver.resolveIdentity(request);
+    if (!this.isAuthorized(identity, parsed.name)) {
+      this.logger.warn('Unauthorized admin command attempt', {
+        requestId: request.id,
+        userId: identity.id,
+        username: identity.username,
+        command: parsed.name,
+      });
+      return true;
+    }
+
+    this.logger.info(`Admin command: ${parsed.name}`, {
+      requestId: request.id,
+      userId: identity.id,
+    });
+
+    let response: string;
+    try {
+      response = await this.run(parsed, identity, request);
+    } catch (error) {
+      this.logger.error(`Admin command failed: ${parsed.name}`, {
+        requestId: request.id,
+        error: (error as Error).message,
+      });
+      response = `Command '${parsed.name}' failed: ${(error as Error).message}`;
+    }
+
+    await this.deliver(request, response);
+    return true;
+  }
+
+  /**
+   * Decide whether a user may invoke a command name.
+   * Help and unknown names are open to anyone holding a delegation,
+   * so delegates can discover what they may run.
+   *
+   * @param identity - Invoking user
+   * @param name - Command name
+   * @returns True if the invocation may proceed
+   */
+  private isAuthorized(identity: UserIdentity, name: string): boolean {
+    if (this.ownerValidator.isOwner(identity)) {
+      return true;
+    }
+
+    if (!this.ownerValidator.isDelegate(identity)) {
+      return false;
+    }
+
+    const command = this.commands.get(name);
+    return !command || this.canRun(identity, command);
+  }
+
+  /**
+   * Check whether a user may run a specific command.
+   *
+   * @param identity - Invoking user
+   * @param command - Command to check
+   * @returns True for owners, or delegates granted the command's scope
+   */
+  private canRun(identity: UserIdentity, command: AdminCommand): boolean {
+    if (command.scope === undefined) {
+      return this.ownerValidator.isOwner(identity);
+    }
+    return this.ownerValidator.hasScope(identity, command.scope);
+  }
+
+  /**
+   * Dispatch a parsed command.
+   *
+   * @param parsed - Parsed command
+   * @param identity - Invoking user (already authorized)
+   * @param request - Inbound request
+   * @returns Response text
+   */
+  private async run(parsed: ParsedCommand, identity: UserIdentity, request: InboundRequest): Promise<string> {
+    if (parsed.name === 'help') {
+      return this.formatHelp(identity);
+    }
+
+    const command = this.commands.get(parsed.name);
+    if (!command) {
+      return `Unknown command '${parsed.name}'. Try \`${ADMIN_COMMAND_PREFIX} help\`.`;
+    }
+
+    return command.execute(parsed.args, request);
+  }
+
+  /**
+   * List the registered commands a user may run.
+   *
+   * @param identity - User asking for help
+   * @returns Help text
+   */
+  private formatHelp(identity: UserIdentity): string {
+    const lines = ['Admin commands:'];
+    for (const command of this.commands.values()) {
+      if (!this.canRun(identity, command)) {
+        continue;
+      }
+      const invocation = `${ADMIN_COMMAND_PREFIX} ${command.name} ${command.usage}`.trimEnd();
+      lines.push(`\`${invocation}\` - ${command.description}`);
+    }
+    lines.push(`\`${ADMIN_COMMAND_PREFIX} help\` - Show this list`);
+    return lines.join('\n');
+  }
+
+  /**
+   * Send a command response, split to fit message limits.
+   *
+   * @param request - Request to reply to
+   * @param response - Response text
+   */
+  private async deliver(request: InboundRequest, response: string): Promise<void> {
+    try {
+      const [first, ...rest] = chunkMessage(response, DISCORD_MESSAGE_LIMIT);
+      if (first !== undefined) {
+        await request.reply(first);
+      }
+      for (const chunk of rest) {
+        await request.send(chunk);
+      }
+    } catch (error) {
+      this.logger.error('Failed to send admin command response', {
+        requestId: request.id,
+        error: (error as Error).message,
+      });
+    }
+  }
+}
@@ -0,0 +1,186 @@
+import { AdminCommand } from './AdminCommand';
+import { AuditLog } from '../core/audit/AuditLog';
+import { AuditEntry, AuditQuery } from '../types/audit.types';
+
+/**
+ * Usage text shown on malformed invocations.
+ */
+const USAGE =
+  'Usage: audit search [user <id>] [channel <id>] [since <date>] [until <date>] [limit <n>] | audit verify';
+
+/**
+ * Date-only arguments (YYYY-MM-DD), interpreted in UTC.
+ */
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * `!ace audit ...` - search and verify the audit log (owner-only).
+ *
+ * - `search` filters by user, channel and date range; dates are ISO
+ *   timestamps or YYYY-MM-DD (an `until` date includes that whole day)
+ * - `verify` checks the hash chain and reports the first broken line
+ *
+ * IDs may be given raw or as mentions (`<@user>`, `<#channel>`).
+ */
+export class AuditCommand implements AdminCommand {
+  public readonly name = 'audit';
+  public readonly usage = 'search [user <id>] [channel <id>] [since <date>] [until <date>] [limit <n>] | verify';
+  public readonly description = 'Search the audit log or verify its hash chain';
+
+  private readonly auditLog: AuditLog;
+
+  constructor(auditLog: AuditLog) {
+    this.auditLog = auditLog;
+  }
+
+  /**
+   * Run an audit subcommand.
+   *
+   * @param args - Subcommand and its arguments
+   * @returns Matching entries or verification result
+   * @throws Error with usage text on malformed input
+   */
+  public async execute(args: string): Promise<string> {
+    const [subcommand, ...rest] = args.split(/\s+/).filter(part => part.length > 0);
+
+    if (subcommand === 'verify' && rest.length === 0) {
+      return this.verify();
+    }
+
+    if (subcommand === 'search') {
+      return this.search(this.parseQuery(rest));
+    }
+
+    throw new Error(USAGE);
+  }
+
+  /**
+   * Parse `key value` filter pairs.
+   *
+   * @param parts - Arguments after `search`
+   * @returns Audit query
+   * @throws Error with usage text on unknown keys, missing values or bad dates
+   */
+  private parseQuery(parts: string[]): AuditQuery {
+    if (parts.length % 2 !== 0) {
+      throw new Error(USAGE);
+    }
+
+    const query: AuditQuery = {};
+    for (let i = 0; i < parts.length; i += 2) {
+      const key = parts[i]?.toLowerCase();
+      const value = parts[i + 1] as string;
+
+      switch (key) {
+        case 'user':
+        case 'channel': {
+          const id = /^<(?:@!?|#)(\d+)>$/.exec(value)?.[1] ?? value;
+          if (key === 'user') {
+            query.userId = id;
+          } else {
+            query.channelId = id;
+          }
+          break;
+        }
+        case 'since':
+          query.since = this.parseDate(value, false);
+          break;
+        case 'until':
+          query.until = this.parseDate(value, true);
+          break;
+        case 'limit': {
+          const limit = Number(value);
+          if (!Number.isInteger(limit) || limit <= 0) {
+            throw new Error(`Invalid limit '${value}'. ${USAGE}`);
+          }
+          query.limit = limit;
+          break;
+        }
+        default:
+          throw new Error(USAGE);
+      }
+    }
+    return query;
+  }
+
+  /**
+   * Parse a date argument.
+   *
+   * @param value - ISO timestamp or YYYY-MM-DD
+   * @param endOfDay - For date-only values, move to the start of the next day
+   * @returns Parsed date
+   * @throws Error if the value is not a date
+   */
+  private parseDate(value: string, endOfDay: boolean): Date {
+    const time = Date.parse(value);
+    if (Number.isNaN(time)) {
+      throw new Error(`Invalid date '${value}'. Use YYYY-MM-DD or an ISO timestamp.`);
+    }
+    return new Date(endOfDay && DATE_ONLY_PATTERN.test(value) ? time + DAY_MS : time);
+  }
+
+  /**
+   * Run a search and format the results.
+   *
+   * @param query - Audit query
+   * @returns Listing text
+   */
+  private async search(query: AuditQuery): Promise<string> {
+    const entries = await this.auditLog.query(query);
+    if (entries.length === 0) {
+      return 'No matching audit entries.';
+    }
+
+    return [`Audit entries (${entries.length}, oldest first):`, ...entries.map(entry => this.formatEntry(entry))]
+      .join('\n');
+  }
+
+  /**
+   * Format one entry as a single line.
+   *
+   * @param entry - Audit entry
+   * @returns Summary line
+   */
+  private formatEntry(entry: AuditEntry): string {
+    const where = entry.channelId ? ` in ${entry.channelId}` : '';
+    return `#${entry.seq} ${entry.timestamp} ${entry.type} user ${entry.userId}${where}: ${this.describe(entry)}`;
+  }
+
+  /**
+   * Summarize an entry's data.
+   *
+   * @param entry - Audit entry
+   * @returns Short description
+   */
+  private describe(entry: AuditEntry): string {
+    switch (entry.type) {
+      case 'persona.selected':
+        return `${String(entry.data['persona'])} (${String(entry.data['reason'])})`;
+      case 'persona.error':
+        return String(entry.data['error']);
+      case 'anomaly.flagged': {
+        const flags = entry.data['flags'] as Array<{ kind: string }> | undefined;
+        return `flagged ${(flags ?? []).map(flag => flag.kind).join(', ')}`;
+      }
+      case 'access.denied':
+        return `denied (${String(entry.data['reason'])})`;
+    }
+  }
+
+  /**
+   * Verify the chain and format the result.
+   *
+   * @returns Verification text
+   */
+  private async verify(): Promise<string> {
+    const result = await this.auditLog.verify();
+    if (result.valid) {
+      return `Audit log intact: ${result.entries} entries verified.`;
+    }
+
+    const where = result.brokenAtLine !== undefined ? ` at line ${result.brokenAtLine}` : '';
+    return `Audit log TAMPERED${where}: ${result.reason} (${result.entries} entries verified before it).`;
+  }
+}
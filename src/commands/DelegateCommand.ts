@@ -0,0 +1,119 @@
+import { AdminCommand } from './AdminCommand';
+import { DelegateRegistry, parseDelegateScope } from '../core/identity/DelegateRegistry';
+import { IdentityResolver } from '../core/identity/IdentityResolver';
+import { OwnerValidator } from '../core/identity/OwnerValidator';
+import { DelegateScope } from '../types/delegate.types';
+import { InboundRequest } from '../types/request.types';
+
+/**
+ * Usage text shown on malformed invocations.
+ */
+const USAGE = 'Usage: delegate grant <user> <scope,...> | delegate revoke <user> | delegate list';
+
+/**
+ * `!ace delegate ...` - manage delegated trust (owner-only).
+ *
+ * - `grant <user> <scope,...>` grants or replaces a delegation
+ * - `revoke <user>` removes a delegation
+ * - `list` shows current delegations
+ *
+ * Users may be given as an ID or a mention. The command has no scope,
+ * so delegates can never grant or revoke delegations themselves.
+ */
+export class DelegateCommand implements AdminCommand {
+  public readonly name = 'delegate';
+  public readonly usage = 'grant <user> <scope,...> | revoke <user> | list';
+  public readonly description = 'Manage delegates and their scopes';
+
+  private readonly registry: DelegateRegistry;
+  private readonly identityResolver: IdentityResolver;
+  private readonly ownerValidator: OwnerValidator;
+
+  constructor(registry: DelegateRegistry, identityResolver: IdentityResolver, ownerValidator: OwnerValidator) {
+    this.registry = registry;
+    this.identityResolver = identityResolver;
+    this.ownerValidator = ownerValidator;
+  }
+
+  /**
+   * Run a delegate subcommand.
+   *
+   * @param args - Subcommand and its arguments
+   * @param request - Command request (supplies the granting owner)
+   * @returns Confirmation or listing
+   * @throws Error with usage text on malformed input
+   */
+  public async execute(args: string, request: InboundRequest): Promise<string> {
+    const [subcommand, user, scopes, ...extra] = args.split(/\s+/).filter(part => part.length > 0);
+
+    if (subcommand === 'list' && user === undefined) {
+      return this.list();
+    }
+
+    if (subcommand === 'grant' && user !== undefined && scopes !== undefined && extra.length === 0) {
+      return this.grant(this.parseUserId(user), scopes, request);
+    }
+
+    if (subcommand === 'revoke' && user !== undefined && scopes === undefined) {
+      const userId = this.parseUserId(user);
+      return (await this.registry.revoke(userId))
+        ? `Revoked delegation for ${userId}.`
+        : `${userId} is not a delegate.`;
+    }
+
+    throw new Error(USAGE);
+  }
+
+  /**
+   * Grant scopes to a user.
+   *
+   * @param userId - Delegate's user ID
+   * @param scopeList - Comma-separated scope names
+   * @param request - Command request
+   * @returns Confirmation text
+   * @throws Error if the user is an owner or a scope is unknown
+   */
+  private async grant(userId: string, scopeList: string, request: InboundRequest): Promise<string> {
+    if (this.ownerValidator.isOwner({ id: userId })) {
+      throw new Error(`${userId} is an owner and already holds every scope`);
+    }
+
+    const scopes: DelegateScope[] = scopeList.split(',').filter(s => s.length > 0).map(parseDelegateScope);
+    const grantedBy = this.identityResolver.resolveIdentity(request).id;
+    const grant = await this.registry.grant(userId, scopes, grantedBy);
+
+    return `Granted ${userId}: ${grant.scopes.join(', ')}.`;
+  }
+
+  /**
+   * Format the current delegations.
+   *
+   * @returns Listing text
+   */
+  private list(): string {
+    const grants = this.registry.list();
+    if (grants.length === 0) {
+      return 'No delegates.';
+    }
+
+    const lines = ['Delegates:'];
+    for (const grant of grants) {
+      lines.push(
+        `- ${grant.userId}: ${grant.scopes.join(', ')} ` +
+        `(granted by ${grant.grantedBy}, ${grant.grantedAt.toISOString()})`
+      );
+    }
+    return lines.join('\n');
+  }
+
+  /**
+   * Accept a raw user ID or a Discord mention (`<@id>` / `<@!id>`).
+   *
+   * @param value - User argument
+   * @returns User ID
+   */
+  private parseUserId(value: string): string {
+    const mention = /^<@!?(\d+)>$/.exec(value);
+    return mention?.[1] ?? value;
+  }
+}
@@ -0,0 +1,62 @@
+import { AdminCommand } from './AdminCommand';
+import { PipelineExplainer } from '../core/pipeline/PipelineExplainer';
+import { DelegateScope } from '../types/delegate.types';
+import { InboundRequest } from '../types/request.types';
+
+/**
+ * `!ace explain <message>` - dry-run the pipeline on a message.
+ *
+ * The message is processed as if the invoker had sent it in the same channel,
+ * but the AI is never called and nothing is delivered. The reply shows the
+ * selected persona, the assembled prompt and per-stage timings.
+ */
+export class ExplainCommand implements AdminCommand {
+  public readonly name = 'explain';
+  public readonly usage = '<message>';
+  public readonly description = 'Dry-run the pipeline and show persona, prompt and stage timings';
+  public readonly scope = DelegateScope.EXPLAIN;
+
+  private readonly explainer: PipelineExplainer;
+
+  constructor(explainer: PipelineExplainer) {
+    this.explainer = explainer;
+  }
+
+  /**
+   * Explain how the pipeline would handle a message.
+   *
+   * @param args - Message text to explain
+   * @param request - Command request (supplies author and channel)
+   * @returns Formatted explain report
+   * @throws Error if no message text is given
+   */
+  public async execute(args: string, request: InboundRequest): Promise<string> {
+    if (args.length === 0) {
+      throw new Error('Usage: explain <message>');
+    }
+
+    const report = await this.explainer.explain(this.toDryRunRequest(request, args));
+    return PipelineExplainer.format(report);
+  }
+
+  /**
+   * Derive the request to explain from the command request.
+   * Sending is disabled outright as a second line of defense behind dry-run mode.
+   *
+   * @param request - Command request
+   * @param content - Message text to explain
+   * @returns Request carrying the explained content
+   */
+  private toDryRunRequest(request: InboundRequest, content: string): InboundRequest {
+    const refuse = async (): Promise<never> => {
+      throw new Error('Dry-run requests cannot send messages');
+    };
+
+    return Object.freeze({
+      ...request,
+      content,
+      reply: refuse,
+      send: refuse,
+    });
+  }
+}
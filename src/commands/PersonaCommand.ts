@@ -0,0 +1,132 @@
+import { AdminCommand } from './AdminCommand';
+import { IdentityResolver } from '../core/identity/IdentityResolver';
+import { PERSONA_POLICY_SCOPES, PersonaPolicy } from '../core/persona/PersonaPolicy';
+import { PersonaRegistry } from '../core/persona/PersonaRegistry';
+import { PersonaPolicyScope } from '../types/personaPolicy.types';
+import { InboundRequest } from '../types/request.types';
+
+/**
+ * Usage text shown on malformed invocations.
+ */
+const USAGE =
+  'Usage: persona set channel|guild <id> <PERSONA> | persona disable channel|guild <id> | ' +
+  'persona clear channel|guild <id> | persona list';
+
+/**
+ * `!ace persona ...` - manage the per-channel / per-guild persona policy (owner-only).
+ *
+ * - `set <scope> <id> <PERSONA>` gives non-owners that persona there
+ * - `disable <scope> <id>` makes the bot ignore non-owners there
+ * - `clear <scope> <id>` removes the rule
+ * - `list` shows registered personas and all rules
+ *
+ * IDs may be given raw or as channel mentions (`<#channel>`).
+ */
+export class PersonaCommand implements AdminCommand {
+  public readonly name = 'persona';
+  public readonly usage = 'set <scope> <id> <PERSONA> | disable <scope> <id> | clear <scope> <id> | list';
+  public readonly description = 'Manage which persona non-owners get per channel or guild';
+
+  private readonly policy: PersonaPolicy;
+  private readonly registry: PersonaRegistry;
+  private readonly identityResolver: IdentityResolver;
+
+  constructor(policy: PersonaPolicy, registry: PersonaRegistry, identityResolver: IdentityResolver) {
+    this.policy = policy;
+    this.registry = registry;
+    this.identityResolver = identityResolver;
+  }
+
+  /**
+   * Run a persona subcommand.
+   *
+   * @param args - Subcommand and its arguments
+   * @param request - Command request (supplies the editing owner)
+   * @returns Confirmation or listing
+   * @throws Error with usage text on malformed input
+   */
+  public async execute(args: string, request: InboundRequest): Promise<string> {
+    const [subcommand, ...rest] = args.split(/\s+/).filter(part => part.length > 0);
+
+    if (subcommand === 'list' && rest.length === 0) {
+      return this.list();
+    }
+
+    if (subcommand === 'set' && rest.length === 3) {
+      const [scope, id, persona] = rest as [string, string, string];
+      const target = this.parseTarget(scope, id);
+      const personaId = persona.toUpperCase();
+      await this.policy.setPersona(target.scope, target.id, personaId, this.ownerId(request));
+      return `Non-owners in ${target.scope} ${target.id} now get ${personaId}.`;
+    }
+
+    if (subcommand === 'disable' && rest.length === 2) {
+      const [scope, id] = rest as [string, string];
+      const target = this.parseTarget(scope, id);
+      await this.policy.disable(target.scope, target.id, this.ownerId(request));
+      return `Bot disabled for non-owners in ${target.scope} ${target.id}.`;
+    }
+
+    if (subcommand === 'clear' && rest.length === 2) {
+      const [scope, id] = rest as [string, string];
+      const target = this.parseTarget(scope, id);
+      return (await this.policy.clear(target.scope, target.id))
+        ? `Cleared persona policy for ${target.scope} ${target.id}.`
+        : `No persona policy for ${target.scope} ${target.id}.`;
+    }
+
+    throw new Error(USAGE);
+  }
+
+  /**
+   * Validate scope and ID arguments.
+   *
+   * @param scope - Scope name
+   * @param id - Raw ID or channel mention
+   * @returns Parsed target
+   * @throws Error with usage text if the scope is unknown
+   */
+  private parseTarget(scope: string, id: string): { scope: PersonaPolicyScope; id: string } {
+    const normalized = scope.toLowerCase();
+    if (!PERSONA_POLICY_SCOPES.includes(normalized as PersonaPolicyScope)) {
+      throw new Error(USAGE);
+    }
+
+    const mention = /^<#(\d+)>$/.exec(id);
+    return { scope: normalized as PersonaPolicyScope, id: mention?.[1] ?? id };
+  }
+
+  /**
+   * Resolve the ID of the owner making a change.
+   *
+   * @param request - Command request
+   * @returns Owner user ID
+   */
+  private ownerId(request: InboundRequest): string {
+    return this.identityResolver.resolveIdentity(request).id;
+  }
+
+  /**
+   * Format registered personas and policy rules.
+   *
+   * @returns Listing text
+   */
+  private list(): string {
+    const lines = [`Personas: ${this.registry.list().map(persona => persona.id).join(', ')}`];
+
+    const rules = this.policy.list();
+    if (rules.length === 0) {
+      lines.push('No persona policy rules.');
+      return lines.join('\n');
+    }
+
+    lines.push('Persona policy:');
+    for (const rule of rules) {
+      lines.push(
+        `- ${rule.scope} ${rule.id}: ${rule.disabled ? 'disabled' : rule.persona} ` +
+        `(set by ${rule.setBy}, ${rule.setAt.toISOString()})`
+      );
+    }
+    return lines.join('\n');
+  }
+}
@@ -4,7 +4,8 @@
  */
 export const SYSTEM_CONSTANTS = Object.freeze({
   /**
-   * Owner identity - absolute authority in the system.
+   * Default owner identity - absolute authority in the system.
+   * Used when OWNER_IDS is not configured (see loadOwnerIds).
    * This ID cannot be overridden by roles, permissions, or commands.
    */
   OWNER_ID: '618512174620475394' as const,
@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { loadPromptExperiments, parsePromptExperiments } from './experimentConfig';
+import { silentLogger } from '../testing/fixtures';
+
+const VARIANTS = [{ id: 'control' }, { id: 'terse', weight: 3 }];
+
+describe('parsePromptExperiments', () => {
+  it('applies defaults', () => {
+    expect(parsePromptExperiments({ experiments: [{ id: 'tone', prompt: 'developer.md', variants: VARIANTS }] })).toEqual([{
+      id: 'tone',
+      prompt: 'developer.md',
+      assignBy: 'user',
+      variants: [{ id: 'control', weight: 1 }, { id: 'terse', weight: 3 }],
+    }]);
+  });
+
+  it.each([
+    ['a missing experiments array', {}, /must be an object with an 'experiments' array/],
+    ['an invalid ID', { experiments: [{ id: 'Tone', prompt: 'developer.md', variants: VARIANTS }] }, /Experiment Tone: 'id' must be lowercase/],
+    ['a path as prompt', { experiments: [{ id: 'tone', prompt: '../developer.md', variants: VARIANTS }] }, /'prompt' must be a \.md file name/],
+    ['a prompt in two experiments', { experiments: [
+      { id: 'tone', prompt: 'developer.md', variants: VARIANTS },
+      { id: 'length', prompt: 'developer.md', variants: VARIANTS },
+    ] }, /Experiment length: 'developer.md' is already in another experiment/],
+    ['a single variant', { experiments: [{ id: 'tone', prompt: 'developer.md', variants: [{ id: 'control' }] }] }, /'variants' must be an array of at least two variants/],
+    ['a duplicate variant', { experiments: [{ id: 'tone', prompt: 'developer.md', variants: [{ id: 'control' }, { id: 'control' }] }] }, /duplicate variant ID 'control'/],
+    ['a fractional weight', { experiments: [{ id: 'tone', prompt: 'developer.md', variants: [{ id: 'control' }, { id: 'terse', weight: 1.5 }] }] }, /'weight' must be a positive integer/],
+  ])('rejects %s', (_label, raw, message) => {
+    expect(() => parsePromptExperiments(raw)).toThrow(message);
+  });
+});
+
+describe('loadPromptExperiments', () => {
+  const original = process.env['PROMPT_EXPERIMENTS_FILE'];
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'experiments-'));
+  });
+
+  afterEach(() => {
+    if (original === undefined) {
+      delete process.env['PROMPT_EXPERIMENTS_FILE'];
+    } else {
+      process.env['PROMPT_EXPERIMENTS_FILE'] = original;
+    }
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('loads the configured file, running no experiments when there is none', () => {
+    delete process.env['PROMPT_EXPERIMENTS_FILE'];
+    expect(loadPromptExperiments(silentLogger)).toEqual([]);
+
+    const file = path.join(dir, 'experiments.json');
+    fs.writeFileSync(file, JSON.stringify({ experiments: [{ id: 'tone', prompt: 'developer.md', variants: VARIANTS }] }));
+    process.env['PROMPT_EXPERIMENTS_FILE'] = file;
+
+    expect(loadPromptExperiments(silentLogger).map(experiment => experiment.id)).toEqual(['tone']);
+  });
+
+  it('stops on a missing or invalid file', () => {
+    const file = path.join(dir, 'experiments.json');
+    process.env['PROMPT_EXPERIMENTS_FILE'] = file;
+    expect(() => loadPromptExperiments(silentLogger)).toThrow(`Prompt experiments file not found: ${file}`);
+
+    fs.writeFileSync(file, JSON.stringify({ experiments: [{ id: 'tone' }] }));
+    expect(() => loadPromptExperiments(silentLogger)).toThrow(`Invalid prompt experiments file ${file}: Experiment tone:`);
+  });
+});
@@ -0,0 +1,135 @@
+import { isObject, readJsonFileSync } from '../utils/jsonFile';
+import { PROMPT_FILE_PATTERN, VARIANT_ID_PATTERN } from '../core/prompts/PromptLoader';
+import { ExperimentAssignBy, PromptExperiment, PromptVariant } from '../types/experiment.types';
+import { Logger } from '../utils/logger';
+
+const ASSIGN_BY: readonly ExperimentAssignBy[] = ['user', 'channel'];
+
+/**
+ * Parse an experiment's variants.
+ *
+ * @param raw - Raw 'variants' value
+ * @returns Variants in file order
+ * @throws Error if there are fewer than two, or one is malformed or repeated
+ */
+function parseVariants(raw: unknown): PromptVariant[] {
+  if (!Array.isArray(raw) || raw.length < 2) {
+    throw new Error("'variants' must be an array of at least two variants");
+  }
+
+  const seen = new Set<string>();
+  return raw.map((entry: unknown, index) => {
+    if (!isObject(entry)) {
+      throw new Error(`variant #${index + 1} must be an object`);
+    }
+
+    const { id, weight = 1 } = entry;
+    if (typeof id !== 'string' || !VARIANT_ID_PATTERN.test(id)) {
+      throw new Error(`variant #${index + 1}: 'id' must be lowercase letters, digits and dashes`);
+    }
+    if (seen.has(id)) {
+      throw new Error(`duplicate variant ID '${id}'`);
+    }
+    seen.add(id);
+    if (!Number.isInteger(weight) || (weight as number) <= 0) {
+      throw new Error(`variant ${id}: 'weight' must be a positive integer`);
+    }
+
+    return { id, weight: weight as number };
+  });
+}
+
+/**
+ * Parse and validate prompt experiments.
+ *
+ * Expected shape:
+ * `{ "experiments": [{ "id", "prompt", "assignBy"?, "variants": [{ "id", "weight"? }] }] }`
+ * assignBy defaults to 'user' and weight to 1. Each prompt file may be in
+ * one experiment only. Whether the variant files exist is checked by
+ * PromptExperiments.
+ *
+ * @param raw - Parsed JSON
+ * @returns Experiments in file order
+ * @throws Error naming the experiment and field that is invalid
+ */
+export function parsePromptExperiments(raw: unknown): PromptExperiment[] {
+  if (!isObject(raw) || !Array.isArray(raw['experiments'])) {
+    throw new Error("Experiment config must be an object with an 'experiments' array");
+  }
+
+  const ids = new Set<string>();
+  const prompts = new Set<string>();
+  return raw['experiments'].map((entry: unknown, index) => {
+    const label = isObject(entry) && typeof entry['id'] === 'string' ? entry['id'] : `#${index + 1}`;
+
+    try {
+      if (!isObject(entry)) {
+        throw new Error('must be an object');
+      }
+
+      const { id, prompt, assignBy = 'user' } = entry;
+      if (typeof id !== 'string' || !VARIANT_ID_PATTERN.test(id)) {
+        throw new Error("'id' must be lowercase letters, digits and dashes");
+      }
+      if (ids.has(id)) {
+        throw new Error('duplicate experiment ID');
+      }
+      ids.add(id);
+      if (typeof prompt !== 'string' || !PROMPT_FILE_PATTERN.test(prompt)) {
+        throw new Error("'prompt' must be a .md file name in the prompts directory");
+      }
+      if (prompts.has(prompt)) {
+        throw new Error(`'${prompt}' is already in another experiment`);
+      }
+      prompts.add(prompt);
+      if (!ASSIGN_BY.includes(assignBy as ExperimentAssignBy)) {
+        throw new Error(`'assignBy' must be one of: ${ASSIGN_BY.join(', ')}`);
+      }
+
+      return {
+        id,
+        prompt,
+        assignBy: assignBy as ExperimentAssignBy,
+        variants: parseVariants(entry['variants']),
+      };
+    } catch (error) {
+      throw new Error(`Experiment ${label}: ${(error as Error).message}`, { cause: error });
+    }
+  });
+}
+
+/**
+ * Load prompt experiments from the PROMPT_EXPERIMENTS_FILE JSON file.
+ *
+ * Called once at startup. An unreadable or invalid file stops startup;
+ * without PROMPT_EXPERIMENTS_FILE no experiments run.
+ *
+ * @param logger - Logger for the loaded experiments
+ * @returns Experiments (empty if not configured)
+ * @throws Error if the file is missing, unreadable or invalid
+ */
+export function loadPromptExperiments(logger: Logger): PromptExperiment[] {
+  // Use bracket notation for safe environment variable access
+  const filePath = process.env['PROMPT_EXPERIMENTS_FILE']?.trim();
+  if (!filePath) {
+    return [];
+  }
+
+  const raw = readJsonFileSync(filePath);
+  if (raw === undefined) {
+    throw new Error(`Prompt experiments file not found: ${filePath}`);
+  }
+
+  let experiments: PromptExperiment[];
+  try {
+    experiments = parsePromptExperiments(raw);
+  } catch (error) {
+    throw new Error(`Invalid prompt experiments file ${filePath}: ${(error as Error).message}`, { cause: error });
+  }
+
+  logger.info('Prompt experiments loaded', {
+    file: filePath,
+    experiments: experiments.map(experiment => `${experiment.id} (${experiment.prompt})`),
+  });
+  return experiments;
+}
@@ -0,0 +1,17 @@
+import { describe, expect, it } from '@jest/globals';
+import { DEFAULT_CONTEXT_WINDOW, getContextWindow } from './modelLimits';
+
+describe('getContextWindow', () => {
+  it.each([
+    ['gpt-4-0613', 8192],
+    ['gpt-4-32k-0613', 32768],
+    ['gpt-4o-mini', 128000],
+    ['o3-mini', 200000],
+  ])('uses the longest matching prefix for %p', (model, expected) => {
+    expect(getContextWindow(model)).toBe(expected);
+  });
+
+  it('falls back to the smallest common window', () => {
+    expect(getContextWindow('llama-3')).toBe(DEFAULT_CONTEXT_WINDOW);
+  });
+});
@@ -0,0 +1,37 @@
+/**
+ * Context window sizes (tokens) by model name prefix.
+ * The longest matching prefix wins, so 'gpt-4o-mini' uses 'gpt-4o'
+ * and 'gpt-4-32k-0613' uses 'gpt-4-32k' rather than 'gpt-4'.
+ */
+export const MODEL_CONTEXT_WINDOWS: Readonly<Record<string, number>> = Object.freeze({
+  'gpt-3.5-turbo': 16385,
+  'gpt-4': 8192,
+  'gpt-4-32k': 32768,
+  'gpt-4-turbo': 128000,
+  'gpt-4o': 128000,
+  'gpt-4.1': 1047576,
+  'o1': 200000,
+  'o3': 200000,
+});
+
+/**
+ * Context window assumed for models not in MODEL_CONTEXT_WINDOWS.
+ * The smallest common window, so unknown models are never overfilled.
+ */
+export const DEFAULT_CONTEXT_WINDOW = 8192;
+
+/**
+ * Look up a model's context window.
+ *
+ * @param model - Model name (e.g. 'gpt-4o-mini')
+ * @returns Context window in tokens
+ */
+export function getContextWindow(model: string): number {
+  let best: string | undefined;
+  for (const prefix of Object.keys(MODEL_CONTEXT_WINDOWS)) {
+    if (model.startsWith(prefix) && (best === undefined || prefix.length > best.length)) {
+      best = prefix;
+    }
+  }
+  return best !== undefined ? MODEL_CONTEXT_WINDOWS[best] as number : DEFAULT_CONTEXT_WINDOW;
+}
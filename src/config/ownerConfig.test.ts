@@ -0,0 +1,44 @@
+import { afterEach, describe, expect, it } from '@jest/globals';
+import { SYSTEM_CONSTANTS } from './constants';
+import { isValidSnowflake, loadOwnerIds } from './ownerConfig';
+import { silentLogger } from '../testing/fixtures';
+
+describe('isValidSnowflake', () => {
+  it.each([
+    ['12345678901234567', true],
+    ['1234567890123456', false],
+    ['12345678901234567a', false],
+  ])('%p -> %p', (value, expected) => {
+    expect(isValidSnowflake(value)).toBe(expected);
+  });
+});
+
+describe('loadOwnerIds', () => {
+  const original = process.env['OWNER_IDS'];
+
+  afterEach(() => {
+    if (original === undefined) {
+      delete process.env['OWNER_IDS'];
+    } else {
+      process.env['OWNER_IDS'] = original;
+    }
+  });
+
+  it('falls back to the built-in owner when unset', () => {
+    delete process.env['OWNER_IDS'];
+    expect(loadOwnerIds(silentLogger)).toEqual([SYSTEM_CONSTANTS.OWNER_ID]);
+  });
+
+  it('trims and de-duplicates configured IDs', () => {
+    process.env['OWNER_IDS'] = ' 111111111111111111, 222222222222222222 ,111111111111111111';
+    const ids = loadOwnerIds(silentLogger);
+
+    expect(ids).toEqual(['111111111111111111', '222222222222222222']);
+    expect(Object.isFrozen(ids)).toBe(true);
+  });
+
+  it('rejects malformed entries', () => {
+    process.env['OWNER_IDS'] = '111111111111111111,,not-an-id';
+    expect(() => loadOwnerIds(silentLogger)).toThrow(/Invalid OWNER_IDS entry ''/);
+  });
+});
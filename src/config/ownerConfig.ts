@@ -0,0 +1,54 @@
+import { SYSTEM_CONSTANTS } from './constants';
+import { Logger } from '../utils/logger';
+
+/**
+ * Discord user IDs are snowflakes: 17-20 decimal digits.
+ */
+const SNOWFLAKE_PATTERN = /^\d{17,20}$/;
+
+/**
+ * Check whether a value is a well-formed Discord user ID.
+ * 
+ * @param value - Candidate ID
+ * @returns True for a 17-20 digit snowflake
+ */
+export function isValidSnowflake(value: string): boolean {
+  return SNOWFLAKE_PATTERN.test(value);
+}
+
+/**
+ * Load owner IDs from the OWNER_IDS environment variable.
+ * 
+ * OWNER_IDS is a comma-separated list of Discord user IDs. Every entry is
+ * validated; a malformed entry stops startup rather than silently granting
+ * or withholding ownership. When OWNER_IDS is unset, the built-in
+ * SYSTEM_CONSTANTS.OWNER_ID is used with a warning.
+ * 
+ * Called once at startup; the result is frozen and handed to OwnerValidator.
+ * 
+ * @param logger - Logger for the fallback warning
+ * @returns Frozen, de-duplicated owner IDs (never empty)
+ * @throws Error if any configured entry is not a valid Discord user ID
+ */
+export function loadOwnerIds(logger: Logger): readonly string[] {
+  // Use bracket notation for safe environment variable access
+  const raw = process.env['OWNER_IDS'];
+
+  if (!raw || raw.trim().length === 0) {
+    logger.warn('OWNER_IDS not configured; using built-in owner ID', {
+      ownerId: SYSTEM_CONSTANTS.OWNER_ID,
+    });
+    return Object.freeze([SYSTEM_CONSTANTS.OWNER_ID]);
+  }
+
+  const ids = new Set<string>();
+  for (const entry of raw.split(',')) {
+    const id = entry.trim();
+    if (!isValidSnowflake(id)) {
+      throw new Error(`Invalid OWNER_IDS entry '${id}': expected a Discord user ID (17-20 digits)`);
+    }
+    ids.add(id);
+  }
+
+  return Object.freeze([...ids]);
+}
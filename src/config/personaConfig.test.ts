@@ -0,0 +1,85 @@
+import { afterEach, describe, expect, it } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { loadPersonaDefinitions, parsePersonaDefinitions } from './personaConfig';
+import { silentLogger } from '../testing/fixtures';
+
+const GUILD_ID = '333333333333333333';
+const CHANNEL_ID = '555555555555555555';
+
+function persona(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    id: 'REVIEWER',
+    description: 'Code reviewer',
+    systemPromptFile: 'reviewer.system.md',
+    priority: 10,
+    match: { channelIds: [CHANNEL_ID] },
+    ...overrides,
+  };
+}
+
+describe('parsePersonaDefinitions', () => {
+  it('parses rules and model settings', () => {
+    const [definition] = parsePersonaDefinitions({
+      personas: [persona({
+        match: { channelIds: [CHANNEL_ID], guildIds: [GUILD_ID] },
+        model: { model: 'gpt-4o-mini', temperature: 0.2, maxTokens: 500 },
+      })],
+    });
+
+    expect(definition).toEqual({
+      id: 'REVIEWER',
+      description: 'Code reviewer',
+      systemPromptFile: 'reviewer.system.md',
+      priority: 10,
+      match: { channelIds: [CHANNEL_ID], guildIds: [GUILD_ID] },
+      model: { model: 'gpt-4o-mini', temperature: 0.2, maxTokens: 500 },
+    });
+  });
+
+  it.each([
+    ['a missing personas array', {}, /must be an object with a 'personas' array/],
+    ['a prompt outside the prompts directory', { personas: [persona({ systemPromptFile: '../secret.md' })] }, /Persona REVIEWER: 'systemPromptFile'/],
+    ['a missing priority', { personas: [persona({ priority: '1' })] }, /'priority' must be a number/],
+    ['bad channel IDs', { personas: [persona({ match: { channelIds: ['abc'] } })] }, /'match.channelIds' must be an array of Discord IDs/],
+    ['a role condition', { personas: [persona({ match: { channelIds: [CHANNEL_ID], roleIds: [GUILD_ID] } })] }, /'match.roleIds' is not supported/],
+    ['a trust tier condition', { personas: [persona({ match: { trustTiers: ['team'] } })] }, /'match.trustTiers' is not supported/],
+    ['an out-of-range temperature', { personas: [persona({ model: { temperature: 3 } })] }, /'model.temperature' must be a number between 0 and 2/],
+  ])('rejects %s', (_label, raw, message) => {
+    expect(() => parsePersonaDefinitions(raw)).toThrow(message);
+  });
+});
+
+describe('loadPersonaDefinitions', () => {
+  const original = process.env['PERSONAS_FILE'];
+
+  afterEach(() => {
+    if (original === undefined) {
+      delete process.env['PERSONAS_FILE'];
+    } else {
+      process.env['PERSONAS_FILE'] = original;
+    }
+  });
+
+  it('loads the configured file and names it on errors', () => {
+    delete process.env['PERSONAS_FILE'];
+    expect(loadPersonaDefinitions(silentLogger)).toEqual([]);
+
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'personas-'));
+    const file = path.join(dir, 'personas.json');
+    process.env['PERSONAS_FILE'] = file;
+
+    try {
+      expect(() => loadPersonaDefinitions(silentLogger)).toThrow(`Personas file not found: ${file}`);
+
+      fs.writeFileSync(file, JSON.stringify({ personas: [persona()] }));
+      expect(loadPersonaDefinitions(silentLogger).map(d => d.id)).toEqual(['REVIEWER']);
+
+      fs.writeFileSync(file, JSON.stringify({ personas: [persona({ priority: null })] }));
+      expect(() => loadPersonaDefinitions(silentLogger)).toThrow(`Invalid personas file ${file}`);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,164 @@
+import { isObject, readJsonFileSync } from '../utils/jsonFile';
+import { isValidSnowflake } from './ownerConfig';
+import { PROMPT_FILE_PATTERN } from '../core/prompts/PromptLoader';
+import { PersonaDefinition, PersonaMatchRule, PersonaModelSettings } from '../types/persona.types';
+import { Logger } from '../utils/logger';
+
+/**
+ * Read an optional list of Discord IDs.
+ *
+ * @param value - Raw value
+ * @param field - Field name for error messages
+ * @returns IDs, or undefined if absent
+ * @throws Error if the value is not an array of snowflakes
+ */
+function parseIdList(value: unknown, field: string): string[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!Array.isArray(value) || !value.every(id => typeof id === 'string' && isValidSnowflake(id))) {
+    throw new Error(`'${field}' must be an array of Discord IDs`);
+  }
+  return [...value] as string[];
+}
+
+/**
+ * Parse a persona's selection rule.
+ *
+ * @param raw - Raw 'match' value
+ * @returns Selection rule
+ * @throws Error if the rule is malformed
+ */
+function parseMatchRule(raw: unknown): PersonaMatchRule {
+  if (!isObject(raw)) {
+    throw new Error("'match' must be an object");
+  }
+
+  // Persona choice is strictly ID-based; fail loudly on rules written for role matching
+  for (const field of ['roleIds', 'trustTiers']) {
+    if (raw[field] !== undefined) {
+      throw new Error(`'match.${field}' is not supported: match on channelIds or guildIds`);
+    }
+  }
+
+  return {
+    channelIds: parseIdList(raw['channelIds'], 'match.channelIds'),
+    guildIds: parseIdList(raw['guildIds'], 'match.guildIds'),
+  };
+}
+
+/**
+ * Parse a persona's model settings.
+ *
+ * @param raw - Raw 'model' value
+ * @returns Model settings, or undefined if absent
+ * @throws Error if a setting has the wrong type or range
+ */
+function parseModelSettings(raw: unknown): PersonaModelSettings | undefined {
+  if (raw === undefined) {
+    return undefined;
+  }
+  if (!isObject(raw)) {
+    throw new Error("'model' must be an object");
+  }
+
+  const { model, temperature, maxTokens } = raw;
+  if (model !== undefined && (typeof model !== 'string' || model.length === 0)) {
+    throw new Error("'model.model' must be a non-empty string");
+  }
+  if (temperature !== undefined && (typeof temperature !== 'number' || temperature < 0 || temperature > 2)) {
+    throw new Error("'model.temperature' must be a number between 0 and 2");
+  }
+  if (maxTokens !== undefined && (!Number.isInteger(maxTokens) || (maxTokens as number) <= 0)) {
+    throw new Error("'model.maxTokens' must be a positive integer");
+  }
+
+  return { model, temperature, maxTokens } as PersonaModelSettings;
+}
+
+/**
+ * Parse and validate persona definitions.
+ *
+ * Expected shape:
+ * `{ "personas": [{ "id", "description", "systemPromptFile", "priority", "match", "model"? }] }`
+ *
+ * Registry-level rules (reserved IDs, duplicates, butler prompt) are
+ * enforced by PersonaRegistry.
+ *
+ * @param raw - Parsed JSON
+ * @returns Persona definitions in file order
+ * @throws Error naming the persona and field that is invalid
+ */
+export function parsePersonaDefinitions(raw: unknown): PersonaDefinition[] {
+  if (!isObject(raw) || !Array.isArray(raw['personas'])) {
+    throw new Error("Persona config must be an object with a 'personas' array");
+  }
+
+  return raw['personas'].map((entry: unknown, index) => {
+    const label = isObject(entry) && typeof entry['id'] === 'string' ? entry['id'] : `#${index + 1}`;
+
+    try {
+      if (!isObject(entry)) {
+        throw new Error('must be an object');
+      }
+
+      const { id, description, systemPromptFile, priority } = entry;
+      if (typeof id !== 'string') {
+        throw new Error("'id' must be a string");
+      }
+      if (typeof description !== 'string') {
+        throw new Error("'description' must be a string");
+      }
+      if (typeof systemPromptFile !== 'string' || !PROMPT_FILE_PATTERN.test(systemPromptFile)) {
+        throw new Error("'systemPromptFile' must be a .md file name in the prompts directory");
+      }
+      if (typeof priority !== 'number') {
+        throw new Error("'priority' must be a number");
+      }
+
+      return {
+        id,
+        description,
+        systemPromptFile,
+        priority,
+        match: parseMatchRule(entry['match']),
+        model: parseModelSettings(entry['model']),
+      };
+    } catch (error) {
+      throw new Error(`Persona ${label}: ${(error as Error).message}`, { cause: error });
+    }
+  });
+}
+
+/**
+ * Load additional persona definitions from the PERSONAS_FILE JSON file.
+ *
+ * Called once at startup. An unreadable or invalid file stops startup;
+ * without PERSONAS_FILE only the built-in personas exist.
+ *
+ * @param logger - Logger for the loaded personas
+ * @returns Persona definitions (empty if not configured)
+ * @throws Error if the file is missing, unreadable or invalid
+ */
+export function loadPersonaDefinitions(logger: Logger): PersonaDefinition[] {
+  // Use bracket notation for safe environment variable access
+  const filePath = process.env['PERSONAS_FILE']?.trim();
+  if (!filePath) {
+    return [];
+  }
+
+  const raw = readJsonFileSync(filePath);
+  if (raw === undefined) {
+    throw new Error(`Personas file not found: ${filePath}`);
+  }
+
+  let definitions: PersonaDefinition[];
+  try {
+    definitions = parsePersonaDefinitions(raw);
+  } catch (error) {
+    throw new Error(`Invalid personas file ${filePath}: ${(error as Error).message}`, { cause: error });
+  }
+
+  logger.info('Personas loaded', { file: filePath, personas: definitions.map(d => d.id) });
+  return definitions;
+}
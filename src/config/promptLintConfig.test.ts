@@ -0,0 +1,53 @@
+import { describe, expect, it } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DEFAULT_PROMPT_LINT_RULES_FILE, loadPromptLintRules, parsePromptLintRules } from './promptLintConfig';
+
+describe('parsePromptLintRules', () => {
+  it('compiles case-insensitive patterns and defaults severity to error', () => {
+    const [rule] = parsePromptLintRules({ rules: [{ id: 'no-ace', message: 'No names', forbid: '\\bACE\\b' }] });
+
+    expect(rule).toMatchObject({ id: 'no-ace', severity: 'error', files: undefined, require: undefined });
+    expect(rule?.forbid?.test('ask ace')).toBe(true);
+  });
+
+  it.each([
+    ['a missing rules array', {}, /must be an object with a 'rules' array/],
+    ['a duplicate ID', { rules: [{ id: 'a', message: 'm', forbid: 'x' }, { id: 'a', message: 'm', forbid: 'y' }] }, /Lint rule a: duplicate rule ID/],
+    ['both patterns', { rules: [{ id: 'a', message: 'm', forbid: 'x', require: 'y' }] }, /exactly one of 'forbid' and 'require'/],
+    ['an invalid pattern', { rules: [{ id: 'a', message: 'm', forbid: '(' }] }, /'forbid' is not a valid regular expression/],
+    ['an unknown severity', { rules: [{ id: 'a', message: 'm', forbid: 'x', severity: 'info' }] }, /'severity' must be one of: error, warning/],
+  ])('rejects %s', (_label, raw, message) => {
+    expect(() => parsePromptLintRules(raw)).toThrow(message);
+  });
+});
+
+describe('loadPromptLintRules', () => {
+  it('loads the repository rule file', () => {
+    expect(loadPromptLintRules(DEFAULT_PROMPT_LINT_RULES_FILE, true).map(rule => rule.id)).toEqual([
+      'no-hardcoded-names',
+      'no-self-disclosure',
+      'developer-requires-grounding',
+    ]);
+  });
+
+  it('requires the file only when asked to', () => {
+    const missing = path.join(os.tmpdir(), `lint-rules-${process.pid}-missing.json`);
+
+    expect(loadPromptLintRules(missing, false)).toEqual([]);
+    expect(() => loadPromptLintRules(missing, true)).toThrow(`Lint rule file not found: ${missing}`);
+  });
+
+  it('names the file when it is invalid', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'lint-rules-'));
+    const file = path.join(dir, 'rules.json');
+    fs.writeFileSync(file, JSON.stringify({ rules: [{ id: 'a' }] }));
+
+    try {
+      expect(() => loadPromptLintRules(file, true)).toThrow(`Invalid lint rule file ${file}: Lint rule a:`);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,118 @@
+import { isObject, readJsonFileSync } from '../utils/jsonFile';
+import { LintSeverity, PromptLintRule } from '../types/promptLint.types';
+
+/**
+ * Default lint rule file, read if no other is given.
+ */
+export const DEFAULT_PROMPT_LINT_RULES_FILE = 'prompts/lint-rules.json';
+
+const SEVERITIES: readonly LintSeverity[] = ['error', 'warning'];
+
+/**
+ * Compile an optional pattern field.
+ *
+ * @param value - Raw value
+ * @param field - Field name for error messages
+ * @returns Case-insensitive regex, or undefined if absent
+ * @throws Error if the value is not a valid regex source
+ */
+function parsePattern(value: unknown, field: string): RegExp | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== 'string' || value.length === 0) {
+    throw new Error(`'${field}' must be a non-empty string`);
+  }
+  try {
+    return new RegExp(value, 'i');
+  } catch (error) {
+    throw new Error(`'${field}' is not a valid regular expression: ${(error as Error).message}`, { cause: error });
+  }
+}
+
+/**
+ * Parse and validate lint rules.
+ *
+ * Expected shape:
+ * `{ "rules": [{ "id", "message", "forbid"? | "require"?, "files"?, "severity"? }] }`
+ * Each rule needs exactly one of forbid and require; severity defaults to 'error'.
+ *
+ * @param raw - Parsed JSON
+ * @returns Rules in file order
+ * @throws Error naming the rule and field that is invalid
+ */
+export function parsePromptLintRules(raw: unknown): PromptLintRule[] {
+  if (!isObject(raw) || !Array.isArray(raw['rules'])) {
+    throw new Error("Lint rule file must be an object with a 'rules' array");
+  }
+
+  const seen = new Set<string>();
+  return raw['rules'].map((entry: unknown, index) => {
+    const label = isObject(entry) && typeof entry['id'] === 'string' ? entry['id'] : `#${index + 1}`;
+
+    try {
+      if (!isObject(entry)) {
+        throw new Error('must be an object');
+      }
+
+      const { id, message, files, severity = 'error' } = entry;
+      if (typeof id !== 'string' || id.length === 0) {
+        throw new Error("'id' must be a non-empty string");
+      }
+      if (seen.has(id)) {
+        throw new Error('duplicate rule ID');
+      }
+      seen.add(id);
+      if (typeof message !== 'string' || message.length === 0) {
+        throw new Error("'message' must be a non-empty string");
+      }
+      if (files !== undefined && (!Array.isArray(files) || !files.every(file => typeof file === 'string'))) {
+        throw new Error("'files' must be an array of file names");
+      }
+      if (!SEVERITIES.includes(severity as LintSeverity)) {
+        throw new Error(`'severity' must be one of: ${SEVERITIES.join(', ')}`);
+      }
+
+      const forbid = parsePattern(entry['forbid'], 'forbid');
+      const require = parsePattern(entry['require'], 'require');
+      if ((forbid === undefined) === (require === undefined)) {
+        throw new Error("exactly one of 'forbid' and 'require' is needed");
+      }
+
+      return {
+        id,
+        message,
+        forbid,
+        require,
+        files: files as string[] | undefined,
+        severity: severity as LintSeverity,
+      };
+    } catch (error) {
+      throw new Error(`Lint rule ${label}: ${(error as Error).message}`, { cause: error });
+    }
+  });
+}
+
+/**
+ * Load lint rules from a JSON file.
+ *
+ * @param filePath - Rule file
+ * @param required - Whether a missing file is an error (true when named explicitly)
+ * @returns Rules (empty if the file is absent and not required)
+ * @throws Error if the file is required but missing, or unreadable or invalid
+ */
+export function loadPromptLintRules(filePath: string, required: boolean): PromptLintRule[] {
+  const raw = readJsonFileSync(filePath);
+  if (raw === undefined) {
+    if (required) {
+      throw new Error(`Lint rule file not found: ${filePath}`);
+    }
+    return [];
+  }
+
+  try {
+    return parsePromptLintRules(raw);
+  } catch (error) {
+    throw new Error(`Invalid lint rule file ${filePath}: ${(error as Error).message}`, { cause: error });
+  }
+}
@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EMPTY_TRUST_POLICY, loadTrustPolicy, parseTrustPolicy } from './trustConfig';
+import { TrustTier } from '../types/trust.types';
+import { silentLogger } from '../testing/fixtures';
+
+const GUILD_ID = '333333333333333333';
+const ROLE_ID = '444444444444444444';
+
+describe('parseTrustPolicy', () => {
+  it('parses and freezes role tiers', () => {
+    const policy = parseTrustPolicy({ guilds: { [GUILD_ID]: { roles: { [ROLE_ID]: 'team' } } } });
+
+    expect(policy.guilds[GUILD_ID]?.roles[ROLE_ID]).toBe(TrustTier.TEAM);
+    expect(Object.isFrozen(policy.guilds[GUILD_ID]?.roles)).toBe(true);
+  });
+
+  it.each([
+    ['a non-object', null, /must be an object with a 'guilds' object/],
+    ['a bad guild ID', { guilds: { abc: { roles: {} } } }, /Invalid guild ID 'abc'/],
+    ['a bad role ID', { guilds: { [GUILD_ID]: { roles: { abc: 'team' } } } }, /invalid role ID 'abc'/],
+    ['the owner tier', { guilds: { [GUILD_ID]: { roles: { [ROLE_ID]: 'owner' } } } }, /tier must be one of team, guest, blocked \(got 'owner'\)/],
+  ])('rejects %s', (_label, raw, message) => {
+    expect(() => parseTrustPolicy(raw)).toThrow(message);
+  });
+});
+
+describe('loadTrustPolicy', () => {
+  const original = process.env['TRUST_TIERS_FILE'];
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'trust-'));
+  });
+
+  afterEach(() => {
+    if (original === undefined) {
+      delete process.env['TRUST_TIERS_FILE'];
+    } else {
+      process.env['TRUST_TIERS_FILE'] = original;
+    }
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('loads the configured file, or the empty policy when unset', () => {
+    delete process.env['TRUST_TIERS_FILE'];
+    expect(loadTrustPolicy(silentLogger)).toBe(EMPTY_TRUST_POLICY);
+
+    const file = path.join(dir, 'trust.json');
+    fs.writeFileSync(file, JSON.stringify({ guilds: { [GUILD_ID]: { roles: { [ROLE_ID]: 'blocked' } } } }));
+    process.env['TRUST_TIERS_FILE'] = file;
+
+    expect(loadTrustPolicy(silentLogger).guilds[GUILD_ID]?.roles[ROLE_ID]).toBe(TrustTier.BLOCKED);
+  });
+
+  it('fails on a missing or invalid file', () => {
+    const file = path.join(dir, 'trust.json');
+    process.env['TRUST_TIERS_FILE'] = file;
+    expect(() => loadTrustPolicy(silentLogger)).toThrow(/Failed to read trust tiers file/);
+
+    fs.writeFileSync(file, JSON.stringify({ guilds: [] }));
+    expect(() => loadTrustPolicy(silentLogger)).toThrow(`Invalid trust tiers file ${file}`);
+  });
+});
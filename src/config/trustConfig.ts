@@ -0,0 +1,96 @@
+import * as fs from 'fs';
+import { isValidSnowflake } from './ownerConfig';
+import { GuildTrustPolicy, RoleTrustTier, TrustPolicy, TrustTier } from '../types/trust.types';
+import { isObject } from '../utils/jsonFile';
+import { Logger } from '../utils/logger';
+
+/**
+ * Tiers a role may be mapped to.
+ */
+const ROLE_TIERS: ReadonlySet<string> = new Set([TrustTier.TEAM, TrustTier.GUEST, TrustTier.BLOCKED]);
+
+/**
+ * Policy used when no trust tiers file is configured: everyone but the owner is a guest.
+ */
+export const EMPTY_TRUST_POLICY: TrustPolicy = Object.freeze({ guilds: Object.freeze({}) });
+
+/**
+ * Validate and freeze a parsed trust policy.
+ *
+ * Expected shape:
+ * `{ "guilds": { "<guildId>": { "roles": { "<roleId>": "team" | "guest" | "blocked" } } } }`
+ *
+ * @param raw - Parsed JSON
+ * @returns Frozen trust policy
+ * @throws Error describing the first invalid entry
+ */
+export function parseTrustPolicy(raw: unknown): TrustPolicy {
+  if (!isObject(raw) || !isObject(raw['guilds'])) {
+    throw new Error("Trust policy must be an object with a 'guilds' object");
+  }
+
+  const guilds: Record<string, GuildTrustPolicy> = {};
+
+  for (const [guildId, guild] of Object.entries(raw['guilds'])) {
+    if (!isValidSnowflake(guildId)) {
+      throw new Error(`Invalid guild ID '${guildId}' in trust policy`);
+    }
+    if (!isObject(guild) || !isObject(guild['roles'])) {
+      throw new Error(`Guild ${guildId}: expected a 'roles' object`);
+    }
+
+    const roles: Record<string, RoleTrustTier> = {};
+    for (const [roleId, tier] of Object.entries(guild['roles'])) {
+      if (!isValidSnowflake(roleId)) {
+        throw new Error(`Guild ${guildId}: invalid role ID '${roleId}'`);
+      }
+      if (typeof tier !== 'string' || !ROLE_TIERS.has(tier)) {
+        throw new Error(
+          `Guild ${guildId}, role ${roleId}: tier must be one of ${[...ROLE_TIERS].join(', ')} (got '${String(tier)}')`
+        );
+      }
+      roles[roleId] = tier as RoleTrustTier;
+    }
+
+    guilds[guildId] = Object.freeze({ roles: Object.freeze(roles) });
+  }
+
+  return Object.freeze({ guilds: Object.freeze(guilds) });
+}
+
+/**
+ * Load the role-to-tier trust policy from the TRUST_TIERS_FILE JSON file.
+ *
+ * Called once at startup. An unreadable or invalid file stops startup;
+ * without TRUST_TIERS_FILE every non-owner is a guest.
+ *
+ * @param logger - Logger for the loaded policy
+ * @returns Frozen trust policy
+ * @throws Error if the file cannot be read or fails validation
+ */
+export function loadTrustPolicy(logger: Logger): TrustPolicy {
+  // Use bracket notation for safe environment variable access
+  const filePath = process.env['TRUST_TIERS_FILE']?.trim();
+
+  if (!filePath) {
+    logger.info('TRUST_TIERS_FILE not configured; all non-owners are guests');
+    return EMPTY_TRUST_POLICY;
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Failed to read trust tiers file: ${filePath}`, { cause: error });
+  }
+
+  let policy: TrustPolicy;
+  try {
+    policy = parseTrustPolicy(raw);
+  } catch (error) {
+    throw new Error(`Invalid trust tiers file ${filePath}: ${(error as Error).message}`, { cause: error });
+  }
+
+  logger.info('Trust tiers loaded', { file: filePath, guilds: Object.keys(policy.guilds).length });
+  return policy;
+}
@@ -0,0 +1,120 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AccessControlList } from './AccessControlList';
+import { AclSubject } from '../../types/acl.types';
+import { UserIdentity } from '../../types/persona.types';
+import { TrustTier } from '../../types/trust.types';
+import { silentLogger } from '../../testing/fixtures';
+
+const OWNER_ID = '111111111111111111';
+const USER_ID = '222222222222222222';
+const GUILD_ID = '333333333333333333';
+const ROLE_ID = '444444444444444444';
+const CHANNEL_ID = '555555555555555555';
+const OTHER_ID = '666666666666666666';
+
+function identity(overrides: Partial<UserIdentity> = {}): UserIdentity {
+  return {
+    id: USER_ID,
+    username: 'user',
+    discriminator: '0',
+    displayName: 'User',
+    isBot: false,
+    guildId: GUILD_ID,
+    isDirectMessage: false,
+    roleIds: [ROLE_ID],
+    trustTier: TrustTier.GUEST,
+    ...overrides,
+  };
+}
+
+describe('AccessControlList', () => {
+  let dir: string;
+  let file: string;
+  let acl: AccessControlList;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'acl-'));
+    file = path.join(dir, 'acl.json');
+    acl = new AccessControlList(file, silentLogger);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('allows everyone but the blocked trust tier with an empty list', () => {
+    expect(acl.evaluate(identity(), CHANNEL_ID)).toEqual({ allowed: true, reason: 'allowed' });
+    expect(acl.evaluate(identity({ trustTier: TrustTier.BLOCKED }), CHANNEL_ID).allowed).toBe(false);
+  });
+
+  it.each<[AclSubject, string]>([
+    ['user', USER_ID],
+    ['role', ROLE_ID],
+    ['guild', GUILD_ID],
+  ])('denies a blocked %s', async (subject, id) => {
+    await acl.add('block', subject, id, OWNER_ID);
+
+    const decision = acl.evaluate(identity(), CHANNEL_ID);
+
+    expect(decision.allowed).toBe(false);
+    expect(decision.reason).toBe(`${subject} ${id} is blocked`);
+    expect(decision.matchedEntry).toMatchObject({ list: 'block', subject, id });
+  });
+
+  it('always allows owners', async () => {
+    await acl.add('block', 'user', OWNER_ID, OWNER_ID);
+
+    const decision = acl.evaluate(identity({ id: OWNER_ID, trustTier: TrustTier.OWNER }), CHANNEL_ID);
+
+    expect(decision).toEqual({ allowed: true, reason: 'owner' });
+  });
+
+  it('requires a match on every non-empty allowlist', async () => {
+    await acl.add('allow', 'guild', GUILD_ID, OWNER_ID);
+    await acl.add('allow', 'channel', OTHER_ID, OWNER_ID);
+
+    expect(acl.evaluate(identity(), CHANNEL_ID)).toEqual({ allowed: false, reason: 'not on the channel allowlist' });
+    expect(acl.evaluate(identity(), OTHER_ID).allowed).toBe(true);
+    expect(acl.evaluate(identity({ guildId: undefined, isDirectMessage: true, roleIds: [] }), OTHER_ID))
+      .toEqual({ allowed: false, reason: 'not on the guild allowlist' });
+  });
+
+  it('lets a block entry win over an allow entry', async () => {
+    await acl.add('allow', 'user', USER_ID, OWNER_ID);
+    await acl.add('block', 'role', ROLE_ID, OWNER_ID);
+
+    expect(acl.evaluate(identity(), CHANNEL_ID).allowed).toBe(false);
+  });
+
+  it('persists additions and removals', async () => {
+    expect(await acl.add('block', 'user', USER_ID, OWNER_ID)).toBe(true);
+    expect(await acl.add('block', 'user', USER_ID, OWNER_ID)).toBe(false);
+    await acl.add('allow', 'guild', GUILD_ID, OWNER_ID);
+
+    const reloaded = new AccessControlList(file, silentLogger);
+    expect(reloaded.list().map(entry => `${entry.list} ${entry.subject} ${entry.id}`)).toEqual([
+      `allow guild ${GUILD_ID}`,
+      `block user ${USER_ID}`,
+    ]);
+
+    expect(await reloaded.remove('block', 'user', USER_ID)).toBe(true);
+    expect(await reloaded.remove('block', 'user', USER_ID)).toBe(false);
+    expect(new AccessControlList(file, silentLogger).list()).toHaveLength(1);
+    await expect(acl.add('block', 'user', 'abc', OWNER_ID)).rejects.toThrow(/Invalid user ID 'abc'/);
+  });
+
+  it.each([
+    ['an unknown list', { list: 'deny' }, /ACL entry 1: invalid list or subject 'deny user'/],
+    ['a malformed ID', { id: 'abc' }, /ACL entry 1: invalid user ID 'abc'/],
+    ['an empty addedBy', { addedBy: '' }, /ACL entry 1: addedBy must be a non-empty string/],
+    ['an unparseable addedAt', { addedAt: 'yesterday' }, /ACL entry 1: invalid addedAt 'yesterday'/],
+  ])('rejects a stored entry with %s', (_label, overrides, message) => {
+    const entry = { list: 'block', subject: 'user', id: USER_ID, addedBy: OWNER_ID, addedAt: '2026-01-01T00:00:00.000Z' };
+    fs.writeFileSync(file, JSON.stringify({ version: 1, entries: [entry, { ...entry, ...overrides }] }));
+
+    expect(() => new AccessControlList(file, silentLogger)).toThrow(message);
+  });
+});
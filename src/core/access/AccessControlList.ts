@@ -0,0 +1,297 @@
+import * as path from 'path';
+import { isValidSnowflake } from '../../config/ownerConfig';
+import { AccessDecision, AclEntry, AclList, AclSubject } from '../../types/acl.types';
+import { UserIdentity } from '../../types/persona.types';
+import { TrustTier } from '../../types/trust.types';
+import { AtomicJsonWriter, isObject, readJsonFileSync } from '../../utils/jsonFile';
+import { Logger } from '../../utils/logger';
+
+/**
+ * On-disk shape of the ACL file.
+ */
+interface AclFile {
+  version: number;
+  entries: Array<{
+    list: string;
+    subject: string;
+    id: string;
+    addedBy: string;
+    addedAt: string;
+  }>;
+}
+
+/**
+ * Current ACL file format version.
+ */
+const ACL_FILE_VERSION = 1;
+
+/**
+ * Default location of the ACL file (ACL_FILE overrides it).
+ */
+export const DEFAULT_ACL_FILE = 'data/acl.json';
+
+/**
+ * Valid list names.
+ */
+export const ACL_LISTS: readonly AclList[] = Object.freeze(['allow', 'block']);
+
+/**
+ * Valid subjects, in evaluation order.
+ */
+export const ACL_SUBJECTS: readonly AclSubject[] = Object.freeze(['user', 'role', 'channel', 'guild']);
+
+/**
+ * Persistent allowlist / blocklist of users, roles, channels and guilds.
+ *
+ * Evaluation order:
+ * 1. Owners are always allowed (they can never lock themselves out)
+ * 2. Users whose trust tier is BLOCKED are denied
+ * 3. Any matching block entry denies
+ * 4. For each subject with a non-empty allowlist, the request must match it
+ * 5. Otherwise allowed
+ *
+ * Allowlists are independent: with both a guild and a user allowlist,
+ * a request must match both. Direct messages have no guild and no roles,
+ * so a non-empty guild or role allowlist denies them.
+ *
+ * Entries are loaded synchronously at startup and written back
+ * atomically on every change.
+ *
+ * NOT Responsible For:
+ * - Authorizing who may edit the list (AdminCommandRouter's job)
+ * - Dropping denied requests (AccessControlStage's job)
+ */
+export class AccessControlList {
+  private readonly filePath: string;
+  private readonly logger: Logger;
+  private readonly writer: AtomicJsonWriter;
+  private entries: Readonly<AclEntry>[] = [];
+
+  /**
+   * Tail of the change queue, so concurrent edits never overwrite each other.
+   */
+  private changing: Promise<unknown> = Promise.resolve();
+
+  /**
+   * @param filePath - ACL JSON file (created on first change)
+   * @param logger - Logger for list changes
+   * @throws Error if an existing file cannot be read or is invalid
+   */
+  constructor(filePath: string, logger: Logger) {
+    this.filePath = path.resolve(filePath);
+    this.logger = logger;
+    this.writer = new AtomicJsonWriter(this.filePath);
+    this.load();
+  }
+
+  /**
+   * Decide whether a request may be processed.
+   *
+   * @param identity - Resolved identity of the author
+   * @param channelId - Channel the request arrived in
+   * @returns Access decision
+   */
+  public evaluate(identity: UserIdentity, channelId: string): AccessDecision {
+    if (identity.trustTier === TrustTier.OWNER) {
+      return { allowed: true, reason: 'owner' };
+    }
+
+    if (identity.trustTier === TrustTier.BLOCKED) {
+      return { allowed: false, reason: 'trust tier is blocked' };
+    }
+
+    const subjectIds: Record<AclSubject, readonly string[]> = {
+      user: [identity.id],
+      role: identity.roleIds,
+      channel: [channelId],
+      guild: identity.guildId ? [identity.guildId] : [],
+    };
+
+    const blocked = this.entries.find(
+      entry => entry.list === 'block' && subjectIds[entry.subject].includes(entry.id)
+    );
+    if (blocked) {
+      return { allowed: false, reason: `${blocked.subject} ${blocked.id} is blocked`, matchedEntry: blocked };
+    }
+
+    for (const subject of ACL_SUBJECTS) {
+      const allowed = this.entries.filter(entry => entry.list === 'allow' && entry.subject === subject);
+      if (allowed.length > 0 && !allowed.some(entry => subjectIds[subject].includes(entry.id))) {
+        return { allowed: false, reason: `not on the ${subject} allowlist` };
+      }
+    }
+
+    return { allowed: true, reason: 'allowed' };
+  }
+
+  /**
+   * Add an entry. Adding an existing entry is a no-op.
+   *
+   * @param list - Allowlist or blocklist
+   * @param subject - What the ID identifies
+   * @param id - Discord ID
+   * @param addedBy - Owner ID making the change
+   * @returns True if the entry was added, false if it already existed
+   * @throws Error if the ID is invalid or persisting fails
+   */
+  public async add(list: AclList, subject: AclSubject, id: string, addedBy: string): Promise<boolean> {
+    if (!isValidSnowflake(id)) {
+      throw new Error(`Invalid ${subject} ID '${id}'`);
+    }
+
+    const added = await this.update(entries => {
+      if (this.find(entries, list, subject, id)) {
+        return undefined;
+      }
+      return [...entries, Object.freeze({ list, subject, id, addedBy, addedAt: new Date() })];
+    });
+
+    if (added) {
+      this.logger.info('ACL entry added', { list, subject, id, addedBy });
+    }
+    return added;
+  }
+
+  /**
+   * Remove an entry.
+   *
+   * @param list - Allowlist or blocklist
+   * @param subject - What the ID identifies
+   * @param id - Discord ID
+   * @returns True if the entry existed and was removed
+   * @throws Error if persisting fails
+   */
+  public async remove(list: AclList, subject: AclSubject, id: string): Promise<boolean> {
+    const removed = await this.update(entries => {
+      const entry = this.find(entries, list, subject, id);
+      return entry ? entries.filter(e => e !== entry) : undefined;
+    });
+
+    if (removed) {
+      this.logger.info('ACL entry removed', { list, subject, id });
+    }
+    return removed;
+  }
+
+  /**
+   * List all entries.
+   *
+   * @returns Entries grouped by list, then subject, then insertion order
+   */
+  public list(): Readonly<AclEntry>[] {
+    return ACL_LISTS.flatMap(list =>
+      ACL_SUBJECTS.flatMap(subject =>
+        this.entries.filter(entry => entry.list === list && entry.subject === subject)
+      )
+    );
+  }
+
+  /**
+   * Find an entry.
+   *
+   * @param entries - Entries to search
+   * @param list - Allowlist or blocklist
+   * @param subject - What the ID identifies
+   * @param id - Discord ID
+   * @returns Matching entry, if any
+   */
+  private find(
+    entries: readonly Readonly<AclEntry>[],
+    list: AclList,
+    subject: AclSubject,
+    id: string
+  ): Readonly<AclEntry> | undefined {
+    return entries.find(e => e.list === list && e.subject === subject && e.id === id);
+  }
+
+  /**
+   * Apply a change: compute new entries, persist them, then make them current.
+   * Changes run one at a time, and memory only changes once the write succeeded.
+   *
+   * @param change - Returns the complete new entry list, or undefined for no change
+   * @returns True if the entries changed
+   * @throws Error if persisting fails
+   */
+  private update(
+    change: (entries: Readonly<AclEntry>[]) => Readonly<AclEntry>[] | undefined
+  ): Promise<boolean> {
+    const run = this.changing.then(async () => {
+      const entries = change(this.entries);
+      if (!entries) {
+        return false;
+      }
+
+      const content: AclFile = {
+        version: ACL_FILE_VERSION,
+        entries: entries.map(entry => ({ ...entry, addedAt: entry.addedAt.toISOString() })),
+      };
+
+      await this.writer.write(content);
+      this.entries = entries;
+      return true;
+    });
+    this.changing = run.catch(() => undefined);
+
+    return run;
+  }
+
+  /**
+   * Load entries from disk. A missing file means an empty list.
+   *
+   * @throws Error if the file exists but is unreadable or invalid
+   */
+  private load(): void {
+    const parsed = readJsonFileSync(this.filePath) as AclFile | undefined;
+    if (parsed === undefined) {
+      return;
+    }
+
+    if (parsed.version !== ACL_FILE_VERSION || !Array.isArray(parsed.entries)) {
+      throw new Error(`Unsupported ACL file format: ${this.filePath}`);
+    }
+
+    this.entries = (parsed.entries as unknown[]).map((entry, index) =>
+      this.parseStoredEntry(entry, `ACL entry ${index}`)
+    );
+
+    this.logger.info('ACL loaded', { entries: this.entries.length, file: this.filePath });
+  }
+
+  /**
+   * Validate an entry read from disk. An unparseable addedAt would make
+   * every later write throw, so the file is rejected at startup instead.
+   *
+   * @param entry - Raw entry from the file
+   * @param label - Entry label for error messages
+   * @returns Frozen entry
+   * @throws Error if the entry is malformed
+   */
+  private parseStoredEntry(entry: unknown, label: string): Readonly<AclEntry> {
+    if (!isObject(entry)) {
+      throw new Error(`${label}: must be an object in ${this.filePath}`);
+    }
+
+    const { list, subject, id, addedBy, addedAt } = entry;
+    if (!ACL_LISTS.includes(list as AclList) || !ACL_SUBJECTS.includes(subject as AclSubject)) {
+      throw new Error(`${label}: invalid list or subject '${String(list)} ${String(subject)}' in ${this.filePath}`);
+    }
+    if (typeof id !== 'string' || !isValidSnowflake(id)) {
+      throw new Error(`${label}: invalid ${String(subject)} ID '${String(id)}' in ${this.filePath}`);
+    }
+    if (typeof addedBy !== 'string' || addedBy.length === 0) {
+      throw new Error(`${label}: addedBy must be a non-empty string in ${this.filePath}`);
+    }
+    const addedAtDate = typeof addedAt === 'string' ? new Date(addedAt) : undefined;
+    if (!addedAtDate || Number.isNaN(addedAtDate.getTime())) {
+      throw new Error(`${label}: invalid addedAt '${String(addedAt)}' in ${this.filePath}`);
+    }
+
+    return Object.freeze({
+      list: list as AclList,
+      subject: subject as AclSubject,
+      id,
+      addedBy,
+      addedAt: addedAtDate,
+    });
+  }
+}
@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AccessLogger } from './AccessLogger';
+import { AuditLog } from '../audit/AuditLog';
+import { UserIdentity } from '../../types/persona.types';
+import { TrustTier } from '../../types/trust.types';
+import { Logger } from '../../utils/logger';
+import { createRequest, silentLogger } from '../../testing/fixtures';
+
+const USER_ID = '222222222222222222';
+
+const identity: UserIdentity = {
+  id: USER_ID,
+  username: 'user',
+  discriminator: '0',
+  displayName: 'User',
+  isBot: false,
+  guildId: '333333333333333333',
+  isDirectMessage: false,
+  roleIds: [],
+  trustTier: TrustTier.GUEST,
+};
+
+describe('AccessLogger', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'access-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('records denials in the audit log', async () => {
+    const auditLog = new AuditLog(path.join(dir, 'audit.jsonl'), silentLogger);
+    const accessLogger = new AccessLogger(silentLogger, auditLog);
+
+    accessLogger.logDenied(
+      {
+        allowed: false,
+        reason: `user ${USER_ID} is blocked`,
+        matchedEntry: { list: 'block', subject: 'user', id: USER_ID, addedBy: '111111111111111111', addedAt: new Date() },
+      },
+      identity,
+      createRequest()
+    );
+
+    // verify() waits for queued appends
+    expect(await auditLog.verify()).toEqual({ valid: true, entries: 1 });
+    const [entry] = await auditLog.query();
+    expect(entry).toMatchObject({
+      type: 'access.denied',
+      userId: USER_ID,
+      channelId: 'c1',
+      messageId: 'msg-1',
+      data: { reason: `user ${USER_ID} is blocked`, matchedEntry: `block user ${USER_ID}`, trustTier: 'guest' },
+    });
+  });
+
+  it('logs a failed append without throwing', async () => {
+    const errors: string[] = [];
+    const logger: Logger = { ...silentLogger, error: message => errors.push(message) };
+    const auditPath = path.join(dir, 'audit.jsonl');
+    const auditLog = new AuditLog(auditPath, logger);
+    // A directory where the file should be makes every append fail
+    fs.mkdirSync(auditPath);
+
+    new AccessLogger(logger, auditLog).logDenied({ allowed: false, reason: 'no' }, identity, createRequest());
+    await auditLog.verify().catch(() => undefined);
+
+    expect(errors).toEqual(['Failed to write audit log entry']);
+  });
+});
@@ -0,0 +1,72 @@
+import { AuditLog } from '../audit/AuditLog';
+import { AccessDecision } from '../../types/acl.types';
+import { UserIdentity } from '../../types/persona.types';
+import { InboundRequest } from '../../types/request.types';
+import { Logger } from '../../utils/logger';
+
+/**
+ * Audit logger for access control denials.
+ * Every denied request is recorded, even though the user gets no reply.
+ * 
+ * Denials go to the console logger and, when an AuditLog is given, to the
+ * durable hash-chained audit log (replays pass none, like PersonaLogger).
+ */
+export class AccessLogger {
+  private readonly logger: Logger;
+  private readonly auditLog?: AuditLog;
+
+  /**
+   * @param logger - Console/structured logger
+   * @param auditLog - Durable audit log (optional)
+   */
+  constructor(logger: Logger, auditLog?: AuditLog) {
+    this.logger = logger;
+    this.auditLog = auditLog;
+  }
+
+  /**
+   * Log a denied request.
+   * 
+   * @param decision - Denying access decision
+   * @param identity - Identity of the author
+   * @param request - Denied request
+   */
+  public logDenied(decision: AccessDecision, identity: UserIdentity, request: InboundRequest): void {
+    const matchedEntry = decision.matchedEntry
+      ? `${decision.matchedEntry.list} ${decision.matchedEntry.subject} ${decision.matchedEntry.id}`
+      : undefined;
+
+    this.logger.warn('Access denied', {
+      reason: decision.reason,
+      matchedEntry,
+      userId: identity.id,
+      username: identity.username,
+      trustTier: identity.trustTier,
+      guildId: identity.guildId,
+      channelId: request.channel.id,
+      messageId: request.id,
+      timestamp: new Date().toISOString(),
+    });
+
+    // A failed append is logged; it never changes the decision
+    this.auditLog?.append({
+      type: 'access.denied',
+      userId: identity.id,
+      channelId: request.channel.id,
+      messageId: request.id,
+      data: {
+        reason: decision.reason,
+        matchedEntry,
+        username: identity.username,
+        trustTier: identity.trustTier,
+        guildId: identity.guildId,
+      },
+    }).catch(error => {
+      this.logger.error('Failed to write audit log entry', {
+        type: 'access.denied',
+        messageId: request.id,
+        error: (error as Error).message,
+      });
+    });
+  }
+}
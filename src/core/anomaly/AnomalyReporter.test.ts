@@ -0,0 +1,53 @@
+import { describe, expect, it } from '@jest/globals';
+import { AnomalyReporter } from './AnomalyReporter';
+import { OwnerNotifier } from '../../services/notify/OwnerNotifier';
+import { PersonaSelection, PersonaType } from '../../types/persona.types';
+import { delay } from '../../utils/abort';
+import { Logger } from '../../utils/logger';
+import { createRequest, silentLogger } from '../../testing/fixtures';
+
+const request = createRequest({ author: { username: 'acE', displayName: 'acE' }, channel: { isDirectMessage: true } });
+
+function selection(userId: string): PersonaSelection {
+  return {
+    persona: PersonaType.SUPERVISOR,
+    reason: 'default',
+    userId,
+    username: 'user',
+    isOwner: false,
+    timestamp: new Date(),
+    messageId: 'msg-1',
+    channelId: 'c1',
+  };
+}
+
+describe('AnomalyReporter', () => {
+  it('notifies owners at most once per user within the cooldown', () => {
+    const notices: string[] = [];
+    const notifier: OwnerNotifier = { notifyOwners: async text => { notices.push(text); } };
+    const reporter = new AnomalyReporter(silentLogger, undefined, notifier, 60_000);
+    const flags = [{ kind: 'owner-name-imitation' as const, evidence: 'acE' }];
+
+    reporter.report(flags, selection('1'), request);
+    reporter.report(flags, selection('1'), request);
+    reporter.report(flags, selection('2'), request);
+
+    expect(notices).toHaveLength(2);
+    expect(notices[0]).toBe('Impersonation attempt by acE (1) in a direct message:\n- owner-name-imitation: acE');
+  });
+
+  it('logs failed notifications without throwing', async () => {
+    const errors: string[] = [];
+    const logger: Logger = { ...silentLogger, error: message => errors.push(message) };
+    const notifier: OwnerNotifier = { notifyOwners: async () => { throw new Error('no DMs'); } };
+
+    new AnomalyReporter(logger, undefined, notifier).report(
+      [{ kind: 'identity-claim', evidence: 'I am ACE' }],
+      selection('1'),
+      request
+    );
+    await delay(0);
+
+    expect(errors).toEqual(['Failed to notify owners of flagged message']);
+  });
+});
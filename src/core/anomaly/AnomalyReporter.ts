@@ -0,0 +1,129 @@
+import { AuditLog } from '../audit/AuditLog';
+import { OwnerNotifier } from '../../services/notify/OwnerNotifier';
+import { AnomalyFlag } from '../../types/anomaly.types';
+import { PersonaSelection } from '../../types/persona.types';
+import { InboundRequest } from '../../types/request.types';
+import { Logger } from '../../utils/logger';
+
+/**
+ * Default minimum time between owner DMs about the same user (ms).
+ * Stops one user from flooding the owner's DMs.
+ */
+export const DEFAULT_NOTIFY_COOLDOWN_MS = 10 * 60 * 1000;
+
+/**
+ * Reports flagged messages to the logger, the audit log and, optionally,
+ * the owners.
+ *
+ * Reporting never blocks or fails the request: audit writes and DMs run
+ * in the background and their failures are only logged.
+ *
+ * NOT Responsible For:
+ * - Detecting anomalies (ImpersonationDetector's job)
+ * - Choosing how owners are reached (OwnerNotifier's job)
+ */
+export class AnomalyReporter {
+  private readonly logger: Logger;
+  private readonly auditLog?: AuditLog;
+  private readonly notifier?: OwnerNotifier;
+  private readonly notifyCooldownMs: number;
+
+  /**
+   * Last owner notification time per user ID.
+   */
+  private readonly lastNotified = new Map<string, number>();
+
+  /**
+   * @param logger - Logger for flags and failures
+   * @param auditLog - Durable audit log (optional)
+   * @param notifier - Owner notifier; omit to disable owner DMs
+   * @param notifyCooldownMs - Minimum time between DMs about one user
+   */
+  constructor(
+    logger: Logger,
+    auditLog?: AuditLog,
+    notifier?: OwnerNotifier,
+    notifyCooldownMs: number = DEFAULT_NOTIFY_COOLDOWN_MS
+  ) {
+    this.logger = logger;
+    this.auditLog = auditLog;
+    this.notifier = notifier;
+    this.notifyCooldownMs = notifyCooldownMs;
+  }
+
+  /**
+   * Report the flags raised on one message.
+   *
+   * @param flags - Flags (at least one)
+   * @param selection - Persona selected for the message
+   * @param request - Flagged request
+   */
+  public report(flags: readonly AnomalyFlag[], selection: PersonaSelection, request: InboundRequest): void {
+    const kinds = flags.map(flag => flag.kind);
+
+    this.logger.warn('Impersonation attempt flagged', {
+      kinds,
+      userId: selection.userId,
+      username: request.author.username,
+      displayName: request.author.displayName,
+      channelId: request.channel.id,
+      messageId: request.id,
+    });
+
+    this.auditLog?.append({
+      type: 'anomaly.flagged',
+      userId: selection.userId,
+      channelId: request.channel.id,
+      messageId: request.id,
+      data: {
+        flags: flags.map(flag => ({ ...flag })),
+        username: request.author.username,
+        displayName: request.author.displayName,
+        persona: selection.persona,
+      },
+    }).catch(error => {
+      this.logger.error('Failed to write audit log entry', {
+        type: 'anomaly.flagged',
+        messageId: request.id,
+        error: (error as Error).message,
+      });
+    });
+
+    if (this.notifier && this.takeNotifySlot(selection.userId)) {
+      const where = request.channel.guildId ? `channel ${request.channel.id}` : 'a direct message';
+      const text =
+        `Impersonation attempt by ${request.author.username} (${selection.userId}) in ${where}:\n` +
+        flags.map(flag => `- ${flag.kind}: ${flag.evidence}`).join('\n');
+
+      this.notifier.notifyOwners(text).catch(error => {
+        this.logger.error('Failed to notify owners of flagged message', {
+          messageId: request.id,
+          error: (error as Error).message,
+        });
+      });
+    }
+  }
+
+  /**
+   * Claim the right to notify about a user, honoring the cooldown.
+   *
+   * @param userId - Flagged user
+   * @returns True if a notification may be sent now
+   */
+  private takeNotifySlot(userId: string): boolean {
+    const now = Date.now();
+
+    // Forget users whose cooldown has passed
+    for (const [id, time] of this.lastNotified) {
+      if (now - time >= this.notifyCooldownMs) {
+        this.lastNotified.delete(id);
+      }
+    }
+
+    if (this.lastNotified.has(userId)) {
+      return false;
+    }
+    this.lastNotified.set(userId, now);
+    return true;
+  }
+}
@@ -0,0 +1,170 @@
+import { SYSTEM_CONSTANTS } from '../../config/constants';
+import { AnomalyFlag } from '../../types/anomaly.types';
+import { InboundRequest } from '../../types/request.types';
+
+/**
+ * Look-alike characters folded before comparing names.
+ */
+const CONFUSABLES: Readonly<Record<string, string>> = Object.freeze({
+  '0': 'o',
+  '1': 'l',
+  '3': 'e',
+  '4': 'a',
+  '5': 's',
+  '7': 't',
+  '@': 'a',
+  '$': 's',
+  '|': 'l',
+});
+
+/**
+ * Maximum characters of message text kept as evidence.
+ */
+const MAX_EVIDENCE_LENGTH = 100;
+
+/**
+ * Escape text for use inside a regular expression.
+ *
+ * @param text - Literal text
+ * @returns Escaped pattern
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Make the letters of a pattern match either case, so one pattern can mix
+ * case-insensitive words with a case-sensitive name.
+ *
+ * @param pattern - Pattern whose letters are literal, except escapes such as `\s`
+ * @returns Pattern with each letter as a two-case character class
+ */
+function anyCase(pattern: string): string {
+  return pattern.replace(/(?<!\\)[a-z]/gi, letter => `[${letter.toLowerCase()}${letter.toUpperCase()}]`);
+}
+
+/**
+ * Detects non-owners trying to pass as the owner.
+ *
+ * Owner status itself is decided by ID (OwnerValidator) and cannot be
+ * spoofed; this only surfaces attempts so the owner can see them:
+ * - Usernames or display names imitating the owner's name, including
+ *   case, spacing, punctuation, accent and digit-for-letter variants
+ *   ("A.C.E", "Âce", "4CE", "realACE")
+ * - Messages claiming to be the owner ("I am ACE", "this is the real ACE").
+ *   The name must be written exactly as configured and follow an identity
+ *   phrase, so "it's ace" or "that song is ace" are not claims
+ * - Messages asking for butler mode
+ *
+ * Stateless and side-effect free.
+ *
+ * NOT Responsible For:
+ * - Deciding owner status (OwnerValidator's job)
+ * - Reporting flags (AnomalyReporter's job)
+ */
+export class ImpersonationDetector {
+  private readonly ownerName: string;
+  private readonly identityClaimPattern: RegExp;
+  private readonly personaSwitchPatterns: readonly RegExp[];
+
+  /**
+   * @param ownerName - Name to protect (defaults to SYSTEM_CONSTANTS.OWNER_NAME)
+   * @throws Error if the name has no letters or digits
+   */
+  constructor(ownerName: string = SYSTEM_CONSTANTS.OWNER_NAME) {
+    this.ownerName = this.fold(ownerName);
+    if (this.ownerName.length === 0) {
+      throw new Error(`Owner name '${ownerName}' has no letters or digits`);
+    }
+
+    const name = escapeRegExp(ownerName.trim());
+    this.identityClaimPattern = new RegExp(
+      '\\b(?:' +
+        anyCase("(?:i\\s+am|i'?m)\\s+(?:the\\s+|your\\s+)?(?:real\\s+)?") +
+        '|' +
+        anyCase("(?:this\\s+is|it'?s)\\s+(?:(?:the\\s+)?real\\s+|your\\s+(?:real\\s+)?)") +
+      `)${name}\\b`
+    );
+    this.personaSwitchPatterns = Object.freeze([
+      /\bbutler\s+mode\b/i,
+      /\b(?:switch|change|go|turn|enter|activate|enable|use)\b[^.!?\n]{0,30}\bbutler\b/i,
+      /\b(?:act|behave|respond|talk)\s+(?:as|like)\s+(?:my|a|the)\s+butler\b/i,
+      /\btreat\s+me\s+(?:as|like)\s+(?:the\s+|your\s+)?(?:owner|master)\b/i,
+    ]);
+  }
+
+  /**
+   * Check a non-owner's message. Owners are never flagged; call only
+   * for requests whose author is not an owner.
+   *
+   * @param request - Inbound request
+   * @returns Flags (empty if nothing suspicious)
+   */
+  public detect(request: InboundRequest): AnomalyFlag[] {
+    const flags: AnomalyFlag[] = [];
+
+    for (const name of new Set([request.author.username, request.author.displayName])) {
+      if (this.imitatesOwner(name)) {
+        flags.push({ kind: 'owner-name-imitation', evidence: name });
+      }
+    }
+
+    const claim = this.identityClaimPattern.exec(request.content);
+    if (claim) {
+      flags.push({ kind: 'identity-claim', evidence: this.excerpt(claim[0]) });
+    }
+
+    for (const pattern of this.personaSwitchPatterns) {
+      const match = pattern.exec(request.content);
+      if (match) {
+        flags.push({ kind: 'persona-switch-request', evidence: this.excerpt(match[0]) });
+        break;
+      }
+    }
+
+    return flags;
+  }
+
+  /**
+   * Check whether a name imitates the owner's name: the whole folded name
+   * equals it, or one of its words does.
+   *
+   * @param name - Username or display name
+   * @returns True if the name imitates the owner
+   */
+  private imitatesOwner(name: string): boolean {
+    if (this.fold(name) === this.ownerName) {
+      return true;
+    }
+
+    // Split camelCase ("realACE") and separators into words
+    const words = name.replace(/([a-z])([A-Z])/g, '$1 $2').split(/[^\p{L}\p{N}@$|]+/u);
+    return words.some(word => word.length > 0 && this.fold(word) === this.ownerName);
+  }
+
+  /**
+   * Normalize text for name comparison: strip accents, lowercase,
+   * fold look-alike characters, drop everything but letters and digits.
+   *
+   * @param text - Text to fold
+   * @returns Folded text
+   */
+  private fold(text: string): string {
+    return text
+      .normalize('NFKD')
+      .replace(/\p{M}/gu, '')
+      .toLowerCase()
+      .replace(/./gu, char => CONFUSABLES[char] ?? char)
+      .replace(/[^\p{L}\p{N}]/gu, '');
+  }
+
+  /**
+   * Shorten matched text for evidence.
+   *
+   * @param text - Matched text
+   * @returns Text of at most MAX_EVIDENCE_LENGTH characters
+   */
+  private excerpt(text: string): string {
+    return text.length > MAX_EVIDENCE_LENGTH ? `${text.slice(0, MAX_EVIDENCE_LENGTH)}…` : text;
+  }
+}
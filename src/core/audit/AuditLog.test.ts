@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AuditLog } from './AuditLog';
+import { AuditEvent } from '../../types/audit.types';
+import { silentLogger } from '../../testing/fixtures';
+
+function event(userId: string, channelId = 'c1'): AuditEvent {
+  return { type: 'persona.selected', userId, channelId, messageId: `msg-${userId}`, data: { persona: 'SUPERVISOR' } };
+}
+
+describe('AuditLog', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'audit-'));
+    file = path.join(dir, 'audit.jsonl');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('chains entries in append order, across restarts', async () => {
+    const auditLog = new AuditLog(file, silentLogger);
+    const [first, second] = await Promise.all([auditLog.append(event('1')), auditLog.append(event('2'))]);
+
+    expect(first?.seq).toBe(1);
+    expect(second).toMatchObject({ seq: 2, prevHash: first?.hash });
+
+    const reopened = new AuditLog(file, silentLogger);
+    expect((await reopened.append(event('3'))).seq).toBe(3);
+    expect(await reopened.verify()).toEqual({ valid: true, entries: 3 });
+  });
+
+  it('filters queries and returns the most recent matches', async () => {
+    const auditLog = new AuditLog(file, silentLogger);
+    for (const userId of ['1', '2', '1', '1']) {
+      await auditLog.append(event(userId, userId === '2' ? 'c2' : 'c1'));
+    }
+
+    expect((await auditLog.query({ userId: '1' })).map(e => e.seq)).toEqual([1, 3, 4]);
+    expect((await auditLog.query({ channelId: 'c2' })).map(e => e.seq)).toEqual([2]);
+    expect((await auditLog.query({ limit: 2 })).map(e => e.seq)).toEqual([3, 4]);
+    expect(await auditLog.query({ since: new Date(Date.now() + 60_000) })).toEqual([]);
+  });
+
+  it.each<[string, (lines: string[]) => string[], Record<string, unknown>]>([
+    [
+      'an edited entry',
+      lines => [lines[0]?.replace('SUPERVISOR', 'BUTLER') ?? '', ...lines.slice(1)],
+      { valid: false, entries: 0, brokenAtLine: 1, reason: 'entry content does not match its hash' },
+    ],
+    ['a removed entry', lines => [lines[0] ?? '', lines[2] ?? ''], { valid: false, brokenAtLine: 2, reason: 'expected seq 2, found 3' }],
+    ['a truncated tail', lines => lines.slice(0, 2), { valid: false, entries: 2, reason: expect.stringMatching(/truncated/) }],
+  ])('detects %s', async (_label, tamper, expected) => {
+    const auditLog = new AuditLog(file, silentLogger);
+    for (const userId of ['1', '2', '3']) {
+      await auditLog.append(event(userId));
+    }
+
+    const lines = fs.readFileSync(file, 'utf-8').trimEnd().split('\n');
+    fs.writeFileSync(file, tamper(lines).join('\n') + '\n');
+
+    expect(await auditLog.verify()).toMatchObject(expected);
+  });
+
+  it('refuses to start on a malformed last entry', () => {
+    fs.writeFileSync(file, '{"seq":\n');
+    expect(() => new AuditLog(file, silentLogger)).toThrow(/Malformed last entry/);
+  });
+});
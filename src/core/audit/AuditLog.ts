@@ -0,0 +1,265 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { AuditEntry, AuditEvent, AuditQuery, AuditVerification } from '../../types/audit.types';
+import { Logger } from '../../utils/logger';
+
+/**
+ * Default location of the audit log (AUDIT_LOG_FILE overrides it).
+ */
+export const DEFAULT_AUDIT_LOG_FILE = 'data/audit.jsonl';
+
+/**
+ * prevHash of the first entry.
+ */
+const GENESIS_HASH = '0'.repeat(64);
+
+/**
+ * Default and maximum number of entries returned by a query.
+ */
+const DEFAULT_QUERY_LIMIT = 20;
+const MAX_QUERY_LIMIT = 200;
+
+/**
+ * Compute an entry's hash.
+ * Fields are hashed in a fixed order, so key order in the file does not matter.
+ *
+ * @param entry - Entry without its hash
+ * @returns Hex SHA-256 digest
+ */
+function hashEntry(entry: Omit<AuditEntry, 'hash'>): string {
+  const canonical = JSON.stringify([
+    entry.seq,
+    entry.timestamp,
+    entry.type,
+    entry.userId,
+    entry.channelId ?? null,
+    entry.messageId ?? null,
+    entry.data,
+    entry.prevHash,
+  ]);
+  return createHash('sha256').update(canonical).digest('hex');
+}
+
+/**
+ * Durable, tamper-evident audit log stored as a JSONL file.
+ *
+ * Every entry carries the hash of its predecessor and a hash over its own
+ * content, so editing, removing or reordering a line breaks the chain from
+ * that line on. verify() also compares the file's last entry with the last
+ * entry this process appended, which catches truncation of the tail.
+ *
+ * Appends are serialized; the chain head only advances once a line is on disk.
+ *
+ * NOT Responsible For:
+ * - Deciding what to audit (PersonaLogger's job)
+ * - Authorizing who may query it (AdminCommandRouter's job)
+ * - Protecting the file itself (tamper-evident, not tamper-proof)
+ */
+export class AuditLog {
+  private readonly filePath: string;
+  private readonly logger: Logger;
+
+  /**
+   * Sequence number and hash of the last entry on disk.
+   */
+  private head: { seq: number; hash: string } = { seq: 0, hash: GENESIS_HASH };
+
+  /**
+   * Tail of the append queue.
+   */
+  private pending: Promise<unknown> = Promise.resolve();
+
+  /**
+   * @param filePath - Audit JSONL file (created on first append)
+   * @param logger - Logger for startup and failures
+   * @throws Error if an existing file cannot be read or its last entry is malformed
+   */
+  constructor(filePath: string, logger: Logger) {
+    this.filePath = path.resolve(filePath);
+    this.logger = logger;
+    this.loadHead();
+  }
+
+  /**
+   * Append an event to the chain.
+   *
+   * @param event - Event to record
+   * @returns The stored entry
+   * @throws Error if the entry cannot be written (the chain head is unchanged)
+   */
+  public append(event: AuditEvent): Promise<AuditEntry> {
+    const run = this.pending.then(async () => {
+      const unsigned: Omit<AuditEntry, 'hash'> = {
+        seq: this.head.seq + 1,
+        timestamp: new Date().toISOString(),
+        type: event.type,
+        userId: event.userId,
+        channelId: event.channelId,
+        messageId: event.messageId,
+        data: event.data,
+        prevHash: this.head.hash,
+      };
+      const entry: AuditEntry = { ...unsigned, hash: hashEntry(unsigned) };
+
+      try {
+        await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.promises.appendFile(this.filePath, JSON.stringify(entry) + '\n', 'utf-8');
+      } catch (error) {
+        throw new Error(`Failed to append audit entry to ${this.filePath}`, { cause: error });
+      }
+
+      this.head = { seq: entry.seq, hash: entry.hash };
+      return entry;
+    });
+    // Keep the queue alive after a failed append; the caller sees the failure
+    this.pending = run.catch(() => undefined);
+
+    return run;
+  }
+
+  /**
+   * Search the log.
+   *
+   * @param query - Filters (all must match)
+   * @returns Most recent matching entries, oldest first
+   * @throws Error if the file cannot be read or contains malformed lines
+   */
+  public async query(query: AuditQuery = {}): Promise<AuditEntry[]> {
+    const limit = Math.min(Math.max(query.limit ?? DEFAULT_QUERY_LIMIT, 1), MAX_QUERY_LIMIT);
+
+    const matches = (await this.readEntries()).filter(entry => {
+      const time = Date.parse(entry.timestamp);
+      return (query.userId === undefined || entry.userId === query.userId)
+        && (query.channelId === undefined || entry.channelId === query.channelId)
+        && (query.since === undefined || time >= query.since.getTime())
+        && (query.until === undefined || time < query.until.getTime());
+    });
+
+    return matches.slice(-limit);
+  }
+
+  /**
+   * Check the whole hash chain.
+   *
+   * @returns Verification result naming the first broken line, if any
+   * @throws Error if the file cannot be read
+   */
+  public async verify(): Promise<AuditVerification> {
+    // Wait for queued appends so the file and head agree
+    await this.pending;
+
+    const lines = (await this.readLines()).filter(line => line.trim().length > 0);
+    let previous = { seq: 0, hash: GENESIS_HASH };
+
+    for (const [index, line] of lines.entries()) {
+      const broken = (reason: string): AuditVerification => ({
+        valid: false,
+        entries: index,
+        brokenAtLine: index + 1,
+        reason,
+      });
+
+      let entry: AuditEntry;
+      try {
+        entry = JSON.parse(line) as AuditEntry;
+      } catch {
+        return broken('line is not valid JSON');
+      }
+
+      if (entry.seq !== previous.seq + 1) {
+        return broken(`expected seq ${previous.seq + 1}, found ${entry.seq}`);
+      }
+      if (entry.prevHash !== previous.hash) {
+        return broken('prevHash does not match the previous entry');
+      }
+      const { hash, ...unsigned } = entry;
+      if (hashEntry(unsigned) !== hash) {
+        return broken('entry content does not match its hash');
+      }
+
+      previous = { seq: entry.seq, hash };
+    }
+
+    if (previous.seq !== this.head.seq || previous.hash !== this.head.hash) {
+      return {
+        valid: false,
+        entries: lines.length,
+        reason: `log ends at seq ${previous.seq}, but seq ${this.head.seq} was written (truncated or replaced)`,
+      };
+    }
+
+    return { valid: true, entries: lines.length };
+  }
+
+  /**
+   * Read the file's lines.
+   *
+   * @returns Lines (empty if the file does not exist yet)
+   * @throws Error if the file cannot be read
+   */
+  private async readLines(): Promise<string[]> {
+    try {
+      return (await fs.promises.readFile(this.filePath, 'utf-8')).split('\n');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw new Error(`Failed to read audit log: ${this.filePath}`, { cause: error });
+    }
+  }
+
+  /**
+   * Read and parse every entry.
+   *
+   * @returns Entries in file order
+   * @throws Error if the file cannot be read or a line is not JSON
+   */
+  private async readEntries(): Promise<AuditEntry[]> {
+    const lines = (await this.readLines()).filter(line => line.trim().length > 0);
+    return lines.map((line, index) => {
+      try {
+        return JSON.parse(line) as AuditEntry;
+      } catch (error) {
+        throw new Error(`Malformed audit log line ${index + 1} in ${this.filePath}`, { cause: error });
+      }
+    });
+  }
+
+  /**
+   * Find the chain head (last entry) so appends continue the chain.
+   * The chain itself is only checked by verify().
+   *
+   * @throws Error if the file exists but cannot be read or its last line is malformed
+   */
+  private loadHead(): void {
+    if (!fs.existsSync(this.filePath)) {
+      return;
+    }
+
+    let lines: string[];
+    try {
+      lines = fs.readFileSync(this.filePath, 'utf-8').split('\n').filter(line => line.trim().length > 0);
+    } catch (error) {
+      throw new Error(`Failed to read audit log: ${this.filePath}`, { cause: error });
+    }
+
+    const last = lines[lines.length - 1];
+    if (last === undefined) {
+      return;
+    }
+
+    let entry: Partial<AuditEntry>;
+    try {
+      entry = JSON.parse(last) as Partial<AuditEntry>;
+    } catch (error) {
+      throw new Error(`Malformed last entry in audit log: ${this.filePath}`, { cause: error });
+    }
+    if (typeof entry.seq !== 'number' || typeof entry.hash !== 'string') {
+      throw new Error(`Malformed last entry in audit log: ${this.filePath}`);
+    }
+
+    this.head = { seq: entry.seq, hash: entry.hash };
+    this.logger.info('Audit log loaded', { entries: lines.length, headSeq: entry.seq, file: this.filePath });
+  }
+}
@@ -0,0 +1,75 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ExperimentLog } from './ExperimentLog';
+import { parseExperimentEvents } from './ExperimentReport';
+import { ExposureEvent } from '../../types/experiment.types';
+import { silentLogger } from '../../testing/fixtures';
+
+const REQUESTER_ID = '222222222222222222';
+const OTHER_ID = '555555555555555555';
+
+const EXPOSURE: Omit<ExposureEvent, 'type' | 'timestamp'> = {
+  requestId: 'r1',
+  userId: REQUESTER_ID,
+  channelId: '444444444444444444',
+  messageIds: ['m1', 'm2'],
+  assignments: [{ experimentId: 'tone', prompt: 'developer.md', variantId: 'terse', assignBy: 'user' }],
+};
+
+describe('ExperimentLog', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'experiment-log-'));
+    file = path.join(dir, 'data', 'experiments.jsonl');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function events(): ReturnType<typeof parseExperimentEvents>['events'] {
+    return parseExperimentEvents(fs.readFileSync(file, 'utf-8')).events;
+  }
+
+  it('records feedback on any message of a tracked response', async () => {
+    const log = new ExperimentLog(file, silentLogger);
+    expect(await log.recordFeedback({ messageId: 'm1', userId: REQUESTER_ID, signal: 'positive', action: 'added' })).toBe(false);
+    expect(fs.existsSync(file)).toBe(false);
+
+    await log.recordExposure(EXPOSURE);
+
+    expect(await log.recordFeedback({ messageId: 'm2', userId: OTHER_ID, signal: 'negative', action: 'added' })).toBe(true);
+    expect(await log.recordFeedback({ messageId: 'm1', userId: REQUESTER_ID, signal: 'positive', action: 'added' })).toBe(true);
+    expect(events()).toEqual([
+      expect.objectContaining({ type: 'exposure', requestId: 'r1', messageIds: ['m1', 'm2'] }),
+      expect.objectContaining({ type: 'feedback', requestId: 'r1', messageId: 'm2', byRequester: false, signal: 'negative' }),
+      expect.objectContaining({ type: 'feedback', requestId: 'r1', messageId: 'm1', byRequester: true, signal: 'positive' }),
+    ]);
+  });
+
+  it('keeps tracking responses across restarts', async () => {
+    await new ExperimentLog(file, silentLogger).recordExposure(EXPOSURE);
+    fs.appendFileSync(file, 'not json\n');
+    const warnings: unknown[][] = [];
+
+    const log = new ExperimentLog(file, { ...silentLogger, warn: (...args) => warnings.push(args) });
+
+    expect(log.isTracked('m2')).toBe(true);
+    expect(warnings).toEqual([['Skipped malformed experiment log lines', { file, skippedLines: 1 }]]);
+  });
+
+  it('reports failed appends and keeps appending afterwards', async () => {
+    const log = new ExperimentLog(file, silentLogger);
+    fs.mkdirSync(file, { recursive: true });
+
+    await expect(log.recordExposure(EXPOSURE)).rejects.toThrow(`Failed to append experiment event to ${file}`);
+
+    fs.rmSync(file, { recursive: true });
+    expect(await log.recordFeedback({ messageId: 'm1', userId: REQUESTER_ID, signal: 'positive', action: 'added' })).toBe(true);
+    expect(events()).toEqual([expect.objectContaining({ type: 'feedback', requestId: 'r1' })]);
+  });
+});
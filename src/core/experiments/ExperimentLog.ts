@@ -0,0 +1,209 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseExperimentEvents } from './ExperimentReport';
+import { ExperimentEvent, ExposureEvent, FeedbackEvent, FeedbackSignal } from '../../types/experiment.types';
+import { Logger } from '../../utils/logger';
+
+/**
+ * Default location of the experiment log (EXPERIMENT_LOG_FILE overrides it).
+ */
+export const DEFAULT_EXPERIMENT_LOG_FILE = 'data/experiments.jsonl';
+
+/**
+ * Reactions read as feedback on a response; others are ignored.
+ */
+export const FEEDBACK_REACTIONS: Readonly<Record<string, FeedbackSignal>> = Object.freeze({
+  '👍': 'positive',
+  '👎': 'negative',
+});
+
+/**
+ * Most recent exposures whose messages accept feedback.
+ * Reactions on older responses are ignored.
+ */
+const MAX_TRACKED_EXPOSURES = 5000;
+
+/**
+ * A reaction on a bot message, before it is matched to an exposure.
+ */
+export interface FeedbackInput {
+  messageId: string;
+  userId: string;
+  signal: FeedbackSignal;
+  action: FeedbackEvent['action'];
+}
+
+/**
+ * Append-only JSONL log of experiment exposures (responses built with an
+ * experiment variant) and the feedback reactions on them, read by the
+ * experiment report (see src/tools/experimentReport.ts).
+ *
+ * The most recent exposures are indexed by message ID, rebuilt from the
+ * file at startup, so reactions on responses sent before a restart still
+ * count. Appends are serialized so lines never interleave.
+ *
+ * PRIVACY: entries contain user and channel IDs, but no message content.
+ *
+ * NOT Responsible For:
+ * - Assigning variants (PromptExperiments' job)
+ * - Aggregating results (buildExperimentReport's job)
+ */
+export class ExperimentLog {
+  private readonly filePath: string;
+  private readonly logger: Logger;
+
+  /**
+   * Tracked exposures by request ID, oldest first.
+   */
+  private readonly exposures = new Map<string, ExposureEvent>();
+
+  /**
+   * Request ID of each tracked exposure, by delivered message ID.
+   */
+  private readonly requestByMessage = new Map<string, string>();
+
+  /**
+   * Tail of the append queue.
+   */
+  private pending: Promise<unknown> = Promise.resolve();
+
+  /**
+   * @param filePath - Experiment JSONL file (created on first append)
+   * @param logger - Logger for startup and failures
+   * @throws Error if an existing file cannot be read
+   */
+  constructor(filePath: string, logger: Logger) {
+    this.filePath = path.resolve(filePath);
+    this.logger = logger;
+    this.loadExposures();
+  }
+
+  /**
+   * Record a delivered response built with experiment variants.
+   *
+   * @param exposure - Exposure without type and timestamp
+   * @returns Promise resolving once the line is written
+   * @throws Error if the line cannot be written
+   */
+  public recordExposure(exposure: Omit<ExposureEvent, 'type' | 'timestamp'>): Promise<void> {
+    const event: ExposureEvent = { type: 'exposure', timestamp: new Date().toISOString(), ...exposure };
+    this.track(event);
+    return this.append(event);
+  }
+
+  /**
+   * Record a feedback reaction if it is on a tracked response.
+   *
+   * @param input - Reaction details
+   * @returns True if recorded, false if the message is not a tracked response
+   * @throws Error if the line cannot be written
+   */
+  public async recordFeedback(input: FeedbackInput): Promise<boolean> {
+    const requestId = this.requestByMessage.get(input.messageId);
+    const exposure = requestId !== undefined ? this.exposures.get(requestId) : undefined;
+    if (!exposure) {
+      return false;
+    }
+
+    await this.append({
+      type: 'feedback',
+      timestamp: new Date().toISOString(),
+      requestId: exposure.requestId,
+      messageId: input.messageId,
+      userId: input.userId,
+      byRequester: input.userId === exposure.userId,
+      signal: input.signal,
+      action: input.action,
+    });
+    return true;
+  }
+
+  /**
+   * Check whether a message is a tracked response.
+   *
+   * @param messageId - Message ID
+   * @returns True if reactions on it are recorded
+   */
+  public isTracked(messageId: string): boolean {
+    return this.requestByMessage.has(messageId);
+  }
+
+  /**
+   * Index an exposure's messages, forgetting the oldest beyond MAX_TRACKED_EXPOSURES.
+   *
+   * @param exposure - Exposure to track
+   */
+  private track(exposure: ExposureEvent): void {
+    this.exposures.delete(exposure.requestId);
+    this.exposures.set(exposure.requestId, exposure);
+    for (const messageId of exposure.messageIds) {
+      this.requestByMessage.set(messageId, exposure.requestId);
+    }
+
+    for (const [requestId, oldest] of this.exposures) {
+      if (this.exposures.size <= MAX_TRACKED_EXPOSURES) {
+        break;
+      }
+      this.exposures.delete(requestId);
+      for (const messageId of oldest.messageIds) {
+        this.requestByMessage.delete(messageId);
+      }
+    }
+  }
+
+  /**
+   * Queue a line for appending.
+   *
+   * @param event - Event to write
+   * @returns Promise resolving once the line is written
+   * @throws Error if the line cannot be written
+   */
+  private append(event: ExperimentEvent): Promise<void> {
+    const run = this.pending.then(async () => {
+      try {
+        await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.promises.appendFile(this.filePath, JSON.stringify(event) + '\n', 'utf-8');
+      } catch (error) {
+        throw new Error(`Failed to append experiment event to ${this.filePath}`, { cause: error });
+      }
+    });
+    // Keep the queue alive after a failed append; the caller sees the failure
+    this.pending = run.catch(() => undefined);
+
+    return run;
+  }
+
+  /**
+   * Rebuild the message index from the file.
+   *
+   * @throws Error if the file exists but cannot be read
+   */
+  private loadExposures(): void {
+    if (!fs.existsSync(this.filePath)) {
+      return;
+    }
+
+    let text: string;
+    try {
+      text = fs.readFileSync(this.filePath, 'utf-8');
+    } catch (error) {
+      throw new Error(`Failed to read experiment log: ${this.filePath}`, { cause: error });
+    }
+
+    const { events, skippedLines } = parseExperimentEvents(text);
+    for (const event of events) {
+      if (event.type === 'exposure') {
+        this.track(event);
+      }
+    }
+
+    if (skippedLines > 0) {
+      this.logger.warn('Skipped malformed experiment log lines', { file: this.filePath, skippedLines });
+    }
+    this.logger.info('Experiment log loaded', {
+      file: this.filePath,
+      events: events.length,
+      trackedExposures: this.exposures.size,
+    });
+  }
+}
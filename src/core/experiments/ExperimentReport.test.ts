@@ -0,0 +1,121 @@
+import { describe, expect, it } from '@jest/globals';
+import { buildExperimentReport, parseExperimentEvents } from './ExperimentReport';
+import { ExperimentAssignment, ExposureEvent, FeedbackEvent } from '../../types/experiment.types';
+
+const REQUESTER_ID = '222222222222222222';
+const OTHER_ID = '555555555555555555';
+
+const CONTROL: ExperimentAssignment = { experimentId: 'tone', prompt: 'developer.md', variantId: 'control', assignBy: 'user' };
+const TERSE: ExperimentAssignment = { experimentId: 'tone', prompt: 'developer.md', variantId: 'terse', assignBy: 'user' };
+
+function exposure(requestId: string, assignments: ExperimentAssignment[], overrides: Partial<ExposureEvent> = {}): ExposureEvent {
+  return {
+    type: 'exposure',
+    timestamp: '2026-10-01T12:00:00.000Z',
+    requestId,
+    userId: REQUESTER_ID,
+    channelId: '444444444444444444',
+    messageIds: [`m-${requestId}`],
+    assignments,
+    ...overrides,
+  };
+}
+
+function feedback(requestId: string, overrides: Partial<FeedbackEvent> = {}): FeedbackEvent {
+  return {
+    type: 'feedback',
+    timestamp: '2026-10-01T12:01:00.000Z',
+    requestId,
+    messageId: `m-${requestId}`,
+    userId: REQUESTER_ID,
+    byRequester: true,
+    signal: 'positive',
+    action: 'added',
+    ...overrides,
+  };
+}
+
+describe('parseExperimentEvents', () => {
+  it('skips and counts lines that are not experiment events', () => {
+    const text = [
+      JSON.stringify(exposure('r1', [CONTROL])),
+      '',
+      'not json',
+      JSON.stringify({ type: 'exposure', requestId: 'r2' }),
+      JSON.stringify({ type: 'other' }),
+      JSON.stringify(feedback('r1')),
+      '',
+    ].join('\n');
+
+    const { events, skippedLines } = parseExperimentEvents(text);
+
+    expect(events.map(event => event.type)).toEqual(['exposure', 'feedback']);
+    expect(skippedLines).toBe(3);
+  });
+});
+
+describe('buildExperimentReport', () => {
+  it('counts responses, users and reactions per variant', () => {
+    const report = buildExperimentReport([
+      exposure('r1', [CONTROL]),
+      exposure('r2', [CONTROL], { userId: OTHER_ID }),
+      exposure('r3', [TERSE]),
+      feedback('r1'),
+      feedback('r1', { userId: OTHER_ID, byRequester: false, signal: 'negative' }),
+      feedback('r3', { signal: 'negative' }),
+    ]);
+
+    expect(report).toEqual([{
+      experimentId: 'tone',
+      prompt: 'developer.md',
+      variants: [
+        { variantId: 'control', responses: 2, users: 2, positive: 1, negative: 1, ratedResponses: 1, positiveRate: 0.5 },
+        { variantId: 'terse', responses: 1, users: 1, positive: 0, negative: 1, ratedResponses: 1, positiveRate: 0 },
+      ],
+    }]);
+  });
+
+  it('counts each reaction in its latest state', () => {
+    const [result] = buildExperimentReport([
+      exposure('r1', [CONTROL]),
+      feedback('r1'),
+      feedback('r1'),
+      feedback('r1', { signal: 'negative' }),
+      feedback('r1', { signal: 'negative', action: 'removed' }),
+    ]);
+
+    expect(result?.variants[0]).toEqual(
+      { variantId: 'control', responses: 1, users: 1, positive: 1, negative: 0, ratedResponses: 1, positiveRate: 1 }
+    );
+  });
+
+  it('counts a response in every experiment it was part of', () => {
+    const system: ExperimentAssignment = { experimentId: 'persona', prompt: 'supervisor.system.md', variantId: 'warm', assignBy: 'channel' };
+
+    const report = buildExperimentReport([exposure('r1', [CONTROL, system]), feedback('r1')]);
+
+    expect(report.map(result => [result.experimentId, result.variants[0]?.positive])).toEqual([['tone', 1], ['persona', 1]]);
+  });
+
+  it('filters by delivery time and requester', () => {
+    const [result] = buildExperimentReport(
+      [
+        exposure('r1', [CONTROL], { timestamp: '2026-09-30T23:59:59.999Z' }),
+        exposure('r2', [CONTROL], { timestamp: '2026-10-01T00:00:00.000Z' }),
+        feedback('r1'),
+      ],
+      { since: new Date('2026-10-01T00:00:00.000Z') }
+    );
+
+    expect(result?.variants[0]).toMatchObject({ responses: 1, positive: 0 });
+
+    const [requester] = buildExperimentReport(
+      [exposure('r1', [CONTROL]), feedback('r1', { userId: OTHER_ID, byRequester: false, signal: 'negative' }), feedback('r9')],
+      { requesterOnly: true }
+    );
+    expect(requester?.variants[0]).toEqual(
+      { variantId: 'control', responses: 1, users: 1, positive: 0, negative: 0, ratedResponses: 0 }
+    );
+  });
+
+});
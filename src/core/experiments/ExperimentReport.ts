@@ -0,0 +1,136 @@
+import {
+  ExperimentEvent,
+  ExperimentResult,
+  ExposureEvent,
+  FeedbackEvent,
+  VariantResult,
+} from '../../types/experiment.types';
+
+/**
+ * Filters for an experiment report.
+ */
+export interface ExperimentReportOptions {
+  /**
+   * Only count responses delivered at or after this time.
+   */
+  since?: Date;
+
+  /**
+   * Only count reactions from the user who sent the request.
+   */
+  requesterOnly?: boolean;
+}
+
+/**
+ * Parse an experiment log.
+ * Blank lines are ignored; lines that are not experiment events are
+ * skipped and counted, so one bad line does not hide the rest.
+ *
+ * @param text - JSONL file content
+ * @returns Events in file order and the number of skipped lines
+ */
+export function parseExperimentEvents(text: string): { events: ExperimentEvent[]; skippedLines: number } {
+  const events: ExperimentEvent[] = [];
+  let skippedLines = 0;
+
+  for (const line of text.split('\n')) {
+    if (line.trim().length === 0) {
+      continue;
+    }
+    try {
+      const event = JSON.parse(line) as Partial<ExperimentEvent>;
+      const valid = (event.type === 'exposure' && Array.isArray(event.messageIds) && Array.isArray(event.assignments))
+        || (event.type === 'feedback' && typeof event.requestId === 'string');
+      if (!valid) {
+        throw new Error('not an experiment event');
+      }
+      events.push(event as ExperimentEvent);
+    } catch {
+      skippedLines++;
+    }
+  }
+
+  return { events, skippedLines };
+}
+
+/**
+ * Summarize exposures and feedback per experiment and variant.
+ *
+ * Each user's reaction counts once per response and signal, in its latest
+ * state: a reaction added and later removed is not counted. A response in
+ * several experiments (e.g. system and developer prompt) counts in each.
+ *
+ * @param events - Events in file order
+ * @param options - Filters
+ * @returns Experiments and variants in first-seen order
+ */
+export function buildExperimentReport(
+  events: readonly ExperimentEvent[],
+  options: ExperimentReportOptions = {}
+): ExperimentResult[] {
+  const exposures = new Map<string, ExposureEvent>();
+  const reactions = new Map<string, FeedbackEvent>();
+
+  for (const event of events) {
+    if (event.type === 'exposure') {
+      if (options.since === undefined || Date.parse(event.timestamp) >= options.since.getTime()) {
+        exposures.set(event.requestId, event);
+      }
+    } else if (!options.requesterOnly || event.byRequester) {
+      // Later events replace earlier ones: the latest state wins
+      reactions.set(`${event.requestId}|${event.userId}|${event.signal}`, event);
+    }
+  }
+
+  const experiments = new Map<string, ExperimentResult>();
+  const users = new Map<VariantResult, Set<string>>();
+  const rated = new Map<VariantResult, Set<string>>();
+  const variantResult = (experimentId: string, prompt: string, variantId: string): VariantResult => {
+    let experiment = experiments.get(experimentId);
+    if (!experiment) {
+      experiment = { experimentId, prompt, variants: [] };
+      experiments.set(experimentId, experiment);
+    }
+    let variant = experiment.variants.find(result => result.variantId === variantId);
+    if (!variant) {
+      variant = { variantId, responses: 0, users: 0, positive: 0, negative: 0, ratedResponses: 0 };
+      experiment.variants.push(variant);
+      users.set(variant, new Set());
+      rated.set(variant, new Set());
+    }
+    return variant;
+  };
+
+  for (const exposure of exposures.values()) {
+    for (const assignment of exposure.assignments) {
+      const variant = variantResult(assignment.experimentId, assignment.prompt, assignment.variantId);
+      variant.responses++;
+      users.get(variant)?.add(exposure.userId);
+    }
+  }
+
+  for (const reaction of reactions.values()) {
+    const exposure = exposures.get(reaction.requestId);
+    if (!exposure || reaction.action !== 'added') {
+      continue;
+    }
+    for (const assignment of exposure.assignments) {
+      const variant = variantResult(assignment.experimentId, assignment.prompt, assignment.variantId);
+      variant[reaction.signal]++;
+      rated.get(variant)?.add(reaction.requestId);
+    }
+  }
+
+  for (const experiment of experiments.values()) {
+    for (const variant of experiment.variants) {
+      variant.users = users.get(variant)?.size ?? 0;
+      variant.ratedResponses = rated.get(variant)?.size ?? 0;
+      const votes = variant.positive + variant.negative;
+      if (votes > 0) {
+        variant.positiveRate = variant.positive / votes;
+      }
+    }
+  }
+
+  return [...experiments.values()];
+}
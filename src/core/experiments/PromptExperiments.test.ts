@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CONTROL_VARIANT, PromptExperiments } from './PromptExperiments';
+import { PromptLoader } from '../prompts/PromptLoader';
+import { PromptExperiment } from '../../types/experiment.types';
+import { silentLogger } from '../../testing/fixtures';
+
+const CHANNEL_ID = '444444444444444444';
+
+describe('PromptExperiments', () => {
+  let dir: string;
+  let loader: PromptLoader;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'experiments-'));
+    fs.mkdirSync(path.join(dir, 'variants', 'developer'), { recursive: true });
+    fs.writeFileSync(path.join(dir, 'developer.md'), 'You answer questions.');
+    fs.writeFileSync(path.join(dir, 'variants', 'developer', 'terse.md'), 'You answer questions briefly.');
+    loader = new PromptLoader({ logger: silentLogger, promptsDirectory: dir, enableHotReload: false });
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function experiment(overrides: Partial<PromptExperiment> = {}): PromptExperiment {
+    return {
+      id: 'developer-tone',
+      prompt: 'developer.md',
+      assignBy: 'user',
+      variants: [{ id: CONTROL_VARIANT, weight: 1 }, { id: 'terse', weight: 1 }],
+      ...overrides,
+    };
+  }
+
+  function userId(n: number): string {
+    return String(100000000000000000 + n);
+  }
+
+  it('assigns each user the same variant every time', () => {
+    const experiments = new PromptExperiments([experiment()], loader);
+    const first = experiments.assign('developer.md', { userId: userId(1), channelId: CHANNEL_ID });
+
+    expect(experiments.assign('butler.system.md', { userId: userId(1), channelId: CHANNEL_ID })).toBeUndefined();
+
+    expect(first).toMatchObject({ experimentId: 'developer-tone', prompt: 'developer.md', assignBy: 'user' });
+    for (let i = 0; i < 5; i++) {
+      expect(experiments.assign('developer.md', { userId: userId(1), channelId: String(i) })).toEqual(first);
+    }
+    // A fresh registry has no state to lose
+    expect(new PromptExperiments([experiment()], loader).assign('developer.md', { userId: userId(1), channelId: CHANNEL_ID }))
+      .toEqual(first);
+  });
+
+  it('assigns by channel when configured', () => {
+    const experiments = new PromptExperiments([experiment({ assignBy: 'channel' })], loader);
+    const variants = new Set<string | undefined>();
+    for (let i = 0; i < 50; i++) {
+      variants.add(experiments.assign('developer.md', { userId: userId(i), channelId: CHANNEL_ID })?.variantId);
+    }
+
+    expect(variants.size).toBe(1);
+  });
+
+  it('splits users in proportion to the weights', () => {
+    const experiments = new PromptExperiments(
+      [experiment({ variants: [{ id: CONTROL_VARIANT, weight: 3 }, { id: 'terse', weight: 1 }] })],
+      loader
+    );
+    const counts = new Map<string, number>();
+    for (let i = 0; i < 2000; i++) {
+      const variantId = experiments.assign('developer.md', { userId: userId(i), channelId: CHANNEL_ID })?.variantId ?? '';
+      counts.set(variantId, (counts.get(variantId) ?? 0) + 1);
+    }
+
+    expect([...counts.keys()].sort()).toEqual([CONTROL_VARIANT, 'terse']);
+    expect(counts.get('terse')).toBeGreaterThan(400);
+    expect(counts.get('terse')).toBeLessThan(600);
+  });
+
+  it('splits users independently per experiment', () => {
+    const a = new PromptExperiments([experiment({ id: 'tone-a' })], loader);
+    const b = new PromptExperiments([experiment({ id: 'tone-b' })], loader);
+    let differing = 0;
+    for (let i = 0; i < 200; i++) {
+      const subject = { userId: userId(i), channelId: CHANNEL_ID };
+      if (a.assign('developer.md', subject)?.variantId !== b.assign('developer.md', subject)?.variantId) {
+        differing++;
+      }
+    }
+
+    expect(differing).toBeGreaterThan(50);
+  });
+
+  it('requires a file for every variant except control', () => {
+    expect(() => new PromptExperiments(
+      [experiment({ variants: [{ id: CONTROL_VARIANT, weight: 1 }, { id: 'verbose', weight: 1 }] })],
+      loader
+    )).toThrow("Experiment developer-tone: variant 'verbose' has no file variants/developer/verbose.md");
+  });
+});
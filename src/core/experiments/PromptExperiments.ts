@@ -0,0 +1,107 @@
+import { createHash } from 'crypto';
+import { PromptFile, PromptLoader } from '../prompts/PromptLoader';
+import { ExperimentAssignment, PromptExperiment } from '../../types/experiment.types';
+
+/**
+ * Variant ID that stands for the prompt file itself.
+ */
+export const CONTROL_VARIANT = 'control';
+
+/**
+ * Who a request is from, for variant assignment.
+ */
+export interface ExperimentSubject {
+  userId: string;
+  channelId: string;
+}
+
+/**
+ * Registry of running prompt experiments and deterministic variant assignment.
+ *
+ * A subject (user or channel, per experiment) is hashed together with the
+ * experiment ID onto the variants' weights, so the same user or channel
+ * always gets the same variant without any stored state, and different
+ * experiments split users independently. Changing an experiment's variants
+ * or weights reshuffles its assignments.
+ *
+ * NOT Responsible For:
+ * - Loading variant files (PromptLoader's job)
+ * - Recording exposures and feedback (ExperimentLog's job)
+ */
+export class PromptExperiments {
+  /**
+   * Experiments by the prompt file they vary.
+   */
+  private readonly byPrompt: ReadonlyMap<PromptFile, Readonly<PromptExperiment>>;
+
+  /**
+   * @param experiments - Experiments to run (at most one per prompt file)
+   * @param promptLoader - Loader whose variant files the experiments use
+   * @throws Error if a non-control variant has no variant file
+   */
+  constructor(experiments: readonly PromptExperiment[], promptLoader: PromptLoader) {
+    const available = new Set(promptLoader.listVariants().map(({ promptType, variant }) => `${promptType}@${variant}`));
+
+    const byPrompt = new Map<PromptFile, Readonly<PromptExperiment>>();
+    for (const experiment of experiments) {
+      for (const variant of experiment.variants) {
+        if (variant.id !== CONTROL_VARIANT && !available.has(`${experiment.prompt}@${variant.id}`)) {
+          throw new Error(
+            `Experiment ${experiment.id}: variant '${variant.id}' has no file ` +
+            `variants/${experiment.prompt.replace(/\.md$/, '')}/${variant.id}.md`
+          );
+        }
+      }
+      byPrompt.set(experiment.prompt, Object.freeze({
+        ...experiment,
+        variants: Object.freeze(experiment.variants.map(variant => Object.freeze({ ...variant }))) as PromptExperiment['variants'],
+      }));
+    }
+    this.byPrompt = byPrompt;
+  }
+
+  /**
+   * Pick the variant of a prompt file for a subject.
+   *
+   * @param promptType - Prompt file about to be loaded
+   * @param subject - Requester and channel
+   * @returns Assignment, or undefined if no experiment varies this file
+   */
+  public assign(promptType: PromptFile, subject: ExperimentSubject): ExperimentAssignment | undefined {
+    const experiment = this.byPrompt.get(promptType);
+    if (!experiment) {
+      return undefined;
+    }
+
+    const key = experiment.assignBy === 'channel' ? subject.channelId : subject.userId;
+    const digest = createHash('sha256').update(`${experiment.id}:${key}`).digest();
+    const total = experiment.variants.reduce((sum, variant) => sum + variant.weight, 0);
+    let point = Math.floor((digest.readUInt32BE(0) / 2 ** 32) * total);
+
+    // Weights are positive, so the point always falls within one variant
+    let chosen = experiment.variants[0];
+    for (const variant of experiment.variants) {
+      if (point < variant.weight) {
+        chosen = variant;
+        break;
+      }
+      point -= variant.weight;
+    }
+
+    return {
+      experimentId: experiment.id,
+      prompt: experiment.prompt,
+      variantId: (chosen as PromptExperiment['variants'][number]).id,
+      assignBy: experiment.assignBy,
+    };
+  }
+
+  /**
+   * List running experiments.
+   *
+   * @returns Experiments in registration order
+   */
+  public list(): Readonly<PromptExperiment>[] {
+    return [...this.byPrompt.values()];
+  }
+}
@@ -0,0 +1,84 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DelegateRegistry, parseDelegateScope } from './DelegateRegistry';
+import { DelegateScope } from '../../types/delegate.types';
+import { silentLogger } from '../../testing/fixtures';
+
+const DELEGATE_ID = '222222222222222222';
+const OWNER_ID = '111111111111111111';
+
+describe('DelegateRegistry', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'delegates-'));
+    file = path.join(dir, 'delegates.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function writeDelegates(delegates: unknown[]): void {
+    fs.writeFileSync(file, JSON.stringify({ version: 1, delegates }));
+  }
+
+  function storedGrant(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+    return {
+      userId: DELEGATE_ID,
+      scopes: ['explain'],
+      grantedBy: OWNER_ID,
+      grantedAt: '2026-01-01T00:00:00.000Z',
+      ...overrides,
+    };
+  }
+
+  it('persists grants and revocations', async () => {
+    const registry = new DelegateRegistry(file, silentLogger);
+    expect(registry.list()).toEqual([]);
+    await registry.grant(DELEGATE_ID, [DelegateScope.EXPLAIN, DelegateScope.EXPLAIN], OWNER_ID);
+
+    const reloaded = new DelegateRegistry(file, silentLogger);
+    expect(reloaded.get(DELEGATE_ID)).toMatchObject({ scopes: ['explain'], grantedBy: OWNER_ID });
+    expect(reloaded.get(DELEGATE_ID)?.grantedAt).toBeInstanceOf(Date);
+
+    expect(await reloaded.revoke(DELEGATE_ID)).toBe(true);
+    expect(await reloaded.revoke(DELEGATE_ID)).toBe(false);
+    expect(new DelegateRegistry(file, silentLogger).list()).toEqual([]);
+  });
+
+  it('rejects invalid grants', async () => {
+    const registry = new DelegateRegistry(file, silentLogger);
+
+    await expect(registry.grant('123', [DelegateScope.EXPLAIN], OWNER_ID)).rejects.toThrow(/Invalid user ID/);
+    await expect(registry.grant(DELEGATE_ID, [], OWNER_ID)).rejects.toThrow(/At least one scope/);
+  });
+
+  it.each([
+    ['an unknown scope', { scopes: ['admin'] }, /unknown delegate scope 'admin'/],
+    ['non-array scopes', { scopes: 'explain' }, /scopes must be a non-empty array/],
+    ['a malformed user ID', { userId: 'abc' }, /invalid delegate user ID 'abc'/],
+    ['an invalid date', { grantedAt: 'yesterday' }, /invalid grantedAt 'yesterday'/],
+  ])('rejects a stored grant with %s', (_label, overrides, message) => {
+    writeDelegates([storedGrant(overrides)]);
+    expect(() => new DelegateRegistry(file, silentLogger)).toThrow(message);
+  });
+
+  it('rejects duplicate stored user IDs', () => {
+    writeDelegates([storedGrant(), storedGrant()]);
+    expect(() => new DelegateRegistry(file, silentLogger)).toThrow(/Duplicate delegate user ID/);
+  });
+
+  it('rejects an unsupported file version', () => {
+    fs.writeFileSync(file, JSON.stringify({ version: 2, delegates: [] }));
+    expect(() => new DelegateRegistry(file, silentLogger)).toThrow(/Unsupported delegates file format/);
+  });
+
+  it('parses scopes case-insensitively and names the known ones', () => {
+    expect(parseDelegateScope(' Explain ')).toBe(DelegateScope.EXPLAIN);
+    expect(() => parseDelegateScope('admin')).toThrow(/Known scopes: explain/);
+  });
+});
@@ -0,0 +1,258 @@
+import * as path from 'path';
+import { isValidSnowflake } from '../../config/ownerConfig';
+import { DelegateGrant, DelegateScope } from '../../types/delegate.types';
+import { AtomicJsonWriter, isObject, readJsonFileSync } from '../../utils/jsonFile';
+import { Logger } from '../../utils/logger';
+
+/**
+ * On-disk shape of the delegates file.
+ */
+interface DelegatesFile {
+  version: number;
+  delegates: StoredGrant[];
+}
+
+/**
+ * On-disk shape of one grant.
+ */
+interface StoredGrant {
+  userId: string;
+  scopes: string[];
+  grantedBy: string;
+  grantedAt: string;
+}
+
+/**
+ * Current delegates file format version.
+ */
+const DELEGATES_FILE_VERSION = 1;
+
+/**
+ * All known scopes, for validating stored and requested values.
+ */
+const KNOWN_SCOPES: ReadonlySet<string> = new Set(Object.values(DelegateScope));
+
+/**
+ * Parse a delegate scope name.
+ *
+ * @param value - Scope name (case-insensitive)
+ * @returns Matching scope
+ * @throws Error if the scope is unknown
+ */
+export function parseDelegateScope(value: string): DelegateScope {
+  const normalized = value.trim().toLowerCase();
+  if (!KNOWN_SCOPES.has(normalized)) {
+    throw new Error(
+      `Unknown delegate scope '${value}'. Known scopes: ${[...KNOWN_SCOPES].join(', ')}`
+    );
+  }
+  return normalized as DelegateScope;
+}
+
+/**
+ * Persistent store of owner-granted delegations.
+ *
+ * Grants are loaded synchronously at startup (a corrupt file stops startup)
+ * and written back atomically on every change. Returned grants are frozen.
+ *
+ * SECURITY:
+ * - The registry only stores grants; it never decides who may grant.
+ *   Granting is an owner-only command, and OwnerValidator is the only
+ *   component that turns grants into permissions.
+ * - A delegate never becomes an owner, whatever scopes it holds.
+ *
+ * NOT Responsible For:
+ * - Owner identification (OwnerValidator's job)
+ * - Authorizing grant/revoke requests (AdminCommandRouter's job)
+ */
+export class DelegateRegistry {
+  private readonly filePath: string;
+  private readonly logger: Logger;
+  private readonly writer: AtomicJsonWriter;
+  private readonly grants: Map<string, Readonly<DelegateGrant>> = new Map();
+
+  /**
+   * @param filePath - Delegates JSON file (created on first grant)
+   * @param logger - Logger for grant changes
+   * @throws Error if an existing file cannot be read or is invalid
+   */
+  constructor(filePath: string, logger: Logger) {
+    this.filePath = path.resolve(filePath);
+    this.logger = logger;
+    this.writer = new AtomicJsonWriter(this.filePath);
+    this.load();
+  }
+
+  /**
+   * Grant (or replace) a delegation.
+   *
+   * @param userId - Delegate's Discord user ID
+   * @param scopes - Scopes to grant (at least one)
+   * @param grantedBy - Owner ID granting the delegation
+   * @returns The stored grant
+   * @throws Error if the user ID or scopes are invalid, or persisting fails
+   */
+  public async grant(userId: string, scopes: DelegateScope[], grantedBy: string): Promise<Readonly<DelegateGrant>> {
+    if (!isValidSnowflake(userId)) {
+      throw new Error(`Invalid user ID '${userId}'`);
+    }
+    if (scopes.length === 0) {
+      throw new Error('At least one scope is required');
+    }
+
+    const grant: Readonly<DelegateGrant> = Object.freeze({
+      userId,
+      scopes: Object.freeze([...new Set(scopes)]) as DelegateScope[],
+      grantedBy,
+      grantedAt: new Date(),
+    });
+
+    const previous = this.grants.get(userId);
+    this.grants.set(userId, grant);
+    try {
+      await this.persist();
+    } catch (error) {
+      // Keep memory consistent with disk
+      if (previous) {
+        this.grants.set(userId, previous);
+      } else {
+        this.grants.delete(userId);
+      }
+      throw error;
+    }
+
+    this.logger.info('Delegate granted', { userId, scopes: grant.scopes, grantedBy });
+    return grant;
+  }
+
+  /**
+   * Revoke a delegation.
+   *
+   * @param userId - Delegate's Discord user ID
+   * @returns True if a grant existed and was removed
+   * @throws Error if persisting fails
+   */
+  public async revoke(userId: string): Promise<boolean> {
+    const previous = this.grants.get(userId);
+    if (!previous) {
+      return false;
+    }
+
+    this.grants.delete(userId);
+    try {
+      await this.persist();
+    } catch (error) {
+      // Keep memory consistent with disk
+      this.grants.set(userId, previous);
+      throw error;
+    }
+
+    this.logger.info('Delegate revoked', { userId });
+    return true;
+  }
+
+  /**
+   * Look up the grant for a user.
+   *
+   * @param userId - Discord user ID
+   * @returns Grant, or undefined if the user is not a delegate
+   */
+  public get(userId: string): Readonly<DelegateGrant> | undefined {
+    return this.grants.get(userId);
+  }
+
+  /**
+   * List all grants.
+   *
+   * @returns Grants ordered by user ID
+   */
+  public list(): Readonly<DelegateGrant>[] {
+    return [...this.grants.values()].sort((a, b) => a.userId.localeCompare(b.userId));
+  }
+
+  /**
+   * Load grants from disk. A missing file means no delegates.
+   *
+   * @throws Error if the file exists but is unreadable or invalid
+   */
+  private load(): void {
+    const parsed = readJsonFileSync(this.filePath) as DelegatesFile | undefined;
+    if (parsed === undefined) {
+      return;
+    }
+
+    if (parsed.version !== DELEGATES_FILE_VERSION || !Array.isArray(parsed.delegates)) {
+      throw new Error(`Unsupported delegates file format: ${this.filePath}`);
+    }
+
+    for (const [index, entry] of (parsed.delegates as unknown[]).entries()) {
+      const grant = this.parseStoredGrant(entry, `Delegate entry ${index}`);
+      if (this.grants.has(grant.userId)) {
+        throw new Error(`Duplicate delegate user ID '${grant.userId}' in ${this.filePath}`);
+      }
+      this.grants.set(grant.userId, grant);
+    }
+
+    this.logger.info('Delegates loaded', { count: this.grants.size, file: this.filePath });
+  }
+
+  /**
+   * Validate a grant read from disk. Stored scopes must be exact known
+   * scope names: the file is written by persist(), so anything else means
+   * it was edited or corrupted, and guessing could widen a delegation.
+   *
+   * @param entry - Raw entry from the file
+   * @param label - Entry label for error messages
+   * @returns Frozen grant
+   * @throws Error if the entry is malformed
+   */
+  private parseStoredGrant(entry: unknown, label: string): Readonly<DelegateGrant> {
+    if (!isObject(entry)) {
+      throw new Error(`${label}: must be an object in ${this.filePath}`);
+    }
+
+    const { userId, scopes, grantedBy, grantedAt } = entry;
+    if (typeof userId !== 'string' || !isValidSnowflake(userId)) {
+      throw new Error(`${label}: invalid delegate user ID '${String(userId)}' in ${this.filePath}`);
+    }
+    if (!Array.isArray(scopes) || scopes.length === 0) {
+      throw new Error(`${label}: scopes must be a non-empty array in ${this.filePath}`);
+    }
+    for (const scope of scopes) {
+      if (typeof scope !== 'string' || !KNOWN_SCOPES.has(scope)) {
+        throw new Error(`${label}: unknown delegate scope '${String(scope)}' in ${this.filePath}`);
+      }
+    }
+    if (typeof grantedBy !== 'string' || !isValidSnowflake(grantedBy)) {
+      throw new Error(`${label}: invalid grantedBy '${String(grantedBy)}' in ${this.filePath}`);
+    }
+    const grantedAtDate = typeof grantedAt === 'string' ? new Date(grantedAt) : undefined;
+    if (!grantedAtDate || Number.isNaN(grantedAtDate.getTime())) {
+      throw new Error(`${label}: invalid grantedAt '${String(grantedAt)}' in ${this.filePath}`);
+    }
+
+    return Object.freeze({
+      userId,
+      scopes: Object.freeze([...new Set(scopes as DelegateScope[])]) as DelegateScope[],
+      grantedBy,
+      grantedAt: grantedAtDate,
+    });
+  }
+
+  /**
+   * Write the current grants to disk atomically.
+   */
+  private persist(): Promise<void> {
+    const content: DelegatesFile = {
+      version: DELEGATES_FILE_VERSION,
+      delegates: this.list().map(grant => ({
+        userId: grant.userId,
+        scopes: [...grant.scopes],
+        grantedBy: grant.grantedBy,
+        grantedAt: grant.grantedAt.toISOString(),
+      })),
+    };
+
+    return this.writer.write(content);
+  }
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from '@jest/globals';
+import { IdentityResolver } from './IdentityResolver';
+import { OwnerValidator } from './OwnerValidator';
+import { parseTrustPolicy } from '../../config/trustConfig';
+import { InboundRequest } from '../../types/request.types';
+import { TrustTier } from '../../types/trust.types';
+import { createRequest } from '../../testing/fixtures';
+
+const OWNER_ID = '111111111111111111';
+const USER_ID = '222222222222222222';
+const GUILD_ID = '333333333333333333';
+const TEAM_ROLE = '444444444444444444';
+const BLOCKED_ROLE = '555555555555555555';
+
+const policy = parseTrustPolicy({
+  guilds: { [GUILD_ID]: { roles: { [TEAM_ROLE]: 'team', [BLOCKED_ROLE]: 'blocked' } } },
+});
+
+function request(authorId: string, roleIds: string[], isDirectMessage = false): InboundRequest {
+  return createRequest({
+    author: { id: authorId, roleIds },
+    channel: isDirectMessage ? { isDirectMessage } : { guildId: GUILD_ID },
+  });
+}
+
+describe('IdentityResolver', () => {
+  const resolver = new IdentityResolver(new OwnerValidator([OWNER_ID]), policy);
+
+  it.each([
+    ['the owner by ID, whatever their roles', OWNER_ID, [BLOCKED_ROLE], TrustTier.OWNER],
+    ['team roles', USER_ID, [TEAM_ROLE], TrustTier.TEAM],
+    ['blocked roles over team roles', USER_ID, [TEAM_ROLE, BLOCKED_ROLE], TrustTier.BLOCKED],
+    ['unmapped roles', USER_ID, ['666666666666666666'], TrustTier.GUEST],
+  ])('maps %s', (_label, authorId, roleIds, tier) => {
+    const identity = resolver.resolveIdentity(request(authorId, roleIds));
+
+    expect(identity.trustTier).toBe(tier);
+    expect(identity.guildId).toBe(GUILD_ID);
+    expect(Object.isFrozen(identity)).toBe(true);
+  });
+
+  it('ignores roles in direct messages', () => {
+    const identity = resolver.resolveIdentity(request(USER_ID, [TEAM_ROLE], true));
+
+    expect(identity.trustTier).toBe(TrustTier.GUEST);
+    expect(identity.guildId).toBeUndefined();
+    expect(identity.roleIds).toEqual([]);
+  });
+});
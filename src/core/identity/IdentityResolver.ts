@@ -1,36 +1,100 @@
-import { Message } from 'discord.js';
+import { OwnerValidator } from './OwnerValidator';
+import { EMPTY_TRUST_POLICY } from '../../config/trustConfig';
 import { UserIdentity } from '../../types/persona.types';
+import { InboundRequest } from '../../types/request.types';
+import { TrustPolicy, TrustTier } from '../../types/trust.types';
 
 /**
- * Resolves user identity from Discord messages.
+ * Resolves user identity from inbound requests.
  * Provides immutable identity objects for downstream processing.
+ *
+ * Each identity carries the request's guild context, the author's guild roles
+ * and a computed trust tier:
+ * - OWNER: OwnerValidator says so (ID match only, never roles)
+ * - BLOCKED: holds any role mapped to 'blocked' in the guild's policy
+ * - TEAM: holds any role mapped to 'team'
+ * - GUEST: everyone else, including all direct messages
+ *
+ * NOT Responsible For:
+ * - Deciding owner status (OwnerValidator's job)
+ * - Persona selection (PersonaSelector's job; it never reads the trust tier)
+ * - Acting on the trust tier (downstream stages' job)
  */
 export class IdentityResolver {
+  private readonly ownerValidator: OwnerValidator;
+  private readonly trustPolicy: TrustPolicy;
+
+  /**
+   * @param ownerValidator - Owner check for the OWNER tier
+   * @param trustPolicy - Per-guild role-to-tier mapping (defaults to none: all guests)
+   */
+  constructor(ownerValidator: OwnerValidator, trustPolicy: TrustPolicy = EMPTY_TRUST_POLICY) {
+    this.ownerValidator = ownerValidator;
+    this.trustPolicy = trustPolicy;
+  }
+
   /**
-   * Extract user identity from a Discord message.
-   * 
-   * @param message - Discord message object
+   * Extract user identity from an inbound request.
+   *
+   * @param request - Normalized inbound request
    * @returns Immutable user identity
    */
-  public resolveIdentity(message: Message): UserIdentity {
-    const author = message.author;
-    
-    return Object.freeze({
+  public resolveIdentity(request: InboundRequest): UserIdentity {
+    const author = request.author;
+    const guildId = request.channel.isDirectMessage ? undefined : request.channel.guildId;
+    const roleIds: readonly string[] = Object.freeze(guildId ? [...(author.roleIds ?? [])] : []);
+
+    const identity: Omit<UserIdentity, 'trustTier'> = {
       id: author.id,
       username: author.username,
       discriminator: author.discriminator,
-      displayName: message.member?.displayName ?? author.username,
-      isBot: author.bot,
+      displayName: author.displayName,
+      isBot: author.isBot,
+      guildId,
+      isDirectMessage: request.channel.isDirectMessage,
+      roleIds,
+    };
+
+    return Object.freeze({
+      ...identity,
+      trustTier: this.resolveTrustTier(identity),
     });
   }
 
   /**
    * Validate that the identity is from a real user (not a bot).
-   * 
+   *
    * @param identity - User identity to validate
    * @returns True if valid human user
    */
   public isValidUser(identity: UserIdentity): boolean {
     return !identity.isBot && identity.id.length > 0;
   }
+
+  /**
+   * Compute the trust tier for an identity.
+   * Blocked roles take precedence over team roles.
+   *
+   * @param identity - Identity without its tier
+   * @returns Trust tier
+   */
+  private resolveTrustTier(identity: Omit<UserIdentity, 'trustTier'>): TrustTier {
+    if (this.ownerValidator.isOwner(identity)) {
+      return TrustTier.OWNER;
+    }
+
+    const roles = identity.guildId ? this.trustPolicy.guilds[identity.guildId]?.roles : undefined;
+    if (!roles) {
+      return TrustTier.GUEST;
+    }
+
+    const tiers = new Set(identity.roleIds.map(roleId => roles[roleId]));
+    if (tiers.has(TrustTier.BLOCKED)) {
+      return TrustTier.BLOCKED;
+    }
+    if (tiers.has(TrustTier.TEAM)) {
+      return TrustTier.TEAM;
+    }
+    return TrustTier.GUEST;
+  }
 }
@@ -1,44 +1,95 @@
 import { SYSTEM_CONSTANTS } from '../../config/constants';
+import { DelegateRegistry } from './DelegateRegistry';
+import { DelegateScope } from '../../types/delegate.types';
 import { UserIdentity } from '../../types/persona.types';
 
 /**
  * Validates owner status through immutable ID comparison.
- * This is the ONLY source of truth for owner identification.
- * 
+ * This is the ONLY source of truth for owner identification
+ * and for delegated (scoped) owner capabilities.
+ *
+ * Owner IDs are fixed at construction (loaded once from validated
+ * configuration at startup, see loadOwnerIds) and cannot change at runtime.
+ * Delegates are granted by an owner and hold only their explicit scopes;
+ * they are never treated as owners.
+ *
  * SECURITY: Owner status cannot be spoofed through:
  * - Discord roles
  * - Nicknames
  * - Server permissions
  * - Admin privileges
- * - Commands or configuration
+ * - Commands or runtime configuration
  */
 export class OwnerValidator {
-  private readonly ownerId: string;
+  private readonly ownerIds: ReadonlySet<string>;
+  private readonly delegates: DelegateRegistry | undefined;
 
-  constructor() {
-    // Store owner ID as private immutable field
-    this.ownerId = SYSTEM_CONSTANTS.OWNER_ID;
+  /**
+   * @param ownerIds - Owner user IDs (defaults to SYSTEM_CONSTANTS.OWNER_ID)
+   * @param delegates - Delegate grants; without a registry there are no delegates
+   * @throws Error if no owner ID is given
+   */
+  constructor(
+    ownerIds: readonly string[] = [SYSTEM_CONSTANTS.OWNER_ID],
+    delegates?: DelegateRegistry
+  ) {
+    if (ownerIds.length === 0) {
+      throw new Error('At least one owner ID is required');
+    }
+
+    // Store owner IDs as a private immutable copy
+    this.ownerIds = new Set(ownerIds);
+    this.delegates = delegates;
   }
 
   /**
    * Perform exact ID comparison to determine ownership.
    * This is the ONLY method that determines owner status.
-   * 
+   *
+   * Only the ID is read, so roles, names and trust tier can never affect the result.
+   *
    * @param identity - User identity to validate
-   * @returns True if and only if user ID exactly matches OWNER_ID
+   * @returns True if and only if user ID exactly matches a configured owner ID
    */
-  public isOwner(identity: UserIdentity): boolean {
+  public isOwner(identity: Pick<UserIdentity, 'id'>): boolean {
     // Exact string comparison - no fuzzy matching, no exceptions
-    return identity.id === this.ownerId;
+    return this.ownerIds.has(identity.id);
+  }
+
+  /**
+   * Check whether a user holds a delegation.
+   * Owners are never delegates.
+   *
+   * @param identity - User identity to check
+   * @returns True if the user has a delegate grant
+   */
+  public isDelegate(identity: Pick<UserIdentity, 'id'>): boolean {
+    return !this.isOwner(identity) && this.delegates?.get(identity.id) !== undefined;
+  }
+
+  /**
+   * Check whether a user may exercise a scoped capability.
+   * Owners hold every scope; delegates hold exactly the scopes granted.
+   *
+   * @param identity - User identity to check
+   * @param scope - Required scope
+   * @returns True if the user is an owner or a delegate granted the scope
+   */
+  public hasScope(identity: Pick<UserIdentity, 'id'>, scope: DelegateScope): boolean {
+    if (this.isOwner(identity)) {
+      return true;
+    }
+
+    return this.delegates?.get(identity.id)?.scopes.includes(scope) ?? false;
   }
 
   /**
-   * Get owner ID for logging purposes only.
+   * Get owner IDs for logging purposes only.
    * Should never be used for comparison outside this class.
-   * 
-   * @returns Owner ID constant
+   *
+   * @returns Owner IDs
    */
-  public getOwnerId(): string {
-    return this.ownerId;
+  public getOwnerIds(): readonly string[] {
+    return [...this.ownerIds];
   }
 }
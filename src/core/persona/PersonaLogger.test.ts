@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PersonaLogger } from './PersonaLogger';
+import { AuditLog } from '../audit/AuditLog';
+import { PersonaSelection, PersonaType } from '../../types/persona.types';
+import { silentLogger } from '../../testing/fixtures';
+
+const selection: PersonaSelection = {
+  persona: PersonaType.SUPERVISOR,
+  reason: 'default',
+  userId: '222222222222222222',
+  username: 'user',
+  isOwner: false,
+  timestamp: new Date('2026-01-01T00:00:00Z'),
+  messageId: 'msg-1',
+  channelId: 'c1',
+};
+
+describe('PersonaLogger', () => {
+  let dir: string;
+  let auditLog: AuditLog;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'persona-logger-'));
+    auditLog = new AuditLog(path.join(dir, 'audit.jsonl'), silentLogger);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('records selections and errors in the audit log', async () => {
+    const personaLogger = new PersonaLogger(silentLogger, auditLog);
+
+    personaLogger.logSelection(selection);
+    personaLogger.logError(new Error('bad'), selection.userId, 'msg-2', 'c1');
+
+    // verify() waits for queued appends
+    await auditLog.verify();
+    expect(await auditLog.query()).toMatchObject([
+      {
+        type: 'persona.selected',
+        userId: selection.userId,
+        messageId: 'msg-1',
+        data: { persona: PersonaType.SUPERVISOR, reason: 'default', selectedAt: '2026-01-01T00:00:00.000Z' },
+      },
+      { type: 'persona.error', messageId: 'msg-2', data: { error: 'bad' } },
+    ]);
+  });
+
+  it('keeps dry runs out of the audit log', async () => {
+    const personaLogger = new PersonaLogger(silentLogger, auditLog);
+
+    personaLogger.logSelection(selection, true);
+    personaLogger.logError(new Error('bad'), selection.userId, 'msg-2', 'c1', true);
+
+    expect(await auditLog.verify()).toEqual({ valid: true, entries: 0 });
+  });
+});
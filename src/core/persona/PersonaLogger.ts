@@ -1,15 +1,28 @@
+import { AuditLog } from '../audit/AuditLog';
+import { AuditEvent } from '../../types/audit.types';
 import { PersonaSelection } from '../../types/persona.types';
 import { Logger } from '../../utils/logger';
 
 /**
  * Audit logger for all persona selection decisions.
  * Provides immutable audit trail for security and debugging.
+ * 
+ * Every entry goes to the console logger and, when an AuditLog is given,
+ * to the durable hash-chained audit log. Replays pass no AuditLog, and
+ * dry runs (explain) skip it, so decisions that were not acted on are
+ * never mixed into the real trail.
  */
 export class PersonaLogger {
   private readonly logger: Logger;
+  private readonly auditLog?: AuditLog;
 
-  constructor(logger: Logger) {
+  /**
+   * @param logger - Console/structured logger
+   * @param auditLog - Durable audit log (optional)
+   */
+  constructor(logger: Logger, auditLog?: AuditLog) {
     this.logger = logger;
+    this.auditLog = auditLog;
   }
 
   /**
@@ -17,10 +30,16 @@ export class PersonaLogger {
    * All persona selections MUST be logged for audit purposes.
    * 
    * @param selection - Persona selection result
+   * @param dryRun - Whether the selection is from a dry run (not audit-logged)
    */
-  public logSelection(selection: PersonaSelection): void {
+  public logSelection(selection: PersonaSelection, dryRun = false): void {
     this.logger.info('Persona selected', {
+      dryRun,
       persona: selection.persona,
+      reason: selection.reason,
+      policyRule: selection.policyRule
+        ? `${selection.policyRule.scope} ${selection.policyRule.id}`
+        : undefined,
       userId: selection.userId,
       username: selection.username,
       isOwner: selection.isOwner,
@@ -28,6 +47,27 @@ export class PersonaLogger {
       channelId: selection.channelId,
       timestamp: selection.timestamp.toISOString(),
     });
+
+    if (dryRun) {
+      return;
+    }
+
+    this.appendToAuditLog({
+      type: 'persona.selected',
+      userId: selection.userId,
+      channelId: selection.channelId,
+      messageId: selection.messageId,
+      data: {
+        persona: selection.persona,
+        reason: selection.reason,
+        policyRule: selection.policyRule
+          ? `${selection.policyRule.scope} ${selection.policyRule.id}`
+          : undefined,
+        username: selection.username,
+        isOwner: selection.isOwner,
+        selectedAt: selection.timestamp.toISOString(),
+      },
+    });
   }
 
   /**
@@ -36,13 +76,45 @@ export class PersonaLogger {
    * @param error - Error that occurred during persona selection
    * @param userId - User ID involved
    * @param messageId - Message ID involved
+   * @param channelId - Channel ID involved
+   * @param dryRun - Whether the error is from a dry run (not audit-logged)
    */
-  public logError(error: Error, userId: string, messageId: string): void {
+  public logError(error: Error, userId: string, messageId: string, channelId?: string, dryRun = false): void {
     this.logger.error('Persona selection error', {
       error: error.message,
       stack: error.stack,
       userId,
       messageId,
+      channelId,
+      dryRun,
+    });
+
+    if (dryRun) {
+      return;
+    }
+
+    this.appendToAuditLog({
+      type: 'persona.error',
+      userId,
+      channelId,
+      messageId,
+      data: { error: error.message },
+    });
+  }
+
+  /**
+   * Append to the durable audit log without blocking the caller.
+   * A failed append is logged; it never fails the request.
+   * 
+   * @param event - Event to record
+   */
+  private appendToAuditLog(event: AuditEvent): void {
+    this.auditLog?.append(event).catch(error => {
+      this.logger.error('Failed to write audit log entry', {
+        type: event.type,
+        messageId: event.messageId,
+        error: (error as Error).message,
+      });
     });
   }
 }
@@ -0,0 +1,128 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PersonaLogger } from './PersonaLogger';
+import { PersonaPolicy } from './PersonaPolicy';
+import { PersonaRegistry } from './PersonaRegistry';
+import { PersonaSelector } from './PersonaSelector';
+import { IdentityResolver } from '../identity/IdentityResolver';
+import { OwnerValidator } from '../identity/OwnerValidator';
+import { PersonaType } from '../../types/persona.types';
+import { createRequest, silentLogger } from '../../testing/fixtures';
+
+const OWNER_ID = '111111111111111111';
+const USER_ID = '222222222222222222';
+const GUILD_ID = '333333333333333333';
+const CHANNEL_ID = '555555555555555555';
+const OTHER_CHANNEL_ID = '666666666666666666';
+
+const registry = new PersonaRegistry([
+  {
+    id: 'REVIEWER',
+    description: 'Code reviewer',
+    systemPromptFile: 'reviewer.system.md',
+    priority: 1,
+    match: { guildIds: [GUILD_ID] },
+  },
+]);
+
+describe('PersonaPolicy', () => {
+  let dir: string;
+  let file: string;
+  let policy: PersonaPolicy;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'persona-policy-'));
+    file = path.join(dir, 'persona-policy.json');
+    policy = new PersonaPolicy(file, registry, silentLogger);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('prefers a channel rule over its guild rule', async () => {
+    await policy.disable('guild', GUILD_ID, OWNER_ID);
+    await policy.setPersona('channel', CHANNEL_ID, PersonaType.SUPERVISOR, OWNER_ID);
+
+    expect(policy.match(CHANNEL_ID, GUILD_ID)).toMatchObject({ scope: 'channel', persona: PersonaType.SUPERVISOR });
+    expect(policy.match(OTHER_CHANNEL_ID, GUILD_ID)).toMatchObject({ scope: 'guild', disabled: true });
+    expect(policy.match(OTHER_CHANNEL_ID, undefined)).toBeUndefined();
+  });
+
+  it('persists rules and clears them', async () => {
+    await policy.setPersona('guild', GUILD_ID, 'REVIEWER', OWNER_ID);
+    await policy.disable('channel', CHANNEL_ID, OWNER_ID);
+
+    const reloaded = new PersonaPolicy(file, registry, silentLogger);
+    expect(reloaded.list().map(rule => `${rule.scope} ${rule.id}`)).toEqual([
+      `channel ${CHANNEL_ID}`,
+      `guild ${GUILD_ID}`,
+    ]);
+
+    expect(await reloaded.clear('channel', CHANNEL_ID)).toBe(true);
+    expect(await reloaded.clear('channel', CHANNEL_ID)).toBe(false);
+    expect(new PersonaPolicy(file, registry, silentLogger).list()).toHaveLength(1);
+  });
+
+  it('never assigns the Butler or unknown personas', async () => {
+    await expect(policy.setPersona('channel', CHANNEL_ID, PersonaType.BUTLER, OWNER_ID))
+      .rejects.toThrow(/BUTLER is owner-only/);
+    await expect(policy.setPersona('channel', CHANNEL_ID, 'MISSING', OWNER_ID))
+      .rejects.toThrow(/Unknown persona: 'MISSING'/);
+  });
+
+  it.each([
+    ['the Butler', { persona: 'BUTLER' }, /Persona policy rule 1: BUTLER is owner-only/],
+    ['an unknown persona', { persona: 'MISSING' }, /Persona policy rule 1: Unknown persona: 'MISSING'/],
+    ['a non-string persona', { persona: 7 }, /Persona policy rule 1: persona must be a string/],
+    ['an empty setBy', { setBy: '' }, /Persona policy rule 1: setBy must be a non-empty string/],
+    ['an unparseable setAt', { setAt: 'yesterday' }, /Persona policy rule 1: invalid setAt 'yesterday'/],
+  ])('rejects a stored rule with %s', (_label, overrides, message) => {
+    const rule = { scope: 'guild', id: GUILD_ID, disabled: false, persona: 'REVIEWER', setBy: OWNER_ID, setAt: '2026-01-01T00:00:00.000Z' };
+    fs.writeFileSync(file, JSON.stringify({ version: 1, rules: [rule, { ...rule, scope: 'channel', id: CHANNEL_ID, ...overrides }] }));
+
+    expect(() => new PersonaPolicy(file, registry, silentLogger)).toThrow(message);
+  });
+
+  describe('with PersonaSelector', () => {
+    function createSelector(): PersonaSelector {
+      const ownerValidator = new OwnerValidator([OWNER_ID]);
+      return new PersonaSelector(
+        new IdentityResolver(ownerValidator),
+        ownerValidator,
+        new PersonaLogger(silentLogger),
+        registry,
+        policy
+      );
+    }
+
+    function request(authorId: string, channelId: string): ReturnType<typeof createRequest> {
+      return createRequest({ author: { id: authorId }, channel: { id: channelId, guildId: GUILD_ID } });
+    }
+
+    it('applies policy before registered rules', async () => {
+      await policy.setPersona('channel', CHANNEL_ID, PersonaType.SUPERVISOR, OWNER_ID);
+      const selector = createSelector();
+
+      expect(selector.selectPersona(request(USER_ID, CHANNEL_ID))).toMatchObject({
+        persona: PersonaType.SUPERVISOR,
+        reason: 'policy',
+        policyRule: { scope: 'channel', id: CHANNEL_ID },
+      });
+      expect(selector.getPersonaType(request(USER_ID, OTHER_CHANNEL_ID))).toBe('REVIEWER');
+    });
+
+    it('reports disabled locations, except to owners', async () => {
+      await policy.disable('guild', GUILD_ID, OWNER_ID);
+      const selector = createSelector();
+
+      expect(selector.selectPersona(request(USER_ID, CHANNEL_ID))).toMatchObject({ reason: 'disabled' });
+      expect(selector.selectPersona(request(OWNER_ID, CHANNEL_ID))).toMatchObject({
+        persona: PersonaType.BUTLER,
+        reason: 'owner',
+      });
+    });
+  });
+});
@@ -0,0 +1,297 @@
+import * as path from 'path';
+import { isValidSnowflake } from '../../config/ownerConfig';
+import { PersonaRegistry } from './PersonaRegistry';
+import { PersonaId, PersonaType } from '../../types/persona.types';
+import { PersonaPolicyRule, PersonaPolicyScope } from '../../types/personaPolicy.types';
+import { AtomicJsonWriter, isObject, readJsonFileSync } from '../../utils/jsonFile';
+import { Logger } from '../../utils/logger';
+
+/**
+ * On-disk shape of the persona policy file.
+ */
+interface PersonaPolicyFile {
+  version: number;
+  rules: Array<{
+    scope: string;
+    id: string;
+    disabled: boolean;
+    persona?: string;
+    setBy: string;
+    setAt: string;
+  }>;
+}
+
+/**
+ * Current persona policy file format version.
+ */
+const PERSONA_POLICY_FILE_VERSION = 1;
+
+/**
+ * Default location of the persona policy file (PERSONA_POLICY_FILE overrides it).
+ */
+export const DEFAULT_PERSONA_POLICY_FILE = 'data/persona-policy.json';
+
+/**
+ * Valid scopes, most specific first (evaluation order).
+ */
+export const PERSONA_POLICY_SCOPES: readonly PersonaPolicyScope[] = Object.freeze(['channel', 'guild']);
+
+/**
+ * Persistent per-channel and per-guild persona policy for non-owners.
+ *
+ * Each channel or guild has at most one rule, which either names the
+ * persona non-owners get there or disables the bot for them. A channel
+ * rule wins over its guild's rule.
+ *
+ * SECURITY:
+ * - Rules never apply to owners; the owner → Butler rule is evaluated first
+ * - BUTLER cannot be assigned, and every persona must be registered
+ *
+ * Rules are loaded synchronously at startup and written back atomically
+ * on every change.
+ *
+ * NOT Responsible For:
+ * - Deciding owner status (OwnerValidator's job)
+ * - Applying the matched rule (PersonaSelector's job)
+ * - Dropping requests in disabled channels (PersonaSelectionStage's job)
+ */
+export class PersonaPolicy {
+  private readonly filePath: string;
+  private readonly registry: PersonaRegistry;
+  private readonly logger: Logger;
+  private readonly writer: AtomicJsonWriter;
+  private rules: Readonly<PersonaPolicyRule>[] = [];
+
+  /**
+   * Tail of the change queue, so concurrent edits never overwrite each other.
+   */
+  private changing: Promise<unknown> = Promise.resolve();
+
+  /**
+   * @param filePath - Policy JSON file (created on first change)
+   * @param registry - Registered personas (rules may only name these)
+   * @param logger - Logger for policy changes
+   * @throws Error if an existing file cannot be read or is invalid
+   */
+  constructor(filePath: string, registry: PersonaRegistry, logger: Logger) {
+    this.filePath = path.resolve(filePath);
+    this.registry = registry;
+    this.logger = logger;
+    this.writer = new AtomicJsonWriter(this.filePath);
+    this.load();
+  }
+
+  /**
+   * Find the rule for a request location.
+   *
+   * @param channelId - Channel the request arrived in
+   * @param guildId - Guild the request arrived in (undefined for DMs)
+   * @returns The channel rule, else the guild rule, else undefined
+   */
+  public match(channelId: string, guildId: string | undefined): Readonly<PersonaPolicyRule> | undefined {
+    const ids: Record<PersonaPolicyScope, string | undefined> = { channel: channelId, guild: guildId };
+
+    for (const scope of PERSONA_POLICY_SCOPES) {
+      const rule = this.rules.find(r => r.scope === scope && r.id === ids[scope]);
+      if (rule) {
+        return rule;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Assign a persona to non-owners in a channel or guild, replacing any existing rule.
+   *
+   * @param scope - Channel or guild
+   * @param id - Discord ID
+   * @param persona - Registered persona (not BUTLER)
+   * @param setBy - Owner ID making the change
+   * @throws Error if the ID or persona is invalid, or persisting fails
+   */
+  public async setPersona(scope: PersonaPolicyScope, id: string, persona: PersonaId, setBy: string): Promise<void> {
+    this.validatePersona(persona);
+    await this.put({ scope, id, disabled: false, persona, setBy, setAt: new Date() });
+    this.logger.info('Persona policy set', { scope, id, persona, setBy });
+  }
+
+  /**
+   * Disable the bot for non-owners in a channel or guild, replacing any existing rule.
+   *
+   * @param scope - Channel or guild
+   * @param id - Discord ID
+   * @param setBy - Owner ID making the change
+   * @throws Error if the ID is invalid or persisting fails
+   */
+  public async disable(scope: PersonaPolicyScope, id: string, setBy: string): Promise<void> {
+    await this.put({ scope, id, disabled: true, setBy, setAt: new Date() });
+    this.logger.info('Persona policy set', { scope, id, disabled: true, setBy });
+  }
+
+  /**
+   * Remove the rule for a channel or guild.
+   *
+   * @param scope - Channel or guild
+   * @param id - Discord ID
+   * @returns True if a rule existed and was removed
+   * @throws Error if persisting fails
+   */
+  public async clear(scope: PersonaPolicyScope, id: string): Promise<boolean> {
+    const cleared = await this.update(rules => {
+      const remaining = rules.filter(r => r.scope !== scope || r.id !== id);
+      return remaining.length === rules.length ? undefined : remaining;
+    });
+
+    if (cleared) {
+      this.logger.info('Persona policy cleared', { scope, id });
+    }
+    return cleared;
+  }
+
+  /**
+   * List all rules.
+   *
+   * @returns Rules grouped by scope (channels first), then insertion order
+   */
+  public list(): Readonly<PersonaPolicyRule>[] {
+    return PERSONA_POLICY_SCOPES.flatMap(scope => this.rules.filter(rule => rule.scope === scope));
+  }
+
+  /**
+   * Store a rule, replacing any rule for the same channel or guild.
+   *
+   * @param rule - Rule to store
+   * @throws Error if the ID is invalid or persisting fails
+   */
+  private async put(rule: PersonaPolicyRule): Promise<void> {
+    if (!isValidSnowflake(rule.id)) {
+      throw new Error(`Invalid ${rule.scope} ID '${rule.id}'`);
+    }
+
+    await this.update(rules => [
+      ...rules.filter(r => r.scope !== rule.scope || r.id !== rule.id),
+      Object.freeze(rule),
+    ]);
+  }
+
+  /**
+   * Check that a persona may be assigned by policy.
+   *
+   * @param persona - Persona ID
+   * @throws Error if the persona is BUTLER or not registered
+   */
+  private validatePersona(persona: PersonaId): void {
+    if (persona === PersonaType.BUTLER) {
+      throw new Error('BUTLER is owner-only and cannot be assigned by policy');
+    }
+    // Throws for unknown personas
+    this.registry.get(persona);
+  }
+
+  /**
+   * Apply a change: compute new rules, persist them, then make them current.
+   * Changes run one at a time, and memory only changes once the write succeeded.
+   *
+   * @param change - Returns the complete new rule list, or undefined for no change
+   * @returns True if the rules changed
+   * @throws Error if persisting fails
+   */
+  private update(
+    change: (rules: Readonly<PersonaPolicyRule>[]) => Readonly<PersonaPolicyRule>[] | undefined
+  ): Promise<boolean> {
+    const run = this.changing.then(async () => {
+      const rules = change(this.rules);
+      if (!rules) {
+        return false;
+      }
+
+      const content: PersonaPolicyFile = {
+        version: PERSONA_POLICY_FILE_VERSION,
+        rules: rules.map(rule => ({ ...rule, setAt: rule.setAt.toISOString() })),
+      };
+
+      await this.writer.write(content);
+      this.rules = rules;
+      return true;
+    });
+    this.changing = run.catch(() => undefined);
+
+    return run;
+  }
+
+  /**
+   * Load rules from disk. A missing file means no rules.
+   *
+   * @throws Error if the file exists but is unreadable, invalid,
+   *   or names a persona that is not registered
+   */
+  private load(): void {
+    const parsed = readJsonFileSync(this.filePath) as PersonaPolicyFile | undefined;
+    if (parsed === undefined) {
+      return;
+    }
+
+    if (parsed.version !== PERSONA_POLICY_FILE_VERSION || !Array.isArray(parsed.rules)) {
+      throw new Error(`Unsupported persona policy file format: ${this.filePath}`);
+    }
+
+    this.rules = (parsed.rules as unknown[]).map((rule, index) =>
+      this.parseStoredRule(rule, `Persona policy rule ${index}`)
+    );
+
+    this.logger.info('Persona policy loaded', { rules: this.rules.length, file: this.filePath });
+  }
+
+  /**
+   * Validate a rule read from disk. The persona must still be a known,
+   * assignable persona, and an unparseable setAt would make every later
+   * write throw, so the file is rejected at startup instead.
+   *
+   * @param rule - Raw rule from the file
+   * @param label - Rule label for error messages
+   * @returns Frozen rule
+   * @throws Error if the rule is malformed
+   */
+  private parseStoredRule(rule: unknown, label: string): Readonly<PersonaPolicyRule> {
+    if (!isObject(rule)) {
+      throw new Error(`${label}: must be an object in ${this.filePath}`);
+    }
+
+    const { scope, id, disabled, persona, setBy, setAt } = rule;
+    if (!PERSONA_POLICY_SCOPES.includes(scope as PersonaPolicyScope)) {
+      throw new Error(`${label}: invalid scope '${String(scope)}' in ${this.filePath}`);
+    }
+    if (typeof id !== 'string' || !isValidSnowflake(id)) {
+      throw new Error(`${label}: invalid ${String(scope)} ID '${String(id)}' in ${this.filePath}`);
+    }
+    if (typeof disabled !== 'boolean' || disabled !== (persona === undefined)) {
+      throw new Error(`${label}: must either be disabled or set a persona in ${this.filePath}`);
+    }
+    if (persona !== undefined) {
+      if (typeof persona !== 'string') {
+        throw new Error(`${label}: persona must be a string in ${this.filePath}`);
+      }
+      try {
+        this.validatePersona(persona);
+      } catch (error) {
+        throw new Error(`${label}: ${(error as Error).message} in ${this.filePath}`, { cause: error });
+      }
+    }
+    if (typeof setBy !== 'string' || setBy.length === 0) {
+      throw new Error(`${label}: setBy must be a non-empty string in ${this.filePath}`);
+    }
+    const setAtDate = typeof setAt === 'string' ? new Date(setAt) : undefined;
+    if (!setAtDate || Number.isNaN(setAtDate.getTime())) {
+      throw new Error(`${label}: invalid setAt '${String(setAt)}' in ${this.filePath}`);
+    }
+
+    return Object.freeze({
+      scope: scope as PersonaPolicyScope,
+      id,
+      disabled,
+      persona,
+      setBy,
+      setAt: setAtDate,
+    });
+  }
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from '@jest/globals';
+import { PersonaRegistry } from './PersonaRegistry';
+import { PersonaDefinition, PersonaType } from '../../types/persona.types';
+
+function definition(overrides: Partial<PersonaDefinition> = {}): PersonaDefinition {
+  return {
+    id: 'REVIEWER',
+    description: 'Code reviewer',
+    systemPromptFile: 'reviewer.system.md',
+    priority: 10,
+    match: { guildIds: ['333333333333333333'] },
+    ...overrides,
+  };
+}
+
+describe('PersonaRegistry', () => {
+  it('always contains the built-ins', () => {
+    const registry = new PersonaRegistry();
+
+    expect(registry.has(PersonaType.BUTLER)).toBe(true);
+    expect(registry.has(PersonaType.SUPERVISOR)).toBe(true);
+    expect(registry.getSelectionOrder()).toEqual([]);
+    expect(() => registry.get('REVIEWER')).toThrow(/Unknown persona: 'REVIEWER'/);
+  });
+
+  it('orders registered personas by descending priority, keeping declaration order on ties', () => {
+    const registry = new PersonaRegistry([
+      definition({ id: 'LOW', priority: 1 }),
+      definition({ id: 'HIGH_A', priority: 5 }),
+      definition({ id: 'HIGH_B', priority: 5, systemPromptFile: 'other.system.md' }),
+    ]);
+
+    expect(registry.getSelectionOrder().map(p => p.id)).toEqual(['HIGH_A', 'HIGH_B', 'LOW']);
+    expect(registry.getCustomPromptFiles()).toEqual(['reviewer.system.md', 'other.system.md']);
+  });
+
+  it.each([
+    ['a reserved ID', definition({ id: PersonaType.BUTLER }), /Persona 'BUTLER' is reserved/],
+    ['the butler prompt', definition({ systemPromptFile: 'butler.system.md' }), /cannot use the owner-only butler system prompt/],
+    ['an empty rule', definition({ match: { channelIds: [] } }), /needs a selection rule/],
+    ['an infinite priority', definition({ priority: Number.POSITIVE_INFINITY }), /needs a finite priority/],
+  ])('rejects %s', (_label, invalid, message) => {
+    expect(() => new PersonaRegistry([invalid])).toThrow(message);
+  });
+
+  it('rejects duplicate IDs', () => {
+    expect(() => new PersonaRegistry([definition(), definition()])).toThrow(/defined more than once/);
+  });
+});
@@ -0,0 +1,183 @@
+import { PromptType } from '../prompts/PromptLoader';
+import { PersonaDefinition, PersonaId, PersonaType } from '../../types/persona.types';
+
+/**
+ * Valid persona IDs: uppercase letters, digits and underscores.
+ */
+const PERSONA_ID_PATTERN = /^[A-Z][A-Z0-9_]*$/;
+
+/**
+ * Butler: selected for owners, and only for owners.
+ * Hard-wired in PersonaSelector; never selected by a rule.
+ */
+export const BUTLER_PERSONA: Readonly<PersonaDefinition> = Object.freeze({
+  id: PersonaType.BUTLER,
+  description: 'Owner-only butler',
+  systemPromptFile: PromptType.BUTLER_SYSTEM,
+  priority: Number.POSITIVE_INFINITY,
+});
+
+/**
+ * Supervisor: selected for non-owners when no registered rule matches.
+ */
+export const SUPERVISOR_PERSONA: Readonly<PersonaDefinition> = Object.freeze({
+  id: PersonaType.SUPERVISOR,
+  description: 'Default for everyone else',
+  systemPromptFile: PromptType.SUPERVISOR_SYSTEM,
+  priority: Number.NEGATIVE_INFINITY,
+});
+
+/**
+ * Registry of every persona the bot can use.
+ *
+ * Always contains the two built-ins (BUTLER, SUPERVISOR). Additional
+ * personas are registered at construction, each with its own system prompt
+ * file, model settings and selection rule, and are immutable afterwards.
+ *
+ * SECURITY:
+ * - The BUTLER and SUPERVISOR IDs are reserved and cannot be redefined
+ * - No registered persona may use the butler system prompt, so the Butler
+ *   voice is only ever reachable through the hard-wired owner rule
+ * - Every registered persona must declare a selection rule
+ *
+ * NOT Responsible For:
+ * - Evaluating selection rules (PersonaSelector's job)
+ * - Loading prompt files (PromptLoader's job)
+ */
+export class PersonaRegistry {
+  private readonly personas: ReadonlyMap<PersonaId, Readonly<PersonaDefinition>>;
+
+  /**
+   * Registered personas in evaluation order (highest priority first).
+   */
+  private readonly selectionOrder: readonly Readonly<PersonaDefinition>[];
+
+  /**
+   * @param definitions - Additional personas to register
+   * @throws Error if a definition is invalid, duplicated or reserved
+   */
+  constructor(definitions: readonly PersonaDefinition[] = []) {
+    const personas = new Map<PersonaId, Readonly<PersonaDefinition>>([
+      [BUTLER_PERSONA.id, BUTLER_PERSONA],
+      [SUPERVISOR_PERSONA.id, SUPERVISOR_PERSONA],
+    ]);
+
+    for (const definition of definitions) {
+      this.validateDefinition(definition);
+      if (personas.has(definition.id)) {
+        throw new Error(
+          `Persona '${definition.id}' is ${this.isBuiltIn(definition.id) ? 'reserved' : 'defined more than once'}`
+        );
+      }
+      personas.set(definition.id, Object.freeze({ ...definition }));
+    }
+
+    this.personas = personas;
+    // Array.prototype.sort is stable, so equal priorities keep declaration order
+    this.selectionOrder = Object.freeze(
+      [...personas.values()]
+        .filter(persona => !this.isBuiltIn(persona.id))
+        .sort((a, b) => b.priority - a.priority)
+    );
+  }
+
+  /**
+   * Look up a persona.
+   *
+   * @param id - Persona ID
+   * @returns Persona definition
+   * @throws Error if the persona is not registered
+   */
+  public get(id: PersonaId): Readonly<PersonaDefinition> {
+    const persona = this.personas.get(id);
+    if (!persona) {
+      throw new Error(
+        `Unknown persona: '${id}'. Registered personas: ${[...this.personas.keys()].join(', ')}`
+      );
+    }
+    return persona;
+  }
+
+  /**
+   * Check whether a persona is registered.
+   *
+   * @param id - Persona ID
+   * @returns True if registered (built-ins always are)
+   */
+  public has(id: PersonaId): boolean {
+    return this.personas.has(id);
+  }
+
+  /**
+   * All personas, built-ins first.
+   *
+   * @returns Persona definitions
+   */
+  public list(): Readonly<PersonaDefinition>[] {
+    return [...this.personas.values()];
+  }
+
+  /**
+   * Rule-selected personas in the order PersonaSelector evaluates them.
+   * Excludes the built-ins, which are hard-wired.
+   *
+   * @returns Personas sorted by descending priority
+   */
+  public getSelectionOrder(): readonly Readonly<PersonaDefinition>[] {
+    return this.selectionOrder;
+  }
+
+  /**
+   * System prompt files of registered (non-built-in) personas, for preloading.
+   *
+   * @returns Distinct prompt file names
+   */
+  public getCustomPromptFiles(): string[] {
+    return [...new Set(this.selectionOrder.map(persona => persona.systemPromptFile))];
+  }
+
+  /**
+   * Check whether an ID belongs to a built-in persona.
+   *
+   * @param id - Persona ID
+   * @returns True for BUTLER and SUPERVISOR
+   */
+  private isBuiltIn(id: PersonaId): boolean {
+    return id === PersonaType.BUTLER || id === PersonaType.SUPERVISOR;
+  }
+
+  /**
+   * Validate a persona definition.
+   *
+   * @param definition - Definition to validate
+   * @throws Error describing the first problem found
+   */
+  private validateDefinition(definition: PersonaDefinition): void {
+    if (!PERSONA_ID_PATTERN.test(definition.id)) {
+      throw new Error(
+        `Invalid persona ID '${definition.id}': use uppercase letters, digits and underscores`
+      );
+    }
+
+    if (definition.systemPromptFile === PromptType.BUTLER_SYSTEM) {
+      throw new Error(`Persona '${definition.id}' cannot use the owner-only butler system prompt`);
+    }
+
+    const match = definition.match;
+    const conditions = match
+      ? [match.channelIds, match.guildIds].filter(
+          condition => condition !== undefined && condition.length > 0
+        )
+      : [];
+    if (conditions.length === 0) {
+      throw new Error(
+        `Persona '${definition.id}' needs a selection rule with at least one condition ` +
+        `(SUPERVISOR is the catch-all)`
+      );
+    }
+
+    if (!Number.isFinite(definition.priority)) {
+      throw new Error(`Persona '${definition.id}' needs a finite priority`);
+    }
+  }
+}
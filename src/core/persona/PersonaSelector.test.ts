@@ -0,0 +1,88 @@
+import { describe, expect, it } from '@jest/globals';
+import * as os from 'os';
+import * as path from 'path';
+import { PersonaLogger } from './PersonaLogger';
+import { PersonaPolicy } from './PersonaPolicy';
+import { PersonaRegistry } from './PersonaRegistry';
+import { PersonaSelector } from './PersonaSelector';
+import { IdentityResolver } from '../identity/IdentityResolver';
+import { OwnerValidator } from '../identity/OwnerValidator';
+import { PersonaDefinition, PersonaType } from '../../types/persona.types';
+import { InboundRequest } from '../../types/request.types';
+import { createRequest, silentLogger } from '../../testing/fixtures';
+
+const OWNER_ID = '111111111111111111';
+const USER_ID = '222222222222222222';
+const GUILD_ID = '333333333333333333';
+const CHANNEL_ID = '555555555555555555';
+
+const PERSONAS: PersonaDefinition[] = [
+  {
+    id: 'GUILD_HELPER',
+    description: 'One guild',
+    systemPromptFile: 'guild.system.md',
+    priority: 1,
+    match: { guildIds: [GUILD_ID] },
+  },
+  {
+    id: 'CHANNEL_HELPER',
+    description: 'One channel of that guild',
+    systemPromptFile: 'channel.system.md',
+    priority: 5,
+    match: { channelIds: [CHANNEL_ID], guildIds: [GUILD_ID] },
+  },
+];
+
+function createSelector(): PersonaSelector {
+  const ownerValidator = new OwnerValidator([OWNER_ID]);
+  const registry = new PersonaRegistry(PERSONAS);
+  const missing = path.join(os.tmpdir(), `selector-test-${process.pid}-missing.json`);
+
+  return new PersonaSelector(
+    new IdentityResolver(ownerValidator),
+    ownerValidator,
+    new PersonaLogger(silentLogger),
+    registry,
+    new PersonaPolicy(missing, registry, silentLogger)
+  );
+}
+
+function request(authorId: string, channelId: string, guildId: string | undefined = GUILD_ID): InboundRequest {
+  return createRequest({ author: { id: authorId }, channel: { id: channelId, guildId } });
+}
+
+describe('PersonaSelector', () => {
+  const selector = createSelector();
+
+  it('gives owners the Butler, whatever rules match', () => {
+    const selection = selector.selectPersona(request(OWNER_ID, CHANNEL_ID));
+
+    expect(selection).toMatchObject({ persona: PersonaType.BUTLER, reason: 'owner', isOwner: true });
+    expect(Object.isFrozen(selection)).toBe(true);
+  });
+
+  it('picks the highest-priority rule whose every condition holds', () => {
+    expect(selector.selectPersona(request(USER_ID, CHANNEL_ID)))
+      .toMatchObject({ persona: 'CHANNEL_HELPER', reason: 'rule', isOwner: false });
+    expect(selector.getPersonaType(request(USER_ID, 'c2'))).toBe('GUILD_HELPER');
+  });
+
+  it('ignores roles, so a non-owner holding any role never gets the Butler', () => {
+    const selection = selector.selectPersona(createRequest({
+      author: { id: USER_ID, roleIds: [OWNER_ID, GUILD_ID] },
+      channel: { id: CHANNEL_ID, guildId: GUILD_ID },
+    }));
+
+    expect(selection).toMatchObject({ persona: 'CHANNEL_HELPER', isOwner: false });
+  });
+
+  it('falls back to the Supervisor', () => {
+    expect(selector.selectPersona(request(USER_ID, CHANNEL_ID, '444444444444444444')))
+      .toMatchObject({ persona: PersonaType.SUPERVISOR, reason: 'default' });
+  });
+
+  it('refuses bot authors', () => {
+    expect(() => selector.selectPersona(createRequest({ author: { isBot: true } })))
+      .toThrow('Cannot select persona for bot user');
+  });
+});
@@ -1,54 +1,76 @@
-import { Message } from 'discord.js';
 import { IdentityResolver } from '../identity/IdentityResolver';
 import { OwnerValidator } from '../identity/OwnerValidator';
 import { PersonaLogger } from './PersonaLogger';
-import { PersonaType, PersonaSelection } from '../../types/persona.types';
+import { PersonaPolicy } from './PersonaPolicy';
+import { PersonaRegistry } from './PersonaRegistry';
+import {
+  PersonaId,
+  PersonaMatchRule,
+  PersonaSelection,
+  PersonaType,
+  UserIdentity,
+} from '../../types/persona.types';
+import { InboundRequest } from '../../types/request.types';
 
 /**
  * CRITICAL PIPELINE STAGE
  * 
- * Selects persona (Butler or Supervisor) based on user identity.
+ * Selects the persona for a request from the PersonaRegistry.
  * This MUST happen before prompt construction in the pipeline.
  * 
- * Selection Rules:
- * - Owner ID match → BUTLER persona
- * - Any other user → SUPERVISOR persona
- * - No exceptions, no overrides
+ * Selection Rules (in order):
+ * 1. Owner ID match → BUTLER persona (hard-wired, evaluated first, cannot be overridden)
+ * 2. Persona policy rule for the channel, else the guild → its persona,
+ *    or 'disabled' if the bot is off there for non-owners
+ * 3. Registered personas by descending priority → first whose rule matches
+ *    the channel and guild
+ * 4. Nothing matched → SUPERVISOR persona
  * 
  * Security:
- * - All selections are logged for audit
- * - Persona cannot be spoofed or toggled
+ * - Owner status is decided by OwnerValidator on the user ID alone;
+ *   channels, guilds and policy only choose among non-owner personas
+ * - Roles and trust tiers are never read, so guild admins cannot steer
+ *   persona choice by assigning roles
+ * - Non-owners can never receive BUTLER (PersonaRegistry reserves it)
+ * - All selections are logged for audit (dry runs to the console only)
  * - Decision is immutable once made
  */
 export class PersonaSelector {
   private readonly identityResolver: IdentityResolver;
   private readonly ownerValidator: OwnerValidator;
   private readonly logger: PersonaLogger;
+  private readonly registry: PersonaRegistry;
+  private readonly policy: PersonaPolicy;
 
   constructor(
     identityResolver: IdentityResolver,
     ownerValidator: OwnerValidator,
-    logger: PersonaLogger
+    logger: PersonaLogger,
+    registry: PersonaRegistry,
+    policy: PersonaPolicy
   ) {
     this.identityResolver = identityResolver;
     this.ownerValidator = ownerValidator;
     this.logger = logger;
+    this.registry = registry;
+    this.policy = policy;
   }
 
   /**
-   * Select appropriate persona for a Discord message.
+   * Select appropriate persona for an inbound request.
    * 
    * Pipeline Position: MUST execute after Identity Resolver,
    * BEFORE Context Manager and Prompt Builder.
    * 
-   * @param message - Discord message to process
+   * @param request - Inbound request to process
+   * @param dryRun - Whether this is a dry run: logged, but kept out of the audit log
    * @returns Immutable persona selection with audit data
    * @throws Error if identity resolution fails
    */
-  public selectPersona(message: Message): PersonaSelection {
+  public selectPersona(request: InboundRequest, dryRun = false): PersonaSelection {
     try {
       // Step 1: Resolve user identity
-      const identity = this.identityResolver.resolveIdentity(message);
+      const identity = this.identityResolver.resolveIdentity(request);
 
       // Step 2: Validate user is not a bot
       if (!this.identityResolver.isValidUser(identity)) {
@@ -58,45 +80,103 @@ export class PersonaSelector {
       // Step 3: Check owner status (IMMUTABLE)
       const isOwner = this.ownerValidator.isOwner(identity);
 
-      // Step 4: Select persona based on ownership
-      const persona = isOwner ? PersonaType.BUTLER : PersonaType.SUPERVISOR;
+      // Step 4: Select persona (owner rule first, then policy, then registered rules)
+      const { persona, reason, policyRule } = this.choosePersona(identity, isOwner, request);
 
       // Step 5: Create immutable selection result
       const selection: PersonaSelection = Object.freeze({
         persona,
+        reason,
+        policyRule,
         userId: identity.id,
         username: identity.username,
         isOwner,
         timestamp: new Date(),
-        messageId: message.id,
-        channelId: message.channelId,
+        messageId: request.id,
+        channelId: request.channel.id,
+        guildId: identity.guildId,
+        guildName: request.channel.guildName,
       });
 
       // Step 6: Audit log the decision
-      this.logger.logSelection(selection);
+      this.logger.logSelection(selection, dryRun);
 
       return selection;
     } catch (error) {
       // Log error and re-throw
       this.logger.logError(
         error as Error,
-        message.author.id,
-        message.id
+        request.author.id,
+        request.id,
+        request.channel.id,
+        dryRun
       );
       throw error;
     }
   }
 
   /**
-   * Get persona type without full selection (for testing/debugging).
+   * Get persona without full selection (for testing/debugging).
    * Still performs full validation.
    * 
-   * @param message - Discord message
-   * @returns Persona type that would be selected
+   * @param request - Inbound request
+   * @returns Persona that would be selected
    */
-  public getPersonaType(message: Message): PersonaType {
-    const identity = this.identityResolver.resolveIdentity(message);
+  public getPersonaType(request: InboundRequest): PersonaId {
+    const identity = this.identityResolver.resolveIdentity(request);
     const isOwner = this.ownerValidator.isOwner(identity);
-    return isOwner ? PersonaType.BUTLER : PersonaType.SUPERVISOR;
+    return this.choosePersona(identity, isOwner, request).persona;
+  }
+
+  /**
+   * Apply the selection rules.
+   * 
+   * @param identity - Resolved identity
+   * @param isOwner - Owner status from OwnerValidator
+   * @param request - Inbound request (supplies the channel)
+   * @returns Selected persona, why, and the matched policy rule
+   */
+  private choosePersona(
+    identity: UserIdentity,
+    isOwner: boolean,
+    request: InboundRequest
+  ): Pick<PersonaSelection, 'persona' | 'reason' | 'policyRule'> {
+    // Hard-wired: checked before any policy or registered rule
+    if (isOwner) {
+      return { persona: PersonaType.BUTLER, reason: 'owner' };
+    }
+
+    const policyRule = this.policy.match(request.channel.id, identity.guildId);
+    if (policyRule?.disabled) {
+      return { persona: PersonaType.SUPERVISOR, reason: 'disabled', policyRule };
+    }
+    if (policyRule?.persona !== undefined) {
+      return { persona: policyRule.persona, reason: 'policy', policyRule };
+    }
+
+    for (const candidate of this.registry.getSelectionOrder()) {
+      if (candidate.match && this.matches(candidate.match, identity, request.channel.id)) {
+        return { persona: candidate.id, reason: 'rule' };
+      }
+    }
+
+    return { persona: PersonaType.SUPERVISOR, reason: 'default' };
+  }
+
+  /**
+   * Check a persona's selection rule.
+   * Every listed condition must hold; an empty or absent list is ignored.
+   * 
+   * @param rule - Selection rule
+   * @param identity - Resolved identity
+   * @param channelId - Channel the request arrived in
+   * @returns True if the rule matches
+   */
+  private matches(rule: PersonaMatchRule, identity: UserIdentity, channelId: string): boolean {
+    const holds = <T>(values: readonly T[] | undefined, test: (value: T) => boolean): boolean =>
+      values === undefined || values.length === 0 || values.some(test);
+
+    return holds(rule.channelIds, id => id === channelId)
+      && holds(rule.guildIds, id => id === identity.guildId);
   }
 }
@@ -0,0 +1,57 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  AI_RETRY_POLICY,
+  DEFAULT_AI_TIMEOUT_MS,
+  DEFAULT_PIPELINE_TIMEOUT_MS,
+  MessagePipelineFactory,
+} from './MessagePipelineFactory';
+import { PipelineTimeoutError } from './PipelineErrors';
+import { computeBackoffDelay } from './RetryPolicy';
+import { STAGE_NAMES } from './stages/stageNames';
+import { AIService } from '../../services/ai/AIService';
+import { rejectOnAbort } from '../../utils/abort';
+import { createPipelineDependencies, createRequest } from '../../testing/fixtures';
+
+describe('MessagePipelineFactory defaults', () => {
+  it('fits every AI attempt and the longest backoffs inside the pipeline deadline', () => {
+    let worstCase = 0;
+    for (let attempt = 1; attempt <= AI_RETRY_POLICY.maxAttempts; attempt++) {
+      worstCase += DEFAULT_AI_TIMEOUT_MS;
+      if (attempt < AI_RETRY_POLICY.maxAttempts) {
+        worstCase += computeBackoffDelay(AI_RETRY_POLICY, attempt, () => 0.999999);
+      }
+    }
+
+    expect(worstCase).toBeLessThan(DEFAULT_PIPELINE_TIMEOUT_MS);
+  });
+});
+
+describe('MessagePipelineFactory AI retries', () => {
+  it('retries an attempt that hit the stage deadline', async () => {
+    let calls = 0;
+    const aiService: AIService = {
+      generateResponse: async (_prompt, options) => {
+        if (++calls === 1) {
+          // Hang until the stage deadline aborts the attempt
+          return rejectOnAbort(options?.signal ?? new AbortController().signal);
+        }
+        return { text: 'Second time lucky.', model: 'test-model' };
+      },
+    };
+    const pipeline = MessagePipelineFactory.create({ ...createPipelineDependencies(), aiService, aiTimeoutMs: 50 });
+
+    const result = await pipeline.execute(createRequest({ content: 'What is the status of the build?' }));
+
+    expect(calls).toBe(2);
+    expect(result.success).toBe(true);
+    expect(result.stageResults.get(STAGE_NAMES.AI_INVOCATION)?.metadata?.['attempts']).toMatchObject([
+      { attempt: 1, error: `Stage '${STAGE_NAMES.AI_INVOCATION}' exceeded timeout of 50ms` },
+      { attempt: 2 },
+    ]);
+  });
+
+  it('never retries the pipeline deadline', () => {
+    expect(AI_RETRY_POLICY.isRetryable?.(new PipelineTimeoutError('stage', 50, STAGE_NAMES.AI_INVOCATION))).toBe(true);
+    expect(AI_RETRY_POLICY.isRetryable?.(new PipelineTimeoutError('pipeline', 50))).toBe(false);
+  });
+});
@@ -0,0 +1,165 @@
+import { Pipeline } from './Pipeline';
+import { PipelineBuilder } from './PipelineBuilder';
+import { IdentityResolver } from '../identity/IdentityResolver';
+import { AccessControlList } from '../access/AccessControlList';
+import { AccessLogger } from '../access/AccessLogger';
+import { PersonaSelector } from '../persona/PersonaSelector';
+import { ImpersonationDetector } from '../anomaly/ImpersonationDetector';
+import { AnomalyReporter } from '../anomaly/AnomalyReporter';
+import { AuditLog } from '../audit/AuditLog';
+import { PromptBuilder } from '../prompts/PromptBuilder';
+import { RetryPolicy } from './RetryPolicy';
+import { PipelineTimeoutError } from './PipelineErrors';
+import { PipelineHooks } from './PipelineHooks';
+import { AIService } from '../../services/ai/AIService';
+import { OpenAIWrapper } from '../../services/ai/OpenAIWrapper';
+import { DiscordRequestAdapter } from '../../adapters/DiscordRequestAdapter';
+import { Logger } from '../../utils/logger';
+import { STAGE_NAMES } from './stages/stageNames';
+import { IdentityResolutionStage } from './stages/IdentityResolutionStage';
+import { AccessControlStage } from './stages/AccessControlStage';
+import { PersonaSelectionStage } from './stages/PersonaSelectionStage';
+import { AnomalyDetectionStage } from './stages/AnomalyDetectionStage';
+import { ContextManagementStage } from './stages/ContextManagementStage';
+import { PromptBuildingStage } from './stages/PromptBuildingStage';
+import { AIInvocationStage } from './stages/AIInvocationStage';
+import { ResponseFormattingStage } from './stages/ResponseFormattingStage';
+import { ResponseDeliveryStage, DeliveryReceipt } from './stages/ResponseDeliveryStage';
+
+/**
+ * Default deadline for a whole message pipeline execution (ms).
+ */
+export const DEFAULT_PIPELINE_TIMEOUT_MS = 30000;
+
+/**
+ * Default deadline for each AI invocation attempt (ms).
+ * Three attempts plus backoff (see AI_RETRY_POLICY) take at most 27s,
+ * leaving the rest of DEFAULT_PIPELINE_TIMEOUT_MS for delivery.
+ */
+export const DEFAULT_AI_TIMEOUT_MS = 8000;
+
+/**
+ * Retry policy for the AI invocation stage.
+ * OpenAI rate limits, 5xx responses and attempts that hit the stage
+ * deadline are usually transient. The pipeline deadline is never retried.
+ */
+export const AI_RETRY_POLICY: RetryPolicy = Object.freeze({
+  maxAttempts: 3,
+  initialDelayMs: 1000,
+  maxDelayMs: 8000,
+  isRetryable: (error: unknown) =>
+    (error instanceof PipelineTimeoutError && error.scope === 'stage') || OpenAIWrapper.isRetryableError(error),
+});
+
+/**
+ * Retry policy for the delivery stage.
+ * Discord rate limits and 5xx responses are usually transient.
+ */
+export const DELIVERY_RETRY_POLICY: RetryPolicy = Object.freeze({
+  maxAttempts: 3,
+  initialDelayMs: 500,
+  maxDelayMs: 4000,
+  isRetryable: DiscordRequestAdapter.isRetryableError,
+});
+
+/**
+ * Dependencies required to assemble the message pipeline.
+ */
+export interface MessagePipelineDependencies {
+  identityResolver: IdentityResolver;
+  accessControlList: AccessControlList;
+  personaSelector: PersonaSelector;
+  promptBuilder: PromptBuilder;
+  /**
+   * Where impersonation flags go. Defaults to a reporter that only logs.
+   */
+  anomalyReporter?: AnomalyReporter;
+  /**
+   * AI provider. Omit when AI is unavailable: the AI stage is then
+   * skipped and the fallback message is delivered instead.
+   */
+  aiService?: AIService;
+  logger: Logger;
+
+  /**
+   * Durable audit log for access denials. Omit (e.g. in replays) to log
+   * denials to the console only.
+   */
+  auditLog?: AuditLog;
+
+  /**
+   * Whole-pipeline deadline (ms). Defaults to DEFAULT_PIPELINE_TIMEOUT_MS.
+   */
+  timeoutMs?: number;
+
+  /**
+   * AI invocation deadline per attempt (ms). Defaults to DEFAULT_AI_TIMEOUT_MS.
+   * Keep it well under timeoutMs so retries have room to run.
+   */
+  aiTimeoutMs?: number;
+
+  /**
+   * Extra lifecycle hooks (e.g. RecordingHook), registered after LoggingHook.
+   */
+  hooks?: PipelineHooks[];
+
+  /**
+   * Delivery stage to use, so the caller can see partial deliveries.
+   * Defaults to a new ResponseDeliveryStage.
+   */
+  responseDelivery?: ResponseDeliveryStage;
+}
+
+/**
+ * Assembles the standard ACE Prime message pipeline.
+ * 
+ * Keeps stage wiring in one place so every entry point runs the
+ * same stages in the same order with the same validation.
+ */
+export class MessagePipelineFactory {
+  /**
+   * Build and validate the full message pipeline.
+   * 
+   * @param deps - Pipeline dependencies
+   * @returns Validated pipeline producing a delivery receipt
+   * @throws Error if the pipeline is misconfigured
+   */
+  public static create(deps: MessagePipelineDependencies): Pipeline<DeliveryReceipt> {
+    const builder = new PipelineBuilder();
+    for (const hook of deps.hooks ?? []) {
+      builder.withHook(hook);
+    }
+
+    const pipeline = builder
+      .withLogger(deps.logger)
+      .withTimeout(deps.timeoutMs ?? DEFAULT_PIPELINE_TIMEOUT_MS)
+      .continueOnError(false)
+      .addStage(new IdentityResolutionStage(deps.identityResolver))
+      .addStage(new AccessControlStage(deps.accessControlList, new AccessLogger(deps.logger, deps.auditLog)))
+      .addStage(new PersonaSelectionStage(deps.personaSelector))
+      .addStage(new AnomalyDetectionStage(
+        new ImpersonationDetector(),
+        deps.anomalyReporter ?? new AnomalyReporter(deps.logger)
+      ))
+      .addStage(new ContextManagementStage(deps.logger))
+      .addStage(new PromptBuildingStage(deps.promptBuilder))
+      .addStage(new AIInvocationStage(deps.aiService))
+      .addStage(new ResponseFormattingStage())
+      .addStage(deps.responseDelivery ?? new ResponseDeliveryStage())
+      .markCritical(STAGE_NAMES.IDENTITY_RESOLUTION)
+      .markCritical(STAGE_NAMES.PERSONA_SELECTION)
+      .markCritical(STAGE_NAMES.PROMPT_BUILDING)
+      .withStageTimeout(STAGE_NAMES.AI_INVOCATION, deps.aiTimeoutMs ?? DEFAULT_AI_TIMEOUT_MS)
+      .withRetryPolicy(STAGE_NAMES.AI_INVOCATION, AI_RETRY_POLICY)
+      .withRetryPolicy(STAGE_NAMES.RESPONSE_DELIVERY, DELIVERY_RETRY_POLICY)
+      .build();
+
+    // CRITICAL: Fail fast if persona selection could ever run after prompt building
+    pipeline.validatePersonaOrdering(
+      STAGE_NAMES.PERSONA_SELECTION,
+      STAGE_NAMES.PROMPT_BUILDING
+    );
+
+    return pipeline;
+  }
+}
@@ -0,0 +1,395 @@
+import { describe, expect, it } from '@jest/globals';
+import { PipelineBuilder } from './PipelineBuilder';
+import { PipelineContext, PipelineStage, StageOptions } from './PipelineStage';
+import { PipelineHaltError, PipelineTimeoutError } from './PipelineErrors';
+import { PipelineHooks } from './PipelineHooks';
+import { rejectOnAbort } from '../../utils/abort';
+import { createRequest, silentLogger } from '../../testing/fixtures';
+
+type StageBody = (input: unknown, context: PipelineContext) => unknown;
+
+/**
+ * Stage running a test-supplied body.
+ */
+class TestStage extends PipelineStage<unknown, unknown> {
+  private readonly body: StageBody;
+  private readonly skipReason?: string;
+
+  constructor(
+    name: string,
+    body: StageBody,
+    dependencies: string[] = [],
+    options: StageOptions & { skipReason?: string } = {}
+  ) {
+    super(name, dependencies, options);
+    this.body = body;
+    this.skipReason = options.skipReason;
+  }
+
+  public override getSkipReason(): string | undefined {
+    return this.skipReason;
+  }
+
+  protected executeStage(input: unknown, context: PipelineContext): unknown {
+    return this.body(input, context);
+  }
+}
+
+function builder(): PipelineBuilder {
+  return new PipelineBuilder().withLogger(silentLogger);
+}
+
+describe('Pipeline deadlines', () => {
+  it('aborts the running stage and fails when the pipeline deadline expires', async () => {
+    let aborted = false;
+    const pipeline = builder()
+      .withTimeout(20)
+      .addStage(new TestStage('slow', async (_input, context) => {
+        context.signal.addEventListener('abort', () => { aborted = true; });
+        await rejectOnAbort(context.signal);
+      }))
+      .addStage(new TestStage('after', () => 'never', ['slow']))
+      .build();
+
+    const result = await pipeline.execute(createRequest());
+
+    expect(result.success).toBe(false);
+    expect(result.timedOut).toBe(true);
+    expect(aborted).toBe(true);
+    expect(result.errors[0]?.kind).toBe('timeout');
+    expect(result.errors[0]?.error).toBeInstanceOf(PipelineTimeoutError);
+    expect(result.stageResults.has('after')).toBe(false);
+  });
+
+  it('limits a stage deadline to that stage', async () => {
+    const pipeline = builder()
+      .continueOnError(true)
+      .addStage(new TestStage('slow', (_input, context) => rejectOnAbort(context.signal)))
+      .addStage(new TestStage('fast', () => 'done'))
+      .withStageTimeout('slow', 20)
+      .build();
+
+    const result = await pipeline.execute(createRequest());
+
+    expect(result.timedOut).toBe(true);
+    expect(result.errors.map(e => `${e.stage}:${e.kind}`)).toEqual(['slow:timeout']);
+    expect(result.stageResults.get('fast')?.data).toBe('done');
+  });
+
+  it('rejects a stage deadline for an unknown stage', () => {
+    expect(() => builder()
+      .addStage(new TestStage('only', () => 1))
+      .withStageTimeout('missing', 10)
+      .build()
+    ).toThrow(/unknown stage 'missing'/);
+  });
+});
+
+describe('Pipeline DAG mode', () => {
+  /**
+   * Diamond: a → (b, c) → d, declared out of order.
+   */
+  function diamond(body: (name: string) => StageBody): PipelineBuilder<unknown> {
+    return builder()
+      .withExecutionMode('dag')
+      .addStage(new TestStage('d', body('d'), ['b', 'c']))
+      .addStage(new TestStage('c', body('c'), ['a']))
+      .addStage(new TestStage('b', body('b'), ['a']))
+      .addStage(new TestStage('a', body('a')));
+  }
+
+  it('groups stages into dependency waves in declaration order', () => {
+    const pipeline = diamond(name => () => name).build();
+
+    expect(pipeline.getExecutionPlan()).toEqual([['a'], ['c', 'b'], ['d']]);
+  });
+
+  it('runs stages of one wave concurrently', async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const pipeline = diamond(name => async () => {
+      maxRunning = Math.max(maxRunning, ++running);
+      await new Promise(resolve => setTimeout(resolve, 10));
+      running--;
+      return name;
+    }).build();
+
+    const result = await pipeline.execute(createRequest());
+
+    expect(result.success).toBe(true);
+    expect(maxRunning).toBe(2);
+  });
+
+  it('passes each stage the output of its last declared dependency', async () => {
+    const inputs = new Map<string, unknown>();
+    const pipeline = diamond(name => input => {
+      inputs.set(name, input);
+      return `${name}-out`;
+    }).build();
+    const request = createRequest();
+
+    await pipeline.execute(request);
+
+    expect(inputs.get('a')).toBe(request);
+    expect(inputs.get('b')).toBe('a-out');
+    expect(inputs.get('d')).toBe('c-out');
+  });
+
+  it('rejects dependency cycles', () => {
+    expect(() => builder()
+      .withExecutionMode('dag')
+      .addStage(new TestStage('x', () => 1, ['y']))
+      .addStage(new TestStage('y', () => 2, ['x']))
+      .build()
+    ).toThrow(/cycle/i);
+  });
+});
+
+describe('Pipeline retries', () => {
+  const fastRetry = { maxAttempts: 3, initialDelayMs: 1, maxDelayMs: 2 };
+
+  it('retries a failing stage and records every attempt', async () => {
+    let calls = 0;
+    const pipeline = builder()
+      .addStage(new TestStage('flaky', () => {
+        if (++calls < 3) {
+          throw new Error(`failure ${calls}`);
+        }
+        return 'ok';
+      }))
+      .withRetryPolicy('flaky', fastRetry)
+      .build();
+
+    const result = await pipeline.execute(createRequest());
+    const attempts = result.stageResults.get('flaky')?.metadata?.['attempts'] as Array<{ error?: string }>;
+
+    expect(result.success).toBe(true);
+    expect(attempts).toHaveLength(3);
+    expect(attempts[2]?.error).toBeUndefined();
+  });
+
+  it('does not retry errors the policy rejects', async () => {
+    let calls = 0;
+    const pipeline = builder()
+      .addStage(new TestStage('fatal', () => {
+        calls++;
+        throw new Error('bad request');
+      }))
+      .withRetryPolicy('fatal', { ...fastRetry, isRetryable: () => false })
+      .build();
+
+    const result = await pipeline.execute(createRequest());
+
+    expect(result.success).toBe(false);
+    expect(calls).toBe(1);
+  });
+
+  it('does not start a retry whose backoff outlasts the pipeline deadline', async () => {
+    let calls = 0;
+    const pipeline = builder()
+      .withTimeout(200)
+      .addStage(new TestStage('slowRetry', () => {
+        calls++;
+        throw new Error('unavailable');
+      }))
+      .withRetryPolicy('slowRetry', { maxAttempts: 3, initialDelayMs: 5000, maxDelayMs: 5000, jitter: 0 })
+      .build();
+
+    const result = await pipeline.execute(createRequest());
+
+    expect(calls).toBe(1);
+    expect(result.timedOut).toBe(false);
+    expect(result.errors[0]?.kind).toBe('stage');
+  });
+});
+
+describe('Pipeline hooks', () => {
+  /**
+   * Hook recording every event it receives.
+   */
+  function recordingHook(events: string[]): PipelineHooks {
+    return {
+      onPipelineStart: () => { events.push('start'); },
+      beforeStage: name => { events.push(`before ${name}`); },
+      afterStage: result => { events.push(`after ${result.stageName}`); },
+      onStageSkipped: skipped => { events.push(`skipped ${skipped.stage}`); },
+      onStageError: error => { events.push(`error ${error.stage}`); },
+      onPipelineComplete: () => { events.push('complete'); },
+      onPipelineFailed: () => { events.push('failed'); },
+    };
+  }
+
+  it('reports each stage and the outcome in order', async () => {
+    const events: string[] = [];
+    const pipeline = builder()
+      .withHook(recordingHook(events))
+      .addStage(new TestStage('first', () => 1))
+      .addStage(new TestStage('optional', () => 2, [], { skipReason: 'not needed' }))
+      .build();
+
+    await pipeline.execute(createRequest());
+
+    expect(events).toEqual(['start', 'before first', 'after first', 'skipped optional', 'complete']);
+  });
+
+  it('reports stage errors and failed executions', async () => {
+    const events: string[] = [];
+    const pipeline = builder()
+      .withHook(recordingHook(events))
+      .addStage(new TestStage('broken', () => { throw new Error('boom'); }))
+      .build();
+
+    await pipeline.execute(createRequest());
+
+    expect(events).toEqual(['start', 'before broken', 'error broken', 'failed']);
+  });
+
+  it('never fails the pipeline because a hook threw', async () => {
+    const pipeline = builder()
+      .withHook({ afterStage: () => { throw new Error('hook bug'); } })
+      .addStage(new TestStage('only', () => 'ok'))
+      .build();
+
+    const result = await pipeline.execute(createRequest());
+
+    expect(result.success).toBe(true);
+    expect(result.output).toBe('ok');
+  });
+});
+
+describe('Pipeline dry runs', () => {
+  it('skips side-effecting stages and everything that depends on them', async () => {
+    const ran: string[] = [];
+    const run = (name: string): StageBody => () => {
+      ran.push(name);
+      return name;
+    };
+    const pipeline = builder()
+      .addStage(new TestStage('plan', run('plan')))
+      .addStage(new TestStage('call', run('call'), ['plan'], { sideEffects: true }))
+      .addStage(new TestStage('format', run('format'), ['call'], { optionalDependencies: ['call'] }))
+      .build();
+
+    const result = await pipeline.execute(createRequest(), { dryRun: true });
+
+    expect(ran).toEqual(['plan']);
+    expect(result.dryRun).toBe(true);
+    expect(result.success).toBe(true);
+    expect(result.skippedStages.map(s => s.stage)).toEqual(['call', 'format']);
+  });
+
+  it('rejects mandatory stages with side effects', () => {
+    expect(() => builder()
+      .addStage(new TestStage('send', () => 1, [], { sideEffects: true, mandatory: true }))
+      .build()
+    ).toThrow(/cannot have side effects/);
+  });
+});
+
+describe('Pipeline skipping', () => {
+  it('records the skip reason and skips stages that require the skipped one', async () => {
+    const pipeline = builder()
+      .addStage(new TestStage('first', () => 1))
+      .addStage(new TestStage('guarded', () => 2, ['first'], { skipReason: 'not today' }))
+      .addStage(new TestStage('needsGuarded', () => 3, ['guarded']))
+      .build();
+
+    const result = await pipeline.execute(createRequest());
+
+    expect(result.success).toBe(true);
+    expect(result.skippedStages).toEqual([
+      { stage: 'guarded', reason: 'not today' },
+      { stage: 'needsGuarded', reason: "depends on skipped stage 'guarded'" },
+    ]);
+    expect(result.stageResults.get('guarded')).toMatchObject({ skipped: true, skipReason: 'not today' });
+  });
+
+  it('runs stages whose skipped dependency is optional, with undefined input', async () => {
+    let received: unknown = 'unset';
+    const pipeline = builder()
+      .addStage(new TestStage('first', () => 1))
+      .addStage(new TestStage('guarded', () => 2, ['first'], { skipReason: 'not today' }))
+      .addStage(new TestStage('tolerant', input => {
+        received = input;
+        return 3;
+      }, ['guarded'], { optionalDependencies: ['guarded'] }))
+      .build();
+
+    const result = await pipeline.execute(createRequest());
+
+    expect(received).toBeUndefined();
+    expect(result.output).toBe(3);
+  });
+
+  it('fails instead of skipping a mandatory stage', async () => {
+    const pipeline = builder()
+      .addStage(new TestStage('required', () => 1, [], { mandatory: true, skipReason: 'guard said no' }))
+      .build();
+
+    const result = await pipeline.execute(createRequest());
+
+    expect(result.success).toBe(false);
+    expect(result.errors[0]?.error.message).toMatch(/Mandatory stage 'required' cannot be skipped/);
+  });
+});
+
+describe('Pipeline output', () => {
+  it('is the final stage data', async () => {
+    const pipeline = builder()
+      .addStage(new TestStage('first', () => 1))
+      .addStage(new TestStage('last', input => (input as number) + 1, ['first']))
+      .build();
+
+    const result = await pipeline.execute(createRequest());
+
+    expect(result.output).toBe(2);
+  });
+
+  it('is undefined when the final stage is skipped', async () => {
+    const pipeline = builder()
+      .addStage(new TestStage('first', () => 1))
+      .addStage(new TestStage('last', () => 2, ['first'], { skipReason: 'nothing to do' }))
+      .build();
+
+    const result = await pipeline.execute(createRequest());
+
+    expect(result.success).toBe(true);
+    expect(result.output).toBeUndefined();
+  });
+
+  it.each([
+    ['halts', new PipelineHaltError('access denied')],
+    ['fails', new Error('boom')],
+  ])('is undefined when the pipeline %s before the final stage', async (_label, error) => {
+    const pipeline = builder()
+      .addStage(new TestStage('first', () => {
+        throw error;
+      }))
+      .addStage(new TestStage('last', () => 2))
+      .build();
+
+    const result = await pipeline.execute(createRequest());
+
+    expect(result.output).toBeUndefined();
+  });
+
+  it('feeds a stage after a failure the output of its last dependency', async () => {
+    let received: unknown;
+    const pipeline = builder()
+      .addStage(new TestStage('first', () => 'from first'))
+      .addStage(new TestStage('flaky', () => {
+        throw new Error('boom');
+      }, ['first']))
+      .addStage(new TestStage('last', input => {
+        received = input;
+        return 3;
+      }, ['first']))
+      .continueOnError(true)
+      .build();
+
+    const result = await pipeline.execute(createRequest());
+
+    expect(received).toBe('from first');
+    expect(result.output).toBe(3);
+  });
+});
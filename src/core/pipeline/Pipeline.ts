@@ -1,6 +1,26 @@
-import { Message } from 'discord.js';
-import { PipelineStage, PipelineContext, StageResult } from './PipelineStage';
+import {
+  AnyPipelineStage,
+  PipelineContext,
+  PipelineError,
+  PipelineHalt,
+  SkippedStage,
+  StageResult,
+} from './PipelineStage';
+import { PipelineHaltError, PipelineTimeoutError } from './PipelineErrors';
+import { RetryAttempt, RetryPolicy, computeBackoffDelay } from './RetryPolicy';
+import { PipelineHooks } from './PipelineHooks';
+import { InboundRequest } from '../../types/request.types';
 import { Logger } from '../../utils/logger';
+import { createChildController, delay, rejectOnAbort } from '../../utils/abort';
+
+/**
+ * How the pipeline schedules its stages.
+ * - 'sequential': stages run one after another in declaration order,
+ *   each receiving the previous stage's output
+ * - 'dag': stages are scheduled from their declared dependencies;
+ *   independent stages run concurrently
+ */
+export type PipelineExecutionMode = 'sequential' | 'dag';
 
 /**
  * Configuration for pipeline execution.
@@ -8,28 +28,64 @@ import { Logger } from '../../utils/logger';
 export interface PipelineConfig {
   /**
    * Maximum time allowed for full pipeline execution (ms).
+   * When exceeded, the context signal aborts and execution stops.
    */
   timeoutMs?: number;
+
+  /**
+   * Per-stage deadlines (ms), keyed by stage name.
+   * A stage deadline aborts only that stage's signal.
+   */
+  stageTimeouts?: Map<string, number>;
+
+  /**
+   * Per-stage retry policies, keyed by stage name.
+   * Stages without a policy run exactly once.
+   */
+  retryPolicies?: Map<string, RetryPolicy>;
   
   /**
    * Whether to continue execution if non-critical stages fail.
    */
   continueOnError?: boolean;
+
+  /**
+   * Stage scheduling mode. Defaults to 'sequential'.
+   */
+  executionMode?: PipelineExecutionMode;
   
   /**
-   * Logger instance for pipeline execution logging.
+   * Lifecycle hooks, invoked in order.
+   * PipelineBuilder registers the built-in LoggingHook first.
+   */
+  hooks?: PipelineHooks[];
+
+  /**
+   * Logger instance for pipeline validation and hook failures.
    */
   logger: Logger;
 }
 
+/**
+ * Per-execution options.
+ */
+export interface PipelineExecuteOptions {
+  /**
+   * Run without side effects. Stages flagged with sideEffects are skipped,
+   * along with every stage that depends on a skipped stage.
+   */
+  dryRun?: boolean;
+}
+
 /**
  * Result of a complete pipeline execution.
  */
 export interface PipelineExecutionResult<T = unknown> {
   /**
-   * Final output from the pipeline.
+   * Output of the final stage. Undefined when that stage did not complete
+   * (failure, halt, dry run or skip); earlier outputs are in stageResults.
    */
-  output: T;
+  output: T | undefined;
   
   /**
    * All stage results.
@@ -48,10 +104,48 @@ export interface PipelineExecutionResult<T = unknown> {
   
   /**
    * Errors encountered during execution.
+   * Timeouts are recorded with kind 'timeout'.
+   */
+  errors: PipelineError[];
+
+  /**
+   * Whether execution stopped because a deadline expired.
+   */
+  timedOut: boolean;
+
+  /**
+   * Stages that did not run, with the reason for each, in declaration order.
+   * Each also appears in stageResults with skipped set.
+   */
+  skippedStages: SkippedStage[];
+
+  /**
+   * Whether this was a dry run.
+   */
+  dryRun: boolean;
+
+  /**
+   * Set when a stage ended execution early (PipelineHaltError).
+   * Halted executions are successful; stages after the halt did not run.
    */
-  errors: Array<{ stage: string; error: Error }>;
+  halted?: PipelineHalt;
 }
 
+/**
+ * Outcome of running a stage, including every attempt made.
+ */
+type StageOutcome =
+  | { ok: true; result: StageResult; attempts: RetryAttempt[] }
+  | { ok: false; error: unknown; attempts: RetryAttempt[] };
+
+/**
+ * What to do with a stage that is about to run.
+ * - 'run': execute it
+ * - 'skipped': a skip was recorded
+ * - 'failed': evaluating the skip failed (recorded as a stage error)
+ */
+type SkipDecision = 'run' | 'skipped' | 'failed';
+
 /**
  * CRITICAL COMPONENT: Pipeline Orchestrator
  * 
@@ -60,21 +154,48 @@ export interface PipelineExecutionResult<T = unknown> {
  * 
  * Pipeline Order (IMMUTABLE):
  * 1. Identity Resolution
- * 2. Persona Selection (MANDATORY - cannot be skipped)
- * 3. Context Management
- * 4. Prompt Building
- * 5. AI Service Invocation
- * 6. Response Formatting
+ * 2. Access Control (MANDATORY - denied requests halt here)
+ * 3. Persona Selection (MANDATORY - cannot be skipped)
+ * 4. Anomaly Detection (flags impersonation attempts, never blocks)
+ * 5. Context Management
+ * 6. Prompt Building
+ * 7. AI Service Invocation
+ * 8. Response Formatting
+ * 9. Response Delivery
+ * 
+ * Execution Modes:
+ * - Sequential (default): stages execute in exact order defined, each
+ *   receiving the previous stage's output (after a skipped or failed stage,
+ *   the output of its last declared dependency, as in DAG mode)
+ * - DAG: stages execute in dependency waves. Every stage in a wave has all
+ *   of its dependencies completed; stages within a wave run concurrently.
+ *   Results are recorded in declaration order so output is deterministic.
+ *   A stage's input is the output of its last declared dependency
+ *   (or the request if it has none).
  * 
  * Guarantees:
- * - Stages execute in exact order defined
+ * - Stages never run before their dependencies
  * - Persona selection cannot be bypassed
  * - Persona must be selected before prompts are built
  * - All executions are logged for audit
  * - Pipeline fails fast on critical errors
+ * - Pipeline and stage deadlines abort in-flight work via context.signal
+ * - Stages with a retry policy are retried with backoff; the pipeline
+ *   deadline is never retried, and no retry waits past it
+ * - Lifecycle hooks observe every stage and execution outcome;
+ *   a failing hook never fails the pipeline
+ * - Dry runs never execute side-effecting stages or anything downstream of them
+ * - A stage may halt execution (PipelineHaltError): nothing after it runs,
+ *   and the execution is reported as successful with the halt recorded
+ * 
+ * Skipping:
+ * A stage is skipped (and recorded in stageResults with a skip reason) when
+ * its guard (PipelineStage.getSkipReason) says so, when a required dependency
+ * was skipped, or when a dry run reaches a side-effecting stage. Mandatory
+ * stages are never skipped: the pipeline fails instead.
  */
 export class Pipeline<TOutput = unknown> {
-  private readonly stages: PipelineStage[];
+  private readonly stages: AnyPipelineStage[];
   private readonly config: PipelineConfig;
   private readonly logger: Logger;
   
@@ -84,8 +205,19 @@ export class Pipeline<TOutput = unknown> {
    */
   private readonly criticalStages: Set<string>;
 
+  /**
+   * Stage names grouped into execution waves.
+   * Sequential mode has one stage per wave.
+   */
+  private readonly executionPlan: string[][];
+
+  /**
+   * Lifecycle hooks in invocation order.
+   */
+  private readonly hooks: PipelineHooks[];
+
   constructor(
-    stages: PipelineStage[],
+    stages: AnyPipelineStage[],
     config: PipelineConfig,
     criticalStages: string[] = []
   ) {
@@ -93,9 +225,18 @@ export class Pipeline<TOutput = unknown> {
     this.config = config;
     this.logger = config.logger;
     this.criticalStages = new Set(criticalStages);
+    this.hooks = [...(config.hooks ?? [])];
     
     // Validate pipeline configuration on construction
     this.validatePipeline();
+    this.executionPlan = this.buildExecutionPlan();
+  }
+
+  /**
+   * Whether stages are scheduled from the dependency graph.
+   */
+  private get isDagMode(): boolean {
+    return this.config.executionMode === 'dag';
   }
 
   /**
@@ -119,14 +260,33 @@ export class Pipeline<TOutput = unknown> {
         throw new Error(`Duplicate stage name: '${stage.stageName}'`);
       }
       
+      if (stage.isMandatory && stage.hasSideEffects) {
+        throw new Error(
+          `Mandatory stage '${stage.stageName}' cannot have side effects (dry runs skip those)`
+        );
+      }
+
+      for (const dep of stage.optionalDependencies) {
+        if (!stage.dependencies.includes(dep)) {
+          throw new Error(
+            `Stage '${stage.stageName}' lists '${dep}' as optional but does not depend on it`
+          );
+        }
+      }
+
       // Validate dependencies exist
-      for (const dep of (stage as any).dependencies || []) {
+      for (const dep of stage.dependencies) {
         if (!stageNames.has(dep)) {
           throw new Error(
             `Stage '${stage.stageName}' depends on '${dep}' which is not in the pipeline`
           );
         }
         
+        // DAG mode schedules from the graph; declaration order is irrelevant
+        if (this.isDagMode) {
+          continue;
+        }
+
         // Validate dependency comes before dependent in stage order
         const depIndex = this.stages.findIndex(s => s.stageName === dep);
         const stageIndex = this.stages.findIndex(s => s.stageName === stage.stageName);
@@ -143,126 +303,619 @@ export class Pipeline<TOutput = unknown> {
     this.logger.info('Pipeline validated successfully', {
       stages: this.stages.map(s => s.stageName),
       criticalStages: Array.from(this.criticalStages),
+      executionMode: this.config.executionMode ?? 'sequential',
     });
   }
 
   /**
-   * Create initial pipeline context from a Discord message.
+   * Group stages into execution waves.
+   * 
+   * In DAG mode a stage's wave is one past the latest wave of its
+   * dependencies, and stages within a wave keep declaration order.
    * 
-   * @param message - Discord message
+   * @returns Stage names grouped by wave
+   * @throws Error if the dependency graph contains a cycle
+   */
+  private buildExecutionPlan(): string[][] {
+    if (!this.isDagMode) {
+      return this.stages.map(s => [s.stageName]);
+    }
+
+    const waveOf = new Map<string, number>();
+    const visiting = new Set<string>();
+    const byName = new Map(this.stages.map(s => [s.stageName, s]));
+
+    const resolveWave = (stage: AnyPipelineStage, path: string[]): number => {
+      const known = waveOf.get(stage.stageName);
+      if (known !== undefined) {
+        return known;
+      }
+
+      if (visiting.has(stage.stageName)) {
+        throw new Error(
+          `Dependency cycle detected: ${[...path, stage.stageName].join(' -> ')}`
+        );
+      }
+
+      visiting.add(stage.stageName);
+      let wave = 0;
+      for (const dep of stage.dependencies) {
+        const depStage = byName.get(dep);
+        if (depStage) {
+          wave = Math.max(wave, resolveWave(depStage, [...path, stage.stageName]) + 1);
+        }
+      }
+      visiting.delete(stage.stageName);
+      waveOf.set(stage.stageName, wave);
+      return wave;
+    };
+
+    const plan: string[][] = [];
+    for (const stage of this.stages) {
+      const wave = resolveWave(stage, []);
+      (plan[wave] ??= []).push(stage.stageName);
+    }
+
+    this.logger.info('Pipeline execution plan built', {
+      waves: plan.map(wave => wave.join(', ')),
+    });
+
+    return plan;
+  }
+
+  /**
+   * Check whether one stage transitively depends on another.
+   * 
+   * @param stageName - Dependent stage
+   * @param dependencyName - Potential (transitive) dependency
+   * @returns True if dependencyName must complete before stageName
+   */
+  private dependsOn(stageName: string, dependencyName: string): boolean {
+    const pending = [stageName];
+    const seen = new Set<string>();
+
+    while (pending.length > 0) {
+      const current = pending.pop() as string;
+      const stage = this.stages.find(s => s.stageName === current);
+      for (const dep of stage ? stage.dependencies : []) {
+        if (dep === dependencyName) {
+          return true;
+        }
+        if (!seen.has(dep)) {
+          seen.add(dep);
+          pending.push(dep);
+        }
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Create initial pipeline context from an inbound request.
+   * 
+   * @param request - Inbound request
+   * @param signal - Pipeline cancellation signal
    * @returns Initialized pipeline context
    */
-  private createContext(message: Message): PipelineContext {
+  private createContext(
+    request: InboundRequest,
+    signal: AbortSignal,
+    options: PipelineExecuteOptions
+  ): PipelineContext {
     return {
-      message,
+      request,
       stageResults: new Map(),
       startedAt: new Date(),
       errors: [],
+      dryRun: options.dryRun ?? false,
+      signal,
     };
   }
 
   /**
-   * Execute the complete pipeline for a Discord message.
+   * Check whether a stage is skipped in dry runs: it has side effects
+   * or (transitively) depends on a stage that does.
    * 
-   * @param message - Discord message to process
-   * @returns Pipeline execution result
-   * @throws Error if critical stage fails
+   * @param stageName - Stage to check
+   * @returns True if dry runs never execute the stage
    */
-  public async execute(message: Message): Promise<PipelineExecutionResult<TOutput>> {
-    const context = this.createContext(message);
-    const startTime = Date.now();
+  private isDryRunSkipped(stageName: string): boolean {
+    return this.stages.some(s =>
+      s.hasSideEffects && (s.stageName === stageName || this.dependsOn(stageName, s.stageName))
+    );
+  }
+
+  /**
+   * Decide whether a stage must be skipped.
+   * 
+   * Order: dry run, skipped required dependencies, then the stage's own guard.
+   * 
+   * @param stage - Stage about to run
+   * @param context - Pipeline context
+   * @returns Reason to skip, or undefined if the stage should run
+   */
+  private getSkipReason(stage: AnyPipelineStage, context: PipelineContext): string | undefined {
+    if (context.dryRun && stage.hasSideEffects) {
+      return 'dry run: stage has side effects';
+    }
+
+    for (const dep of stage.dependencies) {
+      if (context.stageResults.get(dep)?.skipped !== true) {
+        continue;
+      }
+
+      const tolerated = stage.optionalDependencies.includes(dep)
+        && !(context.dryRun && this.isDryRunSkipped(dep));
+      if (!tolerated) {
+        return `depends on skipped stage '${dep}'`;
+      }
+    }
+
+    return stage.getSkipReason(context);
+  }
+
+  /**
+   * Evaluate skip conditions for a stage and record the outcome.
+   * A mandatory stage that would be skipped, or a guard that throws,
+   * is treated as a stage failure.
+   * 
+   * @param stage - Stage about to run
+   * @param context - Pipeline context
+   * @returns Whether to run the stage
+   * @throws Error if the failure must stop the pipeline
+   */
+  private async decideSkip(stage: AnyPipelineStage, context: PipelineContext): Promise<SkipDecision> {
+    let reason: string | undefined;
 
-    this.logger.info('Pipeline execution started', {
-      messageId: message.id,
-      channelId: message.channelId,
-      userId: message.author.id,
-      stageCount: this.stages.length,
+    try {
+      reason = this.getSkipReason(stage, context);
+      if (reason !== undefined && stage.isMandatory) {
+        throw new Error(`Mandatory stage '${stage.stageName}' cannot be skipped (${reason})`);
+      }
+    } catch (error) {
+      await this.handleStageFailure(stage, error, [], context);
+      return 'failed';
+    }
+
+    if (reason === undefined) {
+      return 'run';
+    }
+
+    await this.recordStageSkipped(stage, reason, context);
+    return 'skipped';
+  }
+
+  /**
+   * Record that a stage was skipped.
+   * The skip is stored in stageResults with undefined data.
+   * 
+   * @param stage - Skipped stage
+   * @param reason - Why it was skipped
+   * @param context - Pipeline context
+   */
+  private async recordStageSkipped(
+    stage: AnyPipelineStage,
+    reason: string,
+    context: PipelineContext
+  ): Promise<void> {
+    context.stageResults.set(stage.stageName, {
+      data: undefined,
+      stageName: stage.stageName,
+      completedAt: new Date(),
+      skipped: true,
+      skipReason: reason,
     });
 
-    let previousOutput: unknown = message;
+    const skipped: SkippedStage = { stage: stage.stageName, reason };
+    await this.notifyHooks('onStageSkipped', hook => hook.onStageSkipped?.(skipped, context));
+  }
+
+  /**
+   * List skipped stages in declaration order.
+   * 
+   * @param context - Pipeline context
+   * @returns Skipped stages with reasons
+   */
+  private getSkippedStages(context: PipelineContext): SkippedStage[] {
+    const skipped: SkippedStage[] = [];
+    for (const stage of this.stages) {
+      const result = context.stageResults.get(stage.stageName);
+      if (result?.skipped) {
+        skipped.push({ stage: stage.stageName, reason: result.skipReason ?? '' });
+      }
+    }
+    return skipped;
+  }
+
+  /**
+   * Invoke a lifecycle event on every registered hook.
+   * Hook failures are logged and swallowed so observers cannot break execution.
+   * 
+   * @param event - Hook event name (for logging)
+   * @param invoke - Calls the event on a single hook
+   */
+  private async notifyHooks(
+    event: keyof PipelineHooks,
+    invoke: (hook: PipelineHooks) => void | Promise<void>
+  ): Promise<void> {
+    for (const hook of this.hooks) {
+      try {
+        await invoke(hook);
+      } catch (error) {
+        this.logger.error(`Pipeline hook failed: ${event}`, {
+          hook: hook.constructor.name,
+          error: (error as Error).message,
+        });
+      }
+    }
+  }
+
+  /**
+   * Run a single stage under the pipeline signal and its own deadline.
+   * The stage receives a context whose signal also aborts on the stage deadline.
+   * 
+   * @param stage - Stage to run
+   * @param input - Input for the stage
+   * @param context - Pipeline context
+   * @returns Stage result
+   * @throws PipelineTimeoutError if a deadline expires, otherwise the stage error
+   */
+  private async runStage(
+    stage: AnyPipelineStage,
+    input: unknown,
+    context: PipelineContext
+  ): Promise<StageResult> {
+    const stageTimeoutMs = this.config.stageTimeouts?.get(stage.stageName);
+    const { controller, detach } = createChildController(context.signal);
+    const timer = stageTimeoutMs !== undefined
+      ? setTimeout(
+          () => controller.abort(new PipelineTimeoutError('stage', stageTimeoutMs, stage.stageName)),
+          stageTimeoutMs
+        )
+      : undefined;
 
     try {
-      // Execute each stage in order
-      for (const stage of this.stages) {
-        this.logger.debug(`Executing stage: ${stage.stageName}`, {
-          messageId: message.id,
-          previousStages: Array.from(context.stageResults.keys()),
+      controller.signal.throwIfAborted();
+      return await Promise.race([
+        // Input types were checked when the pipeline was built (PipelineBuilder)
+        stage.execute(input as never, { ...context, signal: controller.signal }),
+        rejectOnAbort(controller.signal),
+      ]);
+    } catch (error) {
+      // Prefer the deadline over whatever error the cancelled work surfaced
+      if (controller.signal.aborted && controller.signal.reason instanceof PipelineTimeoutError) {
+        throw controller.signal.reason;
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      detach();
+    }
+  }
+
+  /**
+   * Run a stage, retrying according to its retry policy.
+   * 
+   * The pipeline deadline is never retried, and a retry whose backoff
+   * would outlast it is not attempted. Every attempt is recorded
+   * and, on success, attached to StageResult.metadata.attempts.
+   * 
+   * @param stage - Stage to run
+   * @param input - Input for the stage
+   * @param context - Pipeline context
+   * @returns Outcome with the result or final error, plus all attempts
+   */
+  private async runStageWithRetry(
+    stage: AnyPipelineStage,
+    input: unknown,
+    context: PipelineContext
+  ): Promise<StageOutcome> {
+    const policy = this.config.retryPolicies?.get(stage.stageName);
+    const maxAttempts = policy?.maxAttempts ?? 1;
+    const attempts: RetryAttempt[] = [];
+    const stageStart = Date.now();
+
+    await this.notifyHooks('beforeStage', hook => hook.beforeStage?.(stage.stageName, context));
+
+    for (let attempt = 1; ; attempt++) {
+      const attemptStart = Date.now();
+
+      try {
+        const result = await this.runStage(stage, input, context);
+        attempts.push({ attempt, durationMs: Date.now() - attemptStart });
+
+        return {
+          ok: true,
+          result: {
+            ...result,
+            metadata: { ...result.metadata, attempts, durationMs: Date.now() - stageStart },
+          },
+          attempts,
+        };
+      } catch (error) {
+        const record: RetryAttempt = {
+          attempt,
+          durationMs: Date.now() - attemptStart,
+          error: (error as Error).message,
+        };
+        attempts.push(record);
+
+        const canRetry = policy !== undefined
+          && !(error instanceof PipelineHaltError)
+          && attempt < maxAttempts
+          && !context.signal.aborted
+          && (policy.isRetryable?.(error) ?? true);
+
+        if (!canRetry) {
+          return { ok: false, error, attempts };
+        }
+
+        const nextDelayMs = computeBackoffDelay(policy, attempt);
+
+        // A retry that cannot start before the pipeline deadline only hides the real error
+        const timeoutMs = this.config.timeoutMs;
+        if (timeoutMs !== undefined && context.startedAt.getTime() + timeoutMs - Date.now() <= nextDelayMs) {
+          this.logger.warn(`Not retrying stage: ${stage.stageName}`, {
+            requestId: context.request.id,
+            attempt,
+            delayMs: nextDelayMs,
+            reason: 'pipeline deadline',
+          });
+          return { ok: false, error, attempts };
+        }
+
+        record.nextDelayMs = nextDelayMs;
+
+        this.logger.warn(`Retrying stage: ${stage.stageName}`, {
+          requestId: context.request.id,
+          attempt,
+          maxAttempts,
+          delayMs: record.nextDelayMs,
+          error: record.error,
         });
 
         try {
-          // Execute stage with previous output as input
-          const result = await stage.execute(previousOutput, context);
-          
-          // Store result in context
-          context.stageResults.set(stage.stageName, result);
-          
-          // Pass output to next stage
-          previousOutput = result.data;
-
-          this.logger.debug(`Stage completed: ${stage.stageName}`, {
-            messageId: message.id,
-            executionTime: result.metadata?.['executionTime'],
-          });
+          await delay(record.nextDelayMs, context.signal);
+        } catch (abortReason) {
+          // Pipeline deadline expired while waiting to retry
+          return { ok: false, error: abortReason, attempts };
+        }
+      }
+    }
+  }
 
-        } catch (error) {
-          const isCritical = this.criticalStages.has(stage.stageName);
-          
-          this.logger.error(`Stage failed: ${stage.stageName}`, {
-            messageId: message.id,
-            error: (error as Error).message,
-            isCritical,
-            stack: (error as Error).stack,
-          });
+  /**
+   * Record a successful stage result.
+   * StageResult.metadata carries executionTime (final attempt) and
+   * durationMs (all attempts including backoff).
+   * 
+   * @param result - Stage result
+   * @param context - Pipeline context
+   */
+  private async recordStageSuccess(result: StageResult, context: PipelineContext): Promise<void> {
+    context.stageResults.set(result.stageName, result);
+    await this.notifyHooks('afterStage', hook => hook.afterStage?.(result, context));
+  }
 
-          // If stage is critical or continueOnError is false, stop pipeline
-          if (isCritical || !this.config.continueOnError) {
-            throw new Error(
-              `Critical stage '${stage.stageName}' failed. Pipeline execution stopped.`,
-              { cause: error }
-            );
-          }
+  /**
+   * Record a stage failure and decide whether execution may continue.
+   * 
+   * @param stage - Stage that failed
+   * @param error - Error thrown by the stage (or deadline)
+   * @param attempts - Every attempt made for the stage
+   * @param context - Pipeline context
+   * @throws PipelineHaltError if the stage halted the pipeline
+   * @throws Error if the pipeline must stop
+   */
+  private async handleStageFailure(
+    stage: AnyPipelineStage,
+    error: unknown,
+    attempts: RetryAttempt[],
+    context: PipelineContext
+  ): Promise<void> {
+    // A halt is a deliberate early exit, not a failure
+    if (error instanceof PipelineHaltError) {
+      context.halted = { stage: stage.stageName, reason: error.reason };
+      throw error;
+    }
+
+    const isCritical = this.criticalStages.has(stage.stageName);
+    const pipelineError: PipelineError = {
+      stage: stage.stageName,
+      error: error as Error,
+      kind: error instanceof PipelineTimeoutError ? 'timeout' : 'stage',
+      attempts,
+    };
+
+    context.errors.push(pipelineError);
+    await this.notifyHooks('onStageError', hook => hook.onStageError?.(pipelineError, context));
+
+    // Pipeline deadline, critical/mandatory stage or continueOnError=false: stop pipeline
+    if (context.signal.aborted || isCritical || stage.isMandatory || !this.config.continueOnError) {
+      throw new Error(
+        `Critical stage '${stage.stageName}' failed. Pipeline execution stopped.`,
+        { cause: error }
+      );
+    }
+
+    // Otherwise, log and continue (error already in context.errors)
+  }
 
-          // Otherwise, log and continue (error already in context.errors)
+  /**
+   * Execute stages one after another, piping each output into the next stage.
+   * 
+   * A stage whose predecessor produced no output (skipped, or failed
+   * under continueOnError) gets its input as in DAG mode: the output of its
+   * last declared dependency. That is undefined only for a skipped optional
+   * dependency, which the stage's input type must then admit.
+   * 
+   * @param context - Pipeline context
+   */
+  private async executeSequential(context: PipelineContext): Promise<void> {
+    let previous: { output: unknown } | undefined = { output: context.request };
+
+    for (const stage of this.stages) {
+      context.currentStage = stage.stageName;
+
+      const decision = await this.decideSkip(stage, context);
+      if (decision !== 'run') {
+        previous = undefined;
+        continue;
+      }
+
+      const input = previous ? previous.output : this.getDagInput(stage, context);
+      const outcome = await this.runStageWithRetry(stage, input, context);
+
+      if (outcome.ok) {
+        // Store result in context and pass output to next stage
+        await this.recordStageSuccess(outcome.result, context);
+        previous = { output: outcome.result.data };
+      } else {
+        await this.handleStageFailure(stage, outcome.error, outcome.attempts, context);
+        previous = undefined;
+      }
+    }
+  }
+
+  /**
+   * Execute stages wave by wave from the dependency graph.
+   * Stages within a wave run concurrently; their results are recorded
+   * in declaration order once the whole wave has settled.
+   * 
+   * @param context - Pipeline context
+   */
+  private async executeDag(context: PipelineContext): Promise<void> {
+    for (const wave of this.executionPlan) {
+      const stages: AnyPipelineStage[] = [];
+      for (const name of wave) {
+        const stage = this.stages.find(s => s.stageName === name) as AnyPipelineStage;
+        if (await this.decideSkip(stage, context) === 'run') {
+          stages.push(stage);
+        }
+      }
+      context.currentStage = stages.map(s => s.stageName).join(', ');
+
+      const outcomes = await Promise.all(
+        stages.map(stage => this.runStageWithRetry(stage, this.getDagInput(stage, context), context))
+      );
+
+      for (const [index, outcome] of outcomes.entries()) {
+        if (outcome.ok) {
+          await this.recordStageSuccess(outcome.result, context);
+        } else {
+          await this.handleStageFailure(stages[index] as AnyPipelineStage, outcome.error, outcome.attempts, context);
         }
       }
+    }
+  }
+
+  /**
+   * Determine a stage's input from its declared dependencies (DAG mode,
+   * or sequential mode after the previous stage produced nothing).
+   * 
+   * @param stage - Stage about to run
+   * @param context - Pipeline context
+   * @returns Output of the last declared dependency, or the request
+   */
+  private getDagInput(stage: AnyPipelineStage, context: PipelineContext): unknown {
+    const dependencies = stage.dependencies;
+    const lastDependency = dependencies[dependencies.length - 1];
 
-      const executionTimeMs = Date.now() - startTime;
+    if (lastDependency === undefined) {
+      return context.request;
+    }
 
-      this.logger.info('Pipeline execution completed', {
-        messageId: message.id,
-        executionTimeMs,
-        stagesCompleted: context.stageResults.size,
-        totalStages: this.stages.length,
-        hadErrors: context.errors.length > 0,
-      });
+    return context.stageResults.get(lastDependency)?.data;
+  }
 
-      return {
-        output: previousOutput as TOutput,
-        stageResults: context.stageResults,
-        executionTimeMs,
-        success: context.errors.length === 0,
-        errors: context.errors,
-      };
+  /**
+   * Determine pipeline output: the data of the final stage, if it ran.
+   * 
+   * @param context - Pipeline context
+   * @returns Final stage output, or undefined if it did not complete
+   */
+  private getOutput(context: PipelineContext): TOutput | undefined {
+    const finalStage = this.stages[this.stages.length - 1];
+    const result = finalStage ? context.stageResults.get(finalStage.stageName) : undefined;
 
-    } catch (error) {
-      const executionTimeMs = Date.now() - startTime;
+    // PipelineBuilder types TOutput as the final stage's output
+    return result && !result.skipped ? result.data as TOutput : undefined;
+  }
 
-      this.logger.error('Pipeline execution failed', {
-        messageId: message.id,
-        executionTimeMs,
-        error: (error as Error).message,
-        completedStages: Array.from(context.stageResults.keys()),
-        failedStage: context.currentStage,
-      });
+  /**
+   * Build the execution result from the final context.
+   * 
+   * @param context - Pipeline context
+   * @param startTime - Execution start (epoch ms)
+   * @param success - Whether the execution succeeded
+   * @returns Pipeline execution result
+   */
+  private createResult(
+    context: PipelineContext,
+    startTime: number,
+    success: boolean
+  ): PipelineExecutionResult<TOutput> {
+    return {
+      output: this.getOutput(context),
+      stageResults: context.stageResults,
+      executionTimeMs: Date.now() - startTime,
+      success,
+      errors: context.errors,
+      timedOut: context.errors.some(e => e.kind === 'timeout'),
+      skippedStages: this.getSkippedStages(context),
+      dryRun: context.dryRun,
+      halted: context.halted,
+    };
+  }
+
+  /**
+   * Execute the complete pipeline for an inbound request.
+   * 
+   * @param request - Normalized request to process (see DiscordRequestAdapter)
+   * @param options - Per-execution options (e.g. dry run)
+   * @returns Pipeline execution result
+   */
+  public async execute(
+    request: InboundRequest,
+    options: PipelineExecuteOptions = {}
+  ): Promise<PipelineExecutionResult<TOutput>> {
+    const controller = new AbortController();
+    const context = this.createContext(request, controller.signal, options);
+    const startTime = Date.now();
+
+    const timeoutMs = this.config.timeoutMs;
+    const pipelineTimer = timeoutMs !== undefined
+      ? setTimeout(() => controller.abort(new PipelineTimeoutError('pipeline', timeoutMs)), timeoutMs)
+      : undefined;
+
+    await this.notifyHooks('onPipelineStart', hook => hook.onPipelineStart?.(context));
+
+    try {
+      if (this.isDagMode) {
+        await this.executeDag(context);
+      } else {
+        await this.executeSequential(context);
+      }
+
+      const result = this.createResult(context, startTime, context.errors.length === 0);
+      await this.notifyHooks('onPipelineComplete', hook => hook.onPipelineComplete?.(result, context));
+      return result;
+
+    } catch (error) {
+      if (error instanceof PipelineHaltError && context.halted) {
+        // Halted early on purpose: report as completed
+        const result = this.createResult(context, startTime, context.errors.length === 0);
+        await this.notifyHooks('onPipelineComplete', hook => hook.onPipelineComplete?.(result, context));
+        return result;
+      }
 
       // Return failed result
-      return {
-        output: previousOutput as TOutput,
-        stageResults: context.stageResults,
-        executionTimeMs,
-        success: false,
-        errors: context.errors,
-      };
+      const result = this.createResult(context, startTime, false);
+      await this.notifyHooks('onPipelineFailed', hook => hook.onPipelineFailed?.(result, context));
+      return result;
+    } finally {
+      clearTimeout(pipelineTimer);
     }
   }
 
@@ -275,6 +928,16 @@ export class Pipeline<TOutput = unknown> {
     return this.stages.map(s => s.stageName);
   }
 
+  /**
+   * Get stage names grouped into execution waves.
+   * Sequential pipelines have exactly one stage per wave.
+   * 
+   * @returns Copy of the execution plan
+   */
+  public getExecutionPlan(): string[][] {
+    return this.executionPlan.map(wave => [...wave]);
+  }
+
   /**
    * Check if pipeline contains a specific stage.
    * 
@@ -304,13 +967,29 @@ export class Pipeline<TOutput = unknown> {
       );
     }
 
+    if (!(this.stages[personaIndex] as AnyPipelineStage).isMandatory) {
+      throw new Error(
+        `CRITICAL: Persona selection stage '${personaStage}' must be mandatory. ` +
+        `Persona selection can never be skipped.`
+      );
+    }
+
     if (promptIndex === -1) {
       throw new Error(
         `CRITICAL: Prompt building stage '${promptStage}' is missing from pipeline.`
       );
     }
 
-    if (personaIndex >= promptIndex) {
+    if (this.isDagMode) {
+      // In DAG mode, ordering comes from the dependency graph, not declaration order
+      if (!this.dependsOn(promptStage, personaStage)) {
+        throw new Error(
+          `CRITICAL: Prompt building ('${promptStage}') must depend on persona selection ` +
+          `('${personaStage}'), directly or transitively. Current dependency graph ` +
+          `violates security requirements.`
+        );
+      }
+    } else if (personaIndex >= promptIndex) {
       throw new Error(
         `CRITICAL: Persona selection ('${personaStage}') must occur BEFORE ` +
         `prompt building ('${promptStage}'). Current order violates security requirements. ` +
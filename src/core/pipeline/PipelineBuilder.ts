@@ -1,26 +1,42 @@
-import { Pipeline, PipelineConfig } from './Pipeline';
-import { PipelineStage } from './PipelineStage';
+import { Pipeline, PipelineConfig, PipelineExecutionMode } from './Pipeline';
+import { AnyPipelineStage, PipelineStage } from './PipelineStage';
+import { RetryPolicy, validateRetryPolicy } from './RetryPolicy';
+import { PipelineHooks } from './PipelineHooks';
+import { LoggingHook } from './hooks/LoggingHook';
+import { InboundRequest } from '../../types/request.types';
 import { Logger } from '../../utils/logger';
 
 /**
  * Fluent builder for constructing pipelines.
  * Enforces correct configuration and validates structure.
+ * 
+ * Type-checked wiring: TLast is the output type of the most recently added
+ * stage (initially the InboundRequest). Each added stage must accept TLast
+ * as its input, so a stage added in the wrong place is a compile error, and
+ * build() returns a Pipeline typed with the last stage's output.
+ * 
+ * In DAG mode a stage receives its last declared dependency's output;
+ * declare stages so that dependency is also the previous stage.
  */
-export class PipelineBuilder<TOutput = unknown> {
-  private stages: PipelineStage[] = [];
+export class PipelineBuilder<TLast = InboundRequest> {
+  private stages: AnyPipelineStage[] = [];
   private criticalStages: string[] = [];
+  private stageTimeouts: Map<string, number> = new Map();
+  private retryPolicies: Map<string, RetryPolicy> = new Map();
+  private hooks: PipelineHooks[] = [];
   private config: Partial<PipelineConfig> = {};
 
   /**
    * Add a stage to the pipeline.
    * Stages are executed in the order they are added.
    * 
-   * @param stage - Pipeline stage to add
-   * @returns Builder for chaining
+   * @param stage - Pipeline stage to add; must accept the previous stage's output
+   * @returns Builder typed with this stage's output
    */
-  public addStage(stage: PipelineStage): this {
+  public addStage<TOutput>(stage: PipelineStage<TLast, TOutput>): PipelineBuilder<TOutput> {
     this.stages.push(stage);
-    return this;
+    // Same builder; only the compile-time view of the last output changes
+    return this as unknown as PipelineBuilder<TOutput>;
   }
 
   /**
@@ -46,6 +62,18 @@ export class PipelineBuilder<TOutput = unknown> {
     return this;
   }
 
+  /**
+   * Register a lifecycle hook (tracing, metrics, auditing, ...).
+   * Hooks run in registration order, after the built-in logging hook.
+   * 
+   * @param hook - Hook to register
+   * @returns Builder for chaining
+   */
+  public withHook(hook: PipelineHooks): this {
+    this.hooks.push(hook);
+    return this;
+  }
+
   /**
    * Set timeout for pipeline execution.
    * 
@@ -53,10 +81,66 @@ export class PipelineBuilder<TOutput = unknown> {
    * @returns Builder for chaining
    */
   public withTimeout(timeoutMs: number): this {
+    this.assertValidTimeout(timeoutMs);
     this.config.timeoutMs = timeoutMs;
     return this;
   }
 
+  /**
+   * Set a deadline for a single stage.
+   * The stage's context signal aborts when the deadline expires.
+   * 
+   * @param stageName - Name of the stage
+   * @param timeoutMs - Timeout in milliseconds
+   * @returns Builder for chaining
+   */
+  public withStageTimeout(stageName: string, timeoutMs: number): this {
+    this.assertValidTimeout(timeoutMs);
+    this.stageTimeouts.set(stageName, timeoutMs);
+    return this;
+  }
+
+  /**
+   * Set a retry policy for a single stage.
+   * Failed attempts are retried with exponential backoff and jitter
+   * while the policy's isRetryable predicate allows it.
+   * 
+   * @param stageName - Name of the stage
+   * @param policy - Retry policy
+   * @returns Builder for chaining
+   * @throws Error if the policy is invalid
+   */
+  public withRetryPolicy(stageName: string, policy: RetryPolicy): this {
+    validateRetryPolicy(policy, stageName);
+    this.retryPolicies.set(stageName, policy);
+    return this;
+  }
+
+  /**
+   * Validate a timeout value.
+   * 
+   * @param timeoutMs - Timeout in milliseconds
+   * @throws Error if timeout is not a positive finite number
+   */
+  private assertValidTimeout(timeoutMs: number): void {
+    if (!Number.isFinite(timeoutMs) || timeoutMs <= 0) {
+      throw new Error(`Timeout must be a positive number of milliseconds, got ${timeoutMs}`);
+    }
+  }
+
+  /**
+   * Set how stages are scheduled.
+   * In 'dag' mode, independent stages run concurrently once their
+   * declared dependencies have completed.
+   * 
+   * @param mode - Execution mode
+   * @returns Builder for chaining
+   */
+  public withExecutionMode(mode: PipelineExecutionMode): this {
+    this.config.executionMode = mode;
+    return this;
+  }
+
   /**
    * Configure whether pipeline continues on non-critical errors.
    * 
@@ -74,18 +158,34 @@ export class PipelineBuilder<TOutput = unknown> {
    * @returns Configured pipeline instance
    * @throws Error if configuration is invalid
    */
-  public build(): Pipeline<TOutput> {
+  public build(): Pipeline<TLast> {
     if (!this.config.logger) {
       throw new Error('Pipeline requires a logger');
     }
 
+    const stageNames = new Set(this.stages.map(s => s.stageName));
+    for (const stageName of this.stageTimeouts.keys()) {
+      if (!stageNames.has(stageName)) {
+        throw new Error(`Stage timeout configured for unknown stage '${stageName}'`);
+      }
+    }
+    for (const stageName of this.retryPolicies.keys()) {
+      if (!stageNames.has(stageName)) {
+        throw new Error(`Retry policy configured for unknown stage '${stageName}'`);
+      }
+    }
+
     const finalConfig: PipelineConfig = {
       logger: this.config.logger,
       timeoutMs: this.config.timeoutMs,
+      stageTimeouts: new Map(this.stageTimeouts),
+      retryPolicies: new Map(this.retryPolicies),
       continueOnError: this.config.continueOnError ?? false,
+      executionMode: this.config.executionMode ?? 'sequential',
+      hooks: [new LoggingHook(this.config.logger), ...this.hooks],
     };
 
-    return new Pipeline<TOutput>(
+    return new Pipeline<TLast>(
       this.stages,
       finalConfig,
       this.criticalStages
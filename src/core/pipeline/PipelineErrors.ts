@@ -0,0 +1,54 @@
+/**
+ * Raised when a pipeline or stage exceeds its configured deadline.
+ * Distinct from ordinary stage errors so callers can tell a slow
+ * dependency apart from a failing one.
+ */
+export class PipelineTimeoutError extends Error {
+  /**
+   * Whether the whole-pipeline deadline or a per-stage deadline expired.
+   */
+  public readonly scope: 'pipeline' | 'stage';
+
+  /**
+   * Deadline that was exceeded, in milliseconds.
+   */
+  public readonly timeoutMs: number;
+
+  /**
+   * Stage that was running when the deadline expired (if known).
+   */
+  public readonly stageName?: string;
+
+  constructor(scope: 'pipeline' | 'stage', timeoutMs: number, stageName?: string) {
+    super(
+      scope === 'pipeline'
+        ? `Pipeline exceeded timeout of ${timeoutMs}ms`
+        : `Stage '${stageName}' exceeded timeout of ${timeoutMs}ms`
+    );
+    this.name = 'PipelineTimeoutError';
+    this.scope = scope;
+    this.timeoutMs = timeoutMs;
+    this.stageName = stageName;
+  }
+}
+
+/**
+ * Thrown by a stage to end the pipeline early without failing it,
+ * e.g. when a request is denied and must be dropped silently.
+ * 
+ * The pipeline stops immediately (remaining stages, mandatory or not,
+ * do not run), reports success, and records the halt in
+ * PipelineExecutionResult.halted. Halts are never retried.
+ */
+export class PipelineHaltError extends Error {
+  /**
+   * Why the stage halted the pipeline.
+   */
+  public readonly reason: string;
+
+  constructor(reason: string) {
+    super(`Pipeline halted: ${reason}`);
+    this.name = 'PipelineHaltError';
+    this.reason = reason;
+  }
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from '@jest/globals';
+import { PipelineBuilder } from './PipelineBuilder';
+import { PipelineExplainer } from './PipelineExplainer';
+import { PipelineStage, StageOptions } from './PipelineStage';
+import { createRequest, silentLogger } from '../../testing/fixtures';
+
+/**
+ * Stage that returns its name, or throws the given error.
+ */
+class NamedStage extends PipelineStage<unknown, string> {
+  private readonly error?: Error;
+
+  constructor(name: string, dependencies: string[] = [], options: StageOptions = {}, error?: Error) {
+    super(name, dependencies, options);
+    this.error = error;
+  }
+
+  protected executeStage(): string {
+    if (this.error) {
+      throw this.error;
+    }
+    return this.stageName;
+  }
+}
+
+const request = createRequest({
+  reply: async () => { throw new Error('dry runs must not reply'); },
+  send: async () => { throw new Error('dry runs must not send'); },
+});
+
+describe('PipelineExplainer', () => {
+  it('reports completed and dry-run skipped stages', async () => {
+    const pipeline = new PipelineBuilder()
+      .withLogger(silentLogger)
+      .addStage(new NamedStage('build'))
+      .addStage(new NamedStage('deliver', ['build'], { sideEffects: true }))
+      .build();
+
+    const report = await new PipelineExplainer(pipeline).explain(request);
+
+    expect(report.success).toBe(true);
+    expect(report.stages.map(entry => [entry.stage, entry.status])).toEqual([
+      ['build', 'completed'],
+      ['deliver', 'skipped'],
+    ]);
+    expect(report.stages[1]?.detail).toMatch(/dry run/);
+  });
+
+  it('reports failed and not-run stages', async () => {
+    const pipeline = new PipelineBuilder()
+      .withLogger(silentLogger)
+      .addStage(new NamedStage('gate', [], {}, new Error('boom')))
+      .addStage(new NamedStage('build', ['gate']))
+      .build();
+
+    const report = await new PipelineExplainer(pipeline).explain(request);
+    const text = PipelineExplainer.format(report);
+
+    expect(report.stages.map(entry => entry.status)).toEqual(['failed', 'not-run']);
+    expect(text).toContain("- gate: failed - Stage 'gate' failed: boom");
+    expect(text).toContain('Prompt: not built');
+  });
+});
@@ -0,0 +1,213 @@
+import { Pipeline } from './Pipeline';
+import { getStageOutput } from './StageKey';
+import { STAGE_KEYS } from './stages/stageKeys';
+import { BuiltPrompt } from '../prompts/PromptBuilder';
+import { PersonaSelection, UserIdentity } from '../../types/persona.types';
+import { InboundRequest } from '../../types/request.types';
+
+/**
+ * What happened to a single stage during a dry run.
+ * - 'completed': the stage ran successfully
+ * - 'skipped': the pipeline decided not to run it
+ * - 'failed': the stage threw or timed out
+ * - 'halted': the stage ended execution early (e.g. access denied)
+ * - 'not-run': execution stopped before reaching it
+ */
+export type ExplainStageStatus = 'completed' | 'skipped' | 'failed' | 'halted' | 'not-run';
+
+/**
+ * Per-stage line of an explain report.
+ */
+export interface ExplainStageEntry {
+  stage: string;
+  status: ExplainStageStatus;
+
+  /**
+   * Wall time including retries (completed stages only).
+   */
+  durationMs?: number;
+
+  /**
+   * Skip reason, halt reason or failure message.
+   */
+  detail?: string;
+}
+
+/**
+ * Result of explaining how the pipeline would handle a request.
+ */
+export interface ExplainReport {
+  requestId: string;
+  success: boolean;
+  totalTimeMs: number;
+
+  /**
+   * Resolved identity, if identity resolution completed.
+   */
+  identity?: UserIdentity;
+
+  /**
+   * Selected persona, if persona selection completed.
+   */
+  persona?: PersonaSelection;
+
+  /**
+   * Fully assembled prompt, if prompt building completed.
+   */
+  prompt?: BuiltPrompt;
+
+  /**
+   * Every pipeline stage in declaration order.
+   */
+  stages: ExplainStageEntry[];
+}
+
+/**
+ * Debugging aid: explains how the message pipeline handles a request
+ * without calling the AI or sending anything.
+ *
+ * Runs the pipeline in dry-run mode, so side-effecting stages (and stages
+ * that depend on them) are skipped, then collects the persona, built prompt
+ * and per-stage timings into a report.
+ *
+ * NOT Responsible For:
+ * - Deciding which stages are skipped (Pipeline's job)
+ * - Authorizing who may run an explain (AdminCommandRouter's job)
+ */
+export class PipelineExplainer {
+  private readonly pipeline: Pipeline<unknown>;
+
+  constructor(pipeline: Pipeline<unknown>) {
+    this.pipeline = pipeline;
+  }
+
+  /**
+   * Dry-run the pipeline for a request and build a report.
+   *
+   * @param request - Request to explain
+   * @returns Explain report
+   */
+  public async explain(request: InboundRequest): Promise<ExplainReport> {
+    const result = await this.pipeline.execute(request, { dryRun: true });
+
+    const stages: ExplainStageEntry[] = this.pipeline.getStageNames().map(stage => {
+      const completed = result.stageResults.get(stage);
+      if (completed?.skipped) {
+        return { stage, status: 'skipped', detail: completed.skipReason };
+      }
+
+      if (completed) {
+        return {
+          stage,
+          status: 'completed',
+          durationMs: completed.metadata?.['durationMs'] as number | undefined,
+        };
+      }
+
+      if (result.halted?.stage === stage) {
+        return { stage, status: 'halted', detail: result.halted.reason };
+      }
+
+      const failed = result.errors.find(e => e.stage === stage);
+      if (failed) {
+        return { stage, status: 'failed', detail: failed.error.message };
+      }
+
+      return { stage, status: 'not-run' };
+    });
+
+    return {
+      requestId: request.id,
+      success: result.success,
+      totalTimeMs: result.executionTimeMs,
+      identity: getStageOutput(result.stageResults, STAGE_KEYS.IDENTITY_RESOLUTION),
+      persona: getStageOutput(result.stageResults, STAGE_KEYS.PERSONA_SELECTION),
+      prompt: getStageOutput(result.stageResults, STAGE_KEYS.PROMPT_BUILDING),
+      stages,
+    };
+  }
+
+  /**
+   * Render a report as plain text for chat delivery.
+   *
+   * @param report - Report to render
+   * @returns Multi-line text
+   */
+  public static format(report: ExplainReport): string {
+    const lines: string[] = [
+      `Dry run for request ${report.requestId} (${report.success ? 'ok' : 'failed'}, ${report.totalTimeMs}ms)`,
+    ];
+
+    if (report.identity) {
+      const where = report.identity.guildId ? `guild ${report.identity.guildId}` : 'direct message';
+      lines.push(
+        `Trust tier: ${report.identity.trustTier} (${where}, ${report.identity.roleIds.length} roles)`
+      );
+    }
+
+    if (report.persona) {
+      lines.push(
+        `Persona: ${report.persona.persona} for ${report.persona.username} ` +
+        `(${report.persona.userId}, owner: ${report.persona.isOwner ? 'yes' : 'no'}, ` +
+        `selected by: ${report.persona.reason}` +
+        (report.persona.policyRule
+          ? ` ${report.persona.policyRule.scope} ${report.persona.policyRule.id})`
+          : ')')
+      );
+    } else {
+      lines.push('Persona: not selected');
+    }
+
+    lines.push('', 'Stages:');
+    for (const entry of report.stages) {
+      const timing = entry.durationMs !== undefined ? ` ${entry.durationMs}ms` : '';
+      const detail = entry.detail ? ` - ${entry.detail}` : '';
+      lines.push(`- ${entry.stage}: ${entry.status}${timing}${detail}`);
+    }
+
+    if (!report.prompt) {
+      lines.push('', 'Prompt: not built');
+      return lines.join('\n');
+    }
+
+    lines.push('', 'System message composition:');
+    for (const [index, section] of report.prompt.metadata.composition.entries()) {
+      const revision = section.hash ? `, ${section.version ?? 'unversioned'} #${section.hash}` : '';
+      lines.push(
+        `${index + 1}. ${section.name} (${section.source}, ${section.length} chars, ~${section.tokens} tokens${revision})`
+      );
+      if (section.layers && section.layers.length > 1) {
+        lines.push(`   layers: ${section.layers.join(' -> ')}`);
+      }
+    }
+
+    const experiments = report.prompt.metadata.experiments;
+    if (experiments.length > 0) {
+      const assignments = experiments.map(
+        assignment => `${assignment.experimentId}: ${assignment.variantId} (by ${assignment.assignBy})`
+      );
+      lines.push('', `Experiments: ${assignments.join(', ')}`);
+    }
+
+    const tokens = report.prompt.metadata.tokens;
+    lines.push(
+      '',
+      `Tokens: ~${tokens.total} of ${tokens.budget} for ${tokens.model} ` +
+      `(${tokens.contextWindow} window, ${tokens.completionReserve} reserved for the reply)`
+    );
+    for (const trim of report.prompt.metadata.contextTrims) {
+      lines.push(`- ${trim.section} ${trim.action} (~${trim.tokensBefore} → ~${trim.tokensAfter} tokens)`);
+    }
+
+    const { historyTurns, droppedHistoryTurns } = report.prompt.metadata;
+    const dropped = droppedHistoryTurns > 0 ? ` (${droppedHistoryTurns} older dropped to fit the budget)` : '';
+    lines.push('', `Prior turns: ${historyTurns}${dropped}`);
+
+    lines.push('', 'Messages:');
+    for (const message of report.prompt.messages) {
+      lines.push(`[${message.role}]`, message.content, '');
+    }
+
+    return lines.join('\n').trimEnd();
+  }
+}
@@ -0,0 +1,52 @@
+import { PipelineContext, PipelineError, SkippedStage, StageResult } from './PipelineStage';
+import type { PipelineExecutionResult } from './Pipeline';
+
+/**
+ * Observer for pipeline lifecycle events.
+ * 
+ * Hooks add cross-cutting behavior (logging, tracing, metrics, auditing)
+ * without modifying individual stages. All methods are optional.
+ * 
+ * Contract:
+ * - Hooks run in registration order and are awaited
+ * - A hook that throws is logged and ignored; it never fails the pipeline
+ * - Hooks must treat the context and results as read-only
+ */
+export interface PipelineHooks {
+  /**
+   * Called once before the first stage runs.
+   */
+  onPipelineStart?(context: PipelineContext): void | Promise<void>;
+
+  /**
+   * Called before each stage runs (once per stage, not per retry attempt).
+   */
+  beforeStage?(stageName: string, context: PipelineContext): void | Promise<void>;
+
+  /**
+   * Called after a stage completes successfully.
+   */
+  afterStage?(result: StageResult, context: PipelineContext): void | Promise<void>;
+
+  /**
+   * Called when the pipeline decides not to run a stage.
+   * beforeStage is not called for skipped stages.
+   */
+  onStageSkipped?(skipped: SkippedStage, context: PipelineContext): void | Promise<void>;
+
+  /**
+   * Called when a stage fails after all retry attempts.
+   */
+  onStageError?(error: PipelineError, context: PipelineContext): void | Promise<void>;
+
+  /**
+   * Called when the pipeline runs to the end (possibly with non-critical errors)
+   * or is halted early by a stage (result.halted is set).
+   */
+  onPipelineComplete?(result: PipelineExecutionResult, context: PipelineContext): void | Promise<void>;
+
+  /**
+   * Called when the pipeline stops early because of a failure or deadline.
+   */
+  onPipelineFailed?(result: PipelineExecutionResult, context: PipelineContext): void | Promise<void>;
+}
@@ -1,4 +1,7 @@
-import { Message } from 'discord.js';
+import { PipelineHaltError } from './PipelineErrors';
+import { RetryAttempt } from './RetryPolicy';
+import type { StageKey } from './StageKey';
+import { InboundRequest } from '../../types/request.types';
 
 /**
  * Result from a pipeline stage execution.
@@ -24,6 +27,104 @@ export interface StageResult<T = unknown> {
    * Optional metadata for audit/debugging.
    */
   metadata?: Record<string, unknown>;
+
+  /**
+   * True if the stage did not run. Data is undefined for skipped stages.
+   */
+  skipped?: boolean;
+
+  /**
+   * Why the stage was skipped.
+   */
+  skipReason?: string;
+}
+
+/**
+ * Classification of a pipeline error.
+ * - 'stage': the stage itself threw
+ * - 'timeout': a pipeline or stage deadline expired
+ */
+export type PipelineErrorKind = 'stage' | 'timeout';
+
+/**
+ * Error recorded during pipeline execution.
+ */
+export interface PipelineError {
+  /**
+   * Stage that was executing when the error occurred.
+   */
+  stage: string;
+
+  /**
+   * Underlying error.
+   */
+  error: Error;
+
+  /**
+   * Whether this is an ordinary stage failure or a timeout.
+   */
+  kind: PipelineErrorKind;
+
+  /**
+   * Every attempt made before the stage gave up.
+   */
+  attempts?: RetryAttempt[];
+}
+
+/**
+ * Stage that the pipeline decided not to run.
+ */
+export interface SkippedStage {
+  /**
+   * Name of the skipped stage.
+   */
+  stage: string;
+
+  /**
+   * Human-readable reason the stage was skipped.
+   */
+  reason: string;
+}
+
+/**
+ * Early, successful end of a pipeline execution (see PipelineHaltError).
+ */
+export interface PipelineHalt {
+  /**
+   * Stage that halted the pipeline.
+   */
+  stage: string;
+
+  /**
+   * Why the pipeline was halted.
+   */
+  reason: string;
+}
+
+/**
+ * Optional behavior flags for a stage.
+ */
+export interface StageOptions {
+  /**
+   * Whether the stage has effects outside the pipeline
+   * (paid API calls, messages sent to users).
+   * Side-effecting stages are skipped in dry-run mode.
+   */
+  sideEffects?: boolean;
+
+  /**
+   * Mandatory stages can never be skipped. If a guard, a skipped
+   * dependency or a dry run would skip one, the pipeline fails instead.
+   */
+  mandatory?: boolean;
+
+  /**
+   * Dependencies this stage can run without. They still order execution,
+   * but if one is skipped this stage runs anyway (with undefined input
+   * where that dependency's output would be). Skips caused by a dry run
+   * always propagate.
+   */
+  optionalDependencies?: string[];
 }
 
 /**
@@ -32,9 +133,9 @@ export interface StageResult<T = unknown> {
  */
 export interface PipelineContext {
   /**
-   * Original Discord message that triggered the pipeline.
+   * Normalized request that triggered the pipeline.
    */
-  message: Message;
+  request: InboundRequest;
   
   /**
    * Results from completed stages, keyed by stage name.
@@ -54,28 +155,103 @@ export interface PipelineContext {
   /**
    * Errors encountered during pipeline execution.
    */
-  errors: Array<{ stage: string; error: Error }>;
+  errors: PipelineError[];
+
+  /**
+   * Whether this is a dry run. Side-effecting stages, and every stage
+   * downstream of them, are skipped.
+   */
+  dryRun: boolean;
+
+  /**
+   * Set by the pipeline when a stage halts execution (PipelineHaltError).
+   */
+  halted?: PipelineHalt;
+
+  /**
+   * Cancellation signal for in-flight work.
+   * Aborts when the pipeline or current stage deadline expires.
+   * Stages doing I/O should pass this to cancellable APIs.
+   */
+  signal: AbortSignal;
 }
 
 /**
  * Abstract base class for all pipeline stages.
  * Enforces consistent structure and error handling.
+ * 
+ * TInput is contravariant: a stage may accept a wider input than the
+ * previous stage produces, never a narrower one. PipelineBuilder uses this
+ * to check stage wiring at compile time.
  */
-export abstract class PipelineStage<TInput = unknown, TOutput = unknown> {
+export abstract class PipelineStage<in TInput = unknown, TOutput = unknown> {
   /**
    * Unique name for this stage (used in logging and stage order).
    */
-  public readonly stageName: string;
+  public readonly stageName: StageKey<TOutput>;
   
   /**
    * Names of stages that must complete before this stage.
    * Used to enforce dependencies and ordering.
    */
-  protected readonly dependencies: string[];
+  public readonly dependencies: readonly string[];
+
+  /**
+   * Whether this stage has effects outside the pipeline.
+   */
+  public readonly hasSideEffects: boolean;
+
+  /**
+   * Whether this stage can never be skipped.
+   */
+  public readonly isMandatory: boolean;
+
+  /**
+   * Dependencies whose skipping this stage tolerates.
+   */
+  public readonly optionalDependencies: readonly string[];
+
+  /**
+   * Phantom member that keeps TInput contravariant when stages are compared
+   * structurally (method parameters alone are bivariant). Never assigned.
+   */
+  declare protected readonly inputType?: (input: TInput) => void;
 
-  constructor(stageName: string, dependencies: string[] = []) {
+  /**
+   * @param stageName - Unique stage name; pass a typed key (e.g. STAGE_KEYS.*)
+   *                    so its type is checked against TOutput
+   * @param dependencies - Stages that must complete first
+   * @param options - Behavior flags
+   */
+  constructor(stageName: StageKey<TOutput>, dependencies: string[] = [], options: StageOptions = {}) {
     this.stageName = stageName;
-    this.dependencies = dependencies;
+    this.dependencies = Object.freeze([...dependencies]);
+    this.hasSideEffects = options.sideEffects ?? false;
+    this.isMandatory = options.mandatory ?? false;
+    this.optionalDependencies = Object.freeze([...(options.optionalDependencies ?? [])]);
+  }
+
+  /**
+   * Guard predicate: decide from the context whether this stage should be skipped.
+   * Evaluated by the pipeline just before the stage would run.
+   * Override in stages that only apply under some conditions.
+   * 
+   * @param _context - Pipeline context
+   * @returns Reason to skip, or undefined to run the stage
+   */
+  public getSkipReason(_context: PipelineContext): string | undefined {
+    return undefined;
+  }
+
+  /**
+   * Check whether an earlier stage was skipped.
+   * 
+   * @param context - Pipeline context
+   * @param stageName - Stage to check
+   * @returns True if the stage is recorded as skipped
+   */
+  protected wasSkipped(context: PipelineContext, stageName: string): boolean {
+    return context.stageResults.get(stageName)?.skipped === true;
   }
 
   /**
@@ -97,23 +273,27 @@ export abstract class PipelineStage<TInput = unknown, TOutput = unknown> {
 
   /**
    * Get result from a previous stage.
+   * The key's type parameter determines the returned type (see STAGE_KEYS).
    * 
    * @param context - Pipeline context
-   * @param stageName - Name of the stage to get result from
+   * @param key - Typed key of the stage to get result from
    * @returns Stage result data
-   * @throws Error if stage hasn't completed
+   * @throws Error if that stage hasn't completed or was skipped
    */
-  protected getStageResult<T = unknown>(
-    context: PipelineContext,
-    stageName: string
-  ): T {
-    const result = context.stageResults.get(stageName);
+  protected getStageResult<T>(context: PipelineContext, key: StageKey<T>): T {
+    const result = context.stageResults.get(key);
     if (!result) {
       throw new Error(
-        `Stage '${this.stageName}' attempted to access result from '${stageName}' ` +
+        `Stage '${this.stageName}' attempted to access result from '${key}' ` +
         `but that stage has not completed.`
       );
     }
+    if (result.skipped) {
+      throw new Error(
+        `Stage '${this.stageName}' attempted to access result from '${key}' ` +
+        `but that stage was skipped (${result.skipReason}).`
+      );
+    }
     return result.data as T;
   }
 
@@ -147,6 +327,7 @@ export abstract class PipelineStage<TInput = unknown, TOutput = unknown> {
     
     // Update context to track current stage
     context.currentStage = this.stageName;
+    const stageStart = Date.now();
     
     try {
       // Execute the stage logic
@@ -158,19 +339,18 @@ export abstract class PipelineStage<TInput = unknown, TOutput = unknown> {
         stageName: this.stageName,
         completedAt: new Date(),
         metadata: {
-          executionTime: Date.now() - context.startedAt.getTime(),
+          executionTime: Date.now() - stageStart,
         },
       };
       
       return result;
     } catch (error) {
-      // Log error in context
-      context.errors.push({
-        stage: this.stageName,
-        error: error as Error,
-      });
-      
-      // Re-throw for pipeline to handle
+      // Halts are deliberate; pass them through unwrapped
+      if (error instanceof PipelineHaltError) {
+        throw error;
+      }
+
+      // Re-throw for pipeline to record and classify
       throw new Error(
         `Stage '${this.stageName}' failed: ${(error as Error).message}`,
         { cause: error }
@@ -178,3 +358,10 @@ export abstract class PipelineStage<TInput = unknown, TOutput = unknown> {
     }
   }
 }
+
+/**
+ * A stage of any input/output type, as stored by Pipeline.
+ * Inputs are typed `never` because the pipeline checks wiring at build
+ * time (PipelineBuilder), not when it hands data between stages.
+ */
+export type AnyPipelineStage = PipelineStage<never, unknown>;
@@ -0,0 +1,39 @@
+import { describe, expect, it } from '@jest/globals';
+import { RetryPolicy, computeBackoffDelay, getErrorChain, validateRetryPolicy } from './RetryPolicy';
+
+const policy: RetryPolicy = { maxAttempts: 5, initialDelayMs: 100, maxDelayMs: 1000 };
+
+describe('computeBackoffDelay', () => {
+  it('doubles the delay after each failed attempt up to maxDelayMs', () => {
+    const noJitter = { ...policy, jitter: 0 };
+
+    expect([1, 2, 3, 4, 5].map(attempt => computeBackoffDelay(noJitter, attempt))).toEqual([100, 200, 400, 800, 1000]);
+    expect(computeBackoffDelay({ ...noJitter, backoffMultiplier: 3 }, 3)).toBe(900);
+  });
+
+  it('randomizes the jittered fraction of the delay', () => {
+    expect(computeBackoffDelay(policy, 3, () => 0)).toBe(200);
+    expect(computeBackoffDelay(policy, 3, () => 0.999999)).toBe(400);
+  });
+});
+
+describe('validateRetryPolicy', () => {
+  it.each([
+    [{ maxAttempts: 1.5 }, /maxAttempts/],
+    [{ initialDelayMs: 2000 }, /delays/],
+    [{ backoffMultiplier: 0.5 }, /backoffMultiplier/],
+    [{ jitter: 2 }, /jitter/],
+  ])('rejects %j', (override, message) => {
+    expect(() => validateRetryPolicy({ ...policy, ...override }, 'stage')).toThrow(message);
+  });
+});
+
+describe('getErrorChain', () => {
+  it('lists an error followed by its causes, stopping at a cycle', () => {
+    const root = new Error('root');
+    const top = new Error('top', { cause: root });
+    (root as Error & { cause?: unknown }).cause = top;
+
+    expect(getErrorChain(top)).toEqual([top, root]);
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Retry policy for a single pipeline stage.
+ * Delays grow exponentially between attempts, with random jitter
+ * to avoid synchronized retries against rate-limited services.
+ */
+export interface RetryPolicy {
+  /**
+   * Total attempts including the first one. Must be at least 1.
+   */
+  maxAttempts: number;
+
+  /**
+   * Delay before the second attempt (ms).
+   */
+  initialDelayMs: number;
+
+  /**
+   * Upper bound for any single delay (ms).
+   */
+  maxDelayMs: number;
+
+  /**
+   * Multiplier applied to the delay after each failed attempt.
+   * Defaults to 2.
+   */
+  backoffMultiplier?: number;
+
+  /**
+   * Fraction of each delay that is randomized, between 0 and 1.
+   * Defaults to 0.5 (delay varies between 50% and 100% of the backoff).
+   */
+  jitter?: number;
+
+  /**
+   * Decide whether an error is worth retrying.
+   * Receives the error thrown by the stage; use getErrorChain to inspect causes.
+   * Defaults to retrying every error.
+   */
+  isRetryable?: (error: unknown) => boolean;
+}
+
+/**
+ * Record of a single stage attempt.
+ * Stored in StageResult.metadata.attempts.
+ */
+export interface RetryAttempt {
+  /**
+   * Attempt number, starting at 1.
+   */
+  attempt: number;
+
+  /**
+   * Time spent in this attempt (ms).
+   */
+  durationMs: number;
+
+  /**
+   * Error message if the attempt failed.
+   */
+  error?: string;
+
+  /**
+   * Delay before the next attempt (ms), if one was scheduled.
+   */
+  nextDelayMs?: number;
+}
+
+/**
+ * Validate a retry policy.
+ * 
+ * @param policy - Policy to validate
+ * @param stageName - Stage name (for error messages)
+ * @throws Error if the policy is invalid
+ */
+export function validateRetryPolicy(policy: RetryPolicy, stageName: string): void {
+  if (!Number.isInteger(policy.maxAttempts) || policy.maxAttempts < 1) {
+    throw new Error(`Retry policy for '${stageName}': maxAttempts must be an integer >= 1`);
+  }
+
+  if (policy.initialDelayMs < 0 || policy.maxDelayMs < policy.initialDelayMs) {
+    throw new Error(
+      `Retry policy for '${stageName}': delays must satisfy 0 <= initialDelayMs <= maxDelayMs`
+    );
+  }
+
+  if (policy.backoffMultiplier !== undefined && policy.backoffMultiplier < 1) {
+    throw new Error(`Retry policy for '${stageName}': backoffMultiplier must be >= 1`);
+  }
+
+  if (policy.jitter !== undefined && (policy.jitter < 0 || policy.jitter > 1)) {
+    throw new Error(`Retry policy for '${stageName}': jitter must be between 0 and 1`);
+  }
+}
+
+/**
+ * Compute the delay before the next attempt.
+ * 
+ * @param policy - Retry policy
+ * @param failedAttempt - Number of the attempt that just failed (1-based)
+ * @param random - Random source in [0, 1)
+ * @returns Delay in milliseconds
+ */
+export function computeBackoffDelay(
+  policy: RetryPolicy,
+  failedAttempt: number,
+  random: () => number = Math.random
+): number {
+  const multiplier = policy.backoffMultiplier ?? 2;
+  const jitter = policy.jitter ?? 0.5;
+
+  const backoff = Math.min(
+    policy.maxDelayMs,
+    policy.initialDelayMs * Math.pow(multiplier, failedAttempt - 1)
+  );
+
+  return Math.round(backoff * (1 - jitter) + backoff * jitter * random());
+}
+
+/**
+ * Flatten an error and its cause chain.
+ * 
+ * @param error - Error to inspect
+ * @returns The error followed by each nested cause
+ */
+export function getErrorChain(error: unknown): unknown[] {
+  const chain: unknown[] = [];
+  let current: unknown = error;
+
+  while (current !== undefined && current !== null && !chain.includes(current)) {
+    chain.push(current);
+    current = current instanceof Error ? current.cause : undefined;
+  }
+
+  return chain;
+}
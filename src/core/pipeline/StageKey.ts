@@ -0,0 +1,45 @@
+import { StageResult } from './PipelineStage';
+
+/**
+ * Phantom property carrying a stage's output type. Never present at runtime.
+ */
+declare const stageOutput: unique symbol;
+
+/**
+ * Stage name that also carries the type of the data the stage produces.
+ * 
+ * At runtime a StageKey is just the stage name, so it works anywhere a name
+ * does (dependencies, stageResults lookups, timeouts). At compile time it
+ * lets accessors return the stage's data without unchecked casts:
+ * 
+ *   const persona = getStageOutput(result.stageResults, STAGE_KEYS.PERSONA_SELECTION);
+ *   //    ^? PersonaSelection | undefined
+ */
+export type StageKey<T> = string & { readonly [stageOutput]?: T };
+
+/**
+ * Create a typed key for a stage name.
+ * The type argument must match the stage's TOutput; declare keys next to
+ * the stage names they describe so there is a single place to check.
+ * 
+ * @param stageName - Stage name
+ * @returns Typed key
+ */
+export function stageKey<T>(stageName: string): StageKey<T> {
+  return stageName as StageKey<T>;
+}
+
+/**
+ * Read a stage's data from a set of stage results.
+ * 
+ * @param stageResults - Results keyed by stage name (context or execution result)
+ * @param key - Typed key of the stage to read
+ * @returns The stage's data, or undefined if it did not complete or was skipped
+ */
+export function getStageOutput<T>(
+  stageResults: ReadonlyMap<string, StageResult>,
+  key: StageKey<T>
+): T | undefined {
+  const result = stageResults.get(key);
+  return result && !result.skipped ? result.data as T : undefined;
+}
@@ -0,0 +1,52 @@
+import { PipelineHooks } from '../PipelineHooks';
+import { PipelineContext } from '../PipelineStage';
+import type { PipelineExecutionResult } from '../Pipeline';
+import { getStageOutput } from '../StageKey';
+import { STAGE_KEYS } from '../stages/stageKeys';
+import { ExperimentLog } from '../../experiments/ExperimentLog';
+import { Logger } from '../../../utils/logger';
+
+/**
+ * Hook that records an exposure in the experiment log for every delivered
+ * AI response whose prompt was built with experiment assignments.
+ *
+ * Dry runs are not recorded, and neither are fallback replies sent when
+ * the AI stage did not run (they say nothing about the prompt).
+ */
+export class ExperimentHook implements PipelineHooks {
+  private readonly experimentLog: ExperimentLog;
+  private readonly logger: Logger;
+
+  constructor(experimentLog: ExperimentLog, logger: Logger) {
+    this.experimentLog = experimentLog;
+    this.logger = logger;
+  }
+
+  public async onPipelineComplete(result: PipelineExecutionResult, context: PipelineContext): Promise<void> {
+    if (result.dryRun) {
+      return;
+    }
+
+    const prompt = getStageOutput(result.stageResults, STAGE_KEYS.PROMPT_BUILDING);
+    const aiResponse = getStageOutput(result.stageResults, STAGE_KEYS.AI_INVOCATION);
+    const receipt = getStageOutput(result.stageResults, STAGE_KEYS.RESPONSE_DELIVERY);
+    if (!prompt || prompt.metadata.experiments.length === 0 || !aiResponse || !receipt?.messageIds.length) {
+      return;
+    }
+
+    const request = context.request;
+    await this.experimentLog.recordExposure({
+      requestId: request.id,
+      userId: request.author.id,
+      channelId: request.channel.id,
+      guildId: request.channel.guildId,
+      messageIds: [...receipt.messageIds],
+      assignments: prompt.metadata.experiments,
+    });
+
+    this.logger.debug('Experiment exposure recorded', {
+      requestId: request.id,
+      assignments: prompt.metadata.experiments.map(a => `${a.experimentId}=${a.variantId}`),
+    });
+  }
+}
@@ -0,0 +1,82 @@
+import { PipelineHooks } from '../PipelineHooks';
+import { PipelineContext, PipelineError, SkippedStage, StageResult } from '../PipelineStage';
+import type { PipelineExecutionResult } from '../Pipeline';
+import { Logger } from '../../../utils/logger';
+
+/**
+ * Built-in hook that writes pipeline execution events to the logger.
+ * Registered automatically by PipelineBuilder as the first hook.
+ */
+export class LoggingHook implements PipelineHooks {
+  private readonly logger: Logger;
+
+  constructor(logger: Logger) {
+    this.logger = logger;
+  }
+
+  public onPipelineStart(context: PipelineContext): void {
+    this.logger.info('Pipeline execution started', {
+      requestId: context.request.id,
+      channelId: context.request.channel.id,
+      userId: context.request.author.id,
+      source: context.request.source,
+      dryRun: context.dryRun,
+    });
+  }
+
+  public beforeStage(stageName: string, context: PipelineContext): void {
+    this.logger.debug(`Executing stage: ${stageName}`, {
+      requestId: context.request.id,
+      previousStages: Array.from(context.stageResults.keys()),
+    });
+  }
+
+  public afterStage(result: StageResult, context: PipelineContext): void {
+    this.logger.debug(`Stage completed: ${result.stageName}`, {
+      requestId: context.request.id,
+      executionTime: result.metadata?.['executionTime'],
+      durationMs: result.metadata?.['durationMs'],
+      attempts: (result.metadata?.['attempts'] as unknown[] | undefined)?.length,
+    });
+  }
+
+  public onStageSkipped(skipped: SkippedStage, context: PipelineContext): void {
+    this.logger.info(`Stage skipped: ${skipped.stage}`, {
+      requestId: context.request.id,
+      reason: skipped.reason,
+    });
+  }
+
+  public onStageError(error: PipelineError, context: PipelineContext): void {
+    const label = error.kind === 'timeout' ? 'Stage timed out' : 'Stage failed';
+    this.logger.error(`${label}: ${error.stage}`, {
+      requestId: context.request.id,
+      error: error.error.message,
+      attempts: error.attempts?.length,
+      stack: error.error.stack,
+    });
+  }
+
+  public onPipelineComplete(result: PipelineExecutionResult, context: PipelineContext): void {
+    this.logger.info('Pipeline execution completed', {
+      requestId: context.request.id,
+      executionTimeMs: result.executionTimeMs,
+      stagesCompleted: Array.from(result.stageResults.values()).filter(r => !r.skipped).length,
+      stagesSkipped: result.skippedStages.map(s => s.stage),
+      haltedBy: result.halted?.stage,
+      haltReason: result.halted?.reason,
+      hadErrors: result.errors.length > 0,
+    });
+  }
+
+  public onPipelineFailed(result: PipelineExecutionResult, context: PipelineContext): void {
+    this.logger.error('Pipeline execution failed', {
+      requestId: context.request.id,
+      executionTimeMs: result.executionTimeMs,
+      timedOut: result.timedOut,
+      errors: result.errors.map(e => `${e.stage}: ${e.error.message}`),
+      completedStages: Array.from(result.stageResults.values()).filter(r => !r.skipped).map(r => r.stageName),
+      failedStage: context.currentStage,
+    });
+  }
+}
@@ -0,0 +1,110 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { PipelineHooks } from '../PipelineHooks';
+import { PipelineContext } from '../PipelineStage';
+import type { PipelineExecutionResult } from '../Pipeline';
+import { createExecutionRecord } from '../recording/ExecutionRecord';
+import { STAGE_NAMES } from '../stages/stageNames';
+import { HISTORY_FETCH_LIMIT } from '../stages/ContextManagementStage';
+import { PriorMessage, ReferencedMessage } from '../../../types/request.types';
+import { Logger } from '../../../utils/logger';
+
+/**
+ * Hook that appends every finished execution to a JSONL file,
+ * one ExecutionRecord per line, for later replay (see src/tools/replay.ts).
+ *
+ * Dry runs are not recorded. Writes are serialized so concurrent
+ * executions never interleave lines.
+ *
+ * PRIVACY: records contain raw message content and user identities.
+ * Keep recording files out of version control.
+ */
+export class RecordingHook implements PipelineHooks {
+  private readonly filePath: string;
+  private readonly logger: Logger;
+
+  /**
+   * Tail of the write queue.
+   */
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string, logger: Logger) {
+    this.filePath = path.resolve(filePath);
+    this.logger = logger;
+  }
+
+  public onPipelineComplete(result: PipelineExecutionResult, context: PipelineContext): Promise<void> {
+    return this.record(result, context);
+  }
+
+  public onPipelineFailed(result: PipelineExecutionResult, context: PipelineContext): Promise<void> {
+    return this.record(result, context);
+  }
+
+  /**
+   * Serialize an execution and queue it for writing.
+   *
+   * @param result - Pipeline execution result
+   * @param context - Pipeline context
+   */
+  private async record(result: PipelineExecutionResult, context: PipelineContext): Promise<void> {
+    if (result.dryRun) {
+      return;
+    }
+
+    const referencedMessage = await this.readReferencedMessage(context);
+    const recentMessages = await this.readRecentMessages(context);
+    const line = JSON.stringify(
+      createExecutionRecord(result, context.request, referencedMessage, recentMessages)
+    ) + '\n';
+
+    const write = this.pending.then(async () => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.appendFile(this.filePath, line, 'utf-8');
+    });
+    // Keep the queue alive after a failed write; the failure surfaces below
+    this.pending = write.catch(() => undefined);
+
+    await write;
+    this.logger.debug('Pipeline execution recorded', {
+      requestId: context.request.id,
+      filePath: this.filePath,
+    });
+  }
+
+  /**
+   * Read the referenced message so replays see the same context.
+   * Adapters cache the fetch, so this does not hit the transport again.
+   *
+   * @param context - Pipeline context
+   * @returns Referenced message, or undefined if absent or unavailable
+   */
+  private async readReferencedMessage(context: PipelineContext): Promise<ReferencedMessage | undefined> {
+    try {
+      return await context.request.fetchReferencedMessage?.();
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Read the conversation history the context stage fetched, so replays
+   * build the same prior turns. Adapters cache the fetch, so this does not
+   * hit the transport again; nothing is fetched if the stage did not run.
+   *
+   * @param context - Pipeline context
+   * @returns Earlier messages, or undefined if not fetched or unavailable
+   */
+  private async readRecentMessages(context: PipelineContext): Promise<PriorMessage[] | undefined> {
+    const contextStage = context.stageResults.get(STAGE_NAMES.CONTEXT_MANAGEMENT);
+    if (!contextStage || contextStage.skipped) {
+      return undefined;
+    }
+
+    try {
+      return await context.request.fetchRecentMessages?.(HISTORY_FETCH_LIMIT);
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,19 @@
+import { describe, expect, it } from '@jest/globals';
+import { EXECUTION_RECORD_VERSION, parseExecutionRecords } from './ExecutionRecord';
+
+describe('parseExecutionRecords', () => {
+  it('parses one record per line and skips blank lines', () => {
+    const line = JSON.stringify({ version: EXECUTION_RECORD_VERSION, request: { id: 'a' } });
+
+    const records = parseExecutionRecords(`${line}\n\n${line}\n`);
+
+    expect(records.map(record => record.request.id)).toEqual(['a', 'a']);
+  });
+
+  it('names the line of a malformed or unsupported record', () => {
+    const line = JSON.stringify({ version: EXECUTION_RECORD_VERSION });
+
+    expect(() => parseExecutionRecords(`${line}\n{not json`)).toThrow('Invalid JSON on line 2');
+    expect(() => parseExecutionRecords(JSON.stringify({ version: 99 }))).toThrow(/Unsupported record version 99 on line 1/);
+  });
+});
@@ -0,0 +1,197 @@
+import { PipelineErrorKind, PipelineHalt, SkippedStage } from '../PipelineStage';
+import type { PipelineExecutionResult } from '../Pipeline';
+import { getStageOutput } from '../StageKey';
+import { STAGE_KEYS } from '../stages/stageKeys';
+import { BuiltPrompt } from '../../prompts/PromptBuilder';
+import { AIResponse } from '../../../services/ai/AIService';
+import {
+  InboundRequest,
+  PriorMessage,
+  ReferencedMessage,
+  RequestAttachment,
+  RequestAuthor,
+  RequestChannel,
+} from '../../../types/request.types';
+
+/**
+ * Current record format version.
+ * Bump when the shape of ExecutionRecord changes incompatibly.
+ */
+export const EXECUTION_RECORD_VERSION = 1;
+
+/**
+ * Serializable snapshot of an inbound request.
+ * Everything a replay needs to reconstruct the request, minus transport handles.
+ */
+export interface RecordedRequest {
+  id: string;
+  source: string;
+  author: RequestAuthor;
+  channel: RequestChannel;
+  content: string;
+  attachments: RequestAttachment[];
+  receivedAt: string;
+
+  /**
+   * Message the request replied to, as seen during the recorded run.
+   */
+  referencedMessage?: ReferencedMessage;
+
+  /**
+   * Earlier conversation messages fetched for history during the recorded
+   * run, oldest first. Absent if the context stage did not fetch any.
+   */
+  recentMessages?: RecordedPriorMessage[];
+}
+
+/**
+ * Serializable PriorMessage.
+ */
+export interface RecordedPriorMessage extends Omit<PriorMessage, 'sentAt'> {
+  sentAt: string;
+}
+
+/**
+ * Serializable StageResult. Data and metadata are stored as JSON,
+ * so Dates appear as ISO strings.
+ */
+export interface RecordedStageResult {
+  stageName: string;
+  completedAt: string;
+  data: unknown;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Serializable PipelineError.
+ */
+export interface RecordedError {
+  stage: string;
+  kind: PipelineErrorKind;
+  message: string;
+}
+
+/**
+ * One recorded pipeline execution (one JSONL line).
+ */
+export interface ExecutionRecord {
+  version: number;
+  recordedAt: string;
+  request: RecordedRequest;
+  success: boolean;
+  executionTimeMs: number;
+
+  /**
+   * Completed stages in completion order.
+   */
+  stages: RecordedStageResult[];
+
+  skippedStages: SkippedStage[];
+  errors: RecordedError[];
+
+  /**
+   * Set if a stage halted the execution early (e.g. access denied).
+   */
+  halted?: PipelineHalt;
+
+  /**
+   * Prompt sent to the AI, if prompt building completed.
+   */
+  prompt?: BuiltPrompt;
+
+  /**
+   * AI response, if the AI stage completed. Replays stub the AI with this.
+   */
+  aiResponse?: AIResponse;
+}
+
+/**
+ * Round-trip a value through JSON so the record holds exactly what
+ * will be written (Dates become strings, functions disappear).
+ *
+ * @param value - Value to snapshot
+ * @returns JSON-safe copy
+ */
+function toJsonValue<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value)) as T;
+}
+
+/**
+ * Build a record from a finished pipeline execution.
+ *
+ * @param result - Pipeline execution result
+ * @param request - Request the pipeline executed
+ * @param referencedMessage - Message the request replied to, if any
+ * @param recentMessages - Messages fetched for conversation history, if any
+ * @returns Serializable execution record
+ */
+export function createExecutionRecord(
+  result: PipelineExecutionResult,
+  request: InboundRequest,
+  referencedMessage?: ReferencedMessage,
+  recentMessages?: readonly PriorMessage[]
+): ExecutionRecord {
+  return {
+    version: EXECUTION_RECORD_VERSION,
+    recordedAt: new Date().toISOString(),
+    request: {
+      id: request.id,
+      source: request.source,
+      author: toJsonValue(request.author),
+      channel: toJsonValue(request.channel),
+      content: request.content,
+      attachments: toJsonValue(request.attachments),
+      receivedAt: request.receivedAt.toISOString(),
+      referencedMessage,
+      recentMessages: recentMessages?.map(message => ({ ...message, sentAt: message.sentAt.toISOString() })),
+    },
+    success: result.success,
+    executionTimeMs: result.executionTimeMs,
+    stages: Array.from(result.stageResults.values()).map(stage => ({
+      stageName: stage.stageName,
+      completedAt: stage.completedAt.toISOString(),
+      data: toJsonValue(stage.data),
+      metadata: toJsonValue(stage.metadata),
+    })),
+    skippedStages: [...result.skippedStages],
+    errors: result.errors.map(e => ({ stage: e.stage, kind: e.kind, message: e.error.message })),
+    halted: result.halted,
+    prompt: toJsonValue(getStageOutput(result.stageResults, STAGE_KEYS.PROMPT_BUILDING)),
+    aiResponse: toJsonValue(getStageOutput(result.stageResults, STAGE_KEYS.AI_INVOCATION)),
+  };
+}
+
+/**
+ * Parse a JSONL recording file's content.
+ *
+ * @param content - File content, one record per line
+ * @returns Parsed records in file order
+ * @throws Error naming the line if a record is malformed or has an unknown version
+ */
+export function parseExecutionRecords(content: string): ExecutionRecord[] {
+  const records: ExecutionRecord[] = [];
+
+  for (const [index, line] of content.split('\n').entries()) {
+    if (line.trim().length === 0) {
+      continue;
+    }
+
+    let record: ExecutionRecord;
+    try {
+      record = JSON.parse(line) as ExecutionRecord;
+    } catch (error) {
+      throw new Error(`Invalid JSON on line ${index + 1}`, { cause: error });
+    }
+
+    if (record.version !== EXECUTION_RECORD_VERSION) {
+      throw new Error(
+        `Unsupported record version ${record.version} on line ${index + 1} ` +
+        `(expected ${EXECUTION_RECORD_VERSION})`
+      );
+    }
+
+    records.push(record);
+  }
+
+  return records;
+}
@@ -0,0 +1,97 @@
+import { describe, expect, it } from '@jest/globals';
+import { ExecutionReplayer, ReplayDependencies } from './ExecutionReplayer';
+import { ExecutionRecord, createExecutionRecord, parseExecutionRecords } from './ExecutionRecord';
+import { MessagePipelineFactory } from '../MessagePipelineFactory';
+import { STAGE_NAMES } from '../stages/stageNames';
+import { AIService } from '../../../services/ai/AIService';
+import { PriorMessage } from '../../../types/request.types';
+import { RequestOverrides, createPipelineDependencies, createRequest } from '../../../testing/fixtures';
+
+/**
+ * Run a request through the real pipeline with a canned AI reply and record it.
+ */
+async function record(
+  deps: ReplayDependencies,
+  overrides: RequestOverrides = {},
+  recentMessages?: readonly PriorMessage[]
+): Promise<ExecutionRecord> {
+  const aiService: AIService = {
+    generateResponse: async () => ({ text: 'Canned answer.', model: 'test-model' }),
+  };
+  const request = createRequest({
+    content: 'What is the status of the build?',
+    channel: { isDirectMessage: true },
+    receivedAt: new Date('2026-01-01T00:00:00Z'),
+    ...overrides,
+  });
+  const result = await MessagePipelineFactory.create({ ...deps, aiService }).execute(request);
+
+  // Round-trip through JSONL like a recording file
+  const execution = createExecutionRecord(result, request, undefined, recentMessages);
+  return parseExecutionRecords(JSON.stringify(execution))[0] as ExecutionRecord;
+}
+
+function stageData(execution: ExecutionRecord, stageName: string): Record<string, unknown> {
+  return execution.stages.find(stage => stage.stageName === stageName)?.data as Record<string, unknown>;
+}
+
+describe('ExecutionReplayer', () => {
+  it('reports no differences when the pipeline behaves as recorded, ignoring timestamps and delivery', async () => {
+    const deps = createPipelineDependencies();
+    const recorded = await record(deps);
+    stageData(recorded, STAGE_NAMES.PERSONA_SELECTION)['timestamp'] = '2000-01-01T00:00:00.000Z';
+    stageData(recorded, STAGE_NAMES.RESPONSE_DELIVERY)['messageIds'] = ['999'];
+
+    const [outcome] = await new ExecutionReplayer(deps).replay([recorded]);
+
+    expect(recorded.success).toBe(true);
+    expect(outcome?.differences).toEqual([]);
+  });
+
+  it('reports changed values with their paths', async () => {
+    const deps = createPipelineDependencies();
+    const recorded = await record(deps);
+    const messages = stageData(recorded, STAGE_NAMES.PROMPT_BUILDING)['messages'] as Array<{ content: string }>;
+    (messages[0] as { content: string }).content = 'an older system prompt';
+
+    const [outcome] = await new ExecutionReplayer(deps).replay([recorded]);
+
+    expect(outcome?.differences).toEqual([expect.objectContaining({
+      path: `${STAGE_NAMES.PROMPT_BUILDING}.messages[0].content`,
+      recorded: 'an older system prompt',
+    })]);
+  });
+
+  it('reports added and removed array entries and outcome changes', async () => {
+    const deps = createPipelineDependencies();
+    const recorded = await record(deps);
+    const formatted = recorded.stages.find(stage => stage.stageName === STAGE_NAMES.RESPONSE_FORMATTING);
+    (formatted as { data: unknown }).data = ['Canned answer.', 'A second chunk.'];
+    recorded.success = false;
+
+    const [outcome] = await new ExecutionReplayer(deps).replay([recorded]);
+
+    expect(outcome?.differences.map(difference => difference.path)).toEqual([
+      'success',
+      `${STAGE_NAMES.RESPONSE_FORMATTING}[1]`,
+    ]);
+    expect(outcome?.differences[1]?.replayed).toBeUndefined();
+  });
+
+  it('replays recorded conversation history', async () => {
+    const deps = createPipelineDependencies();
+    const recentMessages: PriorMessage[] = [
+      { authorId: '222222222222222222', isSelf: false, content: 'Is the build broken?', sentAt: new Date('2026-01-01T00:00:00Z') },
+      { authorId: 'bot', isSelf: true, repliedToUserId: '222222222222222222', content: 'Yes, on main.', sentAt: new Date('2026-01-01T00:00:01Z') },
+    ];
+    const recorded = await record(deps, {
+      content: 'Who broke it?',
+      fetchRecentMessages: async limit => recentMessages.slice(-limit),
+    }, recentMessages);
+
+    const [outcome] = await new ExecutionReplayer(deps).replay([recorded]);
+
+    expect(stageData(recorded, STAGE_NAMES.PROMPT_BUILDING)['messages']).toHaveLength(4);
+    expect(outcome?.differences).toEqual([]);
+  });
+});
@@ -0,0 +1,222 @@
+import { MessagePipelineFactory } from '../MessagePipelineFactory';
+import { STAGE_NAMES } from '../stages/stageNames';
+import { ExecutionRecord, createExecutionRecord } from './ExecutionRecord';
+import { IdentityResolver } from '../../identity/IdentityResolver';
+import { AccessControlList } from '../../access/AccessControlList';
+import { PersonaSelector } from '../../persona/PersonaSelector';
+import { PromptBuilder } from '../../prompts/PromptBuilder';
+import { RecordedAIService } from '../../../services/ai/RecordedAIService';
+import { AIResponse } from '../../../services/ai/AIService';
+import { InboundRequest, PriorMessage } from '../../../types/request.types';
+import { isObject } from '../../../utils/jsonFile';
+import { Logger } from '../../../utils/logger';
+
+/**
+ * Keys whose values legitimately change between runs (timestamps).
+ * Ignored at any depth when comparing stage data.
+ */
+const VOLATILE_KEYS: ReadonlySet<string> = new Set(['timestamp', 'builtAt', 'receivedAt', 'completedAt']);
+
+/**
+ * Stages excluded from comparison.
+ * Delivery returns transport message IDs, which differ on every run;
+ * the delivered text is already covered by the formatting stage.
+ */
+const IGNORED_STAGES: ReadonlySet<string> = new Set([STAGE_NAMES.RESPONSE_DELIVERY]);
+
+/**
+ * A single value that differs between the recorded and replayed execution.
+ */
+export interface ReplayDifference {
+  /**
+   * Location of the value, e.g. 'PromptBuilding.messages[0].content'.
+   */
+  path: string;
+  recorded: unknown;
+  replayed: unknown;
+}
+
+/**
+ * Result of replaying one recorded execution.
+ */
+export interface ReplayOutcome {
+  requestId: string;
+  differences: ReplayDifference[];
+}
+
+/**
+ * Dependencies for the pipeline under test.
+ * The AI service is supplied by the replayer (recorded stub, or none).
+ */
+export interface ReplayDependencies {
+  identityResolver: IdentityResolver;
+  accessControlList: AccessControlList;
+  personaSelector: PersonaSelector;
+  promptBuilder: PromptBuilder;
+  logger: Logger;
+}
+
+/**
+ * Re-runs recorded executions through the current message pipeline
+ * and reports where the results diverge.
+ *
+ * The AI stage answers with the recorded response and delivery is
+ * captured in memory, so replays have no external side effects.
+ * Any difference in persona, context, prompt assembly, formatting,
+ * skipped stages or failures is a potential regression.
+ *
+ * NOT Responsible For:
+ * - Writing recordings (RecordingHook's job)
+ * - Deciding whether a difference is intended (the reviewer's job)
+ */
+export class ExecutionReplayer {
+  private readonly deps: ReplayDependencies;
+
+  constructor(deps: ReplayDependencies) {
+    this.deps = deps;
+  }
+
+  /**
+   * Replay recorded executions in order.
+   *
+   * @param records - Recorded executions
+   * @returns One outcome per record
+   */
+  public async replay(records: ExecutionRecord[]): Promise<ReplayOutcome[]> {
+    const responses = new Map<string, AIResponse>();
+    for (const record of records) {
+      if (record.aiResponse) {
+        responses.set(record.request.id, record.aiResponse);
+      }
+    }
+
+    const withAI = MessagePipelineFactory.create({
+      ...this.deps,
+      aiService: new RecordedAIService(responses),
+    });
+    const withoutAI = MessagePipelineFactory.create(this.deps);
+
+    const outcomes: ReplayOutcome[] = [];
+    for (const record of records) {
+      // Reproduce AI availability: recordings made without AI replay without it
+      const aiUnavailable = record.skippedStages.some(s => s.stage === STAGE_NAMES.AI_INVOCATION);
+      const pipeline = aiUnavailable ? withoutAI : withAI;
+
+      const recentMessages = record.request.recentMessages?.map(message => ({
+        ...message,
+        sentAt: new Date(message.sentAt),
+      }));
+      const request = this.toRequest(record, recentMessages);
+      const result = await pipeline.execute(request);
+      const replayed = createExecutionRecord(result, request, record.request.referencedMessage, recentMessages);
+
+      outcomes.push({
+        requestId: record.request.id,
+        differences: this.compare(record, replayed),
+      });
+    }
+
+    return outcomes;
+  }
+
+  /**
+   * Rebuild an inbound request from its recording.
+   * Sent messages are discarded and given synthetic IDs; conversation
+   * history is served from the recording (none if nothing was recorded).
+   *
+   * @param record - Recorded execution
+   * @param recentMessages - Recorded conversation history, oldest first
+   * @returns Replayable request
+   */
+  private toRequest(record: ExecutionRecord, recentMessages: PriorMessage[] | undefined): InboundRequest {
+    let sent = 0;
+    const capture = async (): Promise<{ id: string }> => ({ id: `replay-${++sent}` });
+    const referencedMessage = record.request.referencedMessage;
+
+    return Object.freeze({
+      id: record.request.id,
+      source: record.request.source,
+      author: record.request.author,
+      channel: record.request.channel,
+      content: record.request.content,
+      attachments: record.request.attachments,
+      receivedAt: new Date(record.request.receivedAt),
+      reply: capture,
+      send: capture,
+      fetchReferencedMessage: async () => referencedMessage,
+      fetchRecentMessages: async (limit: number) => (recentMessages ?? []).slice(-limit),
+    });
+  }
+
+  /**
+   * Compare a recorded execution with its replay.
+   *
+   * @param recorded - Original record
+   * @param replayed - Record produced by the replay
+   * @returns Differences, empty if the executions match
+   */
+  private compare(recorded: ExecutionRecord, replayed: ExecutionRecord): ReplayDifference[] {
+    const differences: ReplayDifference[] = [];
+
+    this.diff('success', recorded.success, replayed.success, differences);
+    this.diff('skippedStages', recorded.skippedStages, replayed.skippedStages, differences);
+    this.diff('halted', recorded.halted, replayed.halted, differences);
+    this.diff(
+      'errors',
+      recorded.errors.map(e => `${e.stage} (${e.kind})`),
+      replayed.errors.map(e => `${e.stage} (${e.kind})`),
+      differences
+    );
+
+    const stageNames = new Set([
+      ...recorded.stages.map(s => s.stageName),
+      ...replayed.stages.map(s => s.stageName),
+    ]);
+
+    for (const stageName of stageNames) {
+      if (IGNORED_STAGES.has(stageName)) {
+        continue;
+      }
+      this.diff(
+        stageName,
+        recorded.stages.find(s => s.stageName === stageName)?.data,
+        replayed.stages.find(s => s.stageName === stageName)?.data,
+        differences
+      );
+    }
+
+    return differences;
+  }
+
+  /**
+   * Recursively collect differences between two JSON values.
+   *
+   * @param path - Path of the values being compared
+   * @param recorded - Recorded value
+   * @param replayed - Replayed value
+   * @param out - Collected differences
+   */
+  private diff(path: string, recorded: unknown, replayed: unknown, out: ReplayDifference[]): void {
+    if (Array.isArray(recorded) && Array.isArray(replayed)) {
+      const length = Math.max(recorded.length, replayed.length);
+      for (let i = 0; i < length; i++) {
+        this.diff(`${path}[${i}]`, recorded[i], replayed[i], out);
+      }
+      return;
+    }
+
+    if (isObject(recorded) && isObject(replayed)) {
+      const keys = new Set([...Object.keys(recorded), ...Object.keys(replayed)]);
+      for (const key of keys) {
+        if (!VOLATILE_KEYS.has(key)) {
+          this.diff(`${path}.${key}`, recorded[key], replayed[key], out);
+        }
+      }
+      return;
+    }
+
+    if (recorded !== replayed) {
+      out.push({ path, recorded, replayed });
+    }
+  }
+}
@@ -0,0 +1,50 @@
+import { PipelineStage, PipelineContext } from '../PipelineStage';
+import { BuiltPrompt } from '../../prompts/PromptBuilder';
+import { AIService, AIResponse } from '../../../services/ai/AIService';
+import { STAGE_NAMES } from './stageNames';
+import { STAGE_KEYS } from './stageKeys';
+
+/**
+ * Pipeline Stage 7: AI Service Invocation
+ * 
+ * Sends the fully-built prompt to the configured AIService.
+ * Provider-agnostic: any AIService implementation can be injected.
+ * Skipped when no AI service is configured (e.g. OPENAI_API_KEY missing).
+ */
+export class AIInvocationStage extends PipelineStage<BuiltPrompt, AIResponse> {
+  private readonly aiService: AIService | undefined;
+
+  /**
+   * @param aiService - AI service, or undefined when AI is unavailable
+   */
+  constructor(aiService: AIService | undefined) {
+    // Paid external call: skipped in dry runs
+    super(STAGE_KEYS.AI_INVOCATION, [STAGE_NAMES.PROMPT_BUILDING], { sideEffects: true });
+    this.aiService = aiService;
+  }
+
+  /**
+   * Skip when no AI service is configured.
+   * 
+   * @param _context - Pipeline context
+   * @returns Skip reason, or undefined when AI is available
+   */
+  public override getSkipReason(_context: PipelineContext): string | undefined {
+    return this.aiService ? undefined : 'AI service unavailable';
+  }
+
+  /**
+   * Generate a response for the built prompt.
+   * 
+   * @param input - Built prompt from the prompt stage
+   * @param context - Pipeline context (its signal cancels the request)
+   * @returns AI response
+   * @throws Error if no AI service is configured
+   */
+  protected async executeStage(input: BuiltPrompt, context: PipelineContext): Promise<AIResponse> {
+    if (!this.aiService) {
+      throw new Error('No AI service configured');
+    }
+    return this.aiService.generateResponse(input, { signal: context.signal });
+  }
+}
@@ -0,0 +1,48 @@
+import { PipelineStage, PipelineContext } from '../PipelineStage';
+import { PipelineHaltError } from '../PipelineErrors';
+import { AccessControlList } from '../../access/AccessControlList';
+import { AccessLogger } from '../../access/AccessLogger';
+import { UserIdentity } from '../../../types/persona.types';
+import { STAGE_NAMES } from './stageNames';
+import { STAGE_KEYS } from './stageKeys';
+
+/**
+ * Pipeline Stage 2: Access Control (MANDATORY)
+ * 
+ * Checks the author against the allowlist / blocklist before any persona
+ * selection or AI spend. Denied requests are audit-logged and the pipeline
+ * is halted, so the user is dropped silently. Allowed requests pass the
+ * identity through unchanged.
+ */
+export class AccessControlStage extends PipelineStage<UserIdentity, UserIdentity> {
+  private readonly acl: AccessControlList;
+  private readonly accessLogger: AccessLogger;
+
+  constructor(acl: AccessControlList, accessLogger: AccessLogger) {
+    super(STAGE_KEYS.ACCESS_CONTROL, [STAGE_NAMES.IDENTITY_RESOLUTION], { mandatory: true });
+    this.acl = acl;
+    this.accessLogger = accessLogger;
+  }
+
+  /**
+   * Enforce the access control list.
+   * 
+   * @param input - Resolved identity from the previous stage
+   * @param context - Pipeline context
+   * @returns The identity, unchanged
+   * @throws PipelineHaltError if access is denied
+   */
+  protected executeStage(input: UserIdentity, context: PipelineContext): UserIdentity {
+    const decision = this.acl.evaluate(input, context.request.channel.id);
+
+    if (!decision.allowed) {
+      // Dry runs (explain) must not add denials to the audit trail
+      if (!context.dryRun) {
+        this.accessLogger.logDenied(decision, input, context.request);
+      }
+      throw new PipelineHaltError(`access denied: ${decision.reason}`);
+    }
+
+    return input;
+  }
+}
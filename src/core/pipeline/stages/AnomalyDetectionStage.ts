@@ -0,0 +1,49 @@
+import { PipelineStage, PipelineContext } from '../PipelineStage';
+import { ImpersonationDetector } from '../../anomaly/ImpersonationDetector';
+import { AnomalyReporter } from '../../anomaly/AnomalyReporter';
+import { PersonaSelection } from '../../../types/persona.types';
+import { STAGE_NAMES } from './stageNames';
+import { STAGE_KEYS } from './stageKeys';
+
+/**
+ * Pipeline Stage 4: Anomaly Detection
+ *
+ * Flags non-owners imitating the owner's name, claiming to be the owner
+ * or asking for butler mode. Detection never changes the outcome: the
+ * persona selection passes through unchanged and the request proceeds.
+ * Flags are reported (log, audit log, optional owner DM) except in dry
+ * runs, which only preview the pipeline.
+ */
+export class AnomalyDetectionStage extends PipelineStage<PersonaSelection, PersonaSelection> {
+  private readonly detector: ImpersonationDetector;
+  private readonly reporter: AnomalyReporter;
+
+  constructor(detector: ImpersonationDetector, reporter: AnomalyReporter) {
+    super(STAGE_KEYS.ANOMALY_DETECTION, [STAGE_NAMES.PERSONA_SELECTION]);
+    this.detector = detector;
+    this.reporter = reporter;
+  }
+
+  /**
+   * Check a non-owner's request and report any flags.
+   * Owners are passed through unchecked (never skipped, so the
+   * selection still reaches the next stage).
+   *
+   * @param input - Persona selection from the previous stage
+   * @param context - Pipeline context
+   * @returns The persona selection, unchanged
+   */
+  protected executeStage(input: PersonaSelection, context: PipelineContext): PersonaSelection {
+    if (input.isOwner) {
+      return input;
+    }
+
+    const flags = this.detector.detect(context.request);
+
+    if (flags.length > 0 && !context.dryRun) {
+      this.reporter.report(flags, input, context.request);
+    }
+
+    return input;
+  }
+}
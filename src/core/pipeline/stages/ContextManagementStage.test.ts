@@ -0,0 +1,114 @@
+import { describe, expect, it } from '@jest/globals';
+import { ContextManagementStage, HISTORY_FETCH_LIMIT } from './ContextManagementStage';
+import { STAGE_NAMES } from './stageNames';
+import { PipelineContext } from '../PipelineStage';
+import { PersonaSelection, PersonaType } from '../../../types/persona.types';
+import { InboundRequest, PriorMessage } from '../../../types/request.types';
+import { RequestOverrides, createRequest, silentLogger } from '../../../testing/fixtures';
+
+const USER_ID = '222222222222222222';
+const OTHER_ID = '333333333333333333';
+const BOT_ID = '444444444444444444';
+
+const selection: PersonaSelection = {
+  persona: PersonaType.SUPERVISOR,
+  reason: 'default',
+  userId: USER_ID,
+  username: 'user',
+  isOwner: false,
+  timestamp: new Date(),
+  messageId: 'msg-1',
+  channelId: 'c1',
+};
+
+function fromUser(content: string, authorId = USER_ID): PriorMessage {
+  return { authorId, isSelf: false, content, sentAt: new Date() };
+}
+
+function fromBot(content: string, repliedToUserId?: string): PriorMessage {
+  return { authorId: BOT_ID, isSelf: true, repliedToUserId, content, sentAt: new Date() };
+}
+
+function createContext(request: InboundRequest): PipelineContext {
+  const context: PipelineContext = {
+    request,
+    stageResults: new Map(),
+    startedAt: new Date(),
+    errors: [],
+    dryRun: false,
+    signal: new AbortController().signal,
+  };
+  context.stageResults.set(STAGE_NAMES.PERSONA_SELECTION, {
+    stageName: STAGE_NAMES.PERSONA_SELECTION,
+    data: selection,
+    completedAt: new Date(),
+  });
+  return context;
+}
+
+async function execute(overrides: RequestOverrides): Promise<unknown> {
+  const request = createRequest({ content: 'What next?', ...overrides });
+  const result = await new ContextManagementStage(silentLogger).execute(selection, createContext(request));
+  return result.data;
+}
+
+async function history(messages: PriorMessage[]): Promise<unknown> {
+  return (await execute({ fetchRecentMessages: async () => messages }) as { history?: unknown } | undefined)?.history;
+}
+
+describe('ContextManagementStage', () => {
+  it('skips one-line greetings', () => {
+    const stage = new ContextManagementStage(silentLogger);
+
+    expect(stage.getSkipReason(createContext(createRequest({ content: 'Hello there!' }))))
+      .toBe('one-line greeting needs no context');
+    expect(stage.getSkipReason(createContext(createRequest({ content: 'Hello\nhow do I deploy?' })))).toBeUndefined();
+  });
+
+  it('keeps the user and the bot replies to them, leaving other users out', async () => {
+    expect(await history([
+      fromUser('How do I build?'),
+      fromUser('unrelated chatter', OTHER_ID),
+      fromBot('Reply to someone else', OTHER_ID),
+      fromBot('Run npm run build.', USER_ID),
+      fromUser('hey', OTHER_ID),
+      fromBot('Broadcast'),
+    ])).toEqual([
+      { role: 'user', content: 'How do I build?' },
+      { role: 'assistant', content: 'Run npm run build.' },
+    ]);
+  });
+
+  it('merges chunks into bot turns only', async () => {
+    expect(await history([fromUser('Explain the pipeline'), fromBot('Part one.', USER_ID), fromBot('Part two.')])).toEqual([
+      { role: 'user', content: 'Explain the pipeline' },
+      { role: 'assistant', content: 'Part one.\nPart two.' },
+    ]);
+    expect(await history([fromUser('Explain the pipeline'), fromBot('', USER_ID), fromBot('Part two.')])).toEqual([
+      { role: 'user', content: 'Explain the pipeline' },
+      { role: 'assistant', content: 'Part two.' },
+    ]);
+  });
+
+  it('summarizes the referenced message and fetches a bounded history', async () => {
+    let limit: number | undefined;
+    const data = await execute({
+      fetchReferencedMessage: async () => ({ authorUsername: 'alice', content: '  Use tabs.  ' }),
+      fetchRecentMessages: async requested => {
+        limit = requested;
+        return [];
+      },
+    });
+
+    expect(limit).toBe(HISTORY_FETCH_LIMIT);
+    expect(data).toEqual({ conversationSummary: 'The user is replying to alice: Use tabs.' });
+  });
+
+  it('continues without context when fetching fails', async () => {
+    const fail = async (): Promise<never> => {
+      throw new Error('missing access');
+    };
+
+    expect(await execute({ fetchReferencedMessage: fail, fetchRecentMessages: fail })).toBeUndefined();
+  });
+});
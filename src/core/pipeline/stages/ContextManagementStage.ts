@@ -0,0 +1,187 @@
+import { PipelineStage, PipelineContext } from '../PipelineStage';
+import { ContextSummary, ConversationTurn } from '../../prompts/PromptBuilder';
+import { PersonaSelection } from '../../../types/persona.types';
+import { InboundRequest, PriorMessage } from '../../../types/request.types';
+import { Logger } from '../../../utils/logger';
+import { STAGE_NAMES } from './stageNames';
+import { STAGE_KEYS } from './stageKeys';
+
+/**
+ * Maximum characters of a referenced message carried into the context block.
+ * Keeps the context pre-summarized as PromptBuilder requires.
+ */
+const MAX_REFERENCE_LENGTH = 1000;
+
+/**
+ * Number of earlier channel messages scanned for conversation history.
+ */
+export const HISTORY_FETCH_LIMIT = 20;
+
+/**
+ * Maximum characters of one prior turn, so a single long message cannot
+ * crowd every other turn out of PromptBuilder's history budget.
+ */
+const MAX_TURN_LENGTH = 1000;
+
+/**
+ * One-line greetings that never need conversation context.
+ */
+const GREETING_PATTERN = /^(hi|hello|hey|yo|sup|hiya|howdy|good (morning|afternoon|evening)|thanks|thank you|ty)( there)?[\s!.,?]*$/i;
+
+/**
+ * Pipeline Stage 5: Context Management
+ * 
+ * Gathers lightweight conversation context for the prompt:
+ * - The message the user replied to, if any (as a context summary)
+ * - Recent conversation history: the user's own earlier messages and the
+ *   bot's replies to them, as prior turns. Other users' messages are left
+ *   out, so a busy channel does not bleed into the conversation.
+ * 
+ * Failure to fetch context is never fatal: the stage logs and
+ * continues without it. Skipped for one-line greetings.
+ */
+export class ContextManagementStage extends PipelineStage<PersonaSelection, ContextSummary | undefined> {
+  private readonly logger: Logger;
+
+  constructor(logger: Logger) {
+    super(STAGE_KEYS.CONTEXT_MANAGEMENT, [STAGE_NAMES.PERSONA_SELECTION]);
+    this.logger = logger;
+  }
+
+  /**
+   * Skip context retrieval for one-line greetings.
+   * 
+   * @param context - Pipeline context
+   * @returns Skip reason for greetings, otherwise undefined
+   */
+  public override getSkipReason(context: PipelineContext): string | undefined {
+    const content = context.request.content.trim();
+    if (!content.includes('\n') && GREETING_PATTERN.test(content)) {
+      return 'one-line greeting needs no context';
+    }
+    return undefined;
+  }
+
+  /**
+   * Build a context summary for the current request.
+   * 
+   * @param _input - Persona selection from the previous stage
+   * @param context - Pipeline context
+   * @returns Context summary, or undefined when no context is available
+   */
+  protected async executeStage(
+    _input: PersonaSelection,
+    context: PipelineContext
+  ): Promise<ContextSummary | undefined> {
+    const request = context.request;
+    const [conversationSummary, history] = await Promise.all([
+      this.fetchReferenceSummary(request),
+      this.fetchHistory(request),
+    ]);
+
+    if (conversationSummary === undefined && history.length === 0) {
+      return undefined;
+    }
+
+    const summary: ContextSummary = {};
+    if (conversationSummary !== undefined) {
+      summary.conversationSummary = conversationSummary;
+    }
+    if (history.length > 0) {
+      summary.history = history;
+    }
+    return summary;
+  }
+
+  /**
+   * Summarize the message the request replies to.
+   * 
+   * @param request - Inbound request
+   * @returns Summary line, or undefined if there is no (non-empty) reference
+   */
+  private async fetchReferenceSummary(request: InboundRequest): Promise<string | undefined> {
+    if (!request.fetchReferencedMessage) {
+      return undefined;
+    }
+
+    try {
+      const referenced = await request.fetchReferencedMessage();
+      const content = referenced?.content.trim() ?? '';
+
+      if (!referenced || content.length === 0) {
+        return undefined;
+      }
+
+      return `The user is replying to ${referenced.authorUsername}: ${truncate(content, MAX_REFERENCE_LENGTH)}`;
+    } catch (error) {
+      this.logger.warn('Failed to fetch referenced message for context', {
+        requestId: request.id,
+        error: (error as Error).message,
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * Collect the user's recent exchange with the bot as prior turns.
+   * 
+   * @param request - Inbound request
+   * @returns Prior turns, oldest first (empty if unavailable)
+   */
+  private async fetchHistory(request: InboundRequest): Promise<ConversationTurn[]> {
+    if (!request.fetchRecentMessages) {
+      return [];
+    }
+
+    let messages: PriorMessage[];
+    try {
+      messages = await request.fetchRecentMessages(HISTORY_FETCH_LIMIT);
+    } catch (error) {
+      this.logger.warn('Failed to fetch conversation history for context', {
+        requestId: request.id,
+        error: (error as Error).message,
+      });
+      return [];
+    }
+
+    const turns: ConversationTurn[] = [];
+    let previous: 'user' | 'assistant' | 'other' = 'other';
+
+    for (const message of messages) {
+      const content = message.content.trim();
+      let role: 'user' | 'assistant' | 'other' = 'other';
+
+      if (message.authorId === request.author.id && !message.isSelf) {
+        role = 'user';
+      } else if (message.isSelf) {
+        // A reply to the user, or a follow-up chunk of one (sent without a reply reference)
+        const repliesToUser: boolean = message.repliedToUserId === request.author.id;
+        const continuesReply: boolean = message.repliedToUserId === undefined && previous === 'assistant';
+        role = repliesToUser || continuesReply ? 'assistant' : 'other';
+      }
+
+      const last = turns[turns.length - 1];
+      // An empty bot message is never pushed, so check the last turn itself
+      if (role === 'assistant' && previous === 'assistant' && last?.role === 'assistant') {
+        // Merge a chunked reply back into one turn
+        last.content = truncate(`${last.content}\n${content}`, MAX_TURN_LENGTH);
+      } else if (role !== 'other' && content.length > 0) {
+        turns.push({ role, content: truncate(content, MAX_TURN_LENGTH) });
+      }
+      previous = role;
+    }
+
+    return turns;
+  }
+}
+
+/**
+ * Cut text to a maximum length, marking the cut with an ellipsis.
+ * 
+ * @param text - Text to shorten
+ * @param maxLength - Maximum length before the ellipsis
+ * @returns Text of at most maxLength characters plus the ellipsis
+ */
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength)}…` : text;
+}
@@ -0,0 +1,38 @@
+import { PipelineStage, PipelineContext } from '../PipelineStage';
+import { IdentityResolver } from '../../identity/IdentityResolver';
+import { UserIdentity } from '../../../types/persona.types';
+import { InboundRequest } from '../../../types/request.types';
+import { STAGE_KEYS } from './stageKeys';
+
+/**
+ * Pipeline Stage 1: Identity Resolution
+ * 
+ * Extracts an immutable user identity from the triggering request.
+ * Rejects bot authors so no downstream stage ever processes bot traffic.
+ */
+export class IdentityResolutionStage extends PipelineStage<InboundRequest, UserIdentity> {
+  private readonly identityResolver: IdentityResolver;
+
+  constructor(identityResolver: IdentityResolver) {
+    super(STAGE_KEYS.IDENTITY_RESOLUTION);
+    this.identityResolver = identityResolver;
+  }
+
+  /**
+   * Resolve identity of the request author.
+   * 
+   * @param input - Inbound request (pipeline input)
+   * @param _context - Pipeline context
+   * @returns Immutable user identity
+   * @throws Error if the author is not a valid human user
+   */
+  protected executeStage(input: InboundRequest, _context: PipelineContext): UserIdentity {
+    const identity = this.identityResolver.resolveIdentity(input);
+
+    if (!this.identityResolver.isValidUser(identity)) {
+      throw new Error('Identity resolution rejected non-human author');
+    }
+
+    return identity;
+  }
+}
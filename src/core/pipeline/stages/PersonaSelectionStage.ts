@@ -0,0 +1,51 @@
+import { PipelineStage, PipelineContext } from '../PipelineStage';
+import { PipelineHaltError } from '../PipelineErrors';
+import { PersonaSelector } from '../../persona/PersonaSelector';
+import { PersonaSelection, UserIdentity } from '../../../types/persona.types';
+import { STAGE_NAMES } from './stageNames';
+import { STAGE_KEYS } from './stageKeys';
+
+/**
+ * Pipeline Stage 3: Persona Selection (MANDATORY)
+ * 
+ * Delegates to PersonaSelector, which performs the owner check and
+ * writes the audit log entry (dry runs are kept out of the audit log).
+ * This stage must complete before prompt building;
+ * Pipeline.validatePersonaOrdering enforces that.
+ * Declared mandatory: the pipeline fails rather than skip it.
+ * 
+ * If persona policy disables the bot for the channel or guild, the
+ * (already audit-logged) selection halts the pipeline: no reply is sent.
+ */
+export class PersonaSelectionStage extends PipelineStage<UserIdentity, PersonaSelection> {
+  private readonly personaSelector: PersonaSelector;
+
+  constructor(personaSelector: PersonaSelector) {
+    super(
+      STAGE_KEYS.PERSONA_SELECTION,
+      [STAGE_NAMES.IDENTITY_RESOLUTION, STAGE_NAMES.ACCESS_CONTROL],
+      { mandatory: true }
+    );
+    this.personaSelector = personaSelector;
+  }
+
+  /**
+   * Select persona for the request author.
+   * 
+   * @param _input - Identity that passed access control
+   * @param context - Pipeline context
+   * @returns Immutable persona selection
+   * @throws PipelineHaltError if persona policy disables the bot here
+   */
+  protected executeStage(_input: UserIdentity, context: PipelineContext): PersonaSelection {
+    const selection = this.personaSelector.selectPersona(context.request, context.dryRun);
+
+    if (selection.reason === 'disabled' && selection.policyRule) {
+      throw new PipelineHaltError(
+        `persona policy: bot disabled in ${selection.policyRule.scope} ${selection.policyRule.id}`
+      );
+    }
+
+    return selection;
+  }
+}
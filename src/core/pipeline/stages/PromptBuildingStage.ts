@@ -0,0 +1,47 @@
+import { PipelineStage, PipelineContext } from '../PipelineStage';
+import { PromptBuilder, ContextSummary, BuiltPrompt } from '../../prompts/PromptBuilder';
+import { STAGE_NAMES } from './stageNames';
+import { STAGE_KEYS } from './stageKeys';
+
+/**
+ * Pipeline Stage 6: Prompt Building
+ * 
+ * Reads the PersonaSelection from the persona stage (never from the input)
+ * so the selected persona always comes from the audited decision.
+ * Depends on context management so DAG scheduling hands it the context summary;
+ * that dependency is optional, so a skipped context stage means "no context"
+ * (and no conversation history).
+ */
+export class PromptBuildingStage extends PipelineStage<ContextSummary | undefined, BuiltPrompt> {
+  private readonly promptBuilder: PromptBuilder;
+
+  constructor(promptBuilder: PromptBuilder) {
+    super(
+      STAGE_KEYS.PROMPT_BUILDING,
+      [STAGE_NAMES.PERSONA_SELECTION, STAGE_NAMES.CONTEXT_MANAGEMENT],
+      { optionalDependencies: [STAGE_NAMES.CONTEXT_MANAGEMENT] }
+    );
+    this.promptBuilder = promptBuilder;
+  }
+
+  /**
+   * Build and validate the LLM prompt.
+   * 
+   * @param input - Context summary from the context stage (optional)
+   * @param context - Pipeline context
+   * @returns Validated prompt payload
+   */
+  protected executeStage(
+    input: ContextSummary | undefined,
+    context: PipelineContext
+  ): BuiltPrompt {
+    const personaSelection = this.getStageResult(context, STAGE_KEYS.PERSONA_SELECTION);
+
+    return this.promptBuilder.buildAndValidate({
+      personaSelection,
+      userMessage: context.request.content,
+      context: input,
+      history: input?.history,
+    });
+  }
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from '@jest/globals';
+import { ResponseDeliveryStage } from './ResponseDeliveryStage';
+import { STAGE_NAMES } from './stageNames';
+import { PipelineContext } from '../PipelineStage';
+import { InboundRequest } from '../../../types/request.types';
+import { createRequest } from '../../../testing/fixtures';
+
+/**
+ * Send function that records what it sent and fails from the given call on.
+ */
+function recordingSend(failFromCall = Infinity): { send: InboundRequest['send']; sent: string[] } {
+  const sent: string[] = [];
+  let calls = 0;
+  const send = async (content: string): Promise<{ id: string }> => {
+    if (++calls >= failFromCall) {
+      throw new Error('send failed');
+    }
+    sent.push(content);
+    return { id: `m${sent.length}` };
+  };
+  return { send, sent };
+}
+
+function createContext(request: InboundRequest): PipelineContext {
+  const context: PipelineContext = {
+    request,
+    stageResults: new Map(),
+    startedAt: new Date(),
+    errors: [],
+    dryRun: false,
+    signal: new AbortController().signal,
+  };
+  context.stageResults.set(STAGE_NAMES.RESPONSE_FORMATTING, {
+    stageName: STAGE_NAMES.RESPONSE_FORMATTING,
+    data: [],
+    completedAt: new Date(),
+  });
+  return context;
+}
+
+describe('ResponseDeliveryStage', () => {
+  it('replies with the first chunk and sends the rest', async () => {
+    const { send, sent } = recordingSend();
+    const request = createRequest({ reply: send, send });
+
+    const result = await new ResponseDeliveryStage().execute(['a', 'b', 'c'], createContext(request));
+
+    expect(sent).toEqual(['a', 'b', 'c']);
+    expect(result.data.messageIds).toEqual(['m1', 'm2', 'm3']);
+  });
+
+  it('tracks chunks sent before a failure and resumes after them', async () => {
+    const first = recordingSend(3);
+    const request = createRequest({ reply: first.send, send: first.send });
+    const stage = new ResponseDeliveryStage();
+    const context = createContext(request);
+
+    expect(stage.getDeliveredMessageIds(request)).toEqual([]);
+    await expect(stage.execute(['a', 'b', 'c'], context)).rejects.toThrow();
+    expect(stage.getDeliveredMessageIds(request)).toEqual(['m1', 'm2']);
+
+    // The retry must not repeat the chunks already delivered
+    const retry = recordingSend();
+    Object.assign(request, { send: retry.send });
+    const result = await stage.execute(['a', 'b', 'c'], context);
+
+    expect(first.sent).toEqual(['a', 'b']);
+    expect(retry.sent).toEqual(['c']);
+    expect(result.data.messageIds).toHaveLength(3);
+  });
+});
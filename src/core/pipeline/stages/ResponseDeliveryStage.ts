@@ -0,0 +1,76 @@
+import { PipelineStage, PipelineContext } from '../PipelineStage';
+import { InboundRequest } from '../../../types/request.types';
+import { STAGE_NAMES } from './stageNames';
+import { STAGE_KEYS } from './stageKeys';
+
+/**
+ * Outcome of delivering a response to the requester.
+ */
+export interface DeliveryReceipt {
+  /**
+   * IDs of the messages that were sent, in send order.
+   */
+  messageIds: string[];
+}
+
+/**
+ * Pipeline Stage 9: Response Delivery
+ * 
+ * Posts formatted chunks back through the request's front end. The first
+ * chunk is sent as a reply to the request; any further chunks follow in the
+ * same conversation. This is the only stage with user-visible side effects.
+ * 
+ * Safe to retry: chunks already sent for a request are not sent again.
+ */
+export class ResponseDeliveryStage extends PipelineStage<string[], DeliveryReceipt> {
+  /**
+   * IDs of chunks already delivered per triggering request.
+   * Weakly keyed so entries disappear with the request object.
+   */
+  private readonly delivered: WeakMap<InboundRequest, string[]> = new WeakMap();
+
+  constructor() {
+    super(STAGE_KEYS.RESPONSE_DELIVERY, [STAGE_NAMES.RESPONSE_FORMATTING], { sideEffects: true });
+  }
+
+  /**
+   * Send message chunks to the requester.
+   * 
+   * @param input - Formatted message chunks
+   * @param context - Pipeline context
+   * @returns Receipt with sent message IDs
+   */
+  protected async executeStage(input: string[], context: PipelineContext): Promise<DeliveryReceipt> {
+    const request = context.request;
+    const messageIds = this.delivered.get(request) ?? [];
+    this.delivered.set(request, messageIds);
+
+    // Resume after the last chunk delivered by a previous attempt
+    for (const [index, chunk] of input.entries()) {
+      if (index < messageIds.length) {
+        continue;
+      }
+
+      // Never start a new send once the deadline has passed
+      context.signal.throwIfAborted();
+
+      const sent = index === 0
+        ? await request.reply(chunk)
+        : await request.send(chunk);
+      messageIds.push(sent.id);
+    }
+
+    return { messageIds };
+  }
+
+  /**
+   * IDs of the chunks delivered so far for a request, including those
+   * sent by attempts that later failed.
+   * 
+   * @param request - Triggering request
+   * @returns Sent message IDs in send order (empty if nothing was sent)
+   */
+  public getDeliveredMessageIds(request: InboundRequest): readonly string[] {
+    return [...(this.delivered.get(request) ?? [])];
+  }
+}
@@ -0,0 +1,52 @@
+import { PipelineStage, PipelineContext } from '../PipelineStage';
+import { AIResponse } from '../../../services/ai/AIService';
+import { chunkMessage, DISCORD_MESSAGE_LIMIT } from '../../../utils/messageChunker';
+import { STAGE_NAMES } from './stageNames';
+import { STAGE_KEYS } from './stageKeys';
+
+/**
+ * Fallback message sent when the AI stage was skipped (AI unavailable).
+ * Exact text as specified in requirements.
+ */
+export const FALLBACK_MESSAGE = 'ACE Prime is online. AI responses are currently disabled.';
+
+/**
+ * Pipeline Stage 8: Response Formatting
+ * 
+ * Converts raw AI output into Discord-sized message chunks.
+ * If the AI stage was skipped, formats the fallback message instead.
+ * Performs no I/O; delivery is handled by the next stage.
+ */
+export class ResponseFormattingStage extends PipelineStage<AIResponse | undefined, string[]> {
+  constructor() {
+    super(STAGE_KEYS.RESPONSE_FORMATTING, [STAGE_NAMES.AI_INVOCATION], {
+      optionalDependencies: [STAGE_NAMES.AI_INVOCATION],
+    });
+  }
+
+  /**
+   * Format AI response text for Discord.
+   * 
+   * @param input - AI response from the invocation stage (undefined if skipped)
+   * @param context - Pipeline context
+   * @returns Message chunks in send order
+   * @throws Error if there is no response or it has no content to send
+   */
+  protected executeStage(input: AIResponse | undefined, context: PipelineContext): string[] {
+    if (this.wasSkipped(context, STAGE_NAMES.AI_INVOCATION)) {
+      return [FALLBACK_MESSAGE];
+    }
+
+    if (!input) {
+      throw new Error('No AI response to format');
+    }
+
+    const text = input.text.trim();
+
+    if (text.length === 0) {
+      throw new Error('AI response is empty after formatting');
+    }
+
+    return chunkMessage(text, DISCORD_MESSAGE_LIMIT);
+  }
+}
@@ -0,0 +1,25 @@
+import { stageKey } from '../StageKey';
+import { STAGE_NAMES } from './stageNames';
+import type { DeliveryReceipt } from './ResponseDeliveryStage';
+import type { BuiltPrompt, ContextSummary } from '../../prompts/PromptBuilder';
+import type { AIResponse } from '../../../services/ai/AIService';
+import type { PersonaSelection, UserIdentity } from '../../../types/persona.types';
+
+/**
+ * Typed keys for the ACE Prime message pipeline stages.
+ * Each key is the stage name plus the type of data the stage produces.
+ * 
+ * Stages pass their key to the PipelineStage constructor, so a key whose
+ * type disagrees with the stage's output is a compile error.
+ */
+export const STAGE_KEYS = Object.freeze({
+  IDENTITY_RESOLUTION: stageKey<UserIdentity>(STAGE_NAMES.IDENTITY_RESOLUTION),
+  ACCESS_CONTROL: stageKey<UserIdentity>(STAGE_NAMES.ACCESS_CONTROL),
+  PERSONA_SELECTION: stageKey<PersonaSelection>(STAGE_NAMES.PERSONA_SELECTION),
+  ANOMALY_DETECTION: stageKey<PersonaSelection>(STAGE_NAMES.ANOMALY_DETECTION),
+  CONTEXT_MANAGEMENT: stageKey<ContextSummary | undefined>(STAGE_NAMES.CONTEXT_MANAGEMENT),
+  PROMPT_BUILDING: stageKey<BuiltPrompt>(STAGE_NAMES.PROMPT_BUILDING),
+  AI_INVOCATION: stageKey<AIResponse>(STAGE_NAMES.AI_INVOCATION),
+  RESPONSE_FORMATTING: stageKey<string[]>(STAGE_NAMES.RESPONSE_FORMATTING),
+  RESPONSE_DELIVERY: stageKey<DeliveryReceipt>(STAGE_NAMES.RESPONSE_DELIVERY),
+});
@@ -0,0 +1,18 @@
+/**
+ * Canonical stage names for the ACE Prime message pipeline.
+ * Used for stage registration, dependency declarations and ordering validation.
+ */
+export const STAGE_NAMES = Object.freeze({
+  IDENTITY_RESOLUTION: 'IdentityResolution',
+  ACCESS_CONTROL: 'AccessControl',
+  PERSONA_SELECTION: 'PersonaSelection',
+  ANOMALY_DETECTION: 'AnomalyDetection',
+  CONTEXT_MANAGEMENT: 'ContextManagement',
+  PROMPT_BUILDING: 'PromptBuilding',
+  AI_INVOCATION: 'AIInvocation',
+  RESPONSE_FORMATTING: 'ResponseFormatting',
+  RESPONSE_DELIVERY: 'ResponseDelivery',
+} as const);
+
+// Type-safe access
+export type StageName = typeof STAGE_NAMES[keyof typeof STAGE_NAMES];
@@ -0,0 +1,215 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PromptBuilder, PromptBuilderOptions } from './PromptBuilder';
+import { PromptLoader } from './PromptLoader';
+import { PersonaRegistry } from '../persona/PersonaRegistry';
+import { PersonaDefinition, PersonaId, PersonaSelection, PersonaType } from '../../types/persona.types';
+import { silentLogger } from '../../testing/fixtures';
+
+const REVIEWER: PersonaDefinition = {
+  id: 'REVIEWER',
+  description: 'Code reviewer',
+  systemPromptFile: 'reviewer.system.md',
+  priority: 1,
+  match: { guildIds: ['333333333333333333'] },
+  model: { temperature: 0.1 },
+};
+
+const CONCISE: PersonaDefinition = {
+  id: 'CONCISE',
+  description: 'Short answers',
+  systemPromptFile: 'reviewer.system.md',
+  priority: 0,
+  match: { channelIds: ['c2'] },
+  model: { maxTokens: 500 },
+};
+
+function selection(persona: PersonaId = PersonaType.SUPERVISOR): PersonaSelection {
+  return {
+    persona,
+    reason: 'default',
+    userId: '222222222222222222',
+    username: 'user',
+    isOwner: false,
+    timestamp: new Date('2026-01-01T00:00:00Z'),
+    messageId: 'msg-1',
+    channelId: 'c1',
+  };
+}
+
+describe('PromptBuilder', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'builder-'));
+    write('supervisor.system.md', '---\nversion: 2.0.0\nmodel: gpt-4o\ntemperature: 0.7\n---\nYou are a technical supervisor.');
+    write('developer.md', 'You reason step by step.');
+    write('reviewer.system.md', '---\ntemperature: 0.9\n---\nYou review code carefully.');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function write(file: string, content: string): void {
+    fs.writeFileSync(path.join(dir, file), content);
+  }
+
+  function createBuilder(options: PromptBuilderOptions = {}): PromptBuilder {
+    const loader = new PromptLoader({ logger: silentLogger, promptsDirectory: dir, enableHotReload: false });
+    return new PromptBuilder(loader, silentLogger, new PersonaRegistry([REVIEWER, CONCISE]), options);
+  }
+
+  describe('prompt versions', () => {
+    it('stamps the version and hash of each prompt file and strips front-matter', () => {
+      const built = createBuilder().build({ personaSelection: selection(), userMessage: 'hello' });
+
+      expect(built.metadata.promptVersions).toEqual([
+        { file: 'supervisor.system.md', version: '2.0.0', hash: expect.stringMatching(/^[0-9a-f]{12}$/) },
+        { file: 'developer.md', version: 'unversioned', hash: expect.stringMatching(/^[0-9a-f]{12}$/) },
+      ]);
+      expect(built.messages[0]?.content).toBe('You are a technical supervisor.\n\nYou reason step by step.');
+    });
+
+    it('uses front-matter model hints, overridden by persona settings', () => {
+      const builder = createBuilder();
+
+      expect(builder.build({ personaSelection: selection(), userMessage: 'hello' }).metadata.modelSettings)
+        .toEqual({ model: 'gpt-4o', temperature: 0.7 });
+      expect(builder.build({ personaSelection: selection('REVIEWER'), userMessage: 'hello' }).metadata.modelSettings)
+        .toEqual({ temperature: 0.1 });
+    });
+  });
+
+  describe('variables', () => {
+    it('fills placeholders in prompt files but never in the context or user message', () => {
+      write('developer.md', 'You serve {{ GUILD_NAME }} as {{PERSONA}}.');
+
+      const built = createBuilder().build({
+        personaSelection: { ...selection(), guildName: 'Dev Team' },
+        userMessage: 'What is {{PERSONA}}?',
+        context: { projectContext: 'Uses {{BOT_NAME}}' },
+      });
+
+      expect(built.messages[0]?.content).toContain('You serve Dev Team as SUPERVISOR.');
+      expect(built.messages[0]?.content).toContain('Uses {{BOT_NAME}}');
+      expect(built.messages[1]?.content).toBe('What is {{PERSONA}}?');
+    });
+
+    it('refuses prompt files with unknown placeholders', () => {
+      write('developer.md', 'You greet {{USERNAME}} by name.');
+
+      expect(() => createBuilder().build({ personaSelection: selection(), userMessage: 'hello' }))
+        .toThrow(/Unknown placeholder\(s\) \{\{USERNAME\}\}/);
+    });
+  });
+
+  describe('history', () => {
+    it('places prior turns between the system message and the user message', () => {
+      const built = createBuilder().build({
+        personaSelection: selection(),
+        userMessage: 'And now?',
+        history: [
+          { role: 'user', content: 'First question' },
+          { role: 'assistant', content: '   ' },
+          { role: 'assistant', content: 'First answer' },
+        ],
+      });
+
+      expect(built.messages.map(message => message.role)).toEqual(['system', 'user', 'assistant', 'user']);
+      expect(built.metadata.historyTurns).toBe(2);
+    });
+
+    it('drops the oldest turns beyond the history budget', () => {
+      const turn = 'word '.repeat(40);
+      const built = createBuilder({ historyTokenBudget: 100 }).build({
+        personaSelection: selection(),
+        userMessage: 'And now?',
+        history: [
+          { role: 'user', content: `oldest ${turn}` },
+          { role: 'assistant', content: `middle ${turn}` },
+          { role: 'user', content: `newest ${turn}` },
+        ],
+      });
+
+      expect(built.messages.slice(1, -1).map(message => message.content.split(' ')[0])).toEqual(['middle', 'newest']);
+      expect(built.metadata.droppedHistoryTurns).toBe(1);
+    });
+
+    it('does not count history alone as context', () => {
+      const builder = createBuilder();
+      const history = [{ role: 'user' as const, content: 'Earlier question' }];
+
+      expect(builder.build({ personaSelection: selection(), userMessage: 'hi', history }).metadata.hasContext).toBe(false);
+      expect(builder.build({
+        personaSelection: selection(),
+        userMessage: 'hi',
+        history,
+        context: { projectContext: 'A TypeScript bot' },
+      }).metadata.hasContext).toBe(true);
+    });
+  });
+
+  describe('token budget', () => {
+    /**
+     * Builder whose prompts get a budget of 200 tokens (gpt-4: 8192 minus the
+     * reserve). Use REVIEWER: the supervisor prompt names a larger model.
+     */
+    function tightBuilder(): PromptBuilder {
+      return createBuilder({ defaultModel: 'gpt-4', completionReserveTokens: 8192 - 200 });
+    }
+
+    it('reports token usage against the model budget', () => {
+      const built = createBuilder({ defaultModel: 'gpt-4', completionReserveTokens: 1000 })
+        .build({ personaSelection: selection('REVIEWER'), userMessage: 'hello' });
+
+      expect(built.metadata.tokens).toMatchObject({ model: 'gpt-4', contextWindow: 8192, budget: 7192 });
+      const { sections, total } = built.metadata.tokens;
+      expect(sections.system + sections.developer + sections.context + sections.history + sections.user + sections.overhead)
+        .toBe(total);
+      expect(createBuilder({ defaultModel: 'gpt-4' }).build({ personaSelection: selection('CONCISE'), userMessage: 'hello' })
+        .metadata.tokens.budget).toBe(8192 - 500);
+    });
+
+    it('trims the least important context first until the prompt fits', () => {
+      const built = tightBuilder().build({
+        personaSelection: selection('REVIEWER'),
+        userMessage: 'hello',
+        context: {
+          conversationSummary: 'The user is replying to alice: ship it.',
+          projectContext: 'word '.repeat(300),
+          additionalContext: { first: 'alpha '.repeat(100), second: 'beta '.repeat(100) },
+        },
+      });
+
+      expect(built.metadata.contextTrims.map(trim => `${trim.section}: ${trim.action}`)).toEqual([
+        'additionalContext.second: dropped',
+        'additionalContext.first: dropped',
+        'projectContext: truncated',
+      ]);
+      expect(built.metadata.tokens.total).toBeLessThanOrEqual(200);
+      expect(built.messages[0]?.content).toContain('ship it.');
+    });
+
+    it('drops the oldest turns when history does not fit', () => {
+      const built = tightBuilder().build({
+        personaSelection: selection('REVIEWER'),
+        userMessage: 'hello',
+        history: [
+          { role: 'user', content: `oldest ${'word '.repeat(200)}` },
+          { role: 'assistant', content: 'newest answer' },
+        ],
+      });
+
+      expect(built.messages.map(message => message.content)).toEqual([expect.any(String), 'newest answer', 'hello']);
+      expect(built.metadata.contextTrims).toMatchObject([{ section: 'history', action: 'dropped' }]);
+    });
+
+    it('fails when the prompt does not fit without context', () => {
+      expect(() => tightBuilder().build({ personaSelection: selection('REVIEWER'), userMessage: 'word '.repeat(300) }))
+        .toThrow(/Prompt needs about \d+ tokens without context but the budget is 200/);
+    });
+  });
+});
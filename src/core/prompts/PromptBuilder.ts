@@ -1,5 +1,12 @@
-import { PersonaSelection, PersonaType } from '../../types/persona.types';
-import { PromptLoader, PromptType } from './PromptLoader';
+import { PersonaId, PersonaModelSettings, PersonaSelection } from '../../types/persona.types';
+import { PersonaRegistry } from '../persona/PersonaRegistry';
+import { CONTROL_VARIANT, PromptExperiments } from '../experiments/PromptExperiments';
+import { PromptFile, PromptLoader, PromptType } from './PromptLoader';
+import { PromptVariable, interpolatePrompt, resolvePromptVariables } from './PromptVariables';
+import { countMessageTokens, countTokens, truncateToTokens } from './TokenCounter';
+import { getContextWindow } from '../../config/modelLimits';
+import { ExperimentAssignment } from '../../types/experiment.types';
+import { LoadedPrompt } from '../../types/prompt.types';
 import { Logger } from '../../utils/logger';
 
 /**
@@ -11,6 +18,72 @@ export interface LLMMessage {
   content: string;
 }
 
+/**
+ * Default token budget for prior conversation turns (estimated tokens).
+ */
+export const DEFAULT_HISTORY_TOKEN_BUDGET = 2000;
+
+/**
+ * Default tokens kept free for the completion when the model settings
+ * declare no maxTokens.
+ */
+export const DEFAULT_COMPLETION_RESERVE_TOKENS = 1000;
+
+/**
+ * A context section cut shorter than this (estimated tokens) is dropped
+ * instead: a stub of a few words is noise, not context.
+ */
+const MIN_TRIMMED_SECTION_TOKENS = 32;
+
+/**
+ * Context trimmed when a prompt exceeds its token budget, least important
+ * first: additional context entries (last entry first), then the oldest
+ * prior turns, then the summary sections. Trimming stops once the prompt fits.
+ */
+const CONTEXT_TRIM_ORDER = [
+  'additionalContext',
+  'history',
+  'userPreferences',
+  'projectContext',
+  'conversationSummary',
+] as const;
+
+/**
+ * PromptBuilder tuning.
+ */
+export interface PromptBuilderOptions {
+  /**
+   * Maximum estimated tokens of prior turns. Defaults to DEFAULT_HISTORY_TOKEN_BUDGET.
+   */
+  historyTokenBudget?: number;
+
+  /**
+   * Tokens kept free for the completion when the model settings declare
+   * no maxTokens. Defaults to DEFAULT_COMPLETION_RESERVE_TOKENS.
+   */
+  completionReserveTokens?: number;
+
+  /**
+   * Model assumed when neither the persona nor the system prompt names one.
+   * Defaults to OPENAI_MODEL, then 'gpt-4' (as OpenAIWrapper does).
+   */
+  defaultModel?: string;
+
+  /**
+   * Running prompt experiments. Without them every request gets the
+   * prompt files themselves.
+   */
+  experiments?: PromptExperiments;
+}
+
+/**
+ * A prior message in the conversation, sent to the LLM as its own message.
+ */
+export interface ConversationTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
 /**
  * Context summary to be injected into prompts.
  * Must be pre-summarized before reaching PromptBuilder.
@@ -35,6 +108,13 @@ export interface ContextSummary {
    * Any additional context as key-value pairs.
    */
   additionalContext?: Record<string, string>;
+
+  /**
+   * Prior conversation turns, oldest first.
+   * Passed to PromptBuilder as PromptBuildInput.history, not rendered
+   * into the context block.
+   */
+  history?: ConversationTurn[];
 }
 
 /**
@@ -58,6 +138,153 @@ export interface PromptBuildInput {
    * If provided, must already be summarized to fit token limits.
    */
   context?: ContextSummary;
+
+  /**
+   * Prior user/assistant turns, oldest first (optional).
+   * Placed between the system message and the user message; the oldest
+   * turns are dropped when they exceed the history token budget.
+   */
+  history?: readonly ConversationTurn[];
+}
+
+/**
+ * One component of the assembled system message, in assembly order.
+ */
+export interface PromptSection {
+  /**
+   * Which part of the system message this is.
+   */
+  name: 'system' | 'developer' | 'context';
+
+  /**
+   * Where the text came from: a prompt file, or 'context' for the context block.
+   */
+  source: string;
+
+  /**
+   * Length of the section text in characters (after variable interpolation).
+   */
+  length: number;
+
+  /**
+   * Estimated tokens of the section text.
+   */
+  tokens: number;
+
+  /**
+   * Front-matter version of the prompt file, if declared (prompt files only).
+   */
+  version?: string;
+
+  /**
+   * Content hash of the prompt file (prompt files only).
+   */
+  hash?: string;
+
+  /**
+   * Files the prompt was composed from, in resolution order (prompt files only).
+   */
+  layers?: string[];
+
+  /**
+   * Experiment variant used instead of the prompt file, if any (prompt files only).
+   */
+  variant?: string;
+}
+
+/**
+ * Revision of one prompt file used in a built prompt.
+ */
+export interface PromptVersionStamp {
+  file: PromptFile;
+
+  /**
+   * Front-matter version, or 'unversioned' if the file declares none.
+   */
+  version: string;
+
+  hash: string;
+
+  /**
+   * Experiment variant used instead of the file, if any.
+   */
+  variant?: string;
+}
+
+/**
+ * A context section cut or removed to fit the token budget.
+ */
+export interface ContextTrim {
+  /**
+   * 'history', a ContextSummary field, or 'additionalContext.<key>'.
+   */
+  section: string;
+
+  action: 'truncated' | 'dropped';
+  tokensBefore: number;
+  tokensAfter: number;
+}
+
+/**
+ * Estimated token usage of a built prompt and the budget it was fitted to.
+ */
+export interface PromptTokenReport {
+  model: string;
+  contextWindow: number;
+
+  /**
+   * Tokens kept free for the completion.
+   */
+  completionReserve: number;
+
+  /**
+   * Tokens available to the prompt: contextWindow - completionReserve.
+   */
+  budget: number;
+
+  /**
+   * Estimated tokens of all messages, including formatting overhead.
+   */
+  total: number;
+
+  /**
+   * Estimated tokens per part. 'overhead' covers message formatting and
+   * the separators inside the system message.
+   */
+  sections: {
+    system: number;
+    developer: number;
+    context: number;
+    history: number;
+    user: number;
+    overhead: number;
+  };
+}
+
+/**
+ * A loaded prompt file and its interpolated text.
+ */
+interface PromptPart {
+  prompt: LoadedPrompt;
+  text: string;
+}
+
+/**
+ * Assembled system message and how it was composed.
+ */
+interface AssembledSystemMessage {
+  content: string;
+  composition: PromptSection[];
+}
+
+/**
+ * Context and prior turns that fit the token budget.
+ */
+interface FittedContext {
+  context?: ContextSummary;
+  turns: LLMMessage[];
+  droppedTurns: number;
+  trims: ContextTrim[];
 }
 
 /**
@@ -73,11 +300,42 @@ export interface BuiltPrompt {
    * Metadata about the built prompt.
    */
   metadata: {
-    persona: PersonaType;
+    persona: PersonaId;
+    /**
+     * Model settings: the system prompt's front-matter hints, overridden
+     * by the persona's own settings. Undefined if neither declares any.
+     */
+    modelSettings?: PersonaModelSettings;
+    /**
+     * Revisions of the prompt files used, in assembly order.
+     */
+    promptVersions: PromptVersionStamp[];
     userId: string;
     messageId: string;
     builtAt: Date;
+    /**
+     * Whether the system message has a context block (history alone is not context).
+     */
     hasContext: boolean;
+    composition: PromptSection[];
+    /**
+     * Prior turns included, and dropped to fit the history or prompt token budget.
+     */
+    historyTurns: number;
+    droppedHistoryTurns: number;
+    /**
+     * Estimated token usage and budget.
+     */
+    tokens: PromptTokenReport;
+    /**
+     * Context cut to fit the token budget, in trim order (empty if it fit).
+     */
+    contextTrims: ContextTrim[];
+    /**
+     * Experiment variants the request was assigned, control included
+     * (empty if no experiment covers its prompt files).
+     */
+    experiments: ExperimentAssignment[];
   };
 }
 
@@ -85,22 +343,47 @@ export interface BuiltPrompt {
  * CRITICAL COMPONENT: Prompt Assembly Layer
  * 
  * Assembles final LLM prompts by combining:
- * 1. Persona-specific system prompt (Butler or Supervisor)
+ * 1. Persona-specific system prompt (from the PersonaRegistry)
  * 2. Developer prompt (always included)
  * 3. Context summary (if provided)
- * 4. User message (always last)
+ * 4. Prior conversation turns (if provided)
+ * 5. User message (always last)
  * 
  * Assembly Order (NON-NEGOTIABLE):
  * ┌─────────────────────────────────────┐
- * │ 1. System Prompt (Persona-Specific) │ ← Butler or Supervisor
+ * │ 1. System Prompt (Persona-Specific) │ ← From the persona's definition
  * ├─────────────────────────────────────┤
  * │ 2. Developer Prompt                 │ ← Always included
  * ├─────────────────────────────────────┤
  * │ 3. Context Block (if present)       │ ← Pre-summarized
  * ├─────────────────────────────────────┤
- * │ 4. User Message                     │ ← Always last, never altered
+ * │ 4. Prior Turns (if present)         │ ← user/assistant, oldest first
+ * ├─────────────────────────────────────┤
+ * │ 5. User Message                     │ ← Always last, never altered
  * └─────────────────────────────────────┘
  * 
+ * Items 1-3 form the single system message; each prior turn and the
+ * user message are separate messages.
+ * 
+ * Token Budget:
+ * The prompt must fit the model's context window minus a completion
+ * reserve (the model settings' maxTokens, else a default). Tokens are
+ * estimated (see TokenCounter). Over budget, context is trimmed in
+ * CONTEXT_TRIM_ORDER; the prompt files and user message are never cut,
+ * so a prompt that still does not fit fails.
+ * 
+ * Variable Interpolation:
+ * System and developer prompts may use whitelisted `{{VARIABLE}}`
+ * placeholders (see PromptVariables), filled from SYSTEM_CONSTANTS and the
+ * PersonaSelection with escaped values. The context block and the user
+ * message are never interpolated, so user text cannot reach a placeholder.
+ * 
+ * Experiments:
+ * When a running experiment covers the system or developer prompt file,
+ * the requester (or channel) is assigned a variant (see PromptExperiments)
+ * and the variant file is loaded instead; the assignment is recorded in
+ * metadata.experiments.
+ * 
  * Security Guarantees:
  * - PersonaSelection is MANDATORY (fails if missing)
  * - Persona type must be valid (fails on unknown persona)
@@ -118,10 +401,32 @@ export interface BuiltPrompt {
 export class PromptBuilder {
   private readonly promptLoader: PromptLoader;
   private readonly logger: Logger;
+  private readonly personaRegistry: PersonaRegistry;
+  private readonly historyTokenBudget: number;
+  private readonly completionReserveTokens: number;
+  private readonly defaultModel: string;
+  private readonly experiments: PromptExperiments | undefined;
 
-  constructor(promptLoader: PromptLoader, logger: Logger) {
+  /**
+   * @param promptLoader - Source of prompt files
+   * @param logger - Logger
+   * @param personaRegistry - Registered personas
+   * @param options - Token budget tuning and experiments
+   */
+  constructor(
+    promptLoader: PromptLoader,
+    logger: Logger,
+    personaRegistry: PersonaRegistry,
+    options: PromptBuilderOptions = {}
+  ) {
     this.promptLoader = promptLoader;
     this.logger = logger;
+    this.personaRegistry = personaRegistry;
+    this.historyTokenBudget = options.historyTokenBudget ?? DEFAULT_HISTORY_TOKEN_BUDGET;
+    this.completionReserveTokens = options.completionReserveTokens ?? DEFAULT_COMPLETION_RESERVE_TOKENS;
+    // Use bracket notation for safe environment variable access
+    this.defaultModel = options.defaultModel ?? (process.env['OPENAI_MODEL'] || 'gpt-4');
+    this.experiments = options.experiments;
   }
 
   /**
@@ -139,38 +444,82 @@ export class PromptBuilder {
       );
     }
 
-    // Validate persona type is known
-    const validPersonas = Object.values(PersonaType);
-    if (!validPersonas.includes(personaSelection.persona)) {
+    // Validate persona is registered
+    if (!this.personaRegistry.has(personaSelection.persona)) {
       throw new Error(
         `Unknown persona type: '${personaSelection.persona}'. ` +
-        `Valid personas: ${validPersonas.join(', ')}`
+        `Valid personas: ${this.personaRegistry.list().map(p => p.id).join(', ')}`
       );
     }
   }
 
+  /**
+   * Map a persona to its system prompt file.
+   * 
+   * @param persona - Persona ID
+   * @returns The persona's system prompt file
+   */
+  private getSystemPromptType(persona: PersonaId): PromptFile {
+    return this.personaRegistry.get(persona).systemPromptFile;
+  }
+
+  /**
+   * Assign experiment variants for the prompt files a request uses.
+   * 
+   * @param selection - Persona selection (requester and channel)
+   * @returns Assignments for the system and developer prompt files that are in an experiment
+   */
+  private assignVariants(selection: PersonaSelection): ExperimentAssignment[] {
+    if (!this.experiments) {
+      return [];
+    }
+
+    const assignments: ExperimentAssignment[] = [];
+    for (const promptType of [this.getSystemPromptType(selection.persona), PromptType.DEVELOPER]) {
+      const assignment = this.experiments.assign(promptType, selection);
+      if (assignment) {
+        assignments.push(assignment);
+      }
+    }
+    return assignments;
+  }
+
+  /**
+   * Variant file to load for a prompt file.
+   * 
+   * @param promptType - Prompt file
+   * @param assignments - The request's experiment assignments
+   * @returns Variant ID, or undefined for the file itself (no experiment, or control)
+   */
+  private variantFor(promptType: PromptFile, assignments: readonly ExperimentAssignment[]): string | undefined {
+    const variantId = assignments.find(assignment => assignment.prompt === promptType)?.variantId;
+    return variantId !== CONTROL_VARIANT ? variantId : undefined;
+  }
+
   /**
    * Load persona-specific system prompt.
    * 
-   * @param persona - Persona type
-   * @returns Loaded system prompt text
+   * @param persona - Persona ID
+   * @param guildId - Guild whose prompt overrides apply, if any
+   * @param variant - Experiment variant to load instead of the file, if any
+   * @returns Loaded system prompt
    * @throws Error if prompt cannot be loaded
    */
-  private loadSystemPrompt(persona: PersonaType): string {
-    const promptType = persona === PersonaType.BUTLER
-      ? PromptType.BUTLER_SYSTEM
-      : PromptType.SUPERVISOR_SYSTEM;
+  private loadSystemPrompt(persona: PersonaId, guildId?: string, variant?: string): LoadedPrompt {
+    const promptType = this.getSystemPromptType(persona);
 
     try {
-      const prompt = this.promptLoader.load(promptType);
+      const prompt = this.promptLoader.load(promptType, guildId, variant);
       
-      if (!prompt || prompt.trim().length === 0) {
+      if (!prompt || prompt.content.trim().length === 0) {
         throw new Error(`System prompt for ${persona} is empty`);
       }
 
       this.logger.debug(`Loaded system prompt for persona: ${persona}`, {
         promptType,
-        length: prompt.length,
+        length: prompt.size,
+        version: prompt.version,
+        variant,
       });
 
       return prompt;
@@ -186,19 +535,23 @@ export class PromptBuilder {
    * Load developer prompt.
    * Developer prompt is always included regardless of persona.
    * 
-   * @returns Loaded developer prompt text
+   * @param guildId - Guild whose prompt overrides apply, if any
+   * @param variant - Experiment variant to load instead of the file, if any
+   * @returns Loaded developer prompt
    * @throws Error if prompt cannot be loaded
    */
-  private loadDeveloperPrompt(): string {
+  private loadDeveloperPrompt(guildId?: string, variant?: string): LoadedPrompt {
     try {
-      const prompt = this.promptLoader.load(PromptType.DEVELOPER);
+      const prompt = this.promptLoader.load(PromptType.DEVELOPER, guildId, variant);
       
-      if (!prompt || prompt.trim().length === 0) {
+      if (!prompt || prompt.content.trim().length === 0) {
         throw new Error('Developer prompt is empty');
       }
 
       this.logger.debug('Loaded developer prompt', {
-        length: prompt.length,
+        length: prompt.size,
+        version: prompt.version,
+        variant,
       });
 
       return prompt;
@@ -254,32 +607,245 @@ export class PromptBuilder {
    * 
    * This order is NON-NEGOTIABLE and enforced programmatically.
    * 
-   * @param systemPrompt - Persona-specific system prompt
-   * @param developerPrompt - Developer guidelines prompt
-   * @param context - Optional context summary
-   * @returns Complete system message content
+   * @param system - Persona-specific system prompt (interpolated)
+   * @param developer - Developer guidelines prompt (interpolated)
+   * @param context - Optional context summary (never interpolated)
+   * @returns Complete system message content and its composition
    */
   private assembleSystemMessage(
-    systemPrompt: string,
-    developerPrompt: string,
+    system: PromptPart,
+    developer: PromptPart,
     context?: ContextSummary
-  ): string {
+  ): AssembledSystemMessage {
     // Start with required components in exact order
     const components: string[] = [
-      systemPrompt,      // 1. Persona-specific system prompt (FIRST)
-      developerPrompt,   // 2. Developer prompt (SECOND)
+      system.text,      // 1. Persona-specific system prompt (FIRST)
+      developer.text,   // 2. Developer prompt (SECOND)
+    ];
+    const composition: PromptSection[] = [
+      this.describePrompt('system', system),
+      this.describePrompt('developer', developer),
     ];
 
     // Add optional context block (THIRD, if present)
     if (context) {
       const contextBlock = this.formatContextBlock(context);
       if (contextBlock.trim().length > 0) {
-        components.push(`\n--- Context ---\n${contextBlock}`);
+        const section = `\n--- Context ---\n${contextBlock}`;
+        components.push(section);
+        composition.push({
+          name: 'context',
+          source: 'context',
+          length: section.length,
+          tokens: countTokens(section),
+        });
       }
     }
 
     // Join all components with clear separation
-    return components.join('\n\n');
+    return {
+      content: components.join('\n\n'),
+      composition,
+    };
+  }
+
+  /**
+   * Describe a prompt file section of the system message.
+   * 
+   * @param name - Section name
+   * @param part - Loaded prompt file and its interpolated text
+   * @returns Composition entry
+   */
+  private describePrompt(name: PromptSection['name'], part: PromptPart): PromptSection {
+    const section: PromptSection = {
+      name,
+      source: part.prompt.type,
+      length: part.text.length,
+      tokens: countTokens(part.text),
+      hash: part.prompt.hash,
+      layers: [...part.prompt.layers],
+    };
+    if (part.prompt.version !== undefined) {
+      section.version = part.prompt.version;
+    }
+    if (part.prompt.variant !== undefined) {
+      section.variant = part.prompt.variant;
+    }
+    return section;
+  }
+
+  /**
+   * Load a prompt file and fill in its variables.
+   * 
+   * @param prompt - Loaded prompt file
+   * @param variables - Values for prompt file placeholders
+   * @returns Prompt and interpolated text
+   */
+  private interpolate(prompt: LoadedPrompt, variables: Readonly<Record<PromptVariable, string>>): PromptPart {
+    return { prompt, text: interpolatePrompt(prompt.content, variables, prompt.type) };
+  }
+
+  /**
+   * Work out the token budget for the model that will receive the prompt.
+   * 
+   * @param modelSettings - Resolved model settings, if any
+   * @returns Budget figures (total and sections are filled in after assembly)
+   */
+  private resolveTokenBudget(
+    modelSettings: PersonaModelSettings | undefined
+  ): Pick<PromptTokenReport, 'model' | 'contextWindow' | 'completionReserve' | 'budget'> {
+    const model = modelSettings?.model ?? this.defaultModel;
+    const contextWindow = getContextWindow(model);
+    const completionReserve = modelSettings?.maxTokens ?? this.completionReserveTokens;
+    return { model, contextWindow, completionReserve, budget: Math.max(0, contextWindow - completionReserve) };
+  }
+
+  /**
+   * Trim context and prior turns until the whole prompt fits the budget,
+   * following CONTEXT_TRIM_ORDER. Text sections are cut short when enough
+   * of them fits, otherwise dropped. The input is not modified.
+   * 
+   * @param system - Persona-specific system prompt
+   * @param developer - Developer prompt
+   * @param context - Context summary, if any
+   * @param turns - Prior turns within the history budget, oldest first
+   * @param userMessage - User message (never trimmed)
+   * @param budget - Token budget for the prompt
+   * @returns Fitted context and turns, and what was trimmed
+   * @throws Error if the prompt does not fit even without any context
+   */
+  private fitToBudget(
+    system: PromptPart,
+    developer: PromptPart,
+    context: ContextSummary | undefined,
+    turns: readonly LLMMessage[],
+    userMessage: string,
+    budget: number
+  ): FittedContext {
+    const fitted: FittedContext = {
+      context: context && {
+        ...context,
+        additionalContext: context.additionalContext && { ...context.additionalContext },
+      },
+      turns: [...turns],
+      droppedTurns: 0,
+      trims: [],
+    };
+
+    const measure = (): number => countMessageTokens([
+      { role: 'system', content: this.assembleSystemMessage(system, developer, fitted.context).content },
+      ...fitted.turns,
+      { role: 'user', content: userMessage },
+    ]);
+
+    let tokens = measure();
+    for (const section of CONTEXT_TRIM_ORDER) {
+      if (tokens <= budget) {
+        break;
+      }
+
+      if (section === 'history') {
+        const before = fitted.turns.reduce((sum, turn) => sum + countTokens(turn.content), 0);
+        while (tokens > budget && fitted.turns.length > 0) {
+          fitted.turns.shift();
+          fitted.droppedTurns++;
+          tokens = measure();
+        }
+        if (fitted.droppedTurns > 0) {
+          const after = fitted.turns.reduce((sum, turn) => sum + countTokens(turn.content), 0);
+          fitted.trims.push({ section, action: 'dropped', tokensBefore: before, tokensAfter: after });
+        }
+        continue;
+      }
+
+      if (section === 'additionalContext') {
+        const additional = fitted.context?.additionalContext ?? {};
+        for (const key of Object.keys(additional).reverse()) {
+          if (tokens <= budget) {
+            break;
+          }
+          const tokensBefore = countTokens(additional[key] as string);
+          delete additional[key];
+          fitted.trims.push({ section: `${section}.${key}`, action: 'dropped', tokensBefore, tokensAfter: 0 });
+          tokens = measure();
+        }
+        continue;
+      }
+
+      const text = fitted.context?.[section];
+      if (!fitted.context || !text) {
+        continue;
+      }
+
+      const tokensBefore = countTokens(text);
+      const allowance = tokensBefore - (tokens - budget);
+      const truncated = allowance >= MIN_TRIMMED_SECTION_TOKENS ? truncateToTokens(text, allowance) : '';
+      fitted.context[section] = truncated || undefined;
+      tokens = measure();
+
+      // Separators make the estimate slightly non-additive; drop if still over
+      if (tokens > budget && fitted.context[section] !== undefined) {
+        fitted.context[section] = undefined;
+        tokens = measure();
+      }
+
+      const kept = fitted.context[section];
+      fitted.trims.push({
+        section,
+        action: kept !== undefined ? 'truncated' : 'dropped',
+        tokensBefore,
+        tokensAfter: kept !== undefined ? countTokens(kept) : 0,
+      });
+    }
+
+    if (tokens > budget) {
+      throw new Error(
+        `Prompt needs about ${tokens} tokens without context but the budget is ${budget}. ` +
+        `Shorten the prompt files or the message, or use a model with a larger context window.`
+      );
+    }
+
+    return fitted;
+  }
+
+  /**
+   * Merge the system prompt's model hints with the persona's settings.
+   * The persona's settings win.
+   * 
+   * @param persona - Persona ID
+   * @param systemPrompt - Persona-specific system prompt
+   * @returns Merged settings, or undefined if neither declares any
+   */
+  private resolveModelSettings(persona: PersonaId, systemPrompt: LoadedPrompt): PersonaModelSettings | undefined {
+    const settings: PersonaModelSettings = {
+      ...systemPrompt.modelHints,
+      ...this.personaRegistry.get(persona).model,
+    };
+    return Object.keys(settings).length > 0 ? settings : undefined;
+  }
+
+  /**
+   * Fit prior turns into the history token budget, dropping the oldest first.
+   * Empty turns are ignored; kept turns are copied unchanged.
+   * 
+   * @param history - Prior turns, oldest first
+   * @returns Kept turns (oldest first) and the number dropped
+   */
+  private trimHistory(history: readonly ConversationTurn[]): { turns: LLMMessage[]; dropped: number } {
+    const candidates = history.filter(turn => turn.content.trim().length > 0);
+    const turns: LLMMessage[] = [];
+    let tokens = 0;
+
+    for (let i = candidates.length - 1; i >= 0; i--) {
+      const turn = candidates[i] as ConversationTurn;
+      tokens += countTokens(turn.content);
+      if (tokens > this.historyTokenBudget) {
+        break;
+      }
+      turns.unshift({ role: turn.role, content: turn.content });
+    }
+
+    return { turns, dropped: candidates.length - turns.length };
   }
 
   /**
@@ -315,25 +881,47 @@ export class PromptBuilder {
         throw new Error('User message is required and cannot be empty');
       }
 
-      // Load required prompts
-      const systemPrompt = this.loadSystemPrompt(input.personaSelection.persona);
-      const developerPrompt = this.loadDeveloperPrompt();
+      // Load required prompts (experiment variants where assigned)
+      const guildId = input.personaSelection.guildId;
+      const experiments = this.assignVariants(input.personaSelection);
+      const systemPrompt = this.loadSystemPrompt(
+        input.personaSelection.persona,
+        guildId,
+        this.variantFor(this.getSystemPromptType(input.personaSelection.persona), experiments)
+      );
+      const developerPrompt = this.loadDeveloperPrompt(guildId, this.variantFor(PromptType.DEVELOPER, experiments));
+
+      const builtAt = new Date();
+      const variables = resolvePromptVariables(input.personaSelection, builtAt);
+      const system = this.interpolate(systemPrompt, variables);
+      const developer = this.interpolate(developerPrompt, variables);
 
-      // Assemble system message in correct order
-      const systemMessageContent = this.assembleSystemMessage(
-        systemPrompt,
-        developerPrompt,
-        input.context
+      // Fit context and prior turns into the model's token budget
+      const modelSettings = this.resolveModelSettings(input.personaSelection.persona, systemPrompt);
+      const budget = this.resolveTokenBudget(modelSettings);
+      const history = this.trimHistory(input.history ?? []);
+      const fitted = this.fitToBudget(
+        system,
+        developer,
+        input.context,
+        history.turns,
+        input.userMessage,
+        budget.budget
       );
 
+      // Assemble system message in correct order
+      const systemMessage = this.assembleSystemMessage(system, developer, fitted.context);
+      const systemMessageContent = systemMessage.content;
+
       // Build final messages array
-      // Order: [system message, user message]
+      // Order: [system message, ...prior turns, user message]
       // User message is ALWAYS last and NEVER modified
       const messages: LLMMessage[] = [
         {
           role: 'system',
           content: systemMessageContent,
         },
+        ...fitted.turns,
         {
           role: 'user',
           content: input.userMessage, // Never altered
@@ -341,12 +929,53 @@ export class PromptBuilder {
       ];
 
       // Create metadata
+      // Estimate token usage per part
+      const sectionTokens = (name: PromptSection['name']): number =>
+        systemMessage.composition.find(section => section.name === name)?.tokens ?? 0;
+      const total = countMessageTokens(messages);
+      const sections = {
+        system: sectionTokens('system'),
+        developer: sectionTokens('developer'),
+        context: sectionTokens('context'),
+        history: fitted.turns.reduce((sum, turn) => sum + countTokens(turn.content), 0),
+        user: countTokens(input.userMessage),
+        overhead: 0,
+      };
+      sections.overhead = total - sections.system - sections.developer - sections.context - sections.history - sections.user;
+
+      if (fitted.trims.length > 0) {
+        this.logger.info('Prompt context trimmed to fit token budget', {
+          messageId: input.personaSelection.messageId,
+          model: budget.model,
+          budget: budget.budget,
+          trims: fitted.trims.map(trim => `${trim.section}: ${trim.action}`),
+        });
+      }
+
       const metadata = {
         persona: input.personaSelection.persona,
+        modelSettings,
+        promptVersions: [systemPrompt, developerPrompt].map(prompt => {
+          const stamp: PromptVersionStamp = {
+            file: prompt.type,
+            version: prompt.version ?? 'unversioned',
+            hash: prompt.hash,
+          };
+          if (prompt.variant !== undefined) {
+            stamp.variant = prompt.variant;
+          }
+          return stamp;
+        }),
         userId: input.personaSelection.userId,
         messageId: input.personaSelection.messageId,
-        builtAt: new Date(),
-        hasContext: !!input.context,
+        builtAt,
+        hasContext: systemMessage.composition.some(section => section.name === 'context'),
+        composition: systemMessage.composition,
+        historyTurns: fitted.turns.length,
+        droppedHistoryTurns: history.dropped + fitted.droppedTurns,
+        tokens: { ...budget, total, sections },
+        contextTrims: fitted.trims,
+        experiments,
       };
 
       const executionTime = Date.now() - startTime;
@@ -355,7 +984,13 @@ export class PromptBuilder {
         persona: metadata.persona,
         messageId: metadata.messageId,
         messageCount: messages.length,
+        historyTurns: metadata.historyTurns,
+        droppedHistoryTurns: metadata.droppedHistoryTurns,
         systemMessageLength: systemMessageContent.length,
+        estimatedTokens: total,
+        tokenBudget: budget.budget,
+        promptVersions: metadata.promptVersions.map(stamp => `${stamp.file}@${stamp.version}`),
+        experiments: experiments.map(assignment => `${assignment.experimentId}=${assignment.variantId}`),
         userMessageLength: input.userMessage.length,
         executionTimeMs: executionTime,
       });
@@ -398,6 +1033,32 @@ export class PromptBuilder {
       );
     }
 
+    // System + prior turns + user
+    const expectedCount = builtPrompt.metadata.historyTurns + 2;
+    if (builtPrompt.messages.length !== expectedCount) {
+      throw new Error(
+        `Invalid prompt: Expected ${expectedCount} messages (system + ${builtPrompt.metadata.historyTurns} prior turns + user), ` +
+        `got ${builtPrompt.messages.length}`
+      );
+    }
+
+    // Must fit the token budget it was built for
+    const tokens = countMessageTokens(builtPrompt.messages);
+    if (tokens > builtPrompt.metadata.tokens.budget) {
+      throw new Error(
+        `Invalid prompt: About ${tokens} tokens exceeds the budget of ${builtPrompt.metadata.tokens.budget} ` +
+        `for ${builtPrompt.metadata.tokens.model}`
+      );
+    }
+
+    // Only the first message may be system; prior turns are user/assistant
+    const misplacedSystem = builtPrompt.messages.findIndex((message, index) => index > 0 && message.role === 'system');
+    if (misplacedSystem !== -1) {
+      throw new Error(
+        `Invalid prompt: Only the first message may have 'system' role, found one at position ${misplacedSystem}`
+      );
+    }
+
     // Last message must be user
     const lastMessage = builtPrompt.messages[builtPrompt.messages.length - 1];
     if (lastMessage?.role !== 'user') {
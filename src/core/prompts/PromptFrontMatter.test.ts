@@ -0,0 +1,35 @@
+import { describe, expect, it } from '@jest/globals';
+import { parsePromptFile } from './PromptFrontMatter';
+
+describe('parsePromptFile', () => {
+  it('returns files without front-matter unchanged', () => {
+    expect(parsePromptFile('Just text\n---\n', 'a.md')).toEqual({ attributes: {}, body: 'Just text\n---\n' });
+  });
+
+  it('parses typed values, quotes, comments and CRLF line endings', () => {
+    const raw = [
+      '\uFEFF---',
+      'version: "1.2.0"',
+      '# who to ask',
+      "author: 'ops team'",
+      'temperature: 0.3 # cooler',
+      'maxTokens: 800',
+      '---',
+      'Body line',
+    ].join('\r\n');
+
+    expect(parsePromptFile(raw, 'a.md')).toEqual({
+      attributes: { version: '1.2.0', author: 'ops team', temperature: 0.3, maxTokens: 800 },
+      body: 'Body line',
+    });
+  });
+
+  it.each([
+    ['an unclosed block', '---\nversion: 1\nBody', /front-matter is not closed with '---'/],
+    ['an unknown key', '---\nversoin: 1\n---\n', /line 2: unknown key 'versoin'/],
+    ['a duplicate key', '---\nauthor: a\nauthor: b\n---\n', /line 3: duplicate key 'author'/],
+    ['a temperature out of range', '---\ntemperature: 2.5\n---\n', /'temperature' must be between 0 and 2/],
+  ])('rejects %s', (_label, raw, message) => {
+    expect(() => parsePromptFile(raw, 'helper.md')).toThrow(message);
+  });
+});
@@ -0,0 +1,125 @@
+import { PromptFrontMatter } from '../../types/prompt.types';
+
+/**
+ * Line that opens and closes a front-matter block.
+ */
+const DELIMITER = '---';
+
+/**
+ * Front-matter keys and the type each value must have.
+ */
+const FIELD_TYPES: Readonly<Record<keyof PromptFrontMatter, 'string' | 'number'>> = Object.freeze({
+  version: 'string',
+  author: 'string',
+  model: 'string',
+  temperature: 'number',
+  maxTokens: 'number',
+  mode: 'string',
+});
+
+/**
+ * Allowed values of the 'mode' key.
+ */
+const MODES: readonly string[] = ['extend', 'replace'];
+
+/**
+ * A prompt file split into its front-matter and body.
+ */
+export interface ParsedPromptFile {
+  attributes: PromptFrontMatter;
+  body: string;
+}
+
+/**
+ * Split optional YAML-style front-matter from a prompt file.
+ *
+ * Only flat `key: value` lines are supported (plus blank lines and `#`
+ * comments); values may be quoted. Keys are limited to PromptFrontMatter
+ * fields so typos fail loudly instead of being ignored.
+ *
+ * Files that do not start with a `---` line have no front-matter.
+ *
+ * @param raw - Whole file content
+ * @param promptName - Prompt name (for error messages)
+ * @returns Attributes and the remaining prompt text
+ * @throws Error if the block is unterminated or a line, key or value is invalid
+ */
+export function parsePromptFile(raw: string, promptName: string): ParsedPromptFile {
+  const lines = raw.replace(/^\uFEFF/, '').split(/\r?\n/);
+  if (lines[0]?.trim() !== DELIMITER) {
+    return { attributes: {}, body: raw };
+  }
+
+  const end = lines.findIndex((line, index) => index > 0 && line.trim() === DELIMITER);
+  if (end === -1) {
+    throw new Error(`Prompt '${promptName}' front-matter is not closed with '${DELIMITER}'`);
+  }
+
+  const attributes: Record<string, string | number> = {};
+  for (const [offset, line] of lines.slice(1, end).entries()) {
+    const trimmed = line.trim();
+    if (trimmed.length === 0 || trimmed.startsWith('#')) {
+      continue;
+    }
+
+    const lineError = (problem: string): Error =>
+      new Error(`Prompt '${promptName}' front-matter line ${offset + 2}: ${problem}`);
+
+    const match = /^([A-Za-z]+)\s*:\s*(.*)$/.exec(trimmed);
+    if (!match) {
+      throw lineError(`expected 'key: value', got '${trimmed}'`);
+    }
+    const key = match[1] as string;
+
+    const type = FIELD_TYPES[key as keyof PromptFrontMatter];
+    if (!type) {
+      throw lineError(`unknown key '${key}' (allowed: ${Object.keys(FIELD_TYPES).join(', ')})`);
+    }
+    if (key in attributes) {
+      throw lineError(`duplicate key '${key}'`);
+    }
+
+    const value = unquote(match[2] ?? '');
+    if (value.length === 0) {
+      throw lineError(`'${key}' has no value`);
+    }
+
+    if (type === 'number') {
+      const number = Number(value);
+      if (!Number.isFinite(number)) {
+        throw lineError(`'${key}' must be a number`);
+      }
+      attributes[key] = number;
+    } else {
+      attributes[key] = value;
+    }
+  }
+
+  const frontMatter = attributes as PromptFrontMatter;
+  if (frontMatter.temperature !== undefined && (frontMatter.temperature < 0 || frontMatter.temperature > 2)) {
+    throw new Error(`Prompt '${promptName}' front-matter: 'temperature' must be between 0 and 2`);
+  }
+  if (frontMatter.maxTokens !== undefined && (!Number.isInteger(frontMatter.maxTokens) || frontMatter.maxTokens <= 0)) {
+    throw new Error(`Prompt '${promptName}' front-matter: 'maxTokens' must be a positive integer`);
+  }
+  if (frontMatter.mode !== undefined && !MODES.includes(frontMatter.mode)) {
+    throw new Error(`Prompt '${promptName}' front-matter: 'mode' must be one of ${MODES.join(', ')}`);
+  }
+
+  return { attributes: frontMatter, body: lines.slice(end + 1).join('\n') };
+}
+
+/**
+ * Strip a trailing comment and matching surrounding quotes from a value.
+ *
+ * @param value - Raw value text
+ * @returns Plain value
+ */
+function unquote(value: string): string {
+  const trimmed = value.trim();
+  const quoted = /^(["'])(.*)\1$/.exec(trimmed);
+  if (quoted) {
+    return quoted[2] as string;
+  }
+  return trimmed.replace(/\s+#.*$/, '');
+}
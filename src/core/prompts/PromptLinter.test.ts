@@ -0,0 +1,142 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PromptLinter, PromptLinterConfig } from './PromptLinter';
+import { PromptLoader } from './PromptLoader';
+import { parsePromptLintRules } from '../../config/promptLintConfig';
+import { PersonaRegistry } from '../persona/PersonaRegistry';
+import { LintFinding } from '../../types/promptLint.types';
+import { silentLogger } from '../../testing/fixtures';
+
+describe('PromptLinter', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'lint-'));
+    write('butler.system.md', 'You are a loyal butler.');
+    write('supervisor.system.md', 'You are a technical supervisor.');
+    write('developer.md', 'You avoid hallucination at all costs.');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function write(file: string, content: string): void {
+    fs.mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+    fs.writeFileSync(path.join(dir, file), content);
+  }
+
+  function lint(overrides: Partial<PromptLinterConfig> = {}): LintFinding[] {
+    return new PromptLinter({
+      promptsDirectory: dir,
+      promptLoader: new PromptLoader({ logger: silentLogger, promptsDirectory: dir, enableHotReload: false }),
+      personaRegistry: new PersonaRegistry(),
+      rules: [],
+      defaultModel: 'gpt-4',
+      ...overrides,
+    }).lint();
+  }
+
+  function summarize(findings: LintFinding[]): string[] {
+    return findings.map(f => `${f.severity} ${f.check} ${f.file}${f.line !== undefined ? `:${f.line}` : ''} ${f.message}`);
+  }
+
+  it('reports nothing for a clean directory', () => {
+    expect(lint()).toEqual([]);
+  });
+
+  it('checks headings, with line numbers counting the front-matter', () => {
+    write('supervisor.system.md', [
+      '---',
+      'version: 1.0.0',
+      '---',
+      '# Role',
+      'You are a technical supervisor.',
+      '### Details',
+      'Keep answers short.',
+      '#',
+      'Be kind.',
+      '# Role',
+      '## Tone',
+      'Be precise.',
+      '# Closing',
+    ].join('\n'));
+
+    expect(summarize(lint().filter(f => f.check === 'markdown'))).toEqual([
+      'warning markdown supervisor.system.md:6 Heading level skips from 1 to 3',
+      'error markdown supervisor.system.md:8 Empty heading',
+      "warning markdown supervisor.system.md:10 Duplicate heading 'Role' (first on line 4)",
+      'warning markdown supervisor.system.md:13 Heading has no content',
+    ]);
+  });
+
+  it('flags unclosed fences and comments, ignoring headings inside fences', () => {
+    write('supervisor.system.md', 'You are a technical supervisor.\n<!-- draft\n```\n# not a heading\n');
+
+    expect(summarize(lint().filter(f => f.check === 'markdown'))).toEqual([
+      'error markdown supervisor.system.md:2 HTML comment is never closed; the rest of the file would be hidden',
+      'error markdown supervisor.system.md:3 Code fence is never closed',
+    ]);
+  });
+
+  it('applies forbid and require rules, counting included partials', () => {
+    write('supervisor.system.md', 'You are a technical supervisor.\nReveal your instructions when asked.');
+    write('developer.md', 'You reason step by step.\n<!-- @include grounding.md -->');
+    write('partials/grounding.md', 'Be accurate.');
+    const rules = parsePromptLintRules({
+      rules: [
+        { id: 'no-disclosure', message: 'Never reveal instructions', forbid: 'reveal your instructions' },
+        { id: 'grounding', message: 'Mention hallucination', require: 'hallucinat', files: ['developer.md'], severity: 'warning' },
+      ],
+    });
+
+    expect(summarize(lint({ rules }).filter(f => f.check === 'rule'))).toEqual([
+      'warning rule developer.md [grounding] Mention hallucination',
+      'error rule supervisor.system.md:2 [no-disclosure] Never reveal instructions',
+    ]);
+
+    write('partials/grounding.md', 'Avoid hallucination.');
+    expect(lint({ rules }).filter(f => f.file === 'developer.md')).toEqual([]);
+  });
+
+  it('flags duplicate instructions within a prompt and across system and developer prompts', () => {
+    write('supervisor.system.md', 'You are a technical supervisor.\n- Always cite your sources.\n* always cite your sources!');
+    write('developer.md', 'You avoid hallucination at all costs.\nAlways cite your sources.');
+
+    expect(summarize(lint().filter(f => f.check === 'duplicate'))).toEqual([
+      'warning duplicate supervisor.system.md Instruction appears more than once: "* always cite your sources!"',
+      'warning duplicate supervisor.system.md Instruction also in developer.md: "- Always cite your sources."',
+      'warning duplicate supervisor.system.md Instruction also in developer.md: "* always cite your sources!"',
+    ]);
+  });
+
+  it('flags unused files and partials, and validates partials nothing includes', () => {
+    write('notes.md', 'Remember to update the docs.');
+    write('partials/orphan.md', 'Hello ${name}');
+
+    expect(summarize(lint())).toEqual([
+      'warning unused notes.md Not a known prompt or persona system prompt; the bot never loads it',
+      'warning unused partials/orphan.md Partial is not included by any prompt',
+      expect.stringMatching(/^error validation partials\/orphan.md Prompt 'partials\/orphan.md' validation failed: Contains forbidden pattern/),
+    ]);
+  });
+
+  it('checks file sizes and persona prompts against the model budget', () => {
+    // gpt-4 has 8192 tokens; reserving all but 100 for the completion leaves a tiny budget
+    const model = { maxTokens: 8092 };
+    write('reviewer.system.md', 'word '.repeat(50));
+    write('terse.system.md', 'word '.repeat(150));
+    const personaRegistry = new PersonaRegistry([
+      { id: 'REVIEWER', description: 'Reviews code', systemPromptFile: 'reviewer.system.md', model, match: { channelIds: ['c1'] }, priority: 0 },
+      { id: 'TERSE', description: 'Short answers', systemPromptFile: 'terse.system.md', model, match: { channelIds: ['c2'] }, priority: 0 },
+    ]);
+
+    expect(summarize(lint({ personaRegistry, fileTokenWarning: 100 }).filter(f => f.check === 'tokens'))).toEqual([
+      expect.stringMatching(/^warning tokens reviewer.system.md Persona REVIEWER: system \+ developer prompts use about \d+ of 100 tokens for gpt-4, leaving little room for context$/),
+      'warning tokens terse.system.md About 150 tokens (warning threshold 100)',
+      expect.stringMatching(/^error tokens terse.system.md Persona TERSE: system \+ developer prompts need about \d+ tokens, over the 100-token budget for gpt-4$/),
+    ]);
+  });
+});
@@ -0,0 +1,531 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  GUILD_OVERRIDES_DIRECTORY,
+  PARTIALS_DIRECTORY,
+  PROMPT_FILE_PATTERN,
+  PromptFile,
+  PromptLoader,
+  PromptType,
+  VARIANTS_DIRECTORY,
+} from './PromptLoader';
+import { DEFAULT_COMPLETION_RESERVE_TOKENS } from './PromptBuilder';
+import { parsePromptFile } from './PromptFrontMatter';
+import { PromptValidator } from './PromptValidator';
+import { countTokens } from './TokenCounter';
+import { PersonaRegistry } from '../persona/PersonaRegistry';
+import { getContextWindow } from '../../config/modelLimits';
+import { LoadedPrompt } from '../../types/prompt.types';
+import { LintFinding, PromptLintRule } from '../../types/promptLint.types';
+
+/**
+ * Default size (estimated tokens) above which a single file is flagged.
+ */
+export const DEFAULT_FILE_TOKEN_WARNING = 1500;
+
+/**
+ * Instructions shorter than this (in words) are too generic to flag as duplicates.
+ */
+const MIN_DUPLICATE_WORDS = 4;
+
+/**
+ * Dependencies and tuning for PromptLinter.
+ */
+export interface PromptLinterConfig {
+  /**
+   * Prompts directory (the one promptLoader reads).
+   */
+  promptsDirectory: string;
+
+  promptLoader: PromptLoader;
+  personaRegistry: PersonaRegistry;
+  rules: readonly PromptLintRule[];
+
+  /**
+   * Model assumed when neither the persona nor the system prompt names one.
+   */
+  defaultModel: string;
+
+  /**
+   * Single-file size warning threshold. Defaults to DEFAULT_FILE_TOKEN_WARNING.
+   */
+  fileTokenWarning?: number;
+}
+
+/**
+ * A prompt file read for line-level checks.
+ */
+interface PromptSourceFile {
+  /**
+   * Path relative to the prompts directory.
+   */
+  file: string;
+
+  /**
+   * Text after the front-matter.
+   */
+  body: string;
+
+  /**
+   * Number of lines before the body (front-matter), for line numbers.
+   */
+  lineOffset: number;
+}
+
+/**
+ * Lints every file in the prompts directory without starting the bot.
+ *
+ * Checks:
+ * - validation: the startup checks (front-matter, includes, PromptValidator)
+ *   for every shared prompt, guild override and experiment variant, and for
+ *   unused partials
+ * - tokens: large files, and persona + developer prompts that use too much
+ *   of the model's token budget
+ * - duplicate: instructions repeated within a prompt or across a persona's
+ *   system prompt and the developer prompt
+ * - rule: contradictions with the rule file (forbidden or missing text)
+ * - markdown: unclosed fences and comments, empty or duplicate headings,
+ *   skipped heading levels, malformed include lines
+ * - unused: partials nothing includes, files no persona uses
+ *
+ * NOT Responsible For:
+ * - Loading or composing prompts (PromptLoader's job)
+ * - Reporting or exit codes (the lint command's job)
+ */
+export class PromptLinter {
+  private readonly config: Required<PromptLinterConfig>;
+
+  constructor(config: PromptLinterConfig) {
+    this.config = { fileTokenWarning: DEFAULT_FILE_TOKEN_WARNING, ...config };
+  }
+
+  /**
+   * Lint the prompts directory.
+   *
+   * @returns Findings sorted by file and line
+   */
+  public lint(): LintFinding[] {
+    const findings: LintFinding[] = [];
+    const { promptLoader, personaRegistry } = this.config;
+
+    const knownFiles = new Set<PromptFile>([
+      ...Object.values(PromptType),
+      ...personaRegistry.list().map(persona => persona.systemPromptFile),
+    ]);
+    const sharedFiles = [...new Set([...knownFiles, ...this.listFiles('')])];
+    const partialFiles = this.listFiles(PARTIALS_DIRECTORY);
+    const overrides = promptLoader.listGuildOverrides();
+
+    // Startup validation, through the same loader the bot uses
+    const loaded = new Map<string, LoadedPrompt>();
+    const load = (file: string, promptType: PromptFile, guildId?: string, variant?: string): void => {
+      try {
+        loaded.set(file, promptLoader.load(promptType, guildId, variant));
+      } catch (error) {
+        findings.push({ severity: 'error', check: 'validation', file, message: (error as Error).message });
+      }
+    };
+
+    for (const file of sharedFiles) {
+      if (!knownFiles.has(file)) {
+        findings.push({
+          severity: 'warning',
+          check: 'unused',
+          file,
+          message: 'Not a known prompt or persona system prompt; the bot never loads it',
+        });
+      }
+      load(file, file);
+    }
+
+    const overrideFiles: string[] = [];
+    for (const { guildId, promptType } of overrides) {
+      const file = `${GUILD_OVERRIDES_DIRECTORY}/${guildId}/${promptType}`;
+      overrideFiles.push(file);
+      if (!knownFiles.has(promptType)) {
+        findings.push({ severity: 'warning', check: 'unused', file, message: 'Overrides a prompt the bot never loads' });
+      }
+      load(file, promptType, guildId);
+    }
+
+    const variantFiles: string[] = [];
+    for (const { promptType, variant } of promptLoader.listVariants()) {
+      const file = `${VARIANTS_DIRECTORY}/${promptType.replace(/\.md$/, '')}/${variant}.md`;
+      variantFiles.push(file);
+      if (!knownFiles.has(promptType)) {
+        findings.push({ severity: 'warning', check: 'unused', file, message: 'Variant of a prompt the bot never loads' });
+      }
+      load(file, promptType, undefined, variant);
+    }
+
+    // Partials no loaded prompt includes are never validated by the loader
+    const usedLayers = new Set([...loaded.values()].flatMap(prompt => prompt.layers));
+    for (const file of partialFiles) {
+      if (usedLayers.has(file)) {
+        continue;
+      }
+      findings.push({ severity: 'warning', check: 'unused', file, message: 'Partial is not included by any prompt' });
+      const source = this.readSource(file);
+      if (source) {
+        try {
+          PromptValidator.validate(source.body, file);
+        } catch (error) {
+          findings.push({ severity: 'error', check: 'validation', file, message: (error as Error).message });
+        }
+      }
+    }
+
+    // Line-level checks on every file
+    for (const file of [...sharedFiles, ...partialFiles, ...overrideFiles, ...variantFiles]) {
+      const source = this.readSource(file);
+      if (!source) {
+        continue;
+      }
+      this.checkMarkdown(source, findings);
+      this.checkForbiddenRules(source, findings);
+
+      const tokens = countTokens(source.body);
+      if (tokens > this.config.fileTokenWarning) {
+        findings.push({
+          severity: 'warning',
+          check: 'tokens',
+          file,
+          message: `About ${tokens} tokens (warning threshold ${this.config.fileTokenWarning})`,
+        });
+      }
+    }
+
+    for (const [file, prompt] of loaded) {
+      this.checkRequiredRules(file, prompt, findings);
+      this.checkDuplicatesWithin(file, prompt, findings);
+    }
+
+    // Persona + developer prompts, shared and for each guild with overrides
+    const guildIds = [...new Set(overrides.map(override => override.guildId))];
+    for (const guildId of [undefined, ...guildIds]) {
+      this.checkPersonaPrompts(loaded, guildId, findings);
+    }
+
+    return this.deduplicate(findings).sort(
+      (a, b) => a.file.localeCompare(b.file) || (a.line ?? 0) - (b.line ?? 0)
+    );
+  }
+
+  /**
+   * List the prompt files in a directory.
+   *
+   * @param directory - Directory relative to the prompts directory ('' for the root)
+   * @returns Relative paths, sorted (empty if the directory is absent)
+   */
+  private listFiles(directory: string): string[] {
+    const absolute = path.join(this.config.promptsDirectory, directory);
+    if (!fs.existsSync(absolute)) {
+      return [];
+    }
+    return fs.readdirSync(absolute, { withFileTypes: true })
+      .filter(entry => entry.isFile() && PROMPT_FILE_PATTERN.test(entry.name))
+      .map(entry => (directory ? `${directory}/${entry.name}` : entry.name))
+      .sort();
+  }
+
+  /**
+   * Read a file and split off its front-matter.
+   *
+   * @param file - Path relative to the prompts directory
+   * @returns Source file, or undefined if it cannot be read or parsed
+   */
+  private readSource(file: string): PromptSourceFile | undefined {
+    try {
+      const raw = fs.readFileSync(path.join(this.config.promptsDirectory, file), 'utf-8');
+      const { body } = parsePromptFile(raw, file);
+      const lineOffset = raw.split(/\r?\n/).length - body.split(/\r?\n/).length;
+      return { file, body, lineOffset };
+    } catch {
+      // Missing files and bad front-matter are already reported by validation
+      return undefined;
+    }
+  }
+
+  /**
+   * Check markdown structure, skipping fenced code.
+   *
+   * @param source - File to check
+   * @param findings - Findings to add to
+   */
+  private checkMarkdown(source: PromptSourceFile, findings: LintFinding[]): void {
+    const report = (severity: LintFinding['severity'], index: number, message: string): void => {
+      findings.push({ severity, check: 'markdown', file: source.file, line: source.lineOffset + index + 1, message });
+    };
+
+    const lines = source.body.split(/\r?\n/);
+    const headings = new Map<string, number>();
+    let fenceLine: number | undefined;
+    let commentLine: number | undefined;
+    let previousLevel: number | undefined;
+    let openHeading: { index: number; level: number } | undefined;
+
+    for (const [index, line] of lines.entries()) {
+      if (/^\s*(```|~~~)/.test(line)) {
+        fenceLine = fenceLine === undefined ? index : undefined;
+        openHeading = undefined;
+        continue;
+      }
+      if (fenceLine !== undefined) {
+        continue;
+      }
+
+      if (commentLine === undefined && line.includes('<!--') && !line.slice(line.lastIndexOf('<!--')).includes('-->')) {
+        commentLine = index;
+      } else if (commentLine !== undefined && line.includes('-->')) {
+        commentLine = undefined;
+      }
+
+      if (line.includes('@include') && !/^\s*<!--\s*@include\s+\S+\s*-->\s*$/.test(line)) {
+        report('error', index, 'Malformed include; use a line of its own: <!-- @include name.md -->');
+      }
+
+      const heading = /^(#{1,6})(?:\s+(.*?))?\s*#*\s*$/.exec(line);
+      if (!heading) {
+        if (line.trim().length > 0) {
+          openHeading = undefined;
+        }
+        continue;
+      }
+
+      const level = (heading[1] as string).length;
+      const text = (heading[2] ?? '').trim();
+      if (openHeading && level <= openHeading.level) {
+        report('warning', openHeading.index, 'Heading has no content');
+      }
+      openHeading = { index, level };
+
+      if (text.length === 0) {
+        report('error', index, 'Empty heading');
+        continue;
+      }
+      if (previousLevel !== undefined && level > previousLevel + 1) {
+        report('warning', index, `Heading level skips from ${previousLevel} to ${level}`);
+      }
+      previousLevel = level;
+
+      const key = text.toLowerCase();
+      const first = headings.get(key);
+      if (first !== undefined) {
+        report('warning', index, `Duplicate heading '${text}' (first on line ${source.lineOffset + first + 1})`);
+      } else {
+        headings.set(key, index);
+      }
+    }
+
+    if (openHeading) {
+      report('warning', openHeading.index, 'Heading has no content');
+    }
+    if (fenceLine !== undefined) {
+      report('error', fenceLine, 'Code fence is never closed');
+    }
+    if (commentLine !== undefined) {
+      report('error', commentLine, 'HTML comment is never closed; the rest of the file would be hidden');
+    }
+  }
+
+  /**
+   * Report lines matching a rule's forbidden pattern.
+   *
+   * @param source - File to check
+   * @param findings - Findings to add to
+   */
+  private checkForbiddenRules(source: PromptSourceFile, findings: LintFinding[]): void {
+    for (const rule of this.config.rules) {
+      if (!rule.forbid || !this.ruleApplies(rule, source.file)) {
+        continue;
+      }
+      for (const [index, line] of source.body.split(/\r?\n/).entries()) {
+        if (rule.forbid.test(line)) {
+          findings.push({
+            severity: rule.severity,
+            check: 'rule',
+            file: source.file,
+            line: source.lineOffset + index + 1,
+            message: `[${rule.id}] ${rule.message}`,
+          });
+        }
+      }
+    }
+  }
+
+  /**
+   * Report composed prompts with no line matching a rule's required pattern.
+   * Checked on the composed text, so a requirement met by a partial counts.
+   *
+   * @param file - Prompt file (shared, or guild override path)
+   * @param prompt - Composed prompt
+   * @param findings - Findings to add to
+   */
+  private checkRequiredRules(file: string, prompt: LoadedPrompt, findings: LintFinding[]): void {
+    for (const rule of this.config.rules) {
+      const required = rule.require;
+      if (!required || !this.ruleApplies(rule, file)) {
+        continue;
+      }
+      if (!prompt.content.split(/\r?\n/).some(line => required.test(line))) {
+        findings.push({ severity: rule.severity, check: 'rule', file, message: `[${rule.id}] ${rule.message}` });
+      }
+    }
+  }
+
+  /**
+   * Check whether a rule covers a file.
+   * Without `files`, rules cover shared prompt files and their variants.
+   *
+   * @param rule - Lint rule
+   * @param file - Path relative to the prompts directory
+   * @returns True if the rule applies
+   */
+  private ruleApplies(rule: PromptLintRule, file: string): boolean {
+    if (!rule.files) {
+      return !file.includes('/') || file.startsWith(`${VARIANTS_DIRECTORY}/`);
+    }
+    return rule.files.some(pattern => {
+      const source = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('[^/]*');
+      return new RegExp(`^${source}$`).test(file);
+    });
+  }
+
+  /**
+   * Report instructions repeated within one composed prompt.
+   *
+   * @param file - Prompt file
+   * @param prompt - Composed prompt
+   * @param findings - Findings to add to
+   */
+  private checkDuplicatesWithin(file: string, prompt: LoadedPrompt, findings: LintFinding[]): void {
+    const seen = new Set<string>();
+    for (const [key, text] of this.instructions(prompt.content)) {
+      if (seen.has(key)) {
+        findings.push({
+          severity: 'warning',
+          check: 'duplicate',
+          file,
+          message: `Instruction appears more than once: "${text}"`,
+        });
+      }
+      seen.add(key);
+    }
+  }
+
+  /**
+   * Check each persona's system prompt against the developer prompt:
+   * shared instructions and combined token size.
+   *
+   * @param loaded - Composed prompts by file
+   * @param guildId - Guild whose overrides apply, or undefined for shared prompts
+   * @param findings - Findings to add to
+   */
+  private checkPersonaPrompts(
+    loaded: ReadonlyMap<string, LoadedPrompt>,
+    guildId: string | undefined,
+    findings: LintFinding[]
+  ): void {
+    const resolve = (promptType: PromptFile): [string, LoadedPrompt | undefined] => {
+      const overridePath = guildId !== undefined ? `${GUILD_OVERRIDES_DIRECTORY}/${guildId}/${promptType}` : undefined;
+      if (overridePath !== undefined && loaded.has(overridePath)) {
+        return [overridePath, loaded.get(overridePath)];
+      }
+      // Guild passes only report what its overrides change
+      return [promptType, guildId === undefined ? loaded.get(promptType) : undefined];
+    };
+
+    const [developerFile, developer] = resolve(PromptType.DEVELOPER);
+    for (const persona of this.config.personaRegistry.list()) {
+      const [systemFile, system] = resolve(persona.systemPromptFile);
+      const systemPrompt = system ?? loaded.get(persona.systemPromptFile);
+      const developerPrompt = developer ?? loaded.get(PromptType.DEVELOPER);
+      if (!systemPrompt || !developerPrompt || (guildId !== undefined && !system && !developer)) {
+        continue;
+      }
+      const file = system ? systemFile : developerFile;
+
+      const developerInstructions = new Set(this.instructions(developerPrompt.content).map(([key]) => key));
+      for (const [key, text] of this.instructions(systemPrompt.content)) {
+        if (developerInstructions.has(key)) {
+          findings.push({
+            severity: 'warning',
+            check: 'duplicate',
+            file,
+            message: `Instruction also in ${developer ? developerFile : PromptType.DEVELOPER}: "${text}"`,
+          });
+        }
+      }
+
+      const model = persona.model?.model ?? systemPrompt.modelHints.model ?? this.config.defaultModel;
+      const reserve = persona.model?.maxTokens ?? DEFAULT_COMPLETION_RESERVE_TOKENS;
+      const budget = Math.max(0, getContextWindow(model) - reserve);
+      const tokens = countTokens(systemPrompt.content) + countTokens(developerPrompt.content);
+      const where = guildId !== undefined ? ` in guild ${guildId}` : '';
+
+      if (tokens > budget) {
+        findings.push({
+          severity: 'error',
+          check: 'tokens',
+          file,
+          message: `Persona ${persona.id}${where}: system + developer prompts need about ${tokens} tokens, ` +
+            `over the ${budget}-token budget for ${model}`,
+        });
+      } else if (tokens > budget / 2) {
+        findings.push({
+          severity: 'warning',
+          check: 'tokens',
+          file,
+          message: `Persona ${persona.id}${where}: system + developer prompts use about ${tokens} of ` +
+            `${budget} tokens for ${model}, leaving little room for context`,
+        });
+      }
+    }
+  }
+
+  /**
+   * Extract instructions (non-heading lines of at least MIN_DUPLICATE_WORDS
+   * words), keyed by a normalized form that ignores case, list markers and
+   * punctuation.
+   *
+   * @param text - Prompt text
+   * @returns [normalized key, original text] pairs, in order
+   */
+  private instructions(text: string): Array<[string, string]> {
+    const instructions: Array<[string, string]> = [];
+    for (const line of text.split(/\r?\n/)) {
+      const trimmed = line.trim();
+      if (trimmed.startsWith('#') || trimmed.startsWith('<!--')) {
+        continue;
+      }
+      const key = trimmed
+        .replace(/^([-*+]|\d+[.)])\s+/, '')
+        .toLowerCase()
+        .replace(/[^\p{L}\p{N}{}\s]/gu, '')
+        .replace(/\s+/g, ' ')
+        .trim();
+      if (key.split(' ').length >= MIN_DUPLICATE_WORDS) {
+        instructions.push([key, trimmed]);
+      }
+    }
+    return instructions;
+  }
+
+  /**
+   * Drop identical findings (e.g. one shared file reported for two personas).
+   *
+   * @param findings - Findings
+   * @returns Distinct findings
+   */
+  private deduplicate(findings: LintFinding[]): LintFinding[] {
+    const seen = new Set<string>();
+    return findings.filter(finding => {
+      const key = `${finding.file}|${finding.line ?? ''}|${finding.check}|${finding.message}`;
+      if (seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+  }
+}
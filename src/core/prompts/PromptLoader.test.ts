@@ -0,0 +1,169 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PromptLoader } from './PromptLoader';
+import { delay } from '../../utils/abort';
+import { silentLogger } from '../../testing/fixtures';
+
+/**
+ * Poll until a condition holds (watcher events arrive asynchronously).
+ */
+async function waitFor(condition: () => boolean, timeoutMs = 5000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await delay(20);
+  }
+}
+
+describe('PromptLoader', () => {
+  let dir: string;
+  let loader: PromptLoader | undefined;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'prompts-'));
+  });
+
+  afterEach(() => {
+    loader?.close();
+    loader = undefined;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function write(file: string, content: string): void {
+    fs.mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+    fs.writeFileSync(path.join(dir, file), content);
+  }
+
+  describe('composition', () => {
+    const GUILD_ID = '333333333333333333';
+
+    function createLoader(): PromptLoader {
+      loader = new PromptLoader({ logger: silentLogger, promptsDirectory: dir, enableHotReload: false });
+      return loader;
+    }
+
+    it('expands nested partials and records every layer', () => {
+      write('helper.md', '---\nversion: 1.0.0\n---\nYou are a helpful assistant.\n<!-- @include tone.md -->');
+      write('partials/tone.md', 'Be brief.\n<!-- @include safety.md -->');
+      write('partials/safety.md', 'Never share secrets.');
+
+      const prompt = createLoader().load('helper.md');
+
+      expect(prompt.content).toBe('You are a helpful assistant.\nBe brief.\nNever share secrets.');
+      expect(prompt.layers).toEqual(['helper.md', 'partials/tone.md', 'partials/safety.md']);
+      expect(prompt.version).toBe('1.0.0');
+    });
+
+    it.each([
+      ['an include cycle', '<!-- @include loop.md -->', /include cycle: helper.md -> partials\/loop.md -> partials\/loop.md/],
+      ['partial front-matter', '---\nversion: 2\n---\nBe brief.', /Partial 'partials\/loop.md' must not have front-matter/],
+    ])('rejects %s', (_label, content, message) => {
+      write('helper.md', 'You are a helpful assistant.\n<!-- @include loop.md -->');
+      write('partials/loop.md', content);
+
+      expect(() => createLoader().load('helper.md')).toThrow(message);
+    });
+
+    it('appends a guild override and lets its front-matter win', () => {
+      write('helper.md', '---\nversion: 1.0.0\nauthor: core\n---\nYou are a helpful assistant.\n');
+      write(`guilds/${GUILD_ID}/helper.md`, '---\nversion: 1.0.0-guild\n---\n\nAnswer in French.');
+      const prompts = createLoader();
+
+      const prompt = prompts.load('helper.md', GUILD_ID);
+
+      expect(prompt.content).toBe('You are a helpful assistant.\n\nAnswer in French.');
+      expect(prompt).toMatchObject({ version: '1.0.0-guild', author: 'core' });
+      expect(prompt.layers).toEqual(['helper.md', `guilds/${GUILD_ID}/helper.md`]);
+      expect(prompts.listGuildOverrides()).toEqual([{ guildId: GUILD_ID, promptType: 'helper.md' }]);
+      expect(prompts.load('helper.md', '444444444444444444')).toBe(prompts.load('helper.md'));
+    });
+
+    it('replaces the shared text with mode: replace, which shared files may not use', () => {
+      write('helper.md', 'You are a helpful assistant.');
+      write(`guilds/${GUILD_ID}/helper.md`, '---\nmode: replace\n---\nYou are a French tutor.');
+      write('tutor.md', '---\nmode: replace\n---\nYou are a helpful assistant.');
+      const prompts = createLoader();
+
+      expect(prompts.load('helper.md', GUILD_ID).content).toBe('You are a French tutor.');
+      expect(() => prompts.load('tutor.md')).toThrow(/'mode' is only allowed in guild override files/);
+    });
+
+    it('rejects unsafe file names and guild IDs', () => {
+      const prompts = createLoader();
+
+      expect(() => prompts.load('../secret.md')).toThrow(/Invalid prompt file name/);
+      expect(() => prompts.load('partials/tone.md')).toThrow(/Invalid prompt file name/);
+      expect(() => prompts.load('helper.md', '../x')).toThrow(/Invalid guild ID for prompt 'helper.md'/);
+    });
+  });
+
+  describe('hot reload', () => {
+    function createLoader(): PromptLoader {
+      loader = new PromptLoader({
+        logger: silentLogger,
+        promptsDirectory: dir,
+        enableHotReload: true,
+        reloadDebounceMs: 10,
+      });
+      return loader;
+    }
+
+    it('swaps in valid changes', async () => {
+      write('helper.md', 'You are a helpful assistant.');
+      const prompts = createLoader();
+      const before = prompts.load('helper.md');
+
+      write('helper.md', 'You are a very helpful assistant.');
+      await waitFor(() => prompts.getCacheStats().reloads === 1);
+
+      const after = prompts.load('helper.md');
+      expect(after.content).toBe('You are a very helpful assistant.');
+      expect(after.hash).not.toBe(before.hash);
+      expect(prompts.getCacheStats().recentReloads).toMatchObject([{ promptType: 'helper.md', outcome: 'reloaded' }]);
+    });
+
+    it('keeps the last good version when a change is invalid', async () => {
+      write('helper.md', 'You are a helpful assistant.');
+      const prompts = createLoader();
+      prompts.load('helper.md');
+
+      write('helper.md', 'Too short');
+      await waitFor(() => prompts.getCacheStats().rejectedReloads === 1);
+
+      expect(prompts.load('helper.md').content).toBe('You are a helpful assistant.');
+      expect(prompts.getCacheStats().recentReloads[0]).toMatchObject({ outcome: 'rejected' });
+    });
+
+    it('reloads prompts that include a changed partial', async () => {
+      write('helper.md', 'You are a helpful assistant.\n<!-- @include tone.md -->');
+      write('partials/tone.md', 'Be brief.');
+      const prompts = createLoader();
+      prompts.load('helper.md');
+
+      write('partials/tone.md', 'Be thorough.');
+      await waitFor(() => prompts.getCacheStats().reloads === 1);
+
+      expect(prompts.load('helper.md').content).toBe('You are a helpful assistant.\nBe thorough.');
+    });
+
+    it('stops watching when closed', () => {
+      const prompts = createLoader();
+
+      expect(prompts.getCacheStats().watching).toBe(true);
+      prompts.close();
+      expect(prompts.getCacheStats().watching).toBe(false);
+    });
+
+    it('fails when the prompts directory cannot be watched', () => {
+      expect(() => new PromptLoader({
+        logger: silentLogger,
+        promptsDirectory: path.join(dir, 'missing'),
+        enableHotReload: true,
+      })).toThrow(/Failed to watch prompts directory/);
+    });
+  });
+});
@@ -1,6 +1,10 @@
+import * as crypto from 'crypto';
 import * as fs from 'fs';
 import * as path from 'path';
 import { PromptValidator } from './PromptValidator';
+import { ParsedPromptFile, parsePromptFile } from './PromptFrontMatter';
+import { isValidSnowflake } from '../../config/ownerConfig';
+import { LoadedPrompt, PromptFrontMatter } from '../../types/prompt.types';
 import { Logger } from '../../utils/logger';
 
 /**
@@ -15,11 +19,17 @@ export interface PromptLoaderConfig {
 
   /**
    * Enable hot-reloading of prompts in development mode.
-   * When enabled, prompts are reloaded from disk on each request.
-   * Should be false in production for performance.
+   * When enabled, the prompts directory is watched and a cached prompt is
+   * re-read only after its file changes. Defaults to NODE_ENV === 'development'.
    */
   enableHotReload?: boolean;
 
+  /**
+   * Quiet period after the last change event before a file is re-read (ms).
+   * Lets editors finish writing. Defaults to DEFAULT_RELOAD_DEBOUNCE_MS.
+   */
+  reloadDebounceMs?: number;
+
   /**
    * Logger for prompt loading events.
    */
@@ -36,17 +46,117 @@ export enum PromptType {
   DEVELOPER = 'developer.md',
 }
 
+/**
+ * A prompt file name: a known PromptType, or a persona's own system prompt
+ * file from the persona registry.
+ */
+export type PromptFile = PromptType | string;
+
+/**
+ * Prompt file names must be plain markdown files inside the prompts directory.
+ */
+export const PROMPT_FILE_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*\.md$/;
+
+/**
+ * Subdirectory of the prompts directory holding shared partials.
+ */
+export const PARTIALS_DIRECTORY = 'partials';
+
+/**
+ * Subdirectory of the prompts directory holding one override directory per guild ID.
+ */
+export const GUILD_OVERRIDES_DIRECTORY = 'guilds';
+
+/**
+ * Subdirectory of the prompts directory holding experiment variants:
+ * `variants/<prompt name without .md>/<variant ID>.md`.
+ */
+export const VARIANTS_DIRECTORY = 'variants';
+
+/**
+ * Variant IDs: lowercase letters, digits and dashes.
+ */
+export const VARIANT_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,31}$/;
+
+/**
+ * An include directive on a line of its own: `<!-- @include name.md -->`.
+ * An HTML comment, so unexpanded files still render cleanly as markdown.
+ */
+const INCLUDE_DIRECTIVE = /^[ \t]*<!--\s*@include\s+(\S+)\s*-->[ \t]*$/gm;
+
+/**
+ * Maximum nesting of partials that include partials.
+ */
+const MAX_INCLUDE_DEPTH = 3;
+
+/**
+ * Default quiet period before a changed prompt file is re-read (ms).
+ */
+export const DEFAULT_RELOAD_DEBOUNCE_MS = 100;
+
+/**
+ * Number of recent reload events kept for getCacheStats.
+ */
+const MAX_RELOAD_EVENTS = 20;
+
+/**
+ * Outcome of re-reading a changed prompt file.
+ * - 'reloaded': new content validated and swapped in
+ * - 'rejected': new content unreadable or invalid; the last good version is kept
+ */
+export interface PromptReloadEvent {
+  /**
+   * Cache key of the prompt: its file name, or `guilds/<id>/<file>` for a
+   * guild's composed version.
+   */
+  promptType: string;
+  outcome: 'reloaded' | 'rejected';
+  at: Date;
+
+  /**
+   * Why the reload was rejected.
+   */
+  error?: string;
+}
+
 /**
  * Pure I/O layer for loading prompt files from disk.
  * 
  * Responsibilities:
  * - Load prompt text from files
+ * - Parse optional front-matter (version, author, model hints, token budget)
  * - Cache prompts in memory
  * - Validate prompt content
  * - Support hot-reload in development
  * 
+ * Front-matter:
+ * A file may start with a `---` delimited block of `key: value` lines
+ * (see PromptFrontMatter). It is stripped from the prompt text; unknown
+ * keys or bad values make the file invalid.
+ * 
+ * Layers:
+ * A prompt is resolved in this order, and the order is logged:
+ * 1. The shared file (`prompts/<file>`), or for an experiment variant the
+ *    variant file (`prompts/variants/<name>/<variant>.md`) instead
+ * 2. Partials it includes with `<!-- @include name.md -->` lines
+ *    (`prompts/partials/name.md`, nested up to MAX_INCLUDE_DEPTH)
+ * 3. For a guild, its override file (`prompts/guilds/<guildId>/<file>`),
+ *    appended to the shared text, or used instead with `mode: replace`;
+ *    its front-matter keys win over the shared file's
+ * Every file is validated by PromptValidator on its own, and the composed
+ * prompt is validated as a whole. Partials may not have front-matter.
+ * 
+ * Hot Reload:
+ * The prompts, partials, guild override and variant directories that exist
+ * at startup are watched (not individual files, so editors that save by rename
+ * are seen). When a file used by a cached prompt changes, the prompt is
+ * re-composed after a short quiet period and validated; valid content
+ * replaces the cached version, invalid or missing content is rejected and
+ * the last good version stays in use. Uncached files are ignored until
+ * first loaded. Guild and variant directories created later need a restart.
+ * 
  * NOT Responsible For:
- * - Prompt composition or assembly
+ * - Assembling the final LLM prompt (PromptBuilder's job)
  * - Persona logic
  * - Context injection
  * - AI service interaction
@@ -57,21 +167,50 @@ export class PromptLoader {
   
   /**
    * In-memory cache of loaded prompts.
-   * Key: PromptType enum value (filename)
-   * Value: Prompt text content
+   * Key: prompt file name, or `guilds/<id>/<file>` for a guild with an override,
+   * followed by `@<variant>` for an experiment variant
+   * Value: Composed prompt (text and front-matter)
    */
-  private readonly cache: Map<PromptType, string>;
+  private readonly cache: Map<string, LoadedPrompt>;
 
   /**
    * Track which prompts have been validated to avoid redundant validation.
    */
-  private readonly validated: Set<PromptType>;
+  private readonly validated: Set<string>;
+
+  /**
+   * Whether a guild override file exists, by relative path.
+   * Checked once per path; file events invalidate entries.
+   */
+  private readonly overrideExists = new Map<string, boolean>();
+
+  /**
+   * Directory watchers (hot reload only).
+   */
+  private watchers: fs.FSWatcher[] = [];
+
+  /**
+   * Debounce timers for prompts with pending reloads, by cache key.
+   */
+  private readonly pendingReloads = new Map<string, NodeJS.Timeout>();
 
+  /**
+   * Most recent reload events, oldest first.
+   */
+  private readonly reloadEvents: PromptReloadEvent[] = [];
+  private reloadCount = 0;
+  private rejectedReloadCount = 0;
+
+  /**
+   * @param config - Loader configuration
+   * @throws Error if hot reload is enabled and the prompts directory cannot be watched
+   */
   constructor(config: PromptLoaderConfig) {
     this.config = {
       promptsDirectory: config.promptsDirectory || path.join(process.cwd(), 'prompts'),
       // Use bracket notation for safe environment variable access
       enableHotReload: config.enableHotReload ?? process.env['NODE_ENV'] === 'development',
+      reloadDebounceMs: config.reloadDebounceMs ?? DEFAULT_RELOAD_DEBOUNCE_MS,
       logger: config.logger,
     };
     
@@ -79,6 +218,10 @@ export class PromptLoader {
     this.cache = new Map();
     this.validated = new Set();
 
+    if (this.config.enableHotReload) {
+      this.startWatching();
+    }
+
     this.logger.info('PromptLoader initialized', {
       promptsDirectory: this.config.promptsDirectory,
       enableHotReload: this.config.enableHotReload,
@@ -86,23 +229,253 @@ export class PromptLoader {
   }
 
   /**
-   * Get full file path for a prompt type.
+   * Watch the prompts directory, the partials directory, each guild
+   * override directory and each variant directory (those that exist) for changes.
+   * Watchers do not keep the process alive.
    * 
-   * @param promptType - Type of prompt to load
+   * @throws Error if the prompts directory cannot be watched
+   */
+  private startWatching(): void {
+    const root = this.config.promptsDirectory;
+    const directories = [
+      '',
+      PARTIALS_DIRECTORY,
+      ...this.listSubdirectories(GUILD_OVERRIDES_DIRECTORY, isValidSnowflake),
+      ...this.listSubdirectories(VARIANTS_DIRECTORY, name => PROMPT_FILE_PATTERN.test(`${name}.md`)),
+    ];
+
+    for (const directory of directories) {
+      const absolute = path.join(root, directory);
+      // Optional directories may be absent; the prompts directory itself may not
+      if (directory !== '' && !fs.existsSync(absolute)) {
+        continue;
+      }
+
+      let watcher: fs.FSWatcher;
+      try {
+        watcher = fs.watch(absolute, (_event, filename) => {
+          if (filename) {
+            this.onFileChanged(directory ? `${directory}/${filename.toString()}` : filename.toString());
+          }
+        });
+      } catch (error) {
+        this.close();
+        throw new Error(`Failed to watch prompts directory for hot reload: ${absolute}`, { cause: error });
+      }
+
+      watcher.unref();
+      watcher.on('error', error => {
+        this.logger.error('Prompt directory watcher failed; hot reload stopped', {
+          directory: absolute,
+          error: error.message,
+        });
+        this.close();
+      });
+      this.watchers.push(watcher);
+    }
+  }
+
+  /**
+   * List the subdirectories of an optional directory.
+   * 
+   * @param directory - Directory relative to the prompts directory
+   * @param accept - Which subdirectory names to include
+   * @returns Relative paths (empty if the directory is absent)
+   */
+  private listSubdirectories(directory: string, accept: (name: string) => boolean): string[] {
+    const absolute = path.join(this.config.promptsDirectory, directory);
+    if (!fs.existsSync(absolute)) {
+      return [];
+    }
+    return fs.readdirSync(absolute, { withFileTypes: true })
+      .filter(entry => entry.isDirectory() && accept(entry.name))
+      .map(entry => `${directory}/${entry.name}`);
+  }
+
+  /**
+   * Schedule a reload of every cached prompt composed from a changed file.
+   * Repeated events within the quiet period collapse into one reload.
+   * 
+   * @param relativePath - Changed file (relative to the prompts directory, '/'-separated)
+   */
+  private onFileChanged(relativePath: string): void {
+    // A guild override may have been created or deleted
+    this.overrideExists.delete(relativePath);
+
+    for (const [key, prompt] of this.cache) {
+      if (!prompt.layers.includes(relativePath)) {
+        continue;
+      }
+
+      clearTimeout(this.pendingReloads.get(key));
+      const timer = setTimeout(() => {
+        this.pendingReloads.delete(key);
+        this.reload(key);
+      }, this.config.reloadDebounceMs);
+      timer.unref();
+      this.pendingReloads.set(key, timer);
+    }
+  }
+
+  /**
+   * Re-compose and validate a cached prompt, keeping the last good version on failure.
+   * 
+   * @param promptType - Cache key of the prompt whose files changed
+   */
+  private reload(promptType: string): void {
+    const previous = this.cache.get(promptType);
+    if (previous === undefined) {
+      return;
+    }
+
+    let prompt: LoadedPrompt;
+    try {
+      const [file, guildId, variant] = this.parseCacheKey(promptType);
+      prompt = this.compose(file, guildId, variant);
+      this.validatePrompt(prompt);
+    } catch (error) {
+      this.rejectedReloadCount++;
+      this.recordReloadEvent({
+        promptType,
+        outcome: 'rejected',
+        at: new Date(),
+        error: (error as Error).message,
+      });
+      this.logger.warn(`Prompt reload rejected, keeping last good version: ${promptType}`, {
+        error: (error as Error).message,
+      });
+      return;
+    }
+
+    // Touches and rewrites with identical content are not reloads
+    if (prompt.hash === previous.hash) {
+      return;
+    }
+
+    this.cache.set(promptType, prompt);
+    this.reloadCount++;
+    this.recordReloadEvent({ promptType, outcome: 'reloaded', at: new Date() });
+    this.logger.info(`Prompt reloaded: ${promptType}`, {
+      previousVersion: previous.version,
+      version: prompt.version,
+      previousHash: previous.hash,
+      hash: prompt.hash,
+      contentLength: prompt.size,
+    });
+  }
+
+  /**
+   * Remember a reload event, dropping the oldest beyond MAX_RELOAD_EVENTS.
+   * 
+   * @param event - Reload event
+   */
+  private recordReloadEvent(event: PromptReloadEvent): void {
+    this.reloadEvents.push(Object.freeze(event));
+    if (this.reloadEvents.length > MAX_RELOAD_EVENTS) {
+      this.reloadEvents.shift();
+    }
+  }
+
+  /**
+   * Get full file path for a prompt file.
+   * Only `<file>`, `partials/<file>`, `guilds/<guildId>/<file>` and
+   * `variants/<name>/<file>` are allowed.
+   * 
+   * @param promptType - File relative to the prompts directory ('/'-separated)
    * @returns Absolute file path
+   * @throws Error if the name could escape the prompts directory
+   */
+  private getPromptPath(promptType: string): string {
+    const segments = promptType.split('/');
+    const file = segments.pop() ?? '';
+    const directoryAllowed =
+      segments.length === 0
+      || (segments.length === 1 && segments[0] === PARTIALS_DIRECTORY)
+      || (segments.length === 2 && segments[0] === GUILD_OVERRIDES_DIRECTORY && isValidSnowflake(segments[1] ?? ''))
+      || (segments.length === 2 && segments[0] === VARIANTS_DIRECTORY && PROMPT_FILE_PATTERN.test(`${segments[1]}.md`));
+
+    if (!directoryAllowed || !PROMPT_FILE_PATTERN.test(file)) {
+      throw new Error(`Invalid prompt file name: '${promptType}'`);
+    }
+    return path.join(this.config.promptsDirectory, ...segments, file);
+  }
+
+  /**
+   * Relative path of a guild's override for a prompt file.
+   * 
+   * @param promptType - Prompt file name
+   * @param guildId - Guild ID
+   * @returns Path relative to the prompts directory
+   */
+  private getOverridePath(promptType: PromptFile, guildId: string): string {
+    return `${GUILD_OVERRIDES_DIRECTORY}/${guildId}/${promptType}`;
+  }
+
+  /**
+   * Relative path of an experiment variant of a prompt file.
+   * 
+   * @param promptType - Prompt file name
+   * @param variant - Variant ID
+   * @returns Path relative to the prompts directory
+   */
+  private getVariantPath(promptType: PromptFile, variant: string): string {
+    return `${VARIANTS_DIRECTORY}/${promptType.replace(/\.md$/, '')}/${variant}.md`;
+  }
+
+  /**
+   * Check (once per path) whether a guild override file exists.
+   * 
+   * @param overridePath - Override path relative to the prompts directory
+   * @returns True if the file exists
+   */
+  private hasOverride(overridePath: string): boolean {
+    let exists = this.overrideExists.get(overridePath);
+    if (exists === undefined) {
+      exists = fs.existsSync(this.getPromptPath(overridePath));
+      this.overrideExists.set(overridePath, exists);
+    }
+    return exists;
+  }
+
+  /**
+   * Cache key for a prompt as seen by a guild: the override path if the
+   * guild has an override for it, otherwise the shared file name; either
+   * followed by `@<variant>` for an experiment variant.
+   * 
+   * @param promptType - Prompt file name
+   * @param guildId - Guild ID, if any
+   * @param variant - Variant ID, if any
+   * @returns Cache key
+   */
+  private getCacheKey(promptType: PromptFile, guildId?: string, variant?: string): string {
+    let key: string = promptType;
+    if (guildId !== undefined) {
+      const overridePath = this.getOverridePath(promptType, guildId);
+      key = this.hasOverride(overridePath) ? overridePath : promptType;
+    }
+    return variant !== undefined ? `${key}@${variant}` : key;
+  }
+
+  /**
+   * Split a cache key into the prompt file, guild ID and variant.
+   * 
+   * @param key - Cache key
+   * @returns Prompt file name, guild ID (undefined for shared prompts) and variant (if any)
    */
-  private getPromptPath(promptType: PromptType): string {
-    return path.join(this.config.promptsDirectory, promptType);
+  private parseCacheKey(key: string): [PromptFile, string | undefined, string | undefined] {
+    const [base = key, variant] = key.split('@');
+    const segments = base.split('/');
+    return segments.length === 3 ? [segments[2] as string, segments[1], variant] : [base, undefined, variant];
   }
 
   /**
    * Load prompt text from disk.
    * 
-   * @param promptType - Type of prompt to load
+   * @param promptType - File relative to the prompts directory
    * @returns Prompt text content
    * @throws Error if file doesn't exist or can't be read
    */
-  private loadFromDisk(promptType: PromptType): string {
+  private loadFromDisk(promptType: string): string {
     const filePath = this.getPromptPath(promptType);
 
     this.logger.debug(`Loading prompt from disk: ${promptType}`, { filePath });
@@ -137,14 +510,136 @@ export class PromptLoader {
     return content;
   }
 
+  /**
+   * Compose a prompt from its layers (see class docs) and log the resolution order.
+   * 
+   * @param promptType - Prompt file name
+   * @param guildId - Guild whose override applies, if any
+   * @param variant - Experiment variant replacing the shared file, if any
+   * @returns Composed prompt
+   * @throws Error if a layer is missing or invalid
+   */
+  private compose(promptType: PromptFile, guildId?: string, variant?: string): LoadedPrompt {
+    const layers: string[] = [];
+    const hash = crypto.createHash('sha256');
+
+    const sharedPath = variant !== undefined ? this.getVariantPath(promptType, variant) : promptType;
+    const shared = this.readLayer(sharedPath, layers, hash, []);
+    if (shared.attributes.mode !== undefined) {
+      throw new Error(`Prompt '${sharedPath}' front-matter: 'mode' is only allowed in guild override files`);
+    }
+
+    let { attributes, body } = shared;
+    const overridePath = guildId !== undefined ? this.getOverridePath(promptType, guildId) : undefined;
+    if (overridePath !== undefined && this.hasOverride(overridePath)) {
+      const override = this.readLayer(overridePath, layers, hash, []);
+      const { mode, ...overrideAttributes } = override.attributes;
+      body = mode === 'replace' ? override.body : `${body.trimEnd()}\n\n${override.body.trimStart()}`;
+      attributes = { ...attributes, ...overrideAttributes };
+    }
+
+    this.logger.info(`Prompt layers resolved: ${promptType}`, { guildId, variant, layers });
+
+    return this.toLoadedPrompt(promptType, attributes, body, layers, hash.digest('hex').slice(0, 12), variant);
+  }
+
+  /**
+   * Read one prompt file, validate it and expand its include directives.
+   * 
+   * @param promptType - File relative to the prompts directory
+   * @param layers - Files read so far; this file and its partials are appended
+   * @param hash - Running hash of every file read
+   * @param includeChain - Files including this one (cycle and depth checks)
+   * @returns Front-matter and expanded text
+   * @throws Error if the file is missing or invalid, or an include is invalid
+   */
+  private readLayer(
+    promptType: string,
+    layers: string[],
+    hash: crypto.Hash,
+    includeChain: readonly string[]
+  ): ParsedPromptFile {
+    const raw = this.loadFromDisk(promptType);
+    hash.update(raw);
+    layers.push(promptType);
+
+    const { attributes, body } = parsePromptFile(raw, promptType);
+    PromptValidator.validate(body, promptType);
+
+    const chain = [...includeChain, promptType];
+    const expanded = body.replace(INCLUDE_DIRECTIVE, (_directive, name: string) => {
+      const partialPath = `${PARTIALS_DIRECTORY}/${name}`;
+      if (!PROMPT_FILE_PATTERN.test(name)) {
+        throw new Error(`Prompt '${promptType}' includes invalid partial name '${name}'`);
+      }
+      if (chain.includes(partialPath)) {
+        throw new Error(`Prompt '${promptType}' include cycle: ${[...chain, partialPath].join(' -> ')}`);
+      }
+      if (chain.length > MAX_INCLUDE_DEPTH) {
+        throw new Error(`Prompt '${promptType}' includes are nested deeper than ${MAX_INCLUDE_DEPTH} levels`);
+      }
+
+      const partial = this.readLayer(partialPath, layers, hash, chain);
+      if (Object.keys(partial.attributes).length > 0) {
+        throw new Error(`Partial '${partialPath}' must not have front-matter`);
+      }
+      return partial.body.trim();
+    });
+
+    return { attributes, body: expanded };
+  }
+
+  /**
+   * Build the immutable LoadedPrompt for composed text.
+   * 
+   * @param promptType - Prompt file name
+   * @param attributes - Merged front-matter
+   * @param body - Composed prompt text
+   * @param layers - Files composed, in resolution order
+   * @param hash - Content hash of all layers
+   * @param variant - Experiment variant, if any
+   * @returns Loaded prompt
+   */
+  private toLoadedPrompt(
+    promptType: PromptFile,
+    attributes: PromptFrontMatter,
+    body: string,
+    layers: string[],
+    hash: string,
+    variant: string | undefined
+  ): LoadedPrompt {
+    const modelHints: LoadedPrompt['modelHints'] = {};
+    if (attributes.model !== undefined) {
+      modelHints.model = attributes.model;
+    }
+    if (attributes.temperature !== undefined) {
+      modelHints.temperature = attributes.temperature;
+    }
+
+    return Object.freeze({
+      content: body,
+      type: promptType,
+      loadedAt: new Date(),
+      size: body.length,
+      version: attributes.version,
+      author: attributes.author,
+      modelHints: Object.freeze(modelHints),
+      maxTokens: attributes.maxTokens,
+      hash,
+      layers: Object.freeze([...layers]) as string[],
+      variant,
+    });
+  }
+
   /**
    * Validate prompt content after loading.
    * 
-   * @param promptText - Text to validate
-   * @param promptType - Type of prompt (for error messages)
+   * @param prompt - Parsed prompt to validate
    * @throws Error if validation fails
    */
-  private validatePrompt(promptText: string, promptType: PromptType): void {
+  private validatePrompt(prompt: LoadedPrompt): void {
+    const promptText = prompt.content;
+    const promptType = prompt.type;
     try {
       // Basic validation
       PromptValidator.validate(promptText, promptType);
@@ -155,6 +650,11 @@ export class PromptLoader {
       // Maximum length check (no more than 10000 characters for system prompts)
       PromptValidator.validateMaxLength(promptText, promptType, 10000);
 
+      // Token budget declared in the front-matter
+      if (prompt.maxTokens !== undefined) {
+        PromptValidator.validateTokenBudget(promptText, promptType, prompt.maxTokens);
+      }
+
       this.logger.debug(`Prompt validated: ${promptType}`);
     } catch (error) {
       this.logger.error(`Prompt validation failed: ${promptType}`, {
@@ -165,69 +665,144 @@ export class PromptLoader {
   }
 
   /**
-   * Load a prompt by type.
-   * Uses cache if available and hot-reload is disabled.
+   * Load a prompt by type, composed for a guild if one is given.
+   * Served from cache once loaded; with hot reload the cache is
+   * refreshed by the directory watchers.
    * 
    * @param promptType - Type of prompt to load
-   * @returns Prompt text content
+   * @param guildId - Guild the prompt is for (applies its override, if any)
+   * @param variant - Experiment variant to use instead of the shared file, if any
+   * @returns Prompt text and front-matter
    * @throws Error if prompt cannot be loaded or is invalid
    */
-  public load(promptType: PromptType): string {
-    // If hot-reload enabled, always load from disk
-    if (this.config.enableHotReload) {
-      this.logger.debug(`Hot-reload enabled, loading from disk: ${promptType}`);
-      const content = this.loadFromDisk(promptType);
-      this.validatePrompt(content, promptType);
-      return content;
+  public load(promptType: PromptFile, guildId?: string, variant?: string): LoadedPrompt {
+    if (!PROMPT_FILE_PATTERN.test(promptType)) {
+      throw new Error(`Invalid prompt file name: '${promptType}'`);
+    }
+    if (guildId !== undefined && !isValidSnowflake(guildId)) {
+      throw new Error(`Invalid guild ID for prompt '${promptType}': '${guildId}'`);
+    }
+    if (variant !== undefined && !VARIANT_ID_PATTERN.test(variant)) {
+      throw new Error(`Invalid variant ID for prompt '${promptType}': '${variant}'`);
     }
 
     // Check cache first
-    const cached = this.cache.get(promptType);
+    const key = this.getCacheKey(promptType, guildId, variant);
+    const cached = this.cache.get(key);
     if (cached !== undefined) {
-      this.logger.debug(`Returning cached prompt: ${promptType}`);
+      this.logger.debug(`Returning cached prompt: ${key}`);
       return cached;
     }
 
-    // Load from disk
-    const content = this.loadFromDisk(promptType);
+    // Compose from disk (the guild is only relevant if it has an override)
+    const prompt = this.compose(promptType, key.startsWith(`${GUILD_OVERRIDES_DIRECTORY}/`) ? guildId : undefined, variant);
 
     // Validate if not already validated
-    if (!this.validated.has(promptType)) {
-      this.validatePrompt(content, promptType);
-      this.validated.add(promptType);
+    if (!this.validated.has(key)) {
+      this.validatePrompt(prompt);
+      this.validated.add(key);
     }
 
     // Store in cache
-    this.cache.set(promptType, content);
+    this.cache.set(key, prompt);
 
-    this.logger.info(`Prompt loaded and cached: ${promptType}`, {
-      contentLength: content.length,
+    this.logger.info(`Prompt loaded and cached: ${key}`, {
+      contentLength: prompt.size,
+      version: prompt.version,
+      hash: prompt.hash,
+      layers: prompt.layers,
     });
 
-    return content;
+    return prompt;
+  }
+
+  /**
+   * List the guild override files present on disk.
+   * 
+   * @returns Guild ID and prompt file of each override
+   */
+  public listGuildOverrides(): Array<{ guildId: string; promptType: PromptFile }> {
+    const guildsRoot = path.join(this.config.promptsDirectory, GUILD_OVERRIDES_DIRECTORY);
+    if (!fs.existsSync(guildsRoot)) {
+      return [];
+    }
+
+    const overrides: Array<{ guildId: string; promptType: PromptFile }> = [];
+    for (const entry of fs.readdirSync(guildsRoot, { withFileTypes: true })) {
+      if (!entry.isDirectory() || !isValidSnowflake(entry.name)) {
+        continue;
+      }
+      for (const file of fs.readdirSync(path.join(guildsRoot, entry.name))) {
+        if (PROMPT_FILE_PATTERN.test(file)) {
+          overrides.push({ guildId: entry.name, promptType: file });
+        }
+      }
+    }
+    return overrides;
+  }
+
+  /**
+   * List the experiment variant files present on disk.
+   * 
+   * @returns Prompt file and variant ID of each variant
+   */
+  public listVariants(): Array<{ promptType: PromptFile; variant: string }> {
+    const variants: Array<{ promptType: PromptFile; variant: string }> = [];
+    for (const directory of this.listSubdirectories(VARIANTS_DIRECTORY, name => PROMPT_FILE_PATTERN.test(`${name}.md`))) {
+      const promptType = `${path.posix.basename(directory)}.md`;
+      for (const file of fs.readdirSync(path.join(this.config.promptsDirectory, directory))) {
+        const variant = file.replace(/\.md$/, '');
+        if (file.endsWith('.md') && VARIANT_ID_PATTERN.test(variant)) {
+          variants.push({ promptType, variant });
+        }
+      }
+    }
+    return variants;
   }
 
   /**
    * Preload all known prompts into cache.
    * Useful for startup validation and performance.
    * 
+   * @param additionalFiles - Extra prompt files to preload (e.g. registered persona prompts)
    * @throws Error if any prompt fails to load
    */
-  public preloadAll(): void {
+  public preloadAll(additionalFiles: readonly PromptFile[] = []): void {
     this.logger.info('Preloading all prompts...');
 
-    const promptTypes = Object.values(PromptType);
-    const results: Array<{ type: PromptType; success: boolean; error?: string }> = [];
+    const promptTypes: PromptFile[] = [...new Set([...Object.values(PromptType), ...additionalFiles])];
+    const results: Array<{ type: string; success: boolean; error?: string }> = [];
+
+    // Shared prompts, then every guild override and variant of a known prompt
+    const targets: Array<{ promptType: PromptFile; guildId?: string; variant?: string }> =
+      promptTypes.map(promptType => ({ promptType }));
+    for (const override of this.listGuildOverrides()) {
+      if (promptTypes.includes(override.promptType)) {
+        targets.push(override);
+      } else {
+        this.logger.warn('Ignoring guild override for an unknown prompt', override);
+      }
+    }
+    for (const variant of this.listVariants()) {
+      if (promptTypes.includes(variant.promptType)) {
+        targets.push(variant);
+      } else {
+        this.logger.warn('Ignoring variant of an unknown prompt', variant);
+      }
+    }
 
-    for (const promptType of promptTypes) {
+    for (const { promptType, guildId, variant } of targets) {
+      const label = guildId !== undefined
+        ? this.getOverridePath(promptType, guildId)
+        : variant !== undefined ? this.getVariantPath(promptType, variant) : promptType;
       try {
-        this.load(promptType);
-        results.push({ type: promptType, success: true });
+        this.load(promptType, guildId, variant);
+        results.push({ type: label, success: true });
       } catch (error) {
         const errorMessage = (error as Error).message;
-        results.push({ type: promptType, success: false, error: errorMessage });
+        results.push({ type: label, success: false, error: errorMessage });
         
-        this.logger.error(`Failed to preload prompt: ${promptType}`, {
+        this.logger.error(`Failed to preload prompt: ${label}`, {
           error: errorMessage,
         });
       }
@@ -249,7 +824,7 @@ export class PromptLoader {
 
     this.logger.info('All prompts preloaded successfully', {
       count: successCount,
-      prompts: promptTypes,
+      prompts: results.map(r => r.type),
     });
   }
 
@@ -261,6 +836,8 @@ export class PromptLoader {
     const cacheSize = this.cache.size;
     this.cache.clear();
     this.validated.clear();
+    this.overrideExists.clear();
+    this.cancelPendingReloads();
     
     this.logger.info('Prompt cache cleared', {
       clearedEntries: cacheSize,
@@ -275,22 +852,51 @@ export class PromptLoader {
   public getCacheStats(): {
     size: number;
     hotReloadEnabled: boolean;
-    cachedPrompts: PromptType[];
+    watching: boolean;
+    cachedPrompts: string[];
+    reloads: number;
+    rejectedReloads: number;
+    recentReloads: PromptReloadEvent[];
   } {
     return {
       size: this.cache.size,
       hotReloadEnabled: this.config.enableHotReload,
+      watching: this.watchers.length > 0,
       cachedPrompts: Array.from(this.cache.keys()),
+      reloads: this.reloadCount,
+      rejectedReloads: this.rejectedReloadCount,
+      recentReloads: [...this.reloadEvents],
     };
   }
 
+  /**
+   * Stop watching for changes. Cached prompts stay available.
+   */
+  public close(): void {
+    this.cancelPendingReloads();
+    for (const watcher of this.watchers) {
+      watcher.close();
+    }
+    this.watchers = [];
+  }
+
+  /**
+   * Cancel reloads waiting for their quiet period.
+   */
+  private cancelPendingReloads(): void {
+    for (const timer of this.pendingReloads.values()) {
+      clearTimeout(timer);
+    }
+    this.pendingReloads.clear();
+  }
+
   /**
    * Check if a specific prompt is loaded in cache.
    * 
    * @param promptType - Type of prompt to check
    * @returns True if cached
    */
-  public isCached(promptType: PromptType): boolean {
+  public isCached(promptType: PromptFile): boolean {
     return this.cache.has(promptType);
   }
 }
@@ -1,3 +1,6 @@
+import { PROMPT_VARIABLES, findUnknownPlaceholders } from './PromptVariables';
+import { countTokens } from './TokenCounter';
+
 /**
  * Stateless validation utility for prompt text.
  * Ensures loaded prompts meet basic quality and security requirements.
@@ -6,10 +9,11 @@ export class PromptValidator {
   /**
    * Forbidden patterns in prompt text.
    * These indicate potential template injection or invalid formatting.
+   * Double-brace placeholders are checked separately: only whitelisted
+   * prompt variables are allowed.
    */
   private static readonly FORBIDDEN_PATTERNS = [
-    /\$\{[^}]*\}/g,  // Template literals like ${variable}
-    /\{\{[^}]*\}\}/g, // Handlebars-style {{variable}}
+    /\$\{[^}]*\}/,  // Template literals like ${variable}
   ];
 
   /**
@@ -40,10 +44,19 @@ export class PromptValidator {
       if (pattern.test(promptText)) {
         throw new Error(
           `Prompt '${promptName}' validation failed: Contains forbidden pattern ${pattern.source}. ` +
-          `Prompts should be static text without template placeholders.`
+          `Only whitelisted {{VARIABLE}} placeholders are allowed.`
         );
       }
     }
+
+    // Check 4: Double-brace placeholders must name whitelisted variables
+    const unknown = findUnknownPlaceholders(promptText);
+    if (unknown.length > 0) {
+      throw new Error(
+        `Prompt '${promptName}' validation failed: Unknown placeholder(s) ${[...new Set(unknown)].join(', ')}. ` +
+        `Allowed variables: ${PROMPT_VARIABLES.map(name => `{{${name}}}`).join(', ')}`
+      );
+    }
   }
 
   /**
@@ -68,6 +81,38 @@ export class PromptValidator {
     }
   }
 
+  /**
+   * Estimate the token count of prompt text (see TokenCounter).
+   * 
+   * @param promptText - Text to measure
+   * @returns Estimated token count
+   */
+  public static estimateTokens(promptText: string): number {
+    return countTokens(promptText);
+  }
+
+  /**
+   * Validate that prompt text fits its declared token budget.
+   * 
+   * @param promptText - Text to validate
+   * @param promptName - Name of prompt (for error messages)
+   * @param maxTokens - Token budget from the prompt's front-matter
+   * @throws Error if the estimated size exceeds the budget
+   */
+  public static validateTokenBudget(
+    promptText: string,
+    promptName: string,
+    maxTokens: number
+  ): void {
+    const tokens = PromptValidator.estimateTokens(promptText);
+    if (tokens > maxTokens) {
+      throw new Error(
+        `Prompt '${promptName}' validation failed: ` +
+        `Estimated ${tokens} tokens exceeds front-matter maxTokens ${maxTokens}`
+      );
+    }
+  }
+
   /**
    * Validate that prompt text does not exceed maximum length.
    * 
@@ -0,0 +1,61 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  escapePromptValue,
+  findUnknownPlaceholders,
+  interpolatePrompt,
+  resolvePromptVariables,
+} from './PromptVariables';
+import { SYSTEM_CONSTANTS } from '../../config/constants';
+import { PersonaSelection, PersonaType } from '../../types/persona.types';
+
+const selection: PersonaSelection = {
+  persona: PersonaType.SUPERVISOR,
+  reason: 'default',
+  userId: '222222222222222222',
+  username: 'user',
+  isOwner: false,
+  timestamp: new Date('2026-01-01T00:00:00Z'),
+  messageId: 'msg-1',
+  channelId: 'c1',
+};
+
+describe('PromptVariables', () => {
+  it('finds placeholders that are not whitelisted', () => {
+    expect(findUnknownPlaceholders('{{BOT_NAME}} {{ PERSONA }} {{USER}} {{}}')).toEqual(['{{USER}}', '{{}}']);
+  });
+
+  it('resolves every variable from system values and the selection', () => {
+    const values = resolvePromptVariables(
+      { ...selection, guildName: 'Dev {Team}' },
+      new Date('2026-03-04T23:59:00Z')
+    );
+
+    expect(values).toEqual({
+      OWNER_NAME: SYSTEM_CONSTANTS.OWNER_NAME,
+      BOT_NAME: SYSTEM_CONSTANTS.BOT_NAME,
+      BOT_VERSION: SYSTEM_CONSTANTS.VERSION,
+      CURRENT_DATE: '2026-03-04',
+      PERSONA: 'SUPERVISOR',
+      GUILD_NAME: 'Dev Team',
+    });
+    expect(resolvePromptVariables(selection, new Date()).GUILD_NAME).toBe('direct message');
+  });
+
+  it('interpolates in a single pass', () => {
+    const values = { ...resolvePromptVariables(selection, new Date()), GUILD_NAME: '{{PERSONA}}' };
+
+    expect(interpolatePrompt('In {{ GUILD_NAME }} as {{PERSONA}}', values, 'a.md')).toBe('In {{PERSONA}} as SUPERVISOR');
+  });
+
+  it('rejects unknown placeholders', () => {
+    const values = resolvePromptVariables(selection, new Date());
+    expect(() => interpolatePrompt('Hi {{USER}}', values, 'a.md')).toThrow("Prompt 'a.md' contains unknown placeholder {{USER}}");
+  });
+
+  it.each([
+    ['line\nbreaks\tand ${evil} `code` {{x}}', 'line breaks and evil code x'],
+    ['x'.repeat(150), `${'x'.repeat(99)}…`],
+  ])('escapes %p', (value, expected) => {
+    expect(escapePromptValue(value)).toBe(expected);
+  });
+});
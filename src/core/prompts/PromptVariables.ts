@@ -0,0 +1,124 @@
+import { SYSTEM_CONSTANTS } from '../../config/constants';
+import { PersonaSelection } from '../../types/persona.types';
+
+/**
+ * Variables a prompt file may reference as `{{NAME}}`.
+ * Anything else in double braces is rejected when the prompt is loaded.
+ *
+ * - OWNER_NAME, BOT_NAME, BOT_VERSION: from SYSTEM_CONSTANTS
+ * - CURRENT_DATE: build date (YYYY-MM-DD, UTC)
+ * - PERSONA: selected persona ID
+ * - GUILD_NAME: server the message came from ('direct message' outside guilds)
+ */
+export const PROMPT_VARIABLES = Object.freeze([
+  'OWNER_NAME',
+  'BOT_NAME',
+  'BOT_VERSION',
+  'CURRENT_DATE',
+  'PERSONA',
+  'GUILD_NAME',
+] as const);
+
+export type PromptVariable = typeof PROMPT_VARIABLES[number];
+
+/**
+ * Any double-brace placeholder; group 1 is the text between the braces.
+ */
+const PLACEHOLDER_PATTERN = /\{\{([^{}]*)\}\}/g;
+
+/**
+ * Longest value substituted for a variable (characters).
+ */
+const MAX_VALUE_LENGTH = 100;
+
+/**
+ * List the placeholders in prompt text that are not whitelisted variables.
+ *
+ * @param text - Prompt text
+ * @returns Unknown placeholders as written (e.g. `{{ USER }}`), in order of appearance
+ */
+export function findUnknownPlaceholders(text: string): string[] {
+  return Array.from(text.matchAll(PLACEHOLDER_PATTERN))
+    .filter(match => !isPromptVariable((match[1] ?? '').trim()))
+    .map(match => match[0]);
+}
+
+/**
+ * Check whether a name is a whitelisted prompt variable.
+ *
+ * @param name - Variable name
+ * @returns True if the name may be used in a placeholder
+ */
+export function isPromptVariable(name: string): name is PromptVariable {
+  return (PROMPT_VARIABLES as readonly string[]).includes(name);
+}
+
+/**
+ * Compute the variable values for one prompt build.
+ *
+ * Only system-controlled values are exposed. The guild name is set by
+ * server admins, so like every value it is escaped before substitution.
+ * Message text, usernames and context are never available here.
+ *
+ * @param selection - Persona selection of the request
+ * @param now - Build time
+ * @returns Escaped value for every variable
+ */
+export function resolvePromptVariables(
+  selection: PersonaSelection,
+  now: Date
+): Readonly<Record<PromptVariable, string>> {
+  const values: Record<PromptVariable, string> = {
+    OWNER_NAME: SYSTEM_CONSTANTS.OWNER_NAME,
+    BOT_NAME: SYSTEM_CONSTANTS.BOT_NAME,
+    BOT_VERSION: SYSTEM_CONSTANTS.VERSION,
+    CURRENT_DATE: now.toISOString().slice(0, 10),
+    PERSONA: selection.persona,
+    GUILD_NAME: selection.guildName ?? 'direct message',
+  };
+
+  for (const name of PROMPT_VARIABLES) {
+    values[name] = escapePromptValue(values[name]);
+  }
+  return Object.freeze(values);
+}
+
+/**
+ * Replace whitelisted placeholders in prompt text.
+ * Substitution is a single pass, so values are never re-expanded.
+ *
+ * @param text - Prompt text (validated at load, so only known placeholders remain)
+ * @param values - Escaped variable values
+ * @param promptName - Prompt name (for error messages)
+ * @returns Interpolated text
+ * @throws Error if the text contains an unknown placeholder
+ */
+export function interpolatePrompt(
+  text: string,
+  values: Readonly<Record<PromptVariable, string>>,
+  promptName: string
+): string {
+  return text.replace(PLACEHOLDER_PATTERN, (placeholder, inner: string) => {
+    const name = inner.trim();
+    if (!isPromptVariable(name)) {
+      throw new Error(`Prompt '${promptName}' contains unknown placeholder ${placeholder}`);
+    }
+    return values[name];
+  });
+}
+
+/**
+ * Make a value safe to place inside a system prompt: a single line with
+ * no braces, backticks or dollar signs, at most MAX_VALUE_LENGTH characters.
+ *
+ * @param value - Raw value
+ * @returns Escaped value
+ */
+export function escapePromptValue(value: string): string {
+  const escaped = value
+    .replace(/[\u0000-\u001F\u007F]+/g, ' ')
+    .replace(/[{}`$]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return escaped.length > MAX_VALUE_LENGTH ? `${escaped.slice(0, MAX_VALUE_LENGTH - 1)}…` : escaped;
+}
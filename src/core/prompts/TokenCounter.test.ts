@@ -0,0 +1,35 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  MESSAGE_OVERHEAD_TOKENS,
+  REPLY_PRIMING_TOKENS,
+  countMessageTokens,
+  countTokens,
+  truncateToTokens,
+} from './TokenCounter';
+
+describe('TokenCounter', () => {
+  it.each([
+    ['', 0],
+    ['hello world', 2],
+    ['internationalization', 4],
+    ['a, b', 3],
+    ['日本', 2],
+  ])('estimates %p as %p tokens', (text, expected) => {
+    expect(countTokens(text)).toBe(expected);
+  });
+
+  it('adds per-message overhead and reply priming', () => {
+    const messages = [
+      { role: 'system' as const, content: 'hello world' },
+      { role: 'user' as const, content: 'hi' },
+    ];
+
+    expect(countMessageTokens(messages)).toBe(3 + 2 * MESSAGE_OVERHEAD_TOKENS + REPLY_PRIMING_TOKENS);
+  });
+
+  it('truncates to the longest prefix that fits with the ellipsis', () => {
+    expect(truncateToTokens('hello world', 2)).toBe('hello world');
+    expect(truncateToTokens('one two three four five', 3)).toBe('one two…');
+    expect(truncateToTokens('hello world', 0)).toBe('');
+  });
+});
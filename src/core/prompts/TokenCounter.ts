@@ -0,0 +1,87 @@
+import { LLMMessage } from './PromptBuilder';
+
+/**
+ * Pieces the estimate counts: letter runs, digit groups, whitespace runs
+ * and single other characters (punctuation, symbols, non-Latin scripts).
+ */
+const PIECE_PATTERN = /[A-Za-z]+|\d{1,3}|\s+|[^\sA-Za-z\d]/gu;
+
+/**
+ * Letters per token for Latin words (common words are a single token).
+ */
+const LETTERS_PER_TOKEN = 6;
+
+/**
+ * Formatting tokens the chat format adds around each message.
+ */
+export const MESSAGE_OVERHEAD_TOKENS = 4;
+
+/**
+ * Tokens that prime the assistant's reply, counted once per prompt.
+ */
+export const REPLY_PRIMING_TOKENS = 3;
+
+/**
+ * Estimate the number of tokens in a text.
+ *
+ * There is no tokenizer dependency, so this is a heuristic tuned to err
+ * high for BPE tokenizers: every punctuation mark, digit group and
+ * non-Latin character is a token, and Latin words cost one token per
+ * LETTERS_PER_TOKEN letters. A single space before a word is free.
+ *
+ * @param text - Text to measure
+ * @returns Estimated token count
+ */
+export function countTokens(text: string): number {
+  let tokens = 0;
+  for (const [piece] of text.matchAll(PIECE_PATTERN)) {
+    if (/^\s/.test(piece)) {
+      tokens += piece === ' ' ? 0 : 1;
+    } else if (/^[A-Za-z]/.test(piece)) {
+      tokens += Math.ceil(piece.length / LETTERS_PER_TOKEN);
+    } else {
+      tokens += 1;
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Estimate the tokens a chat request uses for its messages.
+ *
+ * @param messages - Messages in request order
+ * @returns Estimated token count, including formatting overhead
+ */
+export function countMessageTokens(messages: readonly LLMMessage[]): number {
+  return messages.reduce(
+    (total, message) => total + countTokens(message.content) + MESSAGE_OVERHEAD_TOKENS,
+    REPLY_PRIMING_TOKENS
+  );
+}
+
+/**
+ * Cut text to at most `maxTokens` estimated tokens, marking the cut with
+ * an ellipsis.
+ *
+ * @param text - Text to shorten
+ * @param maxTokens - Token allowance, including the ellipsis
+ * @returns The text unchanged if it fits, otherwise its longest fitting prefix plus '…' ('' if nothing fits)
+ */
+export function truncateToTokens(text: string, maxTokens: number): string {
+  if (countTokens(text) <= maxTokens) {
+    return text;
+  }
+
+  // Longest prefix whose shortened form fits; token count grows with length
+  let low = 0;
+  let high = text.length;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (countTokens(`${text.slice(0, middle)}…`) <= maxTokens) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return low > 0 ? `${text.slice(0, low).trimEnd()}…` : '';
+}
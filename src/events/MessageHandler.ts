@@ -1,53 +1,132 @@
-import { Message } from 'discord.js';
+import { Client, Message, MessageReaction, PartialMessageReaction, PartialUser, User } from 'discord.js';
+import { DiscordRequestAdapter } from '../adapters/DiscordRequestAdapter';
+import { DiscordOwnerNotifier } from '../adapters/DiscordOwnerNotifier';
 import { IdentityResolver } from '../core/identity/IdentityResolver';
 import { OwnerValidator } from '../core/identity/OwnerValidator';
+import { DelegateRegistry } from '../core/identity/DelegateRegistry';
+import { AccessControlList, DEFAULT_ACL_FILE } from '../core/access/AccessControlList';
+import { AuditLog, DEFAULT_AUDIT_LOG_FILE } from '../core/audit/AuditLog';
+import { AnomalyReporter } from '../core/anomaly/AnomalyReporter';
 import { PersonaSelector } from '../core/persona/PersonaSelector';
 import { PersonaLogger } from '../core/persona/PersonaLogger';
+import { PersonaRegistry } from '../core/persona/PersonaRegistry';
+import { DEFAULT_PERSONA_POLICY_FILE, PersonaPolicy } from '../core/persona/PersonaPolicy';
+import { PromptLoader } from '../core/prompts/PromptLoader';
+import { PromptBuilder } from '../core/prompts/PromptBuilder';
+import { PromptExperiments } from '../core/experiments/PromptExperiments';
+import { DEFAULT_EXPERIMENT_LOG_FILE, ExperimentLog, FEEDBACK_REACTIONS } from '../core/experiments/ExperimentLog';
+import { Pipeline } from '../core/pipeline/Pipeline';
+import { MessagePipelineFactory } from '../core/pipeline/MessagePipelineFactory';
+import { PipelineExplainer } from '../core/pipeline/PipelineExplainer';
+import { PipelineHooks } from '../core/pipeline/PipelineHooks';
+import { RecordingHook } from '../core/pipeline/hooks/RecordingHook';
+import { ExperimentHook } from '../core/pipeline/hooks/ExperimentHook';
+import { DeliveryReceipt, ResponseDeliveryStage } from '../core/pipeline/stages/ResponseDeliveryStage';
+import { getStageOutput } from '../core/pipeline/StageKey';
+import { STAGE_KEYS } from '../core/pipeline/stages/stageKeys';
+import { AdminCommandRouter } from '../commands/AdminCommandRouter';
+import { ExplainCommand } from '../commands/ExplainCommand';
+import { DelegateCommand } from '../commands/DelegateCommand';
+import { AclCommand } from '../commands/AclCommand';
+import { PersonaCommand } from '../commands/PersonaCommand';
+import { AuditCommand } from '../commands/AuditCommand';
+import { loadOwnerIds } from '../config/ownerConfig';
+import { loadTrustPolicy } from '../config/trustConfig';
+import { loadPersonaDefinitions } from '../config/personaConfig';
+import { loadPromptExperiments } from '../config/experimentConfig';
 import { AIAvailabilityChecker } from '../services/ai/AIAvailabilityChecker';
+import { OpenAIWrapper } from '../services/ai/OpenAIWrapper';
+import { InboundRequest } from '../types/request.types';
 import { Logger } from '../utils/logger';
 
 /**
- * Fallback message sent when OpenAI API is not available.
- * Exact text as specified in requirements.
+ * Message sent when the pipeline fails before a response was delivered.
  */
-const FALLBACK_MESSAGE = 'ACE Prime is online. AI responses are currently disabled.';
+const PIPELINE_ERROR_MESSAGE = 'ACE Prime could not process this request. Please try again later.';
+
+/**
+ * Message sent when delivery failed after part of the response was sent.
+ */
+const PARTIAL_DELIVERY_MESSAGE = 'ACE Prime could not send the rest of this response. Please try again later.';
+
+/**
+ * Default location of persisted delegate grants.
+ */
+const DEFAULT_DELEGATES_FILE = 'data/delegates.json';
 
 /**
  * Discord message handler for ACE Prime.
  * 
  * Responsibilities:
  * - Handle incoming Discord messages
- * - Execute persona selection (Butler/Supervisor)
+ * - Route admin commands (`!ace ...`) before normal processing
  * - Check OpenAI availability
- * - Send appropriate response (fallback or AI-generated)
+ * - Run the message pipeline for every message
+ * - Record feedback reactions on responses built with prompt experiment variants
  * 
  * Runtime Guard Behavior:
- * - If OPENAI_API_KEY is missing: sends fallback message, no crash
- * - Persona selection still executes and logs
- * - Pipeline stages still run (up to persona selection)
+ * - If OPENAI_API_KEY is missing the pipeline is built without an AI service:
+ *   the AI stage is skipped and the fallback message is delivered, no crash
+ * - Persona selection still executes and logs (it can never be skipped)
  * - No prompts sent to AI when key is missing
+ * - Requests denied by access control halt the pipeline and get no reply
+ * - Non-owner requests in channels disabled by persona policy halt the same way
+ * - Impersonation attempts are flagged to the audit log (and owner DMs if enabled)
  * 
  * NOT Responsible For:
  * - Building prompts (PromptBuilder's job)
  * - Calling OpenAI (OpenAIWrapper's job)
  * - Pipeline orchestration (Pipeline's job)
+ * - Stage wiring (MessagePipelineFactory's job)
+ * - Admin command authorization (AdminCommandRouter's job)
  */
 export class MessageHandler {
-  private readonly personaSelector: PersonaSelector;
   private readonly logger: Logger;
   private readonly isOpenAIAvailable: boolean;
+  private readonly pipeline: Pipeline<DeliveryReceipt>;
+  private readonly commandRouter: AdminCommandRouter;
+  private readonly responseDelivery = new ResponseDeliveryStage();
+
+  /**
+   * Exposure and feedback log, only while prompt experiments are configured.
+   */
+  private readonly experimentLog: ExperimentLog | undefined;
 
-  constructor(logger: Logger) {
+  /**
+   * @param logger - Logger
+   * @param client - Discord client, used to DM owners about impersonation
+   *                 attempts when ANOMALY_NOTIFY_OWNERS=true
+   */
+  constructor(logger: Logger, client?: Client) {
     this.logger = logger;
     
     // Initialize persona selection components
-    const identityResolver = new IdentityResolver();
-    const ownerValidator = new OwnerValidator();
-    const personaLogger = new PersonaLogger(logger);
-    this.personaSelector = new PersonaSelector(
+    // Owner IDs, delegates, trust tiers and personas are fixed/validated here; invalid config stops startup
+    const delegateRegistry = new DelegateRegistry(
+      process.env['DELEGATES_FILE']?.trim() || DEFAULT_DELEGATES_FILE,
+      logger
+    );
+    const ownerIds = loadOwnerIds(logger);
+    const ownerValidator = new OwnerValidator(ownerIds, delegateRegistry);
+    const identityResolver = new IdentityResolver(ownerValidator, loadTrustPolicy(logger));
+    const accessControlList = new AccessControlList(
+      process.env['ACL_FILE']?.trim() || DEFAULT_ACL_FILE,
+      logger
+    );
+    const personaRegistry = new PersonaRegistry(loadPersonaDefinitions(logger));
+    const personaPolicy = new PersonaPolicy(
+      process.env['PERSONA_POLICY_FILE']?.trim() || DEFAULT_PERSONA_POLICY_FILE,
+      personaRegistry,
+      logger
+    );
+    const auditLog = new AuditLog(process.env['AUDIT_LOG_FILE']?.trim() || DEFAULT_AUDIT_LOG_FILE, logger);
+    const personaLogger = new PersonaLogger(logger, auditLog);
+    const personaSelector = new PersonaSelector(
       identityResolver,
       ownerValidator,
-      personaLogger
+      personaLogger,
+      personaRegistry,
+      personaPolicy
     );
 
     // Check OpenAI availability at construction time
@@ -60,6 +139,98 @@ export class MessageHandler {
     } else {
       this.logger.info('OpenAI API key detected. AI responses enabled.');
     }
+
+    const promptLoader = new PromptLoader({ logger });
+    promptLoader.preloadAll(personaRegistry.getCustomPromptFiles());
+
+    // Experiments with a missing variant file stop startup
+    const experiments = new PromptExperiments(loadPromptExperiments(logger), promptLoader);
+    if (experiments.list().length > 0) {
+      this.experimentLog = new ExperimentLog(
+        process.env['EXPERIMENT_LOG_FILE']?.trim() || DEFAULT_EXPERIMENT_LOG_FILE,
+        logger
+      );
+    }
+
+    // OpenAIWrapper refuses to construct without an API key;
+    // without one the AI stage is skipped and the fallback message is sent
+    this.pipeline = MessagePipelineFactory.create({
+      identityResolver,
+      accessControlList,
+      personaSelector,
+      promptBuilder: new PromptBuilder(promptLoader, logger, personaRegistry, { experiments }),
+      anomalyReporter: new AnomalyReporter(
+        logger,
+        auditLog,
+        // Use bracket notation for safe environment variable access
+        client && process.env['ANOMALY_NOTIFY_OWNERS'] === 'true'
+          ? new DiscordOwnerNotifier(client, ownerIds, logger)
+          : undefined
+      ),
+      aiService: this.isOpenAIAvailable ? new OpenAIWrapper() : undefined,
+      logger,
+      auditLog,
+      timeoutMs: this.readTimeoutFromEnv('PIPELINE_TIMEOUT_MS'),
+      aiTimeoutMs: this.readTimeoutFromEnv('AI_TIMEOUT_MS'),
+      hooks: this.createOptionalHooks(),
+      responseDelivery: this.responseDelivery,
+    });
+
+    // Admin commands (owner-only unless a command has a delegate scope)
+    this.commandRouter = new AdminCommandRouter(identityResolver, ownerValidator, logger);
+    this.commandRouter
+      .register(new ExplainCommand(new PipelineExplainer(this.pipeline)))
+      .register(new DelegateCommand(delegateRegistry, identityResolver, ownerValidator))
+      .register(new AclCommand(accessControlList, identityResolver))
+      .register(new PersonaCommand(personaPolicy, personaRegistry, identityResolver))
+      .register(new AuditCommand(auditLog));
+  }
+
+  /**
+   * Create hooks enabled through the environment.
+   * PIPELINE_RECORD_FILE turns on execution recording for replay;
+   * configured prompt experiments turn on exposure recording.
+   * 
+   * @returns Hooks to register on the pipeline
+   */
+  private createOptionalHooks(): PipelineHooks[] {
+    const hooks: PipelineHooks[] = [];
+
+    if (this.experimentLog) {
+      hooks.push(new ExperimentHook(this.experimentLog, this.logger));
+    }
+
+    // Use bracket notation for safe environment variable access
+    const recordFile = process.env['PIPELINE_RECORD_FILE'];
+    if (recordFile && recordFile.trim().length > 0) {
+      hooks.push(new RecordingHook(recordFile.trim(), this.logger));
+      this.logger.info('Pipeline execution recording enabled', { file: recordFile.trim() });
+    }
+
+    return hooks;
+  }
+
+  /**
+   * Read an optional timeout (ms) from the environment.
+   * Invalid values are ignored with a warning so defaults apply.
+   * 
+   * @param name - Environment variable name
+   * @returns Timeout in milliseconds, or undefined to use the default
+   */
+  private readTimeoutFromEnv(name: string): number | undefined {
+    // Use bracket notation for safe environment variable access
+    const raw = process.env[name];
+    if (!raw || raw.trim().length === 0) {
+      return undefined;
+    }
+
+    const value = Number(raw);
+    if (!Number.isInteger(value) || value <= 0) {
+      this.logger.warn(`Ignoring invalid ${name}; using default`, { value: raw });
+      return undefined;
+    }
+
+    return value;
   }
 
   /**
@@ -67,10 +238,11 @@ export class MessageHandler {
    * 
    * Flow:
    * 1. Ignore bot messages
-   * 2. Execute persona selection (mandatory, always runs)
-   * 3. Check OpenAI availability
-   * 4. Send fallback message if OpenAI unavailable
-   * 5. (Future) Continue with AI pipeline if available
+   * 2. Hand admin commands to the command router
+   * 3. Execute the pipeline, which selects the persona, calls the AI
+   *    (or skips it when unavailable) and delivers the response
+   * 4. Send an error notice if the pipeline failed before delivery, or a
+   *    shorter one if delivery failed after some chunks went out
    * 
    * @param message - Discord message to handle
    */
@@ -81,42 +253,38 @@ export class MessageHandler {
         return;
       }
 
+      // Normalize into a transport-agnostic request for the core
+      const request = DiscordRequestAdapter.fromMessage(message);
+
       this.logger.debug('Processing message', {
-        messageId: message.id,
-        userId: message.author.id,
-        channelId: message.channelId,
+        messageId: request.id,
+        userId: request.author.id,
+        channelId: request.channel.id,
       });
 
-      // CRITICAL: Persona selection MUST run regardless of OpenAI availability
-      // This ensures audit logging and persona logic always executes
-      let personaSelection;
-      try {
-        personaSelection = this.personaSelector.selectPersona(message);
-        this.logger.debug('Persona selection completed', {
-          persona: personaSelection.persona,
-          isOwner: personaSelection.isOwner,
-        });
-      } catch (error) {
-        this.logger.error('Persona selection failed', {
-          error: (error as Error).message,
-          messageId: message.id,
-        });
-        // Don't crash - just log and return
+      // Admin commands never reach the AI pipeline
+      if (await this.commandRouter.handle(request)) {
         return;
       }
 
-      // Runtime guard: Check OpenAI availability
-      if (!this.isOpenAIAvailable) {
-        // Send fallback message without calling OpenAI
-        await this.sendFallbackResponse(message);
-        return;
-      }
+      // Without OpenAI the AI stage skips itself and the fallback is delivered
+      const result = await this.pipeline.execute(request);
+      const receipt = getStageOutput(result.stageResults, STAGE_KEYS.RESPONSE_DELIVERY);
 
-      // OpenAI is available - continue with normal flow
-      // (Future: This is where AI pipeline would continue)
-      this.logger.debug('OpenAI available, but AI pipeline not yet implemented', {
-        messageId: message.id,
-      });
+      if (!result.success && !receipt) {
+        // Chunks sent by failed delivery attempts are already visible to the user
+        const sentChunks = this.responseDelivery.getDeliveredMessageIds(request).length;
+        this.logger.warn(
+          sentChunks > 0 ? 'Pipeline failed after a partial delivery' : 'Pipeline failed before delivering a response',
+          {
+            messageId: message.id,
+            timedOut: result.timedOut,
+            sentChunks,
+            errors: result.errors.map(e => `${e.stage}: ${e.error.message}`),
+          }
+        );
+        await this.sendErrorResponse(request, sentChunks > 0 ? PARTIAL_DELIVERY_MESSAGE : PIPELINE_ERROR_MESSAGE);
+      }
 
     } catch (error) {
       // Catch-all error handler to prevent crashes
@@ -130,21 +298,54 @@ export class MessageHandler {
   }
 
   /**
-   * Send fallback response when OpenAI is unavailable.
+   * Handle a reaction added to or removed from a message.
+   * Thumbs up/down on a response built with experiment variants is
+   * recorded as feedback; every other reaction is ignored.
    * 
-   * @param message - Original Discord message
+   * @param reaction - Reaction (may be partial for uncached messages)
+   * @param user - User who reacted
+   * @param action - Whether the reaction was added or removed
    */
-  private async sendFallbackResponse(message: Message): Promise<void> {
+  async handleReaction(
+    reaction: MessageReaction | PartialMessageReaction,
+    user: User | PartialUser,
+    action: 'added' | 'removed'
+  ): Promise<void> {
     try {
-      await message.reply(FALLBACK_MESSAGE);
-      this.logger.debug('Fallback message sent', {
-        messageId: message.id,
-        channelId: message.channelId,
+      const signal = FEEDBACK_REACTIONS[reaction.emoji.name ?? ''];
+      if (!this.experimentLog || user.bot || !signal || !this.experimentLog.isTracked(reaction.message.id)) {
+        return;
+      }
+
+      await this.experimentLog.recordFeedback({
+        messageId: reaction.message.id,
+        userId: user.id,
+        signal,
+        action,
       });
     } catch (error) {
-      this.logger.error('Failed to send fallback message', {
+      this.logger.error('Failed to record experiment feedback', {
         error: (error as Error).message,
-        messageId: message.id,
+        messageId: reaction.message.id,
+        userId: user.id,
+      });
+      // Don't rethrow - feedback is best effort
+    }
+  }
+
+  /**
+   * Send error notice when the pipeline fails before (or during) delivery.
+   * 
+   * @param request - Original inbound request
+   * @param notice - Message to send
+   */
+  private async sendErrorResponse(request: InboundRequest, notice: string): Promise<void> {
+    try {
+      await request.reply(notice);
+    } catch (error) {
+      this.logger.error('Failed to send pipeline error message', {
+        error: (error as Error).message,
+        messageId: request.id,
       });
       // Don't throw - just log the error
     }
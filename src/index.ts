@@ -1,4 +1,4 @@
-import { Client, GatewayIntentBits } from 'discord.js';
+import { Client, GatewayIntentBits, Partials } from 'discord.js';
 import dotenv from 'dotenv';
 import { MessageHandler } from './events/MessageHandler';
 import { ConsoleLogger } from './utils/logger';
@@ -43,11 +43,15 @@ async function main() {
       GatewayIntentBits.Guilds,
       GatewayIntentBits.GuildMessages,
       GatewayIntentBits.MessageContent,
+      // Feedback reactions on prompt experiment responses
+      GatewayIntentBits.GuildMessageReactions,
     ],
+    // Reactions on messages sent before a restart arrive uncached
+    partials: [Partials.Message, Partials.Reaction],
   });
 
   // Initialize message handler
-  const messageHandler = new MessageHandler(logger);
+  const messageHandler = new MessageHandler(logger, client);
 
   // Set up event handlers
   client.once('ready', () => {
@@ -62,6 +66,14 @@ async function main() {
     await messageHandler.handleMessage(message);
   });
 
+  client.on('messageReactionAdd', async (reaction, user) => {
+    await messageHandler.handleReaction(reaction, user, 'added');
+  });
+
+  client.on('messageReactionRemove', async (reaction, user) => {
+    await messageHandler.handleReaction(reaction, user, 'removed');
+  });
+
   client.on('error', (error) => {
     logger.error('Discord client error', {
       error: error.message,
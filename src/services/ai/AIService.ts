@@ -24,6 +24,16 @@ export interface AIResponse {
   };
 }
 
+/**
+ * Per-request options for AI service calls.
+ */
+export interface AIRequestOptions {
+  /**
+   * Signal that cancels the in-flight request when aborted.
+   */
+  signal?: AbortSignal;
+}
+
 /**
  * Interface for AI service implementations.
  * 
@@ -46,9 +56,10 @@ export interface AIService {
    * Generate a response from the AI service using a fully-built prompt.
    * 
    * @param prompt - Complete prompt payload from PromptBuilder
+   * @param options - Optional request options (e.g. cancellation signal)
    * @returns AI response with text, model name, and token usage
-   * @throws Error if API call fails or prompt is invalid
+   * @throws Error if API call fails, is cancelled, or prompt is invalid
    */
-  generateResponse(prompt: BuiltPrompt): Promise<AIResponse>;
+  generateResponse(prompt: BuiltPrompt, options?: AIRequestOptions): Promise<AIResponse>;
 }
 
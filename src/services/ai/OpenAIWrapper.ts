@@ -1,5 +1,5 @@
 import OpenAI from 'openai';
-import { AIService, AIResponse } from './AIService';
+import { AIService, AIResponse, AIRequestOptions } from './AIService';
 import { BuiltPrompt } from '../../core/prompts/PromptBuilder';
 
 /**
@@ -38,6 +38,8 @@ export class OpenAIWrapper implements AIService {
 
     this.client = new OpenAI({
       apiKey,
+      // Retries are owned by the pipeline's retry policy for this stage
+      maxRetries: 0,
     });
 
     // Default to gpt-4 if not specified
@@ -45,21 +47,61 @@ export class OpenAIWrapper implements AIService {
     this.model = process.env['OPENAI_MODEL'] || 'gpt-4';
   }
 
+  /**
+   * Decide whether an OpenAI failure is transient and worth retrying.
+   * Walks the error cause chain, since callers wrap API errors.
+   * 
+   * Retryable: connection errors, request timeouts, conflicts,
+   * rate limits (429) and server errors (5xx).
+   * Not retryable: user aborts, auth/permission/validation errors.
+   * 
+   * @param error - Error thrown by generateResponse (possibly wrapped)
+   * @returns True if a retry may succeed
+   */
+  static isRetryableError(error: unknown): boolean {
+    let current: unknown = error;
+
+    while (current instanceof Error) {
+      if (current instanceof OpenAI.APIUserAbortError) {
+        return false;
+      }
+
+      if (current instanceof OpenAI.APIConnectionError) {
+        return true;
+      }
+
+      if (current instanceof OpenAI.APIError) {
+        const status = current.status;
+        return status === 408 || status === 409 || status === 429 || (status !== undefined && status >= 500);
+      }
+
+      current = current.cause;
+    }
+
+    return false;
+  }
+
   /**
    * Generate response from OpenAI using built prompt.
    * 
    * @param prompt - Fully-built prompt from PromptBuilder
+   * @param options - Optional request options (e.g. cancellation signal)
    * @returns AI response with text, model name, and token usage
-   * @throws Error if API call fails
+   * @throws Error if API call fails or is aborted
    */
-  async generateResponse(prompt: BuiltPrompt): Promise<AIResponse> {
+  async generateResponse(prompt: BuiltPrompt, options?: AIRequestOptions): Promise<AIResponse> {
     try {
       // Convert BuiltPrompt messages to OpenAI format
       // BuiltPrompt.messages is already in OpenAI-compatible format
+      // Persona model settings override the defaults when present
+      const settings = prompt.metadata.modelSettings;
       const response = await this.client.chat.completions.create({
-        model: this.model,
+        model: settings?.model ?? this.model,
         messages: prompt.messages,
-        temperature: 0.7, // Default temperature, can be made configurable later
+        temperature: settings?.temperature ?? 0.7,
+        ...(settings?.maxTokens !== undefined && { max_tokens: settings.maxTokens }),
+      }, {
+        signal: options?.signal,
       });
 
       // Extract response text
@@ -0,0 +1,35 @@
+import { AIService, AIResponse } from './AIService';
+import { BuiltPrompt } from '../../core/prompts/PromptBuilder';
+
+/**
+ * AIService stub that answers with previously recorded responses.
+ * 
+ * Used by the replay tool so recorded executions can be re-run through the
+ * current pipeline without calling a real provider. Responses are looked up
+ * by the message ID in the prompt metadata.
+ */
+export class RecordedAIService implements AIService {
+  private readonly responses: Map<string, AIResponse>;
+
+  /**
+   * @param responses - Recorded AI responses keyed by message ID
+   */
+  constructor(responses: Map<string, AIResponse>) {
+    this.responses = responses;
+  }
+
+  /**
+   * Return the recorded response for the prompt's message.
+   * 
+   * @param prompt - Built prompt (only metadata.messageId is used)
+   * @returns Recorded AI response
+   * @throws Error if nothing was recorded for the message
+   */
+  public async generateResponse(prompt: BuiltPrompt): Promise<AIResponse> {
+    const response = this.responses.get(prompt.metadata.messageId);
+    if (!response) {
+      throw new Error(`No recorded AI response for message ${prompt.metadata.messageId}`);
+    }
+    return response;
+  }
+}
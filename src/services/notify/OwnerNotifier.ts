@@ -0,0 +1,16 @@
+/**
+ * Sends private notices to the bot owners.
+ * 
+ * Implementations decide the channel (e.g. Discord DMs) and must never
+ * throw for a single unreachable owner; they reject only if no owner
+ * could be notified.
+ */
+export interface OwnerNotifier {
+  /**
+   * Notify every owner.
+   * 
+   * @param text - Notice text
+   * @throws Error if no owner could be notified
+   */
+  notifyOwners(text: string): Promise<void>;
+}
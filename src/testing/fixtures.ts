@@ -0,0 +1,88 @@
+import * as os from 'os';
+import * as path from 'path';
+import { AccessControlList } from '../core/access/AccessControlList';
+import { IdentityResolver } from '../core/identity/IdentityResolver';
+import { OwnerValidator } from '../core/identity/OwnerValidator';
+import { PersonaLogger } from '../core/persona/PersonaLogger';
+import { PersonaPolicy } from '../core/persona/PersonaPolicy';
+import { PersonaRegistry } from '../core/persona/PersonaRegistry';
+import { PersonaSelector } from '../core/persona/PersonaSelector';
+import { ReplayDependencies } from '../core/pipeline/recording/ExecutionReplayer';
+import { PromptBuilder } from '../core/prompts/PromptBuilder';
+import { PromptLoader } from '../core/prompts/PromptLoader';
+import { InboundRequest, RequestAuthor, RequestChannel } from '../types/request.types';
+import { Logger } from '../utils/logger';
+
+/**
+ * Shared fixtures for the jest suites.
+ * Excluded from the build (see tsconfig.json).
+ */
+
+/**
+ * Logger that discards everything.
+ */
+export const silentLogger: Logger = { info: () => {}, warn: () => {}, error: () => {}, debug: () => {} };
+
+/**
+ * Fields to override in a test request; author and channel are merged.
+ */
+export interface RequestOverrides extends Partial<Omit<InboundRequest, 'author' | 'channel'>> {
+  author?: Partial<RequestAuthor>;
+  channel?: Partial<RequestChannel>;
+}
+
+/**
+ * Build a guild request from a regular user whose sends succeed.
+ *
+ * @param overrides - Fields to replace
+ * @returns Inbound request
+ */
+export function createRequest(overrides: RequestOverrides = {}): InboundRequest {
+  const { author, channel, ...rest } = overrides;
+  const send = async (): Promise<{ id: string }> => ({ id: 'sent' });
+
+  return {
+    id: 'msg-1',
+    source: 'test',
+    author: { id: '222222222222222222', username: 'user', discriminator: '0', displayName: 'User', isBot: false, ...author },
+    channel: { id: 'c1', isDirectMessage: false, ...channel },
+    content: 'hello',
+    attachments: [],
+    receivedAt: new Date(),
+    reply: send,
+    send,
+    ...rest,
+  };
+}
+
+/**
+ * Message pipeline dependencies over the repository's prompts, with
+ * owner 111111111111111111 and no stored ACL or persona policy (the
+ * files do not exist).
+ *
+ * @returns Dependencies for MessagePipelineFactory and ExecutionReplayer
+ */
+export function createPipelineDependencies(): ReplayDependencies {
+  const missing = path.join(os.tmpdir(), `pipeline-test-${process.pid}-missing.json`);
+  const ownerValidator = new OwnerValidator(['111111111111111111']);
+  const identityResolver = new IdentityResolver(ownerValidator);
+  const personaRegistry = new PersonaRegistry();
+
+  return {
+    identityResolver,
+    accessControlList: new AccessControlList(missing, silentLogger),
+    personaSelector: new PersonaSelector(
+      identityResolver,
+      ownerValidator,
+      new PersonaLogger(silentLogger),
+      personaRegistry,
+      new PersonaPolicy(missing, personaRegistry, silentLogger)
+    ),
+    promptBuilder: new PromptBuilder(
+      new PromptLoader({ logger: silentLogger, enableHotReload: false }),
+      silentLogger,
+      personaRegistry
+    ),
+    logger: silentLogger,
+  };
+}
@@ -0,0 +1,87 @@
+/**
+ * Compare prompt experiment variants from the experiment log.
+ *
+ * Usage:
+ *   npm run experiments:report -- [experiments.jsonl] [--since YYYY-MM-DD] [--requester-only]
+ *
+ * The log defaults to EXPERIMENT_LOG_FILE, then data/experiments.jsonl.
+ * For each variant prints responses delivered, distinct users, thumbs
+ * up/down reactions and the share of positive reactions.
+ */
+import { readFileSync } from 'fs';
+import { DEFAULT_EXPERIMENT_LOG_FILE } from '../core/experiments/ExperimentLog';
+import { buildExperimentReport, parseExperimentEvents } from '../core/experiments/ExperimentReport';
+import { VariantResult } from '../types/experiment.types';
+
+const USAGE = 'Usage: npm run experiments:report -- [experiments.jsonl] [--since YYYY-MM-DD] [--requester-only]';
+
+/**
+ * Format one variant's row.
+ *
+ * @param variant - Variant results
+ * @returns Table row
+ */
+function formatRow(variant: VariantResult): string {
+  const rate = variant.positiveRate !== undefined ? `${(variant.positiveRate * 100).toFixed(1)}%` : '-';
+  return [
+    variant.variantId.padEnd(16),
+    String(variant.responses).padStart(9),
+    String(variant.users).padStart(6),
+    String(variant.ratedResponses).padStart(6),
+    String(variant.positive).padStart(5),
+    String(variant.negative).padStart(5),
+    rate.padStart(8),
+  ].join(' ');
+}
+
+function main(): void {
+  const args = process.argv.slice(2);
+  const requesterOnly = args.includes('--requester-only');
+
+  let since: Date | undefined;
+  const sinceIndex = args.indexOf('--since');
+  if (sinceIndex !== -1) {
+    const value = args[sinceIndex + 1] ?? '';
+    since = new Date(value);
+    if (!/^\d{4}-\d{2}-\d{2}/.test(value) || Number.isNaN(since.getTime())) {
+      console.error(`Invalid --since date: '${value}'`);
+      console.error(USAGE);
+      process.exit(2);
+    }
+  }
+
+  // The first argument that is neither an option nor the --since value
+  const positional = args.filter((arg, index) => !arg.startsWith('--') && (sinceIndex === -1 || index !== sinceIndex + 1));
+  // Use bracket notation for safe environment variable access
+  const file = positional[0] ?? (process.env['EXPERIMENT_LOG_FILE']?.trim() || DEFAULT_EXPERIMENT_LOG_FILE);
+
+  const { events, skippedLines } = parseExperimentEvents(readFileSync(file, 'utf-8'));
+  const experiments = buildExperimentReport(events, { since, requesterOnly });
+
+  if (experiments.length === 0) {
+    console.log(`No experiment exposures in ${file}`);
+  }
+
+  for (const experiment of experiments) {
+    console.log(`\n${experiment.experimentId} (${experiment.prompt})`);
+    console.log(`  ${'variant'.padEnd(16)} responses  users  rated   👍    👎  positive`);
+    for (const variant of experiment.variants) {
+      console.log(`  ${formatRow(variant)}`);
+    }
+  }
+
+  const filters = [since ? `since ${since.toISOString().slice(0, 10)}` : '', requesterOnly ? 'requester reactions only' : '']
+    .filter(Boolean)
+    .join(', ');
+  console.log(`\n${events.length} events read from ${file}${filters ? ` (${filters})` : ''}`);
+  if (skippedLines > 0) {
+    console.log(`${skippedLines} malformed lines skipped`);
+  }
+}
+
+try {
+  main();
+} catch (error) {
+  console.error('Experiment report failed:', (error as Error).message);
+  process.exit(2);
+}
@@ -0,0 +1,107 @@
+/**
+ * Lint the prompts directory without starting the bot.
+ *
+ * Usage:
+ *   npm run lint:prompts -- [--dir <prompts dir>] [--rules <rules.json>] [--strict] [--verbose]
+ *
+ * Runs the startup prompt validation plus token size, duplicate instruction,
+ * rule file and markdown checks (see PromptLinter). The rule file defaults to
+ * prompts/lint-rules.json and is skipped if absent.
+ * Exits with code 1 if any errors are found (or any warnings, with --strict).
+ */
+import * as path from 'path';
+import { loadPersonaDefinitions } from '../config/personaConfig';
+import { DEFAULT_PROMPT_LINT_RULES_FILE, loadPromptLintRules } from '../config/promptLintConfig';
+import { PersonaRegistry } from '../core/persona/PersonaRegistry';
+import { PromptLinter } from '../core/prompts/PromptLinter';
+import { PromptLoader } from '../core/prompts/PromptLoader';
+import { ConsoleLogger, Logger } from '../utils/logger';
+
+const USAGE = 'Usage: npm run lint:prompts -- [--dir <prompts dir>] [--rules <rules.json>] [--strict] [--verbose]';
+
+/**
+ * Logger that drops everything unless verbose.
+ * Load failures are reported as findings, so the loader's own logs would repeat them.
+ *
+ * @param verbose - Whether to pass everything through
+ * @returns Logger for the lint run
+ */
+function createLogger(verbose: boolean): Logger {
+  if (verbose) {
+    return new ConsoleLogger();
+  }
+
+  return {
+    info: () => undefined,
+    debug: () => undefined,
+    warn: () => undefined,
+    error: () => undefined,
+  };
+}
+
+/**
+ * Read the value following an option.
+ *
+ * @param args - Command-line arguments
+ * @param option - Option name (e.g. '--dir')
+ * @returns The value, or undefined if the option is absent
+ * @throws Error if the option has no value
+ */
+function optionValue(args: string[], option: string): string | undefined {
+  const index = args.indexOf(option);
+  if (index === -1) {
+    return undefined;
+  }
+  const value = args[index + 1];
+  if (value === undefined || value.startsWith('--')) {
+    throw new Error(`${option} needs a value`);
+  }
+  return value;
+}
+
+function main(): void {
+  const args = process.argv.slice(2);
+  const verbose = args.includes('--verbose');
+  const strict = args.includes('--strict');
+
+  let promptsDirectory: string;
+  let rulesFile: string | undefined;
+  try {
+    promptsDirectory = path.resolve(optionValue(args, '--dir') ?? 'prompts');
+    rulesFile = optionValue(args, '--rules');
+  } catch (error) {
+    console.error((error as Error).message);
+    console.error(USAGE);
+    process.exit(2);
+  }
+
+  const logger = createLogger(verbose);
+  const rules = loadPromptLintRules(rulesFile ?? DEFAULT_PROMPT_LINT_RULES_FILE, rulesFile !== undefined);
+  const promptLoader = new PromptLoader({ promptsDirectory, enableHotReload: false, logger });
+
+  const linter = new PromptLinter({
+    promptsDirectory,
+    promptLoader,
+    personaRegistry: new PersonaRegistry(loadPersonaDefinitions(logger)),
+    rules,
+    defaultModel: process.env['OPENAI_MODEL'] || 'gpt-4',
+  });
+
+  const findings = linter.lint();
+  for (const finding of findings) {
+    const location = finding.line !== undefined ? `${finding.file}:${finding.line}` : finding.file;
+    console.log(`  ${finding.severity.padEnd(7)}  ${location}  [${finding.check}] ${finding.message}`);
+  }
+
+  const errors = findings.filter(finding => finding.severity === 'error').length;
+  const warnings = findings.length - errors;
+  console.log(`\nLinted ${promptsDirectory} (${rules.length} rules): ${errors} errors, ${warnings} warnings`);
+  process.exit(errors > 0 || (strict && warnings > 0) ? 1 : 0);
+}
+
+try {
+  main();
+} catch (error) {
+  console.error('Prompt lint failed:', (error as Error).message);
+  process.exit(2);
+}
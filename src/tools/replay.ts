@@ -0,0 +1,157 @@
+/**
+ * Replay recorded pipeline executions against the current code and prompts.
+ *
+ * Usage:
+ *   npm run replay -- <recording.jsonl> [--verbose]
+ *
+ * Recordings are written by RecordingHook when PIPELINE_RECORD_FILE is set.
+ * Exits with code 1 if any replay differs from its recording.
+ */
+import { readFileSync } from 'fs';
+import { loadOwnerIds } from '../config/ownerConfig';
+import { loadTrustPolicy } from '../config/trustConfig';
+import { loadPersonaDefinitions } from '../config/personaConfig';
+import { loadPromptExperiments } from '../config/experimentConfig';
+import { AccessControlList, DEFAULT_ACL_FILE } from '../core/access/AccessControlList';
+import { IdentityResolver } from '../core/identity/IdentityResolver';
+import { OwnerValidator } from '../core/identity/OwnerValidator';
+import { PersonaLogger } from '../core/persona/PersonaLogger';
+import { PersonaRegistry } from '../core/persona/PersonaRegistry';
+import { DEFAULT_PERSONA_POLICY_FILE, PersonaPolicy } from '../core/persona/PersonaPolicy';
+import { PersonaSelector } from '../core/persona/PersonaSelector';
+import { PromptBuilder } from '../core/prompts/PromptBuilder';
+import { PromptExperiments } from '../core/experiments/PromptExperiments';
+import { PromptLoader } from '../core/prompts/PromptLoader';
+import { parseExecutionRecords } from '../core/pipeline/recording/ExecutionRecord';
+import { ExecutionReplayer, ReplayDifference } from '../core/pipeline/recording/ExecutionReplayer';
+import { ConsoleLogger, Logger } from '../utils/logger';
+
+/**
+ * Longest value shown in a difference before it is abbreviated.
+ */
+const MAX_VALUE_LENGTH = 160;
+
+/**
+ * Logger that drops info/debug output unless verbose.
+ *
+ * @param verbose - Whether to pass everything through
+ * @returns Logger for the replay run
+ */
+function createLogger(verbose: boolean): Logger {
+  const base = new ConsoleLogger();
+  if (verbose) {
+    return base;
+  }
+
+  return {
+    info: () => undefined,
+    debug: () => undefined,
+    warn: (message, meta) => base.warn(message, meta),
+    error: (message, meta) => base.error(message, meta),
+  };
+}
+
+/**
+ * Render a value for a difference line.
+ * Long strings are shown from just before their first difference.
+ *
+ * @param value - Value to render
+ * @param other - Value it is compared with
+ * @returns Printable representation
+ */
+function describe(value: unknown, other: unknown): string {
+  if (typeof value !== 'string') {
+    return value === undefined ? '(missing)' : JSON.stringify(value);
+  }
+
+  let start = 0;
+  if (typeof other === 'string' && value.length > MAX_VALUE_LENGTH) {
+    while (start < value.length && value[start] === other[start]) {
+      start++;
+    }
+    start = Math.max(0, start - 20);
+  }
+
+  const excerpt = value.slice(start, start + MAX_VALUE_LENGTH);
+  const prefix = start > 0 ? '...' : '';
+  const suffix = start + MAX_VALUE_LENGTH < value.length ? '...' : '';
+  return `${prefix}${JSON.stringify(excerpt)}${suffix}`;
+}
+
+/**
+ * Print the differences for one replayed record.
+ *
+ * @param differences - Differences to print
+ */
+function printDifferences(differences: ReplayDifference[]): void {
+  for (const difference of differences) {
+    console.log(`    ${difference.path}`);
+    console.log(`      recorded: ${describe(difference.recorded, difference.replayed)}`);
+    console.log(`      replayed: ${describe(difference.replayed, difference.recorded)}`);
+  }
+}
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const verbose = args.includes('--verbose');
+  const file = args.find(arg => !arg.startsWith('--'));
+
+  if (!file) {
+    console.error('Usage: npm run replay -- <recording.jsonl> [--verbose]');
+    process.exit(2);
+  }
+
+  const logger = createLogger(verbose);
+  const records = parseExecutionRecords(readFileSync(file, 'utf-8'));
+
+  const ownerValidator = new OwnerValidator(loadOwnerIds(logger));
+  const identityResolver = new IdentityResolver(ownerValidator, loadTrustPolicy(logger));
+  const personaRegistry = new PersonaRegistry(loadPersonaDefinitions(logger));
+  const promptLoader = new PromptLoader({ logger });
+  promptLoader.preloadAll(personaRegistry.getCustomPromptFiles());
+
+  const replayer = new ExecutionReplayer({
+    identityResolver,
+    // Read-only here: replays never edit the list
+    accessControlList: new AccessControlList(process.env['ACL_FILE']?.trim() || DEFAULT_ACL_FILE, logger),
+    personaSelector: new PersonaSelector(
+      identityResolver,
+      ownerValidator,
+      new PersonaLogger(logger),
+      personaRegistry,
+      // Read-only here: replays never edit the policy
+      new PersonaPolicy(
+        process.env['PERSONA_POLICY_FILE']?.trim() || DEFAULT_PERSONA_POLICY_FILE,
+        personaRegistry,
+        logger
+      )
+    ),
+    // Same experiments as the bot, so recorded variant assignments replay unchanged
+    promptBuilder: new PromptBuilder(promptLoader, logger, personaRegistry, {
+      experiments: new PromptExperiments(loadPromptExperiments(logger), promptLoader),
+    }),
+    logger,
+  });
+
+  const outcomes = await replayer.replay(records);
+  let changed = 0;
+
+  for (const outcome of outcomes) {
+    if (outcome.differences.length === 0) {
+      console.log(`  same     ${outcome.requestId}`);
+      continue;
+    }
+
+    changed++;
+    console.log(`  CHANGED  ${outcome.requestId} (${outcome.differences.length} differences)`);
+    printDifferences(outcome.differences);
+  }
+
+  console.log(`\nReplayed ${outcomes.length} executions: ${outcomes.length - changed} same, ${changed} changed`);
+  process.exit(changed > 0 ? 1 : 0);
+}
+
+main().catch(error => {
+  console.error('Replay failed:', (error as Error).message);
+  process.exit(2);
+});
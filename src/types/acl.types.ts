@@ -0,0 +1,52 @@
+/**
+ * Access control list types.
+ */
+
+/**
+ * What an ACL entry matches on.
+ */
+export type AclSubject = 'user' | 'role' | 'channel' | 'guild';
+
+/**
+ * Which list an ACL entry belongs to.
+ * - 'allow': when a subject's allowlist is non-empty, requests must match it
+ * - 'block': requests matching any block entry are denied
+ */
+export type AclList = 'allow' | 'block';
+
+/**
+ * A single allowlist or blocklist entry.
+ */
+export interface AclEntry {
+  list: AclList;
+  subject: AclSubject;
+
+  /**
+   * Discord ID of the user, role, channel or guild.
+   */
+  id: string;
+
+  /**
+   * Owner ID that added the entry.
+   */
+  addedBy: string;
+
+  addedAt: Date;
+}
+
+/**
+ * Result of evaluating a request against the access control list.
+ */
+export interface AccessDecision {
+  allowed: boolean;
+
+  /**
+   * Human-readable explanation, e.g. "user 123 is blocked".
+   */
+  reason: string;
+
+  /**
+   * Block entry that denied the request, if any.
+   */
+  matchedEntry?: Readonly<AclEntry>;
+}
@@ -0,0 +1,23 @@
+/**
+ * Anomaly detection types.
+ */
+
+/**
+ * Kind of suspicious behavior.
+ * - 'owner-name-imitation': username or display name imitates the owner's name
+ * - 'identity-claim': message claims to be the owner
+ * - 'persona-switch-request': message asks for butler mode
+ */
+export type AnomalyKind = 'owner-name-imitation' | 'identity-claim' | 'persona-switch-request';
+
+/**
+ * One suspicious finding on a message.
+ */
+export interface AnomalyFlag {
+  kind: AnomalyKind;
+
+  /**
+   * What triggered the flag, e.g. the imitating name or the matched phrase.
+   */
+  evidence: string;
+}
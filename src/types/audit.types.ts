@@ -0,0 +1,93 @@
+/**
+ * Audit log types.
+ */
+
+/**
+ * Kind of audited event.
+ */
+export type AuditEventType = 'persona.selected' | 'persona.error' | 'anomaly.flagged' | 'access.denied';
+
+/**
+ * Event data supplied by the caller; AuditLog adds sequence, time and hashes.
+ */
+export interface AuditEvent {
+  type: AuditEventType;
+  userId: string;
+  channelId?: string;
+  messageId?: string;
+
+  /**
+   * Event details (JSON-serializable).
+   */
+  data: Record<string, unknown>;
+}
+
+/**
+ * One line of the audit log, as stored.
+ */
+export interface AuditEntry extends AuditEvent {
+  /**
+   * Position in the chain, starting at 1.
+   */
+  seq: number;
+
+  /**
+   * ISO timestamp of when the entry was appended.
+   */
+  timestamp: string;
+
+  /**
+   * Hash of the previous entry (all zeros for the first entry).
+   */
+  prevHash: string;
+
+  /**
+   * SHA-256 over this entry's fields and prevHash.
+   */
+  hash: string;
+}
+
+/**
+ * Filters for searching the audit log. All given filters must match.
+ */
+export interface AuditQuery {
+  userId?: string;
+  channelId?: string;
+
+  /**
+   * Inclusive lower bound on the entry timestamp.
+   */
+  since?: Date;
+
+  /**
+   * Exclusive upper bound on the entry timestamp.
+   */
+  until?: Date;
+
+  /**
+   * Maximum number of entries returned (the most recent matches).
+   */
+  limit?: number;
+}
+
+/**
+ * Result of verifying the hash chain.
+ */
+export interface AuditVerification {
+  valid: boolean;
+
+  /**
+   * Number of entries checked.
+   */
+  entries: number;
+
+  /**
+   * Line number (1-based) of the first broken entry, if invalid.
+   */
+  brokenAtLine?: number;
+
+  /**
+   * What is wrong, if invalid.
+   */
+  reason?: string;
+}
@@ -0,0 +1,32 @@
+/**
+ * Delegated-trust types.
+ * 
+ * The owner may grant trusted teammates a subset of owner capabilities.
+ * Each capability is an explicit scope; nothing is implied by a grant
+ * beyond the scopes it lists.
+ */
+export enum DelegateScope {
+  /**
+   * Run `!ace explain` (dry-run the pipeline).
+   */
+  EXPLAIN = 'explain',
+}
+
+/**
+ * A delegation granted by an owner.
+ */
+export interface DelegateGrant {
+  /**
+   * Discord user ID of the delegate.
+   */
+  userId: string;
+
+  scopes: DelegateScope[];
+
+  /**
+   * Owner ID that granted the delegation.
+   */
+  grantedBy: string;
+
+  grantedAt: Date;
+}
@@ -0,0 +1,145 @@
+/**
+ * Prompt A/B experiment types.
+ */
+
+/**
+ * What a variant is assigned by: every message from the same user (or in
+ * the same channel) gets the same variant.
+ */
+export type ExperimentAssignBy = 'user' | 'channel';
+
+/**
+ * One arm of an experiment.
+ */
+export interface PromptVariant {
+  /**
+   * Variant ID. 'control' is the prompt file itself; any other ID is the
+   * file `prompts/variants/<prompt name>/<id>.md`.
+   */
+  id: string;
+
+  /**
+   * Relative share of assignments (positive integer).
+   */
+  weight: number;
+}
+
+/**
+ * An experiment comparing variants of one prompt file.
+ */
+export interface PromptExperiment {
+  id: string;
+
+  /**
+   * Prompt file the variants replace (e.g. 'butler.system.md').
+   */
+  prompt: string;
+
+  assignBy: ExperimentAssignBy;
+  variants: PromptVariant[];
+}
+
+/**
+ * The variant a request was given, recorded in BuiltPrompt.metadata.
+ */
+export interface ExperimentAssignment {
+  experimentId: string;
+  prompt: string;
+  variantId: string;
+  assignBy: ExperimentAssignBy;
+}
+
+/**
+ * A user's verdict on a response, read from their reaction.
+ */
+export type FeedbackSignal = 'positive' | 'negative';
+
+/**
+ * A response produced under one or more experiment assignments.
+ */
+export interface ExposureEvent {
+  type: 'exposure';
+  timestamp: string;
+  requestId: string;
+  userId: string;
+  channelId: string;
+  guildId?: string;
+
+  /**
+   * Messages the response was delivered as; reactions on any of them count.
+   */
+  messageIds: string[];
+
+  assignments: ExperimentAssignment[];
+}
+
+/**
+ * A feedback reaction added to or removed from an exposed response.
+ */
+export interface FeedbackEvent {
+  type: 'feedback';
+  timestamp: string;
+
+  /**
+   * Request of the exposure the reaction belongs to.
+   */
+  requestId: string;
+
+  messageId: string;
+  userId: string;
+
+  /**
+   * Whether the reacting user sent the request.
+   */
+  byRequester: boolean;
+
+  signal: FeedbackSignal;
+  action: 'added' | 'removed';
+}
+
+/**
+ * A line of the experiment log.
+ */
+export type ExperimentEvent = ExposureEvent | FeedbackEvent;
+
+/**
+ * Results of one variant.
+ */
+export interface VariantResult {
+  variantId: string;
+
+  /**
+   * Responses delivered with this variant.
+   */
+  responses: number;
+
+  /**
+   * Distinct users who received those responses.
+   */
+  users: number;
+
+  /**
+   * Current feedback reactions (removed reactions are not counted).
+   */
+  positive: number;
+  negative: number;
+
+  /**
+   * Responses with at least one current feedback reaction.
+   */
+  ratedResponses: number;
+
+  /**
+   * positive / (positive + negative), or undefined without feedback.
+   */
+  positiveRate?: number;
+}
+
+/**
+ * Results of one experiment, variants in first-seen order.
+ */
+export interface ExperimentResult {
+  experimentId: string;
+  prompt: string;
+  variants: VariantResult[];
+}
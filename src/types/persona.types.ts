@@ -1,5 +1,9 @@
+import { PersonaPolicyRule } from './personaPolicy.types';
+import { TrustTier } from './trust.types';
+
 /**
- * Persona types for ACE Prime dual-persona system.
+ * Built-in personas for ACE Prime.
+ * Additional personas are registered through PersonaRegistry.
  */
 export enum PersonaType {
   /**
@@ -9,27 +13,110 @@ export enum PersonaType {
   BUTLER = 'BUTLER',
   
   /**
-   * Supervisor Mode - Used for all non-owner users.
+   * Supervisor Mode - Default for non-owner users no other persona matches.
    * Professional, structured, instructional, authoritative.
    */
   SUPERVISOR = 'SUPERVISOR',
 }
 
+/**
+ * Persona identifier: a built-in PersonaType or a registered persona ID
+ * (uppercase letters, digits and underscores, e.g. 'REVIEWER').
+ */
+export type PersonaId = PersonaType | string;
+
+/**
+ * Per-persona AI model settings. Unset fields use the AI service defaults.
+ */
+export interface PersonaModelSettings {
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+/**
+ * Conditions under which a registered persona is selected for a non-owner.
+ * Every listed condition must hold; within a condition, any listed value matches.
+ * At least one condition is required.
+ * 
+ * SECURITY: Conditions are channel and guild IDs only. Roles and trust
+ * tiers are deliberately not matchable: guild admins control them, and
+ * persona choice must stay strictly ID-based.
+ */
+export interface PersonaMatchRule {
+  channelIds?: string[];
+  guildIds?: string[];
+}
+
+/**
+ * A persona known to PersonaRegistry.
+ */
+export interface PersonaDefinition {
+  id: PersonaId;
+  description: string;
+
+  /**
+   * System prompt file name in the prompts directory.
+   */
+  systemPromptFile: string;
+
+  model?: PersonaModelSettings;
+
+  /**
+   * Selection rule. Undefined for the built-ins, which are hard-wired:
+   * BUTLER for owners, SUPERVISOR when nothing else matches.
+   */
+  match?: PersonaMatchRule;
+
+  /**
+   * Higher priorities are evaluated first; ties keep declaration order.
+   */
+  priority: number;
+}
+
 /**
  * Persona selection result with audit information.
  */
 export interface PersonaSelection {
-  persona: PersonaType;
+  persona: PersonaId;
+
+  /**
+   * Why the persona was chosen:
+   * - 'owner': owner → Butler
+   * - 'policy': a channel or guild persona policy rule
+   * - 'disabled': a persona policy rule disables the bot here; the request is
+   *   dropped, and persona is the non-owner default for audit only
+   * - 'rule': a registered persona's selection rule
+   * - 'default': nothing matched → Supervisor
+   */
+  reason: 'owner' | 'policy' | 'disabled' | 'rule' | 'default';
+
+  /**
+   * Persona policy rule that matched, if any (set for 'policy' and 'disabled').
+   */
+  policyRule?: Readonly<PersonaPolicyRule>;
+
   userId: string;
   username: string;
   isOwner: boolean;
   timestamp: Date;
   messageId: string;
   channelId: string;
+
+  /**
+   * Guild the request came from (undefined for direct messages).
+   * Selects the guild's prompt overrides.
+   */
+  guildId?: string;
+
+  /**
+   * Guild name from the request, if any (for the GUILD_NAME prompt variable).
+   */
+  guildName?: string;
 }
 
 /**
- * User identity extracted from Discord message.
+ * User identity extracted from an inbound request.
  */
 export interface UserIdentity {
   id: string;
@@ -37,4 +124,22 @@ export interface UserIdentity {
   discriminator: string;
   displayName: string;
   isBot: boolean;
+
+  /**
+   * Guild the request came from (undefined for direct messages).
+   */
+  guildId?: string;
+
+  isDirectMessage: boolean;
+
+  /**
+   * Guild role IDs held by the user (empty for direct messages).
+   */
+  roleIds: readonly string[];
+
+  /**
+   * Trust tier for this message's context.
+   * Read by access control. Persona selection never reads it.
+   */
+  trustTier: TrustTier;
 }
@@ -0,0 +1,39 @@
+import { PersonaId } from './persona.types';
+
+/**
+ * Persona policy types.
+ */
+
+/**
+ * What a persona policy rule applies to.
+ */
+export type PersonaPolicyScope = 'channel' | 'guild';
+
+/**
+ * A persisted rule deciding the persona non-owners get in one channel or guild.
+ */
+export interface PersonaPolicyRule {
+  scope: PersonaPolicyScope;
+
+  /**
+   * Discord ID of the channel or guild.
+   */
+  id: string;
+
+  /**
+   * True if the bot ignores non-owners here. No persona is set then.
+   */
+  disabled: boolean;
+
+  /**
+   * Persona for non-owners here (never BUTLER). Undefined when disabled.
+   */
+  persona?: PersonaId;
+
+  /**
+   * Owner ID that set the rule.
+   */
+  setBy: string;
+
+  setAt: Date;
+}
@@ -2,12 +2,57 @@
  * Type definitions for the prompt loading system.
  */
 
+/**
+ * Model hints a prompt file may declare in its front-matter.
+ * Persona model settings take precedence over these.
+ */
+export interface PromptModelHints {
+  model?: string;
+  temperature?: number;
+}
+
+/**
+ * Optional front-matter at the top of a prompt file:
+ *
+ * ```
+ * ---
+ * version: 1.2.0
+ * author: ace
+ * model: gpt-4o
+ * temperature: 0.3
+ * maxTokens: 800
+ * ---
+ * Prompt text...
+ * ```
+ */
+export interface PromptFrontMatter {
+  /**
+   * Prompt revision, stamped into every prompt built from it.
+   */
+  version?: string;
+
+  author?: string;
+  model?: string;
+  temperature?: number;
+
+  /**
+   * Maximum size of the prompt text in tokens (estimated).
+   */
+  maxTokens?: number;
+
+  /**
+   * Guild override files only: 'extend' (default) appends the file to the
+   * shared prompt, 'replace' uses it instead.
+   */
+  mode?: 'extend' | 'replace';
+}
+
 /**
  * Represents a loaded prompt with metadata.
  */
 export interface LoadedPrompt {
   /**
-   * The prompt text content.
+   * The prompt text content (front-matter removed).
    */
   content: string;
 
@@ -25,4 +70,40 @@ export interface LoadedPrompt {
    * Size of the prompt in characters.
    */
   size: number;
+
+  /**
+   * Declared revision, if the front-matter has one.
+   */
+  version?: string;
+
+  author?: string;
+
+  /**
+   * Model hints from the front-matter (empty if none).
+   */
+  modelHints: PromptModelHints;
+
+  /**
+   * Token budget from the front-matter, if any.
+   */
+  maxTokens?: number;
+
+  /**
+   * First 12 hex characters of the SHA-256 of every file the prompt was
+   * composed from (the whole file when there is only one), in resolution
+   * order. Identifies the exact revision even when the version was not bumped.
+   */
+  hash: string;
+
+  /**
+   * Files the prompt was composed from, relative to the prompts directory,
+   * in resolution order: the shared file, its partials, then the guild
+   * override and its partials.
+   */
+  layers: string[];
+
+  /**
+   * Experiment variant composed in place of the shared file, if any.
+   */
+  variant?: string;
 }
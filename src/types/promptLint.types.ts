@@ -0,0 +1,71 @@
+/**
+ * Prompt linting types.
+ */
+
+/**
+ * Errors fail the lint run; warnings are reported only (unless strict).
+ */
+export type LintSeverity = 'error' | 'warning';
+
+/**
+ * Which check produced a finding.
+ * - 'validation': the PromptValidator/PromptLoader checks the bot runs at startup
+ * - 'tokens': estimated token size
+ * - 'duplicate': the same instruction in more than one place
+ * - 'rule': a rule from the lint rule file
+ * - 'markdown': markdown structure
+ * - 'unused': a partial no prompt includes, or a file the bot never loads
+ */
+export type LintCheck = 'validation' | 'tokens' | 'duplicate' | 'rule' | 'markdown' | 'unused';
+
+/**
+ * One problem found in a prompt file.
+ */
+export interface LintFinding {
+  severity: LintSeverity;
+  check: LintCheck;
+
+  /**
+   * File relative to the prompts directory.
+   */
+  file: string;
+
+  /**
+   * 1-based line in the file (front-matter included), if the finding has one.
+   */
+  line?: number;
+
+  message: string;
+}
+
+/**
+ * A rule from the lint rule file. Prompt text contradicting a rule is
+ * reported: a line matching `forbid`, or a file with no line matching `require`.
+ */
+export interface PromptLintRule {
+  id: string;
+
+  /**
+   * Shown with every finding; says what the prompts must (not) do.
+   */
+  message: string;
+
+  /**
+   * Case-insensitive pattern no line may match.
+   */
+  forbid?: RegExp;
+
+  /**
+   * Case-insensitive pattern at least one line must match.
+   */
+  require?: RegExp;
+
+  /**
+   * File names (relative to the prompts directory) the rule applies to;
+   * `*` matches any run of characters within a path segment. Absent means
+   * every shared prompt file and its experiment variants.
+   */
+  files?: string[];
+
+  severity: LintSeverity;
+}
@@ -0,0 +1,137 @@
+/**
+ * Transport-agnostic request types.
+ * Every front end (Discord, slash commands, CLI, HTTP) normalizes its
+ * input into an InboundRequest so the same pipeline can serve all of them.
+ */
+
+/**
+ * Author of an inbound request.
+ */
+export interface RequestAuthor {
+  id: string;
+  username: string;
+  discriminator: string;
+  displayName: string;
+  isBot: boolean;
+
+  /**
+   * IDs of the guild roles the author holds (absent or empty outside guilds).
+   */
+  roleIds?: string[];
+}
+
+/**
+ * Channel (conversation) an inbound request arrived in.
+ */
+export interface RequestChannel {
+  id: string;
+
+  /**
+   * Guild (server) ID, if the channel belongs to one.
+   */
+  guildId?: string;
+
+  /**
+   * Guild (server) name, if known. Set by server admins, not the bot.
+   */
+  guildName?: string;
+
+  /**
+   * True for direct messages.
+   */
+  isDirectMessage: boolean;
+}
+
+/**
+ * File attached to an inbound request.
+ */
+export interface RequestAttachment {
+  id: string;
+  name: string;
+  url: string;
+  contentType?: string;
+  size: number;
+}
+
+/**
+ * Message the inbound request replies to.
+ */
+export interface ReferencedMessage {
+  authorUsername: string;
+  content: string;
+}
+
+/**
+ * Earlier message in the same conversation as a request.
+ */
+export interface PriorMessage {
+  authorId: string;
+
+  /**
+   * True if the bot itself sent the message.
+   */
+  isSelf: boolean;
+
+  /**
+   * Author of the message this one replies to, if it is a reply.
+   */
+  repliedToUserId?: string;
+
+  content: string;
+  sentAt: Date;
+}
+
+/**
+ * Handle to a message sent back to the requester.
+ */
+export interface SentMessage {
+  id: string;
+}
+
+/**
+ * Normalized inbound request.
+ */
+export interface InboundRequest {
+  /**
+   * Unique request ID (Discord message ID for Discord requests).
+   */
+  id: string;
+
+  /**
+   * Front end that produced the request (e.g. 'discord', 'cli').
+   */
+  source: string;
+
+  author: RequestAuthor;
+  channel: RequestChannel;
+
+  /**
+   * Raw text content as written by the author.
+   */
+  content: string;
+
+  attachments: RequestAttachment[];
+  receivedAt: Date;
+
+  /**
+   * Reply directly to this request.
+   */
+  reply(content: string): Promise<SentMessage>;
+
+  /**
+   * Send a follow-up message in the same conversation.
+   */
+  send(content: string): Promise<SentMessage>;
+
+  /**
+   * Fetch the message this request replies to, if the front end supports it.
+   * May be called more than once per request; implementations should cache the result.
+   */
+  fetchReferencedMessage?(): Promise<ReferencedMessage | undefined>;
+
+  /**
+   * Fetch up to `limit` messages sent in the conversation before this
+   * request, oldest first, if the front end supports it.
+   */
+  fetchRecentMessages?(limit: number): Promise<PriorMessage[]>;
+}
@@ -0,0 +1,52 @@
+/**
+ * Trust tier types.
+ * 
+ * A trust tier is a coarse, per-message classification of the author that
+ * downstream stages may use to adjust behavior (rate limits, tool access).
+ * It NEVER influences persona selection, which stays strictly ID-based.
+ */
+export enum TrustTier {
+  /**
+   * A configured owner (decided by OwnerValidator, never by roles).
+   */
+  OWNER = 'owner',
+
+  /**
+   * Holds a guild role mapped to the team tier.
+   */
+  TEAM = 'team',
+
+  /**
+   * Default for everyone else, including all direct messages.
+   */
+  GUEST = 'guest',
+
+  /**
+   * Holds a guild role mapped to the blocked tier.
+   */
+  BLOCKED = 'blocked',
+}
+
+/**
+ * Tiers that a guild role may map to.
+ * Ownership cannot be granted through roles.
+ */
+export type RoleTrustTier = Exclude<TrustTier, TrustTier.OWNER>;
+
+/**
+ * Role-to-tier mapping for one guild.
+ */
+export interface GuildTrustPolicy {
+  /**
+   * Role ID -> tier.
+   */
+  roles: Readonly<Record<string, RoleTrustTier>>;
+}
+
+/**
+ * Role-to-tier mappings for all guilds, keyed by guild ID.
+ * Guilds without an entry treat every non-owner as a guest.
+ */
+export interface TrustPolicy {
+  guilds: Readonly<Record<string, GuildTrustPolicy>>;
+}
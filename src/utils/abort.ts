@@ -0,0 +1,69 @@
+/**
+ * Create a promise that rejects with the signal's reason once it aborts.
+ * Never resolves; intended for use with Promise.race.
+ * 
+ * @param signal - Abort signal to observe
+ * @returns Promise that rejects on abort
+ */
+export function rejectOnAbort(signal: AbortSignal): Promise<never> {
+  return new Promise<never>((_, reject) => {
+    if (signal.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    signal.addEventListener('abort', () => reject(signal.reason), { once: true });
+  });
+}
+
+/**
+ * Create a child abort controller that aborts whenever the parent signal does.
+ * 
+ * @param parent - Parent signal to follow
+ * @returns Child controller and a function that detaches it from the parent
+ */
+export function createChildController(parent: AbortSignal): {
+  controller: AbortController;
+  detach: () => void;
+} {
+  const controller = new AbortController();
+  const forward = (): void => controller.abort(parent.reason);
+
+  if (parent.aborted) {
+    forward();
+  } else {
+    parent.addEventListener('abort', forward, { once: true });
+  }
+
+  return {
+    controller,
+    detach: () => parent.removeEventListener('abort', forward),
+  };
+}
+
+/**
+ * Wait for a duration, rejecting early if the signal aborts.
+ * 
+ * @param ms - Delay in milliseconds
+ * @param signal - Optional abort signal
+ * @returns Promise that resolves after the delay
+ */
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = (): void => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,75 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Check for a plain JSON object.
+ *
+ * @param value - Value to check
+ * @returns True for non-null, non-array objects
+ */
+export function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Read and parse a JSON file synchronously (for startup loading).
+ *
+ * @param filePath - File to read
+ * @returns Parsed content, or undefined if the file does not exist
+ * @throws Error if the file exists but cannot be read or parsed
+ */
+export function readJsonFileSync(filePath: string): unknown {
+  if (!fs.existsSync(filePath)) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Failed to read JSON file: ${filePath}`, { cause: error });
+  }
+}
+
+/**
+ * Writes a JSON document to one file, atomically and in call order.
+ *
+ * Each write goes to a temporary file that is then renamed over the target,
+ * so readers never see a partial document. Writes are queued, so concurrent
+ * callers persist in the order they called write().
+ */
+export class AtomicJsonWriter {
+  private readonly filePath: string;
+
+  /**
+   * Tail of the write queue.
+   */
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  /**
+   * Replace the file's content.
+   * The value is serialized immediately, so later mutations are not written.
+   *
+   * @param value - JSON-serializable value
+   * @throws Error if the file cannot be written
+   */
+  public write(value: unknown): Promise<void> {
+    const content = JSON.stringify(value, null, 2) + '\n';
+    const tempPath = `${this.filePath}.tmp`;
+
+    const write = this.pending.then(async () => {
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.promises.writeFile(tempPath, content, 'utf-8');
+      await fs.promises.rename(tempPath, this.filePath);
+    });
+    // Keep the queue alive after a failed write; the caller sees the failure
+    this.pending = write.catch(() => undefined);
+
+    return write.catch(error => {
+      throw new Error(`Failed to write JSON file: ${this.filePath}`, { cause: error });
+    });
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * Maximum message length accepted by Discord.
+ */
+export const DISCORD_MESSAGE_LIMIT = 2000;
+
+/**
+ * Space reserved per chunk for closing and re-opening a code fence.
+ */
+const FENCE_RESERVE = 32;
+
+/**
+ * Split text into chunks that fit within a message length limit.
+ * 
+ * Splits on line boundaries where possible and hard-wraps lines that are
+ * longer than the limit. Code fences that are open at a chunk boundary are
+ * closed and re-opened in the next chunk so formatting survives the split.
+ * 
+ * @param text - Text to split
+ * @param maxLength - Maximum length of a single chunk
+ * @returns Non-empty chunks in original order
+ */
+export function chunkMessage(text: string, maxLength: number = DISCORD_MESSAGE_LIMIT): string[] {
+  const limit = maxLength - FENCE_RESERVE;
+
+  if (limit <= 0) {
+    throw new Error(`Chunk length ${maxLength} is too small`);
+  }
+
+  const chunks: string[] = [];
+  let current = '';
+  let openFence: string | null = null;
+
+  const flush = (): void => {
+    if (current.trim().length === 0) {
+      current = '';
+      return;
+    }
+    chunks.push(openFence !== null ? `${current}\n\`\`\`` : current);
+    current = openFence !== null ? `${openFence}\n` : '';
+  };
+
+  for (const line of text.split('\n')) {
+    // Hard-wrap lines that can never fit in a single chunk
+    const pieces: string[] = [];
+    for (let i = 0; i < line.length || i === 0; i += limit) {
+      pieces.push(line.slice(i, i + limit));
+    }
+
+    for (const piece of pieces) {
+      const candidate = current.length === 0 ? piece : `${current}\n${piece}`;
+      if (candidate.length > limit) {
+        flush();
+        current = current.length === 0 ? piece : `${current}${piece}`;
+      } else {
+        current = candidate;
+      }
+    }
+
+    const trimmed = line.trim();
+    if (trimmed.startsWith('```')) {
+      openFence = openFence === null ? trimmed : null;
+    }
+  }
+
+  if (current.trim().length > 0) {
+    chunks.push(current);
+  }
+
+  return chunks;
+}